@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "avatar" TEXT,
+ADD COLUMN     "ensName" TEXT,
+ADD COLUMN     "ensResolvedAt" TIMESTAMP(3);
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "wallets" (
+    "id" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wallets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallets_address_key" ON "wallets"("address");
+
+-- CreateIndex
+CREATE INDEX "wallets_userId_idx" ON "wallets"("userId");
+
+-- AddForeignKey
+ALTER TABLE "wallets" ADD CONSTRAINT "wallets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Link the wallet every existing user signed up with
+INSERT INTO "wallets" ("id", "address", "userId", "createdAt")
+SELECT gen_random_uuid()::TEXT, "publicAddress", "id", "createdAt" FROM "users";
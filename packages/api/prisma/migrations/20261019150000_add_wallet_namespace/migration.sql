@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "wallets" ADD COLUMN "namespace" TEXT NOT NULL DEFAULT 'eip155';
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "auth_events" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "userId" TEXT,
+    "address" TEXT,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "sessionId" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auth_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auth_events_userId_createdAt_idx" ON "auth_events"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "auth_events_address_createdAt_idx" ON "auth_events"("address", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "auth_events_type_createdAt_idx" ON "auth_events"("type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "auth_events_createdAt_idx" ON "auth_events"("createdAt");
@@ -1,18 +1,236 @@
-import { parseDuration } from '@/utils';
+import {
+  parseBoolean,
+  parseDuration,
+  parseList,
+  SOLANA_CHAIN_REFERENCES,
+} from '@/utils';
 import { smartContracts } from './contracts';
 
+function parseAllowedOrigins() {
+  return parseList(
+    process.env.ALLOWED_ORIGINS || 'http://localhost:3000,http://localhost:3001'
+  );
+}
+
+// Hosts of the allowed origins, with and without port, which is what wallets
+// put into the SIWE domain field
+function parseAllowedOriginHosts() {
+  const hosts = parseAllowedOrigins().flatMap((origin) => {
+    const url = new URL(origin);
+    return [url.host, url.hostname];
+  });
+
+  return [...new Set(hosts)];
+}
+
+// CAIP-2 chain IDs users can sign in on: the EVM chain IDs of
+// SIWE_ALLOWED_CHAIN_IDS and the Solana clusters of SIWS_ALLOWED_CHAINS, which
+// are cluster names or CAIP-2 references
+function parseAllowedChains() {
+  const evmChains = parseList(
+    process.env.SIWE_ALLOWED_CHAIN_IDS || '1,31337'
+  ).map((chainId) => `eip155:${chainId}`);
+  const solanaChains = parseList(
+    process.env.SIWS_ALLOWED_CHAINS ?? 'mainnet,devnet'
+  ).map((chain) => `solana:${SOLANA_CHAIN_REFERENCES[chain] ?? chain}`);
+
+  return [...evmChains, ...solanaChains];
+}
+
+// EVM_RPC_URLS is a comma-separated list of <chainId>=<rpcUrl> pairs
+function parseRpcUrls() {
+  const entries = parseList(process.env.EVM_RPC_URLS).map((entry) => {
+    const [chainId, ...rpcUrl] = entry.split('=');
+    return [Number(chainId), rpcUrl.join('=')];
+  });
+
+  return Object.fromEntries(entries) as Record<number, string>;
+}
+
+// TOKEN_GATE_RULES is a JSON array of rules, which the TokenGateService
+// validates on startup
+function parseTokenGateRules(): unknown {
+  return JSON.parse(process.env.TOKEN_GATE_RULES || '[]');
+}
+
+// TRUST_PROXY is passed to express: true, a number of proxy hops, or
+// comma-separated addresses and subnets of the proxies, e.g. loopback
+function parseTrustProxy(): boolean | number | string {
+  const value = process.env.TRUST_PROXY?.trim();
+
+  if (!value || value === 'false') {
+    return false;
+  }
+
+  if (value === 'true') {
+    return true;
+  }
+
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+// Rate limits are written as <limit>/<window>, e.g. 10/1m, and 0 disables them
+function parseRateLimit(value: string | undefined, defaultValue: string) {
+  const [limit, window = '1m'] = (value || defaultValue).split('/');
+
+  if (!Number(limit)) {
+    return null;
+  }
+
+  return { limit: Number(limit), windowMs: parseDuration(window) };
+}
+
 export default () => ({
   port: parseInt(process.env.PORT ?? '3000', 10),
   isProduction: process.env.NODE_ENV === 'production',
+  http: {
+    // Proxies whose X-Forwarded-For is trusted for the client IP, which rate
+    // limits and lockouts are keyed on
+    trustProxy: parseTrustProxy(),
+  },
   database: {
     url: process.env.DATABASE_URL,
   },
+  cors: {
+    // Also the origins the CSRF guard accepts state-changing requests from
+    allowedOrigins: parseAllowedOrigins(),
+  },
   jwt: {
+    issuer:
+      process.env.JWT_ISSUER || `http://localhost:${process.env.PORT ?? 3000}`,
+    audience: process.env.JWT_AUDIENCE || 'siwe-jwt-auth',
     accessSecret:
       process.env.JWT_ACCESS_SECRET || 'your-secret-key-change-in-production',
     accessExpiresIn: parseDuration(process.env.JWT_ACCESS_EXPIRES_IN || '1h'),
+    accessAlgorithm: process.env.JWT_ACCESS_ALGORITHM || 'HS256',
+    // PEM keys are usually passed with escaped newlines through env files
+    accessPrivateKey: process.env.JWT_ACCESS_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    // Encrypts the private keys of the RS256, ES256 and EdDSA keyring in Redis
+    keyEncryptionSecret: process.env.JWT_KEY_ENCRYPTION_SECRET || null,
     refreshSecret: process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key',
     refreshExpiresIn: parseDuration(process.env.JWT_REFRESH_EXPIRES_IN || '7d'),
+    // Elevated access tokens of re-authenticated sessions, for routes that
+    // require a recent sign-in
+    elevatedExpiresIn: parseDuration(
+      process.env.JWT_ELEVATED_EXPIRES_IN || '5m'
+    ),
+    // How long a key signs tokens before the next one takes over, 0 disables
+    // scheduled rotation
+    keyRotationInterval: parseDuration(
+      process.env.JWT_KEY_ROTATION_INTERVAL || '30d'
+    ),
+  },
+  cookies: {
+    // Secure cookies get the __Host- or __Secure- name prefix
+    secure: parseBoolean(
+      process.env.COOKIE_SECURE,
+      process.env.NODE_ENV === 'production'
+    ),
+    httpOnly: parseBoolean(process.env.COOKIE_HTTP_ONLY, true),
+    sameSite: process.env.COOKIE_SAME_SITE || 'lax',
+    domain: process.env.COOKIE_DOMAIN || undefined,
+    refreshPath: process.env.COOKIE_REFRESH_PATH || '/auth/refresh',
+  },
+  siwe: {
+    allowedDomains: process.env.SIWE_ALLOWED_DOMAINS
+      ? parseList(process.env.SIWE_ALLOWED_DOMAINS)
+      : parseAllowedOriginHosts(),
+    allowedUris: process.env.SIWE_ALLOWED_URIS
+      ? parseList(process.env.SIWE_ALLOWED_URIS)
+      : parseAllowedOrigins(),
+    allowedChains: parseAllowedChains(),
+    maxMessageAge: parseDuration(process.env.SIWE_MAX_MESSAGE_AGE || '10m'),
+    clockSkew: parseDuration(process.env.SIWE_CLOCK_SKEW || '30s'),
+    nonceTtl: parseDuration(process.env.SIWE_NONCE_TTL || '5m'),
+    // Resource URI ReCaps grant abilities on, i.e. this API
+    recapResourceUri:
+      process.env.SIWE_RECAP_RESOURCE_URI ||
+      process.env.JWT_ISSUER ||
+      `http://localhost:${process.env.PORT ?? 3000}`,
+  },
+  evm: {
+    rpcUrls: parseRpcUrls(),
+  },
+  lockout: {
+    // Failed sign-ins within the failure window that lock the address or IP
+    // out, 0 disables the lockout
+    maxAddressFailures: parseInt(
+      process.env.LOCKOUT_MAX_ADDRESS_FAILURES ?? '5',
+      10
+    ),
+    maxIpFailures: parseInt(process.env.LOCKOUT_MAX_IP_FAILURES ?? '20', 10),
+    failureWindow: parseDuration(process.env.LOCKOUT_FAILURE_WINDOW || '15m'),
+    // Doubles with every repeated lockout, up to the max duration
+    baseDuration: parseDuration(process.env.LOCKOUT_BASE_DURATION || '1m'),
+    maxDuration: parseDuration(process.env.LOCKOUT_MAX_DURATION || '1h'),
+  },
+  roles: {
+    // Wallets that are made admins, so the first admin can sign in without
+    // another admin granting the role
+    bootstrapAdmins: parseList(process.env.ADMIN_ADDRESSES),
+  },
+  ens: {
+    // Defaults to the RPC URL of the ENS chain in EVM_RPC_URLS
+    rpcUrl:
+      process.env.ENS_RPC_URL ||
+      parseRpcUrls()[parseInt(process.env.ENS_CHAIN_ID ?? '1', 10)] ||
+      null,
+    chainId: parseInt(process.env.ENS_CHAIN_ID ?? '1', 10),
+    // Registry of a local ENS deployment, chains known to ethers (mainnet,
+    // Sepolia, ...) use the official registry
+    registryAddress: process.env.ENS_REGISTRY_ADDRESS || null,
+    // How long resolved names and avatars are kept before they are resolved
+    // again
+    refreshInterval: parseDuration(process.env.ENS_REFRESH_INTERVAL || '24h'),
+  },
+  oidc: {
+    // Page of the frontend that signs users in with SIWE and sends them back
+    // to the authorization endpoint
+    loginUrl: process.env.OIDC_LOGIN_URL || null,
+    codeTtl: parseDuration(process.env.OIDC_CODE_TTL || '1m'),
+    idTokenExpiresIn: parseDuration(
+      process.env.OIDC_ID_TOKEN_EXPIRES_IN || '1h'
+    ),
+  },
+  apiKeys: {
+    // Upper bound of the expiry users can pick for their API keys
+    maxLifetime: parseDuration(process.env.API_KEY_MAX_LIFETIME || '365d'),
+  },
+  webhooks: {
+    timeout: parseDuration(process.env.WEBHOOK_TIMEOUT || '10s'),
+    // Failed deliveries are retried after the base delay, which doubles with
+    // every attempt up to the max delay
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS ?? '8', 10),
+    retryBaseDelay: parseDuration(
+      process.env.WEBHOOK_RETRY_BASE_DELAY || '30s'
+    ),
+    retryMaxDelay: parseDuration(process.env.WEBHOOK_RETRY_MAX_DELAY || '1h'),
+  },
+  tokenGates: {
+    rules: parseTokenGateRules(),
+    // How long the roles of an address are cached, holdings that change in
+    // the meantime apply after the cache expired
+    cacheTtl: parseDuration(process.env.TOKEN_GATE_CACHE_TTL || '5m'),
+  },
+  rateLimit: {
+    // IPs that are never rate limited, e.g. internal services
+    allowlist: parseList(process.env.RATE_LIMIT_ALLOWLIST),
+    routes: {
+      nonce: {
+        ip: parseRateLimit(process.env.RATE_LIMIT_NONCE_IP, '30/1m'),
+        address: parseRateLimit(process.env.RATE_LIMIT_NONCE_ADDRESS, '10/1m'),
+      },
+      signIn: {
+        ip: parseRateLimit(process.env.RATE_LIMIT_SIGN_IN_IP, '20/1m'),
+        address: parseRateLimit(
+          process.env.RATE_LIMIT_SIGN_IN_ADDRESS,
+          '10/1m'
+        ),
+      },
+      refresh: {
+        ip: parseRateLimit(process.env.RATE_LIMIT_REFRESH_IP, '30/1m'),
+      },
+    },
   },
   redis: {
     host: process.env.REDIS_HOST || 'localhost',
@@ -0,0 +1,66 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { AuthEventsService } from './auth-events.service';
+
+describe('AuthEventsService', () => {
+  let service: AuthEventsService;
+
+  // Listeners run in the background
+  const flushListeners = () => new Promise(process.nextTick);
+
+  beforeEach(async () => {
+    jest.spyOn(Logger, 'error').mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AuthEventsService],
+    }).compile();
+
+    service = module.get<AuthEventsService>(AuthEventsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('emit', () => {
+    it('should deliver events to all listeners', async () => {
+      const handle = jest.fn();
+      const otherHandle = jest.fn().mockResolvedValue(undefined);
+      service.subscribe({ handle });
+      service.subscribe({ handle: otherHandle });
+
+      service.emit({ type: 'sign_in.locked_out', address: '0xabc' });
+      await flushListeners();
+
+      const expectedEvent = {
+        type: 'sign_in.locked_out',
+        address: '0xabc',
+        createdAt: expect.any(Date),
+      };
+      expect(handle).toHaveBeenCalledWith(expectedEvent);
+      expect(otherHandle).toHaveBeenCalledWith(expectedEvent);
+    });
+
+    it('should not let a failing listener affect the emitter or others', async () => {
+      const handle = jest.fn();
+      service.subscribe({
+        handle: () => {
+          throw new Error('Listener failed');
+        },
+      });
+      service.subscribe({ handle });
+
+      expect(() =>
+        service.emit({ type: 'sign_in.locked_out', ip: '127.0.0.1' })
+      ).not.toThrow();
+      await flushListeners();
+
+      expect(handle).toHaveBeenCalled();
+      expect(Logger.error).toHaveBeenCalledWith(
+        'Auth event listener failed for sign_in.locked_out',
+        expect.any(Error)
+      );
+    });
+  });
+});
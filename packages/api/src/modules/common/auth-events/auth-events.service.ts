@@ -0,0 +1,66 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+export const AUTH_EVENT_TYPES = [
+  'sign_in.succeeded',
+  'sign_in.failed',
+  'sign_in.locked_out',
+  'session.refreshed',
+  'session.reauthenticated',
+  'session.signed_out',
+  'session.token_reused',
+  'contract.jwt_set',
+  'contract.jwt_set_failed',
+  'username.updated',
+  'user.created',
+] as const;
+
+export type AuthEventType = (typeof AUTH_EVENT_TYPES)[number];
+
+export interface AuthEvent {
+  type: AuthEventType;
+  userId?: string;
+  address?: string;
+  ip?: string;
+  userAgent?: string;
+  sessionId?: string;
+  data?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+/**
+ * Receives auth events, e.g. to write an audit log or notify other systems
+ */
+export interface AuthEventListener {
+  handle(event: AuthEvent): void | Promise<void>;
+}
+
+@Injectable()
+export class AuthEventsService {
+  private readonly listeners: AuthEventListener[] = [];
+
+  /**
+   * Subscribe a listener to all auth events, usually from the onModuleInit
+   * hook of the module that owns the listener
+   * @param listener - The auth event listener
+   */
+  subscribe(listener: AuthEventListener) {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Emit an auth event to all listeners. Listeners run in the background, so
+   * a failing listener never fails the request that emitted the event
+   * @param event - The auth event
+   */
+  emit(event: Omit<AuthEvent, 'createdAt'>) {
+    const authEvent: AuthEvent = { ...event, createdAt: new Date() };
+
+    for (const listener of this.listeners) {
+      Promise.resolve()
+        .then(() => listener.handle(authEvent))
+        .catch((error) =>
+          Logger.error(`Auth event listener failed for ${event.type}`, error)
+        );
+    }
+  }
+}
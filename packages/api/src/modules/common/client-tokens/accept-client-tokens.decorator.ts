@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ACCEPT_CLIENT_TOKENS_KEY = 'acceptClientTokens';
+
+/**
+ * Accept the access tokens of OAuth clients on a route. The JwtAuthGuard and
+ * the SessionAuthGuard reject them everywhere else, as clients are only
+ * granted access to what the OpenID Connect provider exposes to them
+ */
+export const AcceptClientTokens = () =>
+  SetMetadata(ACCEPT_CLIENT_TOKENS_KEY, true);
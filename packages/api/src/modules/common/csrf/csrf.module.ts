@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { CsrfService } from './csrf.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [CsrfService],
+  exports: [CsrfService],
+})
+export class CsrfModule {}
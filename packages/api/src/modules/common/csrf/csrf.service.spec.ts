@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { CsrfService } from './csrf.service';
+
+describe('CsrfService', () => {
+  let mockResponse: jest.Mocked<Pick<Response, 'cookie' | 'clearCookie'>>;
+
+  const baseConfig = {
+    'cookies.secure': false,
+    'cookies.sameSite': 'lax',
+    'cors.allowedOrigins': ['http://localhost:3001'],
+    'jwt.refreshExpiresIn': 7200000,
+  };
+
+  const createService = async (config: Record<string, unknown> = {}) => {
+    const configMap: Record<string, unknown> = { ...baseConfig, ...config };
+    const mockConfigService = {
+      get: jest.fn((key: string) => configMap[key]),
+      getOrThrow: jest.fn((key: string) => configMap[key]),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CsrfService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    return module.get<CsrfService>(CsrfService);
+  };
+
+  const createRequest = (
+    headers: Record<string, string>,
+    cookies: Record<string, string> = {}
+  ) => ({ headers, cookies }) as unknown as Request;
+
+  beforeEach(() => {
+    mockResponse = {
+      cookie: jest.fn(),
+      clearCookie: jest.fn(),
+    } as unknown as jest.Mocked<Pick<Response, 'cookie' | 'clearCookie'>>;
+  });
+
+  describe('issueToken', () => {
+    it('should set a random token in a cookie readable by scripts', async () => {
+      const service = await createService();
+
+      const token = service.issueToken(mockResponse as unknown as Response);
+
+      expect(token).toMatch(/^[\w-]{43}$/);
+      expect(service.issueToken(mockResponse as unknown as Response)).not.toBe(
+        token
+      );
+      expect(mockResponse.cookie).toHaveBeenCalledWith('csrfToken', token, {
+        httpOnly: false,
+        secure: false,
+        sameSite: 'lax',
+        domain: undefined,
+        path: '/',
+        maxAge: 7200000,
+      });
+    });
+
+    it('should prefix the cookie when cookies are secure', async () => {
+      const service = await createService({ 'cookies.secure': true });
+
+      const token = service.issueToken(mockResponse as unknown as Response);
+
+      expect(mockResponse.cookie).toHaveBeenCalledWith(
+        '__Host-csrfToken',
+        token,
+        expect.objectContaining({ secure: true })
+      );
+    });
+  });
+
+  describe('clearToken', () => {
+    it('should clear the token cookie', async () => {
+      const service = await createService();
+
+      service.clearToken(mockResponse as unknown as Response);
+
+      expect(mockResponse.clearCookie).toHaveBeenCalledWith(
+        'csrfToken',
+        expect.objectContaining({ path: '/' })
+      );
+    });
+  });
+
+  describe('hasAllowedOrigin', () => {
+    it('should accept allowed origins', async () => {
+      const service = await createService();
+
+      expect(
+        service.hasAllowedOrigin(
+          createRequest({ origin: 'http://localhost:3001' })
+        )
+      ).toBe(true);
+    });
+
+    it('should reject other origins', async () => {
+      const service = await createService();
+
+      expect(
+        service.hasAllowedOrigin(createRequest({ origin: 'https://evil.com' }))
+      ).toBe(false);
+    });
+
+    it('should fall back to the origin of the referer', async () => {
+      const service = await createService();
+
+      expect(
+        service.hasAllowedOrigin(
+          createRequest({ referer: 'http://localhost:3001/profile' })
+        )
+      ).toBe(true);
+      expect(
+        service.hasAllowedOrigin(
+          createRequest({ referer: 'https://evil.com/page' })
+        )
+      ).toBe(false);
+      expect(
+        service.hasAllowedOrigin(createRequest({ referer: 'not-a-url' }))
+      ).toBe(false);
+    });
+
+    it('should accept requests without origin', async () => {
+      const service = await createService();
+
+      expect(service.hasAllowedOrigin(createRequest({}))).toBe(true);
+    });
+  });
+
+  describe('hasValidToken', () => {
+    it('should accept a header matching the cookie', async () => {
+      const service = await createService();
+
+      expect(
+        service.hasValidToken(
+          createRequest({ 'x-csrf-token': 'token' }, { csrfToken: 'token' })
+        )
+      ).toBe(true);
+    });
+
+    it('should reject a header not matching the cookie', async () => {
+      const service = await createService();
+
+      expect(
+        service.hasValidToken(
+          createRequest({ 'x-csrf-token': 'other' }, { csrfToken: 'token' })
+        )
+      ).toBe(false);
+    });
+
+    it('should reject requests without header or cookie', async () => {
+      const service = await createService();
+
+      expect(
+        service.hasValidToken(createRequest({}, { csrfToken: 'token' }))
+      ).toBe(false);
+      expect(
+        service.hasValidToken(createRequest({ 'x-csrf-token': 'token' }))
+      ).toBe(false);
+    });
+  });
+});
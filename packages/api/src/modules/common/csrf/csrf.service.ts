@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { CookieOptions, Request, Response } from 'express';
+
+export const CSRF_HEADER = 'x-csrf-token';
+
+/**
+ * Double-submit CSRF tokens. The token is stored in a cookie that scripts of
+ * the allowed origins can read and must be echoed in the `X-CSRF-Token`
+ * header, which a cross-site form or image cannot do
+ */
+@Injectable()
+export class CsrfService {
+  private readonly secure: boolean;
+  private readonly domain: string | undefined;
+  private readonly allowedOrigins: string[];
+
+  constructor(private readonly configService: ConfigService) {
+    this.secure = this.configService.getOrThrow<boolean>('cookies.secure');
+    this.domain = this.configService.get<string>('cookies.domain');
+    this.allowedOrigins = this.configService.getOrThrow<string[]>(
+      'cors.allowedOrigins'
+    );
+  }
+
+  // The __Host- prefix keeps sibling subdomains from planting a known token
+  private get cookieName(): string {
+    if (!this.secure) {
+      return 'csrfToken';
+    }
+
+    return this.domain ? '__Secure-csrfToken' : '__Host-csrfToken';
+  }
+
+  private getOptions(): CookieOptions {
+    return {
+      httpOnly: false,
+      secure: this.secure,
+      sameSite:
+        this.configService.getOrThrow<CookieOptions['sameSite']>(
+          'cookies.sameSite'
+        ),
+      domain: this.domain,
+      path: '/',
+    };
+  }
+
+  /**
+   * Generate a new CSRF token and set it as a cookie
+   * @param res - The response
+   * @returns The CSRF token
+   */
+  issueToken(res: Response): string {
+    const token = randomBytes(32).toString('base64url');
+
+    // The token lives as long as the refresh token it protects
+    res.cookie(this.cookieName, token, {
+      ...this.getOptions(),
+      maxAge: this.configService.getOrThrow<number>('jwt.refreshExpiresIn'),
+    });
+
+    return token;
+  }
+
+  /**
+   * Clear the CSRF token cookie
+   * @param res - The response
+   */
+  clearToken(res: Response) {
+    res.clearCookie(this.cookieName, this.getOptions());
+  }
+
+  /**
+   * Check that the request comes from an allowed origin. Requests without an
+   * `Origin` or `Referer` header are not sent by a browser page and pass
+   * @param req - The request
+   * @returns Whether the origin of the request is allowed
+   */
+  hasAllowedOrigin(req: Request): boolean {
+    const origin = req.headers.origin ?? this.getRefererOrigin(req);
+
+    if (!origin) {
+      return true;
+    }
+
+    return this.allowedOrigins.includes(origin);
+  }
+
+  /**
+   * Check that the CSRF token header matches the CSRF token cookie
+   * @param req - The request
+   * @returns Whether the request carries a valid CSRF token
+   */
+  hasValidToken(req: Request): boolean {
+    const cookieToken = req.cookies?.[this.cookieName] as string | undefined;
+    const headerToken = req.headers[CSRF_HEADER];
+
+    if (!cookieToken || typeof headerToken !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(cookieToken);
+    const actual = Buffer.from(headerToken);
+
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  private getRefererOrigin(req: Request): string | undefined {
+    const referer = req.headers.referer;
+
+    if (!referer) {
+      return undefined;
+    }
+
+    try {
+      return new URL(referer).origin;
+    } catch {
+      return 'null';
+    }
+  }
+}
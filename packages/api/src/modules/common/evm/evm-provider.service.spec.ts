@@ -0,0 +1,70 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { EvmProviderService } from './evm-provider.service';
+
+describe('EvmProviderService', () => {
+  let service: EvmProviderService;
+  let mockConfigService: jest.Mocked<ConfigService>;
+
+  beforeEach(async () => {
+    mockConfigService = {
+      get: jest.fn((key: string) => {
+        const config = {
+          'evm.rpcUrls': { 31337: 'http://localhost:8545' },
+        };
+        return config[key];
+      }),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EvmProviderService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<EvmProviderService>(EvmProviderService);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.clearAllMocks();
+  });
+
+  describe('getProvider', () => {
+    it('should create a provider for a configured chain', () => {
+      const provider = service.getProvider(31337);
+
+      expect(provider).toBeInstanceOf(ethers.JsonRpcProvider);
+    });
+
+    it('should reuse the provider for the same chain', () => {
+      const firstProvider = service.getProvider(31337);
+      const secondProvider = service.getProvider(31337);
+
+      expect(secondProvider).toBe(firstProvider);
+    });
+
+    it('should return null for a chain without RPC URL', () => {
+      const provider = service.getProvider(1);
+
+      expect(provider).toBeNull();
+    });
+  });
+
+  describe('onModuleDestroy', () => {
+    it('should destroy created providers', () => {
+      const provider = service.getProvider(31337) as ethers.JsonRpcProvider;
+      const destroySpy = jest.spyOn(provider, 'destroy');
+
+      service.onModuleDestroy();
+
+      expect(destroySpy).toHaveBeenCalledTimes(1);
+      expect(service.getProvider(31337)).not.toBe(provider);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+
+@Injectable()
+export class EvmProviderService implements OnModuleDestroy {
+  private readonly rpcUrls: Record<number, string>;
+  private readonly providers = new Map<number, ethers.JsonRpcProvider>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.rpcUrls =
+      this.configService.get<Record<number, string>>('evm.rpcUrls') ?? {};
+  }
+
+  /**
+   * Get a JSON-RPC provider for a chain
+   * @param chainId - The EIP-155 chain ID
+   * @returns The provider or null if no RPC URL is configured for the chain
+   */
+  getProvider(chainId: number): ethers.Provider | null {
+    const existingProvider = this.providers.get(chainId);
+    if (existingProvider) {
+      return existingProvider;
+    }
+
+    const rpcUrl = this.rpcUrls[chainId];
+    if (!rpcUrl) {
+      return null;
+    }
+
+    // The network is known upfront, so skip the detection round-trip
+    const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, {
+      staticNetwork: true,
+    });
+    this.providers.set(chainId, provider);
+
+    return provider;
+  }
+
+  onModuleDestroy() {
+    for (const provider of this.providers.values()) {
+      provider.destroy();
+    }
+    this.providers.clear();
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { EvmProviderService } from './evm-provider.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [EvmProviderService],
+  exports: [EvmProviderService],
+})
+export class EvmModule {}
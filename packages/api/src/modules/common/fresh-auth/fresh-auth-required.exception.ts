@@ -0,0 +1,18 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export const FRESH_AUTH_REQUIRED_CODE = 'FRESH_AUTH_REQUIRED';
+
+export class FreshAuthRequiredException extends HttpException {
+  constructor(public readonly maxAge: number) {
+    super(
+      {
+        statusCode: HttpStatus.UNAUTHORIZED,
+        code: FRESH_AUTH_REQUIRED_CODE,
+        message:
+          'Recent authentication required, re-authenticate with your wallet',
+        maxAge,
+      },
+      HttpStatus.UNAUTHORIZED
+    );
+  }
+}
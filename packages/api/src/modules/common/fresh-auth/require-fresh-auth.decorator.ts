@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const FRESH_AUTH_MAX_AGE_KEY = 'freshAuthMaxAge';
+
+/**
+ * Require the user to have signed in or re-authenticated with their wallet
+ * recently, enforced by the FreshAuthGuard after the JwtAuthGuard
+ * @param maxAgeSeconds - Maximum age of the auth_time of the access token
+ */
+export const RequireFreshAuth = (maxAgeSeconds: number) =>
+  SetMetadata(FRESH_AUTH_MAX_AGE_KEY, maxAgeSeconds);
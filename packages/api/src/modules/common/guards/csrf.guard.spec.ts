@@ -0,0 +1,69 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Request } from 'express';
+import { CsrfGuard } from './csrf.guard';
+import { CsrfService } from '@/modules/common/csrf/csrf.service';
+
+describe('CsrfGuard', () => {
+  let guard: CsrfGuard;
+  let mockCsrfService: jest.Mocked<CsrfService>;
+
+  const createContext = (headers: Record<string, string> = {}) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({ headers }) as unknown as Request,
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    mockCsrfService = {
+      hasAllowedOrigin: jest.fn().mockReturnValue(true),
+      hasValidToken: jest.fn().mockReturnValue(true),
+    } as unknown as jest.Mocked<CsrfService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CsrfGuard,
+        {
+          provide: CsrfService,
+          useValue: mockCsrfService,
+        },
+      ],
+    }).compile();
+
+    guard = module.get<CsrfGuard>(CsrfGuard);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should allow requests with a valid token from an allowed origin', () => {
+    expect(guard.canActivate(createContext())).toBe(true);
+  });
+
+  it('should exempt bearer-authenticated requests', () => {
+    mockCsrfService.hasValidToken.mockReturnValue(false);
+
+    expect(
+      guard.canActivate(createContext({ authorization: 'Bearer token' }))
+    ).toBe(true);
+    expect(mockCsrfService.hasValidToken).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests from other origins', () => {
+    mockCsrfService.hasAllowedOrigin.mockReturnValue(false);
+
+    expect(() => guard.canActivate(createContext())).toThrow(
+      new ForbiddenException('Request origin is not allowed')
+    );
+  });
+
+  it('should reject requests without a valid token', () => {
+    mockCsrfService.hasValidToken.mockReturnValue(false);
+
+    expect(() => guard.canActivate(createContext())).toThrow(
+      new ForbiddenException('Invalid CSRF token')
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { CsrfService } from '@/modules/common/csrf/csrf.service';
+
+@Injectable()
+export class CsrfGuard implements CanActivate {
+  constructor(private readonly csrfService: CsrfService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const req = context.switchToHttp().getRequest<Request>();
+
+    // Browsers never attach an Authorization header on their own, and a
+    // cross-site page cannot set one without passing the CORS preflight
+    if (req.headers.authorization?.startsWith('Bearer ')) {
+      return true;
+    }
+
+    if (!this.csrfService.hasAllowedOrigin(req)) {
+      throw new ForbiddenException('Request origin is not allowed');
+    }
+
+    if (!this.csrfService.hasValidToken(req)) {
+      throw new ForbiddenException('Invalid CSRF token');
+    }
+
+    return true;
+  }
+}
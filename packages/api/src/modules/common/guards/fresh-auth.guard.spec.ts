@@ -0,0 +1,96 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Request } from 'express';
+import { FreshAuthGuard } from './fresh-auth.guard';
+import { FreshAuthRequiredException } from '@/modules/common/fresh-auth/fresh-auth-required.exception';
+
+describe('FreshAuthGuard', () => {
+  let guard: FreshAuthGuard;
+  let mockReflector: jest.Mocked<Reflector>;
+  let mockResponse: { setHeader: jest.Mock };
+
+  const now = new Date('2024-01-01T00:10:00.000Z');
+  const nowSeconds = now.getTime() / 1000;
+
+  const createContext = (authTime?: number | null) =>
+    ({
+      getHandler: () => () => undefined,
+      getClass: () => class {},
+      switchToHttp: () => ({
+        getRequest: () =>
+          ({
+            auth:
+              authTime !== undefined
+                ? { sessionId: 'test-session-id', tokenId: 'test', authTime }
+                : undefined,
+          }) as unknown as Request,
+        getResponse: () => mockResponse,
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(now.getTime());
+
+    mockReflector = {
+      getAllAndOverride: jest.fn(),
+    } as unknown as jest.Mocked<Reflector>;
+
+    mockResponse = {
+      setHeader: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FreshAuthGuard,
+        {
+          provide: Reflector,
+          useValue: mockReflector,
+        },
+      ],
+    }).compile();
+
+    guard = module.get<FreshAuthGuard>(FreshAuthGuard);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should allow routes without a maximum age', () => {
+    mockReflector.getAllAndOverride.mockReturnValue(undefined);
+
+    expect(guard.canActivate(createContext(null))).toBe(true);
+  });
+
+  it('should allow tokens authenticated within the maximum age', () => {
+    mockReflector.getAllAndOverride.mockReturnValue(300);
+
+    expect(guard.canActivate(createContext(nowSeconds - 300))).toBe(true);
+    expect(mockResponse.setHeader).not.toHaveBeenCalled();
+  });
+
+  it('should challenge tokens authenticated too long ago', () => {
+    mockReflector.getAllAndOverride.mockReturnValue(300);
+
+    expect(() => guard.canActivate(createContext(nowSeconds - 301))).toThrow(
+      new FreshAuthRequiredException(300)
+    );
+    expect(mockResponse.setHeader).toHaveBeenCalledWith(
+      'WWW-Authenticate',
+      'Bearer error="insufficient_user_authentication", max_age=300'
+    );
+  });
+
+  it('should challenge API keys and unauthenticated requests', () => {
+    mockReflector.getAllAndOverride.mockReturnValue(300);
+
+    expect(() => guard.canActivate(createContext(null))).toThrow(
+      FreshAuthRequiredException
+    );
+    expect(() => guard.canActivate(createContext())).toThrow(
+      FreshAuthRequiredException
+    );
+  });
+});
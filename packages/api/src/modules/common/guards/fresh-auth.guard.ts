@@ -0,0 +1,44 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import { FRESH_AUTH_MAX_AGE_KEY } from '@/modules/common/fresh-auth/require-fresh-auth.decorator';
+import { FreshAuthRequiredException } from '@/modules/common/fresh-auth/fresh-auth-required.exception';
+
+/**
+ * Checks the @RequireFreshAuth() of the route against the auth_time of the
+ * access token. Runs after JwtAuthGuard, which reads the auth_time from the
+ * token. API keys never count as fresh
+ */
+@Injectable()
+export class FreshAuthGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const maxAge = this.reflector.getAllAndOverride<number | undefined>(
+      FRESH_AUTH_MAX_AGE_KEY,
+      [context.getHandler(), context.getClass()]
+    );
+
+    if (maxAge === undefined) {
+      return true;
+    }
+
+    const req = context.switchToHttp().getRequest<Request>();
+    const authTime = req.auth?.authTime ?? null;
+
+    if (authTime !== null && Date.now() / 1000 - authTime <= maxAge) {
+      return true;
+    }
+
+    // Step-up challenge of RFC 9470, clients re-authenticate and retry
+    context
+      .switchToHttp()
+      .getResponse<Response>()
+      .setHeader(
+        'WWW-Authenticate',
+        `Bearer error="insufficient_user_authentication", max_age=${maxAge}`
+      );
+
+    throw new FreshAuthRequiredException(maxAge);
+  }
+}
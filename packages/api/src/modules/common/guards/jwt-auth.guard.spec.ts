@@ -0,0 +1,66 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Request } from 'express';
+import { OidcController } from '@/modules/main/oidc/oidc.controller';
+import { UserController } from '@/modules/main/user/user.controller';
+import { JwtAuthGuard } from './jwt-auth.guard';
+
+describe('JwtAuthGuard', () => {
+  let guard: JwtAuthGuard;
+
+  const createContext = (
+    controller: new (...args: never[]) => unknown,
+    handler: string,
+    clientId: string | null
+  ) =>
+    ({
+      getHandler: () =>
+        (controller.prototype as Record<string, () => unknown>)[handler],
+      getClass: () => controller,
+      switchToHttp: () => ({
+        getRequest: () =>
+          ({
+            auth: { type: 'session', sessionId: 'test-session-id', clientId },
+          }) as unknown as Request,
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    // Passport is not under test, the strategies have authenticated the
+    // request by the time the client check runs
+    jest
+      .spyOn(Object.getPrototypeOf(JwtAuthGuard.prototype), 'canActivate')
+      .mockResolvedValue(true);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [JwtAuthGuard, Reflector],
+    }).compile();
+
+    guard = module.get<JwtAuthGuard>(JwtAuthGuard);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should accept the tokens of first-party sessions', async () => {
+    await expect(
+      guard.canActivate(createContext(UserController, 'me', null))
+    ).resolves.toBe(true);
+  });
+
+  it('should reject the tokens of OAuth clients on first-party routes', async () => {
+    await expect(
+      guard.canActivate(createContext(UserController, 'me', 'test-client-id'))
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should accept the tokens of OAuth clients on the userinfo endpoint', async () => {
+    await expect(
+      guard.canActivate(
+        createContext(OidcController, 'getUserInfo', 'test-client-id')
+      )
+    ).resolves.toBe(true);
+  });
+});
@@ -1,5 +1,55 @@
-import { Injectable } from '@nestjs/common';
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
+import type { Request } from 'express';
+import { ACCEPT_CLIENT_TOKENS_KEY } from '@/modules/common/client-tokens/accept-client-tokens.decorator';
 
+/**
+ * Reject the access tokens of OAuth clients on routes without
+ * @AcceptClientTokens(). Runs after the request is authenticated
+ * @param reflector - The reflector to read the route metadata with
+ * @param context - The execution context of the request
+ * @throws ForbiddenException when the token was issued to an OAuth client
+ */
+export function rejectClientTokens(
+  reflector: Reflector,
+  context: ExecutionContext
+) {
+  const req = context.switchToHttp().getRequest<Request>();
+
+  if (!req.auth?.clientId) {
+    return;
+  }
+
+  const acceptClientTokens = reflector.getAllAndOverride<boolean | undefined>(
+    ACCEPT_CLIENT_TOKENS_KEY,
+    [context.getHandler(), context.getClass()]
+  );
+
+  if (!acceptClientTokens) {
+    throw new ForbiddenException(
+      'Access tokens of OAuth clients are not accepted by this endpoint'
+    );
+  }
+}
+
+/**
+ * Authenticates the request with an access token or an API key. The API key
+ * strategy runs first and leaves everything but API keys to the JWT strategy
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {}
+export class JwtAuthGuard extends AuthGuard(['api-key', 'jwt']) {
+  constructor(private readonly reflector: Reflector) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const canActivate = (await super.canActivate(context)) as boolean;
+    rejectClientTokens(this.reflector, context);
+    return canActivate;
+  }
+}
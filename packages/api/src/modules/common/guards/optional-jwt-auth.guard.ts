@@ -0,0 +1,13 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Authenticates the request like the JwtAuthGuard when it carries a valid
+ * access token, but lets it through without a user otherwise
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest<TUser>(error: unknown, user: TUser | false): TUser {
+    return (user || undefined) as TUser;
+  }
+}
@@ -0,0 +1,136 @@
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Request, Response } from 'express';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitService } from '@/modules/common/rate-limit/rate-limit.service';
+import { RateLimitOptions } from '@/modules/common/rate-limit/rate-limit.decorator';
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+  let mockRateLimitService: jest.Mocked<RateLimitService>;
+  let mockReflector: jest.Mocked<Reflector>;
+  let mockResponse: jest.Mocked<Pick<Response, 'setHeader'>>;
+
+  const mockRequest = {
+    ip: '127.0.0.1',
+    query: { address: '0xAb16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb' },
+  } as unknown as Request;
+
+  const createContext = () =>
+    ({
+      getHandler: () => () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => mockRequest,
+        getResponse: () => mockResponse,
+      }),
+    }) as unknown as ExecutionContext;
+
+  const options: RateLimitOptions = {
+    route: 'nonce',
+    getAddress: (req) => req.query.address as string,
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(100000);
+
+    mockRateLimitService = {
+      isAllowlisted: jest.fn().mockReturnValue(false),
+      consume: jest.fn(),
+    } as unknown as jest.Mocked<RateLimitService>;
+
+    mockReflector = {
+      get: jest.fn().mockReturnValue(options),
+    } as unknown as jest.Mocked<Reflector>;
+
+    mockResponse = {
+      setHeader: jest.fn(),
+    } as unknown as jest.Mocked<Pick<Response, 'setHeader'>>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitGuard,
+        {
+          provide: RateLimitService,
+          useValue: mockRateLimitService,
+        },
+        {
+          provide: Reflector,
+          useValue: mockReflector,
+        },
+      ],
+    }).compile();
+
+    guard = module.get<RateLimitGuard>(RateLimitGuard);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should allow requests under the limit and set the headers', async () => {
+    mockRateLimitService.consume.mockResolvedValue({
+      allowed: true,
+      limit: 10,
+      remaining: 7,
+      resetAt: 130500,
+    });
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+
+    expect(mockRateLimitService.consume).toHaveBeenCalledWith('nonce', {
+      ip: '127.0.0.1',
+      address: '0xAb16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb',
+    });
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('RateLimit-Limit', 10);
+    expect(mockResponse.setHeader).toHaveBeenCalledWith(
+      'RateLimit-Remaining',
+      7
+    );
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('RateLimit-Reset', 31);
+    expect(mockResponse.setHeader).not.toHaveBeenCalledWith(
+      'Retry-After',
+      expect.anything()
+    );
+  });
+
+  it('should reject requests over the limit with Retry-After', async () => {
+    mockRateLimitService.consume.mockResolvedValue({
+      allowed: false,
+      limit: 10,
+      remaining: 0,
+      resetAt: 112000,
+    });
+
+    await expect(guard.canActivate(createContext())).rejects.toThrow(
+      new HttpException('Too many requests', HttpStatus.TOO_MANY_REQUESTS)
+    );
+
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', 12);
+  });
+
+  it('should skip allowlisted clients', async () => {
+    mockRateLimitService.isAllowlisted.mockReturnValue(true);
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+
+    expect(mockRateLimitService.consume).not.toHaveBeenCalled();
+  });
+
+  it('should skip routes without rate limit', async () => {
+    mockReflector.get.mockReturnValue(undefined);
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+
+    expect(mockRateLimitService.consume).not.toHaveBeenCalled();
+  });
+
+  it('should skip routes whose limits are disabled', async () => {
+    mockRateLimitService.consume.mockResolvedValue(null);
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+
+    expect(mockResponse.setHeader).not.toHaveBeenCalled();
+  });
+});
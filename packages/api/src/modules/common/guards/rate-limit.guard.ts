@@ -0,0 +1,63 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import {
+  RATE_LIMIT_KEY,
+  RateLimitOptions,
+} from '@/modules/common/rate-limit/rate-limit.decorator';
+import { RateLimitService } from '@/modules/common/rate-limit/rate-limit.service';
+
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimitService: RateLimitService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.get<RateLimitOptions | undefined>(
+      RATE_LIMIT_KEY,
+      context.getHandler()
+    );
+    const req = context.switchToHttp().getRequest<Request>();
+    const res = context.switchToHttp().getResponse<Response>();
+
+    if (!options || this.rateLimitService.isAllowlisted(req.ip)) {
+      return true;
+    }
+
+    const result = await this.rateLimitService.consume(options.route, {
+      ip: req.ip,
+      address: options.getAddress?.(req),
+    });
+
+    if (!result) {
+      return true;
+    }
+
+    const resetSeconds = Math.max(
+      0,
+      Math.ceil((result.resetAt - Date.now()) / 1000)
+    );
+
+    res.setHeader('RateLimit-Limit', result.limit);
+    res.setHeader('RateLimit-Remaining', result.remaining);
+    res.setHeader('RateLimit-Reset', resetSeconds);
+
+    if (!result.allowed) {
+      res.setHeader('Retry-After', resetSeconds);
+      throw new HttpException(
+        'Too many requests',
+        HttpStatus.TOO_MANY_REQUESTS
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,96 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Request } from 'express';
+import { Role } from 'generated/prisma';
+import { RolesGuard } from './roles.guard';
+
+describe('RolesGuard', () => {
+  let guard: RolesGuard;
+  let mockReflector: jest.Mocked<Reflector>;
+
+  const createContext = (role?: Role, tokenRoles: string[] = []) =>
+    ({
+      getHandler: () => () => undefined,
+      getClass: () => class {},
+      switchToHttp: () => ({
+        getRequest: () =>
+          ({
+            user: role ? { role } : undefined,
+            auth: role ? { roles: tokenRoles } : undefined,
+          }) as unknown as Request,
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    mockReflector = {
+      getAllAndOverride: jest.fn(),
+    } as unknown as jest.Mocked<Reflector>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RolesGuard,
+        {
+          provide: Reflector,
+          useValue: mockReflector,
+        },
+      ],
+    }).compile();
+
+    guard = module.get<RolesGuard>(RolesGuard);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should allow routes without roles', () => {
+    mockReflector.getAllAndOverride.mockReturnValue(undefined);
+
+    expect(guard.canActivate(createContext('user'))).toBe(true);
+  });
+
+  it('should allow users holding a required role', () => {
+    mockReflector.getAllAndOverride.mockReturnValue(['moderator']);
+
+    expect(guard.canActivate(createContext('moderator'))).toBe(true);
+  });
+
+  it('should grant more privileged roles the roles below them', () => {
+    mockReflector.getAllAndOverride.mockReturnValue(['moderator']);
+
+    expect(guard.canActivate(createContext('admin'))).toBe(true);
+  });
+
+  it('should reject users without a required role', () => {
+    mockReflector.getAllAndOverride.mockReturnValue(['admin']);
+
+    expect(() => guard.canActivate(createContext('moderator'))).toThrow(
+      new ForbiddenException('Insufficient role')
+    );
+  });
+
+  it('should allow holders of a token-gated role', () => {
+    mockReflector.getAllAndOverride.mockReturnValue(['holder']);
+
+    expect(guard.canActivate(createContext('user', ['user', 'holder']))).toBe(
+      true
+    );
+  });
+
+  it('should ignore built-in roles in the token', () => {
+    mockReflector.getAllAndOverride.mockReturnValue(['admin']);
+
+    expect(() =>
+      guard.canActivate(createContext('user', ['user', 'admin']))
+    ).toThrow(new ForbiddenException('Insufficient role'));
+  });
+
+  it('should reject unauthenticated requests', () => {
+    mockReflector.getAllAndOverride.mockReturnValue(['user']);
+
+    expect(() => guard.canActivate(createContext())).toThrow(
+      ForbiddenException
+    );
+  });
+});
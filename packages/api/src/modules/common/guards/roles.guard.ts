@@ -0,0 +1,49 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import {
+  RequiredRole,
+  ROLES_KEY,
+} from '@/modules/common/roles/roles.decorator';
+import { getGrantedRoles, ROLE_HIERARCHY } from '@/modules/common/roles/roles';
+
+/**
+ * Checks the @Roles() of the route against the role of the user and the
+ * token-gated roles of the access token. Runs after JwtAuthGuard, which loads
+ * the user of the request, so changes of the user role apply to the next
+ * request
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredRoles = this.reflector.getAllAndOverride<
+      RequiredRole[] | undefined
+    >(ROLES_KEY, [context.getHandler(), context.getClass()]);
+
+    if (!requiredRoles?.length) {
+      return true;
+    }
+
+    const req = context.switchToHttp().getRequest<Request>();
+    // Built-in roles in the token may be outdated, only the database counts
+    const gatedRoles = (req.auth?.roles ?? []).filter(
+      (role) => !(ROLE_HIERARCHY as string[]).includes(role)
+    );
+    const grantedRoles: string[] = req.user
+      ? [...getGrantedRoles(req.user.role), ...gatedRoles]
+      : [];
+
+    if (!requiredRoles.some((role) => grantedRoles.includes(role))) {
+      throw new ForbiddenException('Insufficient role');
+    }
+
+    return true;
+  }
+}
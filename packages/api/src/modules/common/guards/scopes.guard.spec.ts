@@ -0,0 +1,84 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Request } from 'express';
+import { ScopesGuard } from './scopes.guard';
+
+describe('ScopesGuard', () => {
+  let guard: ScopesGuard;
+  let mockReflector: jest.Mocked<Reflector>;
+
+  const createContext = (scopes?: string[]) =>
+    ({
+      getHandler: () => () => undefined,
+      getClass: () => class {},
+      switchToHttp: () => ({
+        getRequest: () =>
+          ({
+            auth: scopes
+              ? { sessionId: 'test-session-id', tokenId: 'test', scopes }
+              : undefined,
+          }) as unknown as Request,
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    mockReflector = {
+      getAllAndOverride: jest.fn(),
+    } as unknown as jest.Mocked<Reflector>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScopesGuard,
+        {
+          provide: Reflector,
+          useValue: mockReflector,
+        },
+      ],
+    }).compile();
+
+    guard = module.get<ScopesGuard>(ScopesGuard);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should allow routes without required scopes', () => {
+    mockReflector.getAllAndOverride.mockReturnValue(undefined);
+
+    expect(guard.canActivate(createContext([]))).toBe(true);
+  });
+
+  it('should allow tokens with all required scopes', () => {
+    mockReflector.getAllAndOverride.mockReturnValue([
+      'profile:read',
+      'profile:write',
+    ]);
+
+    expect(
+      guard.canActivate(
+        createContext(['profile:read', 'profile:write', 'sessions:read'])
+      )
+    ).toBe(true);
+  });
+
+  it('should reject tokens missing a required scope', () => {
+    mockReflector.getAllAndOverride.mockReturnValue([
+      'profile:read',
+      'profile:write',
+    ]);
+
+    expect(() => guard.canActivate(createContext(['profile:read']))).toThrow(
+      new ForbiddenException('Insufficient scope, requires profile:write')
+    );
+  });
+
+  it('should reject unauthenticated requests', () => {
+    mockReflector.getAllAndOverride.mockReturnValue(['profile:read']);
+
+    expect(() => guard.canActivate(createContext())).toThrow(
+      ForbiddenException
+    );
+  });
+});
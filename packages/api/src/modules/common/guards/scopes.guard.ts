@@ -0,0 +1,42 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { REQUIRED_SCOPES_KEY } from '@/modules/common/scopes/require-scopes.decorator';
+
+/**
+ * Checks the @RequireScopes() of the route against the scopes of the access
+ * token. Runs after JwtAuthGuard, which reads the scopes from the token
+ */
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredScopes = this.reflector.getAllAndOverride<
+      string[] | undefined
+    >(REQUIRED_SCOPES_KEY, [context.getHandler(), context.getClass()]);
+
+    if (!requiredScopes?.length) {
+      return true;
+    }
+
+    const req = context.switchToHttp().getRequest<Request>();
+    const grantedScopes = req.auth?.scopes ?? [];
+    const missingScopes = requiredScopes.filter(
+      (scope) => !grantedScopes.includes(scope)
+    );
+
+    if (missingScopes.length) {
+      throw new ForbiddenException(
+        `Insufficient scope, requires ${missingScopes.join(', ')}`
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,79 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Request } from 'express';
+import { AdminUserController } from '@/modules/main/user/admin-user.controller';
+import { SessionAuthGuard } from './session-auth.guard';
+
+describe('SessionAuthGuard', () => {
+  let guard: SessionAuthGuard;
+
+  const createContext = (auth: Partial<NonNullable<Request['auth']>>) =>
+    ({
+      getHandler: () =>
+        (AdminUserController.prototype as unknown as Record<string, unknown>)
+          .updateRole,
+      getClass: () => AdminUserController,
+      switchToHttp: () => ({
+        getRequest: () => ({ auth }) as unknown as Request,
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    // Passport is not under test, the strategies have authenticated the
+    // request by the time the guard checks how
+    jest
+      .spyOn(Object.getPrototypeOf(SessionAuthGuard.prototype), 'canActivate')
+      .mockResolvedValue(true);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SessionAuthGuard, Reflector],
+    }).compile();
+
+    guard = module.get<SessionAuthGuard>(SessionAuthGuard);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should accept the tokens of signed-in sessions', async () => {
+    await expect(
+      guard.canActivate(
+        createContext({
+          type: 'session',
+          sessionId: 'test-session-id',
+          roles: ['admin'],
+          clientId: null,
+        })
+      )
+    ).resolves.toBe(true);
+  });
+
+  it('should reject scoped API keys of admins on admin routes', async () => {
+    await expect(
+      guard.canActivate(
+        createContext({
+          type: 'api-key',
+          sessionId: null,
+          scopes: ['profile:read', 'profile:write'],
+          roles: ['admin'],
+          clientId: null,
+        })
+      )
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should reject the tokens of OAuth clients', async () => {
+    await expect(
+      guard.canActivate(
+        createContext({
+          type: 'session',
+          sessionId: 'test-session-id',
+          roles: ['admin'],
+          clientId: 'test-client-id',
+        })
+      )
+    ).rejects.toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,35 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from '@nestjs/passport';
+import type { Request } from 'express';
+import { rejectClientTokens } from './jwt-auth.guard';
+
+/**
+ * Authenticates the request like the JwtAuthGuard, but only with access
+ * tokens of signed-in sessions. API keys are recognized, so that they are
+ * refused with 403 rather than failing as invalid access tokens
+ */
+@Injectable()
+export class SessionAuthGuard extends AuthGuard(['api-key', 'jwt']) {
+  constructor(private readonly reflector: Reflector) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const canActivate = (await super.canActivate(context)) as boolean;
+    const req = context.switchToHttp().getRequest<Request>();
+
+    if (req.auth?.type === 'api-key') {
+      throw new ForbiddenException(
+        'API keys are not accepted by this endpoint, sign in instead'
+      );
+    }
+
+    rejectClientTokens(this.reflector, context);
+    return canActivate;
+  }
+}
@@ -0,0 +1,21 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Request } from 'express';
+
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+export interface RateLimitOptions {
+  // Name of the route in the rateLimit.routes config
+  route: string;
+  // Wallet address the request is made for, if the route limits by address
+  getAddress?: (req: Request) => string | undefined;
+}
+
+/**
+ * Rate limit a route, enforced by the RateLimitGuard
+ * @param route - The route name in the rateLimit.routes config
+ * @param getAddress - Reads the wallet address from the request
+ */
+export const RateLimit = (
+  route: string,
+  getAddress?: RateLimitOptions['getAddress']
+) => SetMetadata(RATE_LIMIT_KEY, { route, getAddress });
@@ -0,0 +1,140 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { RateLimitService } from './rate-limit.service';
+import { RedisService } from '@/modules/common/redis/redis.service';
+
+describe('RateLimitService', () => {
+  let service: RateLimitService;
+  let mockRedisService: jest.Mocked<RedisService>;
+
+  const config: Record<string, unknown> = {
+    'rateLimit.allowlist': ['10.0.0.1'],
+    'rateLimit.routes.signIn': {
+      ip: { limit: 20, windowMs: 60000 },
+      address: { limit: 5, windowMs: 60000 },
+    },
+    'rateLimit.routes.refresh': {
+      ip: { limit: 30, windowMs: 60000 },
+    },
+    'rateLimit.routes.disabled': {
+      ip: null,
+      address: null,
+    },
+  };
+
+  beforeEach(async () => {
+    mockRedisService = {
+      hitSlidingWindow: jest.fn(),
+    } as unknown as jest.Mocked<RedisService>;
+
+    const mockConfigService = {
+      getOrThrow: jest.fn((key: string) => config[key]),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitService,
+        {
+          provide: RedisService,
+          useValue: mockRedisService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RateLimitService>(RateLimitService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isAllowlisted', () => {
+    it('should match allowlisted IPs', () => {
+      expect(service.isAllowlisted('10.0.0.1')).toBe(true);
+      expect(service.isAllowlisted('::ffff:10.0.0.1')).toBe(true);
+    });
+
+    it('should not match other IPs', () => {
+      expect(service.isAllowlisted('10.0.0.2')).toBe(false);
+      expect(service.isAllowlisted(undefined)).toBe(false);
+    });
+  });
+
+  describe('consume', () => {
+    it('should count the request per IP and per address', async () => {
+      mockRedisService.hitSlidingWindow
+        .mockResolvedValueOnce({ allowed: true, count: 3, resetAt: 1000 })
+        .mockResolvedValueOnce({ allowed: true, count: 2, resetAt: 2000 });
+
+      const result = await service.consume('signIn', {
+        ip: '::ffff:127.0.0.1',
+        address: '0xAb16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb',
+      });
+
+      expect(mockRedisService.hitSlidingWindow).toHaveBeenCalledWith(
+        'rate-limit:signIn:ip:127.0.0.1',
+        20,
+        60000
+      );
+      expect(mockRedisService.hitSlidingWindow).toHaveBeenCalledWith(
+        'rate-limit:signIn:address:0xab16a96d359ec26a11e2c2b3d8f8b8942d5bfcdb',
+        5,
+        60000
+      );
+      // The address limit has fewer requests left
+      expect(result).toEqual({
+        allowed: true,
+        limit: 5,
+        remaining: 3,
+        resetAt: 2000,
+      });
+    });
+
+    it('should reject when the IP limit is reached', async () => {
+      mockRedisService.hitSlidingWindow.mockResolvedValueOnce({
+        allowed: false,
+        count: 20,
+        resetAt: 1000,
+      });
+
+      const result = await service.consume('signIn', {
+        ip: '127.0.0.1',
+        address: '0xAb16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb',
+      });
+
+      expect(result).toEqual({
+        allowed: false,
+        limit: 20,
+        remaining: 0,
+        resetAt: 1000,
+      });
+      expect(mockRedisService.hitSlidingWindow).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the address limit when there is no address', async () => {
+      mockRedisService.hitSlidingWindow.mockResolvedValue({
+        allowed: true,
+        count: 1,
+        resetAt: 1000,
+      });
+
+      await service.consume('signIn', { ip: '127.0.0.1' });
+
+      expect(mockRedisService.hitSlidingWindow).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null when the route has no limits', async () => {
+      const result = await service.consume('disabled', {
+        ip: '127.0.0.1',
+        address: '0xAb16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb',
+      });
+
+      expect(result).toBeNull();
+      expect(mockRedisService.hitSlidingWindow).not.toHaveBeenCalled();
+    });
+  });
+});
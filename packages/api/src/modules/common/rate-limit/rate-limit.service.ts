@@ -0,0 +1,100 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '@/modules/common/redis/redis.service';
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitRouteConfig {
+  ip?: RateLimitRule | null;
+  address?: RateLimitRule | null;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds at which the window frees up again
+  resetAt: number;
+}
+
+@Injectable()
+export class RateLimitService {
+  private readonly allowlist: string[];
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService
+  ) {
+    this.allowlist = this.configService
+      .getOrThrow<string[]>('rateLimit.allowlist')
+      .map((ip) => this.normalizeIp(ip));
+  }
+
+  // Express reports IPv4 clients of a dual-stack server as ::ffff:1.2.3.4
+  private normalizeIp(ip: string): string {
+    return ip.replace(/^::ffff:/, '');
+  }
+
+  /**
+   * Check if an IP is exempt from rate limiting
+   * @param ip - The client IP
+   * @returns True if the IP is in the allowlist
+   */
+  isAllowlisted(ip: string | undefined): boolean {
+    return !!ip && this.allowlist.includes(this.normalizeIp(ip));
+  }
+
+  /**
+   * Count a request against the IP and address limits of a route
+   * @param route - The route name in the rateLimit.routes config
+   * @param keys - The client IP and the wallet address of the request
+   * @returns The most restrictive limit that applies, or null if the route
+   * has no limit for the given keys
+   */
+  async consume(
+    route: string,
+    keys: { ip?: string; address?: string }
+  ): Promise<RateLimitResult | null> {
+    const config = this.configService.getOrThrow<RateLimitRouteConfig>(
+      `rateLimit.routes.${route}`
+    );
+    const windows: [string, RateLimitRule][] = [];
+
+    if (config.ip && keys.ip) {
+      windows.push([`ip:${this.normalizeIp(keys.ip)}`, config.ip]);
+    }
+
+    if (config.address && keys.address) {
+      windows.push([`address:${keys.address.toLowerCase()}`, config.address]);
+    }
+
+    let result: RateLimitResult | null = null;
+
+    for (const [key, rule] of windows) {
+      const hit = await this.redisService.hitSlidingWindow(
+        `rate-limit:${route}:${key}`,
+        rule.limit,
+        rule.windowMs
+      );
+      const current: RateLimitResult = {
+        allowed: hit.allowed,
+        limit: rule.limit,
+        remaining: Math.max(0, rule.limit - hit.count),
+        resetAt: hit.resetAt,
+      };
+
+      if (!current.allowed) {
+        return current;
+      }
+
+      if (!result || current.remaining < result.remaining) {
+        result = current;
+      }
+    }
+
+    return result;
+  }
+}
@@ -16,9 +16,17 @@ describe('RedisService', () => {
       set: jest.fn(),
       setex: jest.fn(),
       get: jest.fn(),
+      getdel: jest.fn(),
       exists: jest.fn(),
       del: jest.fn(),
       keys: jest.fn(),
+      scan: jest.fn(),
+      expire: jest.fn(),
+      incr: jest.fn(),
+      sadd: jest.fn(),
+      smembers: jest.fn(),
+      srem: jest.fn(),
+      eval: jest.fn(),
       quit: jest.fn(),
     } as unknown as jest.Mocked<Redis>;
 
@@ -94,6 +102,39 @@ describe('RedisService', () => {
     });
   });
 
+  describe('setIfNotExists', () => {
+    it('should set the key with TTL when it does not exist', async () => {
+      mockRedisClient.set.mockResolvedValue('OK');
+
+      const result = await service.setIfNotExists('mykey', 'myvalue', 30);
+
+      expect(result).toBe(true);
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        'mykey',
+        'myvalue',
+        'EX',
+        30,
+        'NX'
+      );
+    });
+
+    it('should return false when the key already exists', async () => {
+      mockRedisClient.set.mockResolvedValue(null);
+
+      const result = await service.setIfNotExists('mykey', 'myvalue', 30);
+
+      expect(result).toBe(false);
+    });
+
+    it('should throw ServiceUnavailableException on error', async () => {
+      mockRedisClient.set.mockRejectedValue(new Error('Redis error'));
+
+      await expect(
+        service.setIfNotExists('mykey', 'myvalue', 30)
+      ).rejects.toThrow(ServiceUnavailableException);
+    });
+  });
+
   describe('get', () => {
     it('should get value by key', async () => {
       mockRedisClient.get.mockResolvedValue('myvalue');
@@ -121,6 +162,33 @@ describe('RedisService', () => {
     });
   });
 
+  describe('getDelete', () => {
+    it('should get and delete value by key', async () => {
+      mockRedisClient.getdel.mockResolvedValue('myvalue');
+
+      const result = await service.getDelete('mykey');
+
+      expect(result).toBe('myvalue');
+      expect(mockRedisClient.getdel).toHaveBeenCalledWith('mykey');
+    });
+
+    it('should return null when key does not exist', async () => {
+      mockRedisClient.getdel.mockResolvedValue(null);
+
+      const result = await service.getDelete('nonexistent');
+
+      expect(result).toBeNull();
+    });
+
+    it('should throw ServiceUnavailableException on error', async () => {
+      mockRedisClient.getdel.mockRejectedValue(new Error('Redis error'));
+
+      await expect(service.getDelete('mykey')).rejects.toThrow(
+        ServiceUnavailableException
+      );
+    });
+  });
+
   describe('exists', () => {
     it('should return true when key exists', async () => {
       mockRedisClient.exists.mockResolvedValue(1);
@@ -208,6 +276,197 @@ describe('RedisService', () => {
     });
   });
 
+  describe('scan', () => {
+    it('should follow the cursor until the scan is complete', async () => {
+      mockRedisClient.scan
+        .mockResolvedValueOnce(['12', ['user:1', 'user:2']])
+        .mockResolvedValueOnce(['0', ['user:2', 'user:3']]);
+
+      const result = await service.scan('user:*');
+
+      expect(result).toEqual(['user:1', 'user:2', 'user:3']);
+      expect(mockRedisClient.scan).toHaveBeenNthCalledWith(
+        1,
+        '0',
+        'MATCH',
+        'user:*',
+        'COUNT',
+        100
+      );
+      expect(mockRedisClient.scan).toHaveBeenNthCalledWith(
+        2,
+        '12',
+        'MATCH',
+        'user:*',
+        'COUNT',
+        100
+      );
+      expect(mockRedisClient.keys).not.toHaveBeenCalled();
+    });
+
+    it('should throw ServiceUnavailableException on error', async () => {
+      mockRedisClient.scan.mockRejectedValue(new Error('Redis error'));
+
+      await expect(service.scan('user:*')).rejects.toThrow(
+        ServiceUnavailableException
+      );
+    });
+  });
+
+  describe('expire', () => {
+    it('should set TTL on key', async () => {
+      mockRedisClient.expire.mockResolvedValue(1);
+
+      await service.expire('mykey', 3600);
+
+      expect(mockRedisClient.expire).toHaveBeenCalledWith('mykey', 3600);
+    });
+
+    it('should throw ServiceUnavailableException on error', async () => {
+      mockRedisClient.expire.mockRejectedValue(new Error('Redis error'));
+
+      await expect(service.expire('mykey', 3600)).rejects.toThrow(
+        ServiceUnavailableException
+      );
+    });
+  });
+
+  describe('increment', () => {
+    it('should increment the counter and start its TTL in one script', async () => {
+      mockRedisClient.eval.mockResolvedValue(3);
+
+      const result = await service.increment('mycounter', 60);
+
+      expect(result).toBe(3);
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(
+        expect.stringContaining("redis.call('EXPIRE', KEYS[1], ARGV[1])"),
+        1,
+        'mycounter',
+        60
+      );
+      expect(mockRedisClient.incr).not.toHaveBeenCalled();
+      expect(mockRedisClient.expire).not.toHaveBeenCalled();
+    });
+
+    it('should throw ServiceUnavailableException on error', async () => {
+      mockRedisClient.eval.mockRejectedValue(new Error('Redis error'));
+
+      await expect(service.increment('mycounter', 60)).rejects.toThrow(
+        ServiceUnavailableException
+      );
+    });
+  });
+
+  describe('addToSet', () => {
+    it('should add members to set', async () => {
+      mockRedisClient.sadd.mockResolvedValue(2);
+
+      await service.addToSet('myset', 'member1', 'member2');
+
+      expect(mockRedisClient.sadd).toHaveBeenCalledWith(
+        'myset',
+        'member1',
+        'member2'
+      );
+    });
+
+    it('should not call sadd when no members provided', async () => {
+      await service.addToSet('myset');
+
+      expect(mockRedisClient.sadd).not.toHaveBeenCalled();
+    });
+
+    it('should throw ServiceUnavailableException on error', async () => {
+      mockRedisClient.sadd.mockRejectedValue(new Error('Redis error'));
+
+      await expect(service.addToSet('myset', 'member1')).rejects.toThrow(
+        ServiceUnavailableException
+      );
+    });
+  });
+
+  describe('getSetMembers', () => {
+    it('should return set members', async () => {
+      mockRedisClient.smembers.mockResolvedValue(['member1', 'member2']);
+
+      const result = await service.getSetMembers('myset');
+
+      expect(result).toEqual(['member1', 'member2']);
+      expect(mockRedisClient.smembers).toHaveBeenCalledWith('myset');
+    });
+
+    it('should throw ServiceUnavailableException on error', async () => {
+      mockRedisClient.smembers.mockRejectedValue(new Error('Redis error'));
+
+      await expect(service.getSetMembers('myset')).rejects.toThrow(
+        ServiceUnavailableException
+      );
+    });
+  });
+
+  describe('removeFromSet', () => {
+    it('should remove members from set', async () => {
+      mockRedisClient.srem.mockResolvedValue(1);
+
+      await service.removeFromSet('myset', 'member1');
+
+      expect(mockRedisClient.srem).toHaveBeenCalledWith('myset', 'member1');
+    });
+
+    it('should not call srem when no members provided', async () => {
+      await service.removeFromSet('myset');
+
+      expect(mockRedisClient.srem).not.toHaveBeenCalled();
+    });
+
+    it('should throw ServiceUnavailableException on error', async () => {
+      mockRedisClient.srem.mockRejectedValue(new Error('Redis error'));
+
+      await expect(service.removeFromSet('myset', 'member1')).rejects.toThrow(
+        ServiceUnavailableException
+      );
+    });
+  });
+
+  describe('hitSlidingWindow', () => {
+    it('should record an allowed hit', async () => {
+      const dateNowSpy = jest.spyOn(Date, 'now').mockReturnValue(1000000);
+      mockRedisClient.eval.mockResolvedValue([1, 3, '990000']);
+
+      const result = await service.hitSlidingWindow('mywindow', 5, 60000);
+
+      expect(result).toEqual({ allowed: true, count: 3, resetAt: 1050000 });
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        1,
+        'mywindow',
+        1000000,
+        60000,
+        5,
+        expect.stringMatching(/^1000000:/)
+      );
+
+      dateNowSpy.mockRestore();
+    });
+
+    it('should report a rejected hit', async () => {
+      mockRedisClient.eval.mockResolvedValue([0, 5, '990000']);
+
+      const result = await service.hitSlidingWindow('mywindow', 5, 60000);
+
+      expect(result.allowed).toBe(false);
+      expect(result.count).toBe(5);
+    });
+
+    it('should throw ServiceUnavailableException on error', async () => {
+      mockRedisClient.eval.mockRejectedValue(new Error('Redis error'));
+
+      await expect(
+        service.hitSlidingWindow('mywindow', 5, 60000)
+      ).rejects.toThrow(ServiceUnavailableException);
+    });
+  });
+
   describe('onModuleDestroy', () => {
     it('should quit Redis client', async () => {
       mockRedisClient.quit.mockResolvedValue('OK');
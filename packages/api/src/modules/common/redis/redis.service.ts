@@ -5,6 +5,44 @@ import {
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+
+// Drops the hits that left the window and records the new hit if the limit
+// is not reached yet, in one round trip so concurrent replicas cannot race
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return {allowed, count, oldest[2] or now}
+`;
+
+// Increments a counter and starts its TTL with the first increment, in one
+// step so a failure in between cannot leave a counter that never expires
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then
+  redis.call('EXPIRE', KEYS[1], ARGV[1])
+end
+return count
+`;
+
+export interface SlidingWindowHit {
+  allowed: boolean;
+  // Hits in the window, including this one if it was allowed
+  count: number;
+  // Epoch milliseconds at which the oldest hit leaves the window
+  resetAt: number;
+}
 
 @Injectable()
 export class RedisService implements OnModuleDestroy {
@@ -36,6 +74,26 @@ export class RedisService implements OnModuleDestroy {
     }
   }
 
+  /**
+   * Set a key-value pair with a TTL only if the key does not exist yet
+   * @param key - The key to set
+   * @param value - The value to store
+   * @param ttlSeconds - TTL in seconds
+   * @returns True if the key was set, false if it already existed
+   */
+  async setIfNotExists(
+    key: string,
+    value: string,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    try {
+      const result = await this.client.set(key, value, 'EX', ttlSeconds, 'NX');
+      return result === 'OK';
+    } catch (error) {
+      throw new ServiceUnavailableException('Redis service unavailable');
+    }
+  }
+
   /**
    * Get a value by key
    * @param key - The key to retrieve
@@ -49,6 +107,19 @@ export class RedisService implements OnModuleDestroy {
     }
   }
 
+  /**
+   * Atomically get a value and delete its key
+   * @param key - The key to consume
+   * @returns The value or null if not found
+   */
+  async getDelete(key: string): Promise<string | null> {
+    try {
+      return await this.client.getdel(key);
+    } catch (error) {
+      throw new ServiceUnavailableException('Redis service unavailable');
+    }
+  }
+
   /**
    * Check if a key exists
    * @param key - The key to check
@@ -90,6 +161,146 @@ export class RedisService implements OnModuleDestroy {
     }
   }
 
+  /**
+   * Find keys matching a pattern with SCAN, which unlike KEYS does not block
+   * Redis while it walks the keyspace
+   * @param pattern - The pattern to match (e.g., "user:*")
+   * @returns Array of matching keys
+   */
+  async scan(pattern: string): Promise<string[]> {
+    try {
+      const keys = new Set<string>();
+      let cursor = '0';
+
+      do {
+        const [nextCursor, batch] = await this.client.scan(
+          cursor,
+          'MATCH',
+          pattern,
+          'COUNT',
+          100
+        );
+        // SCAN may return a key more than once
+        batch.forEach((key) => keys.add(key));
+        cursor = nextCursor;
+      } while (cursor !== '0');
+
+      return [...keys];
+    } catch (error) {
+      throw new ServiceUnavailableException('Redis service unavailable');
+    }
+  }
+
+  /**
+   * Increment a counter, starting its TTL with the first increment
+   * @param key - The counter key
+   * @param ttlSeconds - TTL in seconds, counted from the first increment
+   * @returns The counter value after the increment
+   */
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    try {
+      return (await this.client.eval(
+        INCREMENT_SCRIPT,
+        1,
+        key,
+        ttlSeconds
+      )) as number;
+    } catch (error) {
+      throw new ServiceUnavailableException('Redis service unavailable');
+    }
+  }
+
+  /**
+   * Set the TTL of an existing key
+   * @param key - The key to expire
+   * @param ttlSeconds - TTL in seconds
+   */
+  async expire(key: string, ttlSeconds: number): Promise<void> {
+    try {
+      await this.client.expire(key, ttlSeconds);
+    } catch (error) {
+      throw new ServiceUnavailableException('Redis service unavailable');
+    }
+  }
+
+  /**
+   * Add one or more members to a set
+   * @param key - The set key
+   * @param members - The members to add
+   */
+  async addToSet(key: string, ...members: string[]): Promise<void> {
+    try {
+      if (members.length > 0) {
+        await this.client.sadd(key, ...members);
+      }
+    } catch (error) {
+      throw new ServiceUnavailableException('Redis service unavailable');
+    }
+  }
+
+  /**
+   * Get all members of a set
+   * @param key - The set key
+   * @returns Array of members, empty if the set does not exist
+   */
+  async getSetMembers(key: string): Promise<string[]> {
+    try {
+      return await this.client.smembers(key);
+    } catch (error) {
+      throw new ServiceUnavailableException('Redis service unavailable');
+    }
+  }
+
+  /**
+   * Remove one or more members from a set
+   * @param key - The set key
+   * @param members - The members to remove
+   */
+  async removeFromSet(key: string, ...members: string[]): Promise<void> {
+    try {
+      if (members.length > 0) {
+        await this.client.srem(key, ...members);
+      }
+    } catch (error) {
+      throw new ServiceUnavailableException('Redis service unavailable');
+    }
+  }
+
+  /**
+   * Record a hit in a sliding window log, unless the window is full
+   * @param key - The window key
+   * @param limit - Maximum number of hits in the window
+   * @param windowMs - Window length in milliseconds
+   * @returns Whether the hit was allowed, the hits in the window and when
+   * the oldest hit expires
+   */
+  async hitSlidingWindow(
+    key: string,
+    limit: number,
+    windowMs: number
+  ): Promise<SlidingWindowHit> {
+    try {
+      const now = Date.now();
+      const [allowed, count, oldest] = (await this.client.eval(
+        SLIDING_WINDOW_SCRIPT,
+        1,
+        key,
+        now,
+        windowMs,
+        limit,
+        `${now}:${randomUUID()}`
+      )) as [number, number, string | number];
+
+      return {
+        allowed: allowed === 1,
+        count,
+        resetAt: Number(oldest) + windowMs,
+      };
+    } catch (error) {
+      throw new ServiceUnavailableException('Redis service unavailable');
+    }
+  }
+
   async onModuleDestroy() {
     await this.client.quit();
   }
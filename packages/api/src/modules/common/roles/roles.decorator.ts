@@ -0,0 +1,15 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from 'generated/prisma';
+
+// Built-in roles or token-gated roles, e.g. member
+export type RequiredRole = Role | (string & {});
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Restrict a controller or route to users holding one of the roles, enforced
+ * by the RolesGuard after the JwtAuthGuard
+ * @param roles - The roles that may access the route
+ */
+export const Roles = (...roles: RequiredRole[]) =>
+  SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,16 @@
+import { Role } from 'generated/prisma';
+
+/**
+ * Roles from least to most privileged. Every role is granted the roles
+ * below it, so moderator routes are open to admins as well
+ */
+export const ROLE_HIERARCHY: Role[] = [Role.user, Role.moderator, Role.admin];
+
+/**
+ * Get the roles a user with the given role holds
+ * @param role - The role assigned to the user
+ * @returns The role itself and every less privileged role
+ */
+export function getGrantedRoles(role: Role): Role[] {
+  return ROLE_HIERARCHY.slice(0, ROLE_HIERARCHY.indexOf(role) + 1);
+}
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const REQUIRED_SCOPES_KEY = 'requiredScopes';
+
+/**
+ * Require the access token to carry all of the scopes, enforced by the
+ * ScopesGuard after the JwtAuthGuard
+ * @param scopes - The registered scopes the route requires
+ */
+export const RequireScopes = (...scopes: string[]) =>
+  SetMetadata(REQUIRED_SCOPES_KEY, scopes);
@@ -0,0 +1,58 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ScopeRegistryService } from './scope-registry.service';
+
+describe('ScopeRegistryService', () => {
+  let service: ScopeRegistryService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ScopeRegistryService],
+    }).compile();
+
+    service = module.get<ScopeRegistryService>(ScopeRegistryService);
+
+    service.register(
+      { name: 'profile:write', description: 'Update', default: true },
+      { name: 'admin:read', description: 'Admin' },
+      { name: 'profile:read', description: 'Read', default: true }
+    );
+  });
+
+  describe('register', () => {
+    it('should register scopes', () => {
+      expect(service.has('profile:read')).toBe(true);
+      expect(service.has('profile:delete')).toBe(false);
+    });
+
+    it('should reject invalid scope names', () => {
+      expect(() =>
+        service.register({ name: 'profile/read', description: 'Read' })
+      ).toThrow('Invalid scope name "profile/read"');
+    });
+
+    it('should reject duplicate scopes', () => {
+      expect(() =>
+        service.register({ name: 'profile:read', description: 'Read' })
+      ).toThrow('Scope "profile:read" is already registered');
+    });
+  });
+
+  describe('list', () => {
+    it('should list the scopes sorted by name', () => {
+      expect(service.list().map((scope) => scope.name)).toEqual([
+        'admin:read',
+        'profile:read',
+        'profile:write',
+      ]);
+    });
+  });
+
+  describe('getDefaultScopes', () => {
+    it('should only return the default scopes', () => {
+      expect(service.getDefaultScopes()).toEqual([
+        'profile:read',
+        'profile:write',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+
+// Scopes are written as <namespace>:<name>, the ReCap ability
+// <namespace>/<name> grants them
+const SCOPE_REGEX = /^[a-z][a-z0-9-]*:[a-z][a-z0-9-]*$/;
+
+export interface ScopeDefinition {
+  name: string;
+  description: string;
+  // Granted to sign-ins without a ReCap, so clients that do not ask for
+  // capabilities keep working
+  default?: boolean;
+}
+
+@Injectable()
+export class ScopeRegistryService {
+  private readonly scopes = new Map<string, ScopeDefinition>();
+
+  /**
+   * Register the scopes of a module, usually from its onModuleInit hook
+   * @param definitions - The scope definitions
+   * @throws Error when a scope name is invalid or already registered
+   */
+  register(...definitions: ScopeDefinition[]) {
+    for (const definition of definitions) {
+      if (!SCOPE_REGEX.test(definition.name)) {
+        throw new Error(`Invalid scope name "${definition.name}"`);
+      }
+
+      if (this.scopes.has(definition.name)) {
+        throw new Error(`Scope "${definition.name}" is already registered`);
+      }
+
+      this.scopes.set(definition.name, definition);
+    }
+  }
+
+  /**
+   * Check whether a scope is registered
+   * @param name - The scope name
+   * @returns True if the scope is registered
+   */
+  has(name: string): boolean {
+    return this.scopes.has(name);
+  }
+
+  /**
+   * List all registered scopes
+   * @returns The scope definitions, sorted by name
+   */
+  list(): ScopeDefinition[] {
+    return [...this.scopes.values()].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * Get the scopes of sign-ins without a ReCap
+   * @returns The names of the default scopes, sorted
+   */
+  getDefaultScopes(): string[] {
+    return this.list()
+      .filter((definition) => definition.default)
+      .map((definition) => definition.name);
+  }
+}
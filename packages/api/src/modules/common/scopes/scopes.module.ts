@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { ScopeRegistryService } from './scope-registry.service';
+
+@Module({
+  providers: [ScopeRegistryService],
+  exports: [ScopeRegistryService],
+})
+export class ScopesModule {}
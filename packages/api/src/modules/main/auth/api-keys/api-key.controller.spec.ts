@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { Request } from 'express';
+import { ApiKey, User } from 'generated/prisma';
+import { CsrfGuard } from '@/modules/common/guards/csrf.guard';
+import { ApiKeyController } from './api-key.controller';
+import { ApiKeyService } from './api-key.service';
+
+describe('ApiKeyController', () => {
+  let controller: ApiKeyController;
+  let mockApiKeyService: jest.Mocked<ApiKeyService>;
+
+  const mockUser: User = {
+    id: 'test-user-id',
+    publicAddress: '0x1234567890abcdef',
+    username: 'test-user',
+    role: 'user',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockApiKey: ApiKey = {
+    id: 'test-api-key-id',
+    userId: mockUser.id,
+    name: 'Deploy bot',
+    prefix: 'pat_abcdefgh',
+    keyHash: 'test-key-hash',
+    scopes: ['profile:write'],
+    expiresAt: new Date('2024-02-01'),
+    lastUsedAt: null,
+    createdAt: new Date('2024-01-01'),
+  };
+
+  const publicApiKey = {
+    id: mockApiKey.id,
+    userId: mockApiKey.userId,
+    name: mockApiKey.name,
+    prefix: mockApiKey.prefix,
+    scopes: mockApiKey.scopes,
+    expiresAt: mockApiKey.expiresAt,
+    lastUsedAt: mockApiKey.lastUsedAt,
+    createdAt: mockApiKey.createdAt,
+  };
+
+  const mockRequest = {
+    user: mockUser,
+    auth: {
+      type: 'session',
+      sessionId: 'test-session-id',
+      tokenId: 'test-token-id',
+      scopes: ['profile:write', 'sessions:read'],
+      roles: ['user'],
+    },
+  } as unknown as Request;
+
+  beforeEach(async () => {
+    mockApiKeyService = {
+      list: jest.fn().mockResolvedValue([mockApiKey]),
+      create: jest
+        .fn()
+        .mockResolvedValue({ apiKey: mockApiKey, key: 'pat_test-key' }),
+      revoke: jest.fn(),
+      toPublic: jest.fn().mockReturnValue(publicApiKey),
+    } as unknown as jest.Mocked<ApiKeyService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ApiKeyController],
+      providers: [
+        {
+          provide: ApiKeyService,
+          useValue: mockApiKeyService,
+        },
+      ],
+    })
+      .overrideGuard(CsrfGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<ApiKeyController>(ApiKeyController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getApiKeys', () => {
+    it('should list the keys of the user without their hash', async () => {
+      await expect(controller.getApiKeys(mockRequest)).resolves.toEqual([
+        publicApiKey,
+      ]);
+      expect(mockApiKeyService.list).toHaveBeenCalledWith(mockUser.id);
+    });
+
+    it('should throw when the user is missing', async () => {
+      await expect(controller.getApiKeys({} as Request)).rejects.toThrow(
+        UnauthorizedException
+      );
+    });
+  });
+
+  describe('createApiKey', () => {
+    it('should create keys within the scopes of the session', async () => {
+      const body = {
+        name: 'Deploy bot',
+        scopes: ['profile:write'],
+        expiresAt: '2024-02-01T00:00:00.000Z',
+      };
+
+      await expect(controller.createApiKey(mockRequest, body)).resolves.toEqual(
+        { ...publicApiKey, key: 'pat_test-key' }
+      );
+      expect(mockApiKeyService.create).toHaveBeenCalledWith(mockUser.id, body, [
+        'profile:write',
+        'sessions:read',
+      ]);
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    it('should revoke keys of the user', async () => {
+      await controller.revokeApiKey(mockRequest, mockApiKey.id);
+
+      expect(mockApiKeyService.revoke).toHaveBeenCalledWith(
+        mockUser.id,
+        mockApiKey.id
+      );
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { SessionAuthGuard } from '@/modules/common/guards/session-auth.guard';
+import { CsrfGuard } from '@/modules/common/guards/csrf.guard';
+import { ApiKeyService } from './api-key.service';
+import { CreateApiKeyDTO } from './dto/create-api-key.dto';
+
+// Keys are managed from signed-in sessions only, so a leaked key cannot be
+// used to create further keys
+@Controller('/auth/api-keys')
+@UseGuards(SessionAuthGuard)
+export class ApiKeyController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Get()
+  async getApiKeys(@Req() req: Request) {
+    if (!req.user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const apiKeys = await this.apiKeyService.list(req.user.id);
+    return apiKeys.map((apiKey) => this.apiKeyService.toPublic(apiKey));
+  }
+
+  @Post()
+  @UseGuards(CsrfGuard)
+  async createApiKey(@Req() req: Request, @Body() body: CreateApiKeyDTO) {
+    if (!req.user || !req.auth) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const { apiKey, key } = await this.apiKeyService.create(
+      req.user.id,
+      body,
+      req.auth.scopes
+    );
+
+    // The key is only shown once
+    return { ...this.apiKeyService.toPublic(apiKey), key };
+  }
+
+  @Delete('/:id')
+  @UseGuards(CsrfGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeApiKey(@Req() req: Request, @Param('id') id: string) {
+    if (!req.user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    await this.apiKeyService.revoke(req.user.id, id);
+  }
+}
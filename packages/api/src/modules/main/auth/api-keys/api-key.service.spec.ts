@@ -0,0 +1,233 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { ApiKey, User } from 'generated/prisma';
+import { OrmService } from '@/modules/common/orm/orm.service';
+import { ApiKeyService } from './api-key.service';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  let mockOrmService: {
+    apiKey: {
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      findMany: jest.Mock;
+      update: jest.Mock;
+      deleteMany: jest.Mock;
+    };
+  };
+
+  const now = new Date('2024-01-01T00:00:00.000Z');
+  const day = 24 * 60 * 60 * 1000;
+
+  const mockUser: User = {
+    id: 'test-user-id',
+    publicAddress: '0x1234567890abcdef',
+    username: 'test-user',
+    role: 'user',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockApiKey: ApiKey = {
+    id: 'test-api-key-id',
+    userId: mockUser.id,
+    name: 'Deploy bot',
+    prefix: 'pat_abcdefgh',
+    keyHash: 'test-key-hash',
+    scopes: ['profile:write'],
+    expiresAt: new Date(now.getTime() + 30 * day),
+    lastUsedAt: null,
+    createdAt: now,
+  };
+
+  const createParams = {
+    name: 'Deploy bot',
+    scopes: ['profile:write'],
+    expiresAt: new Date(now.getTime() + 30 * day).toISOString(),
+  };
+
+  const getUpdatedData = () =>
+    (mockOrmService.apiKey.update.mock.calls[0] as [{ data: object }])[0].data;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now });
+
+    mockOrmService = {
+      apiKey: {
+        create: jest.fn((params: { data: Partial<ApiKey> }) =>
+          Promise.resolve({ ...mockApiKey, ...params.data })
+        ),
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ ...mockApiKey, user: mockUser }),
+        findMany: jest.fn().mockResolvedValue([mockApiKey]),
+        update: jest.fn(),
+        deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+
+    const mockConfigService = {
+      getOrThrow: jest.fn().mockReturnValue(365 * day),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        {
+          provide: OrmService,
+          useValue: mockOrmService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeyService>(ApiKeyService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store the hash of a new key', async () => {
+      const { apiKey, key } = await service.create(mockUser.id, createParams, [
+        'profile:write',
+        'sessions:read',
+      ]);
+
+      expect(key).toMatch(/^pat_[A-Za-z0-9_-]{43}$/);
+      expect(mockOrmService.apiKey.create).toHaveBeenCalledWith({
+        data: {
+          userId: mockUser.id,
+          name: 'Deploy bot',
+          prefix: key.slice(0, 12),
+          keyHash: createHash('sha256').update(key).digest('hex'),
+          scopes: ['profile:write'],
+          expiresAt: new Date(createParams.expiresAt),
+        },
+      });
+      expect(apiKey.prefix).toEqual(key.slice(0, 12));
+    });
+
+    it('should reject scopes the session does not hold', async () => {
+      await expect(
+        service.create(
+          mockUser.id,
+          { ...createParams, scopes: ['profile:write', 'sessions:write'] },
+          ['profile:write']
+        )
+      ).rejects.toThrow(
+        new HttpException(
+          'Scope sessions:write is not granted to the session',
+          HttpStatus.BAD_REQUEST
+        )
+      );
+      expect(mockOrmService.apiKey.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject expiries in the past or beyond the maximum lifetime', async () => {
+      for (const expiresAt of [
+        new Date(now.getTime() - 1000),
+        new Date(now.getTime() + 366 * day),
+      ]) {
+        await expect(
+          service.create(
+            mockUser.id,
+            { ...createParams, expiresAt: expiresAt.toISOString() },
+            ['profile:write']
+          )
+        ).rejects.toThrow(
+          'Expiry must be in the future and within the maximum key lifetime'
+        );
+      }
+      expect(mockOrmService.apiKey.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('toPublic', () => {
+    it('should strip the key hash', () => {
+      expect(service.toPublic(mockApiKey)).not.toHaveProperty('keyHash');
+    });
+  });
+
+  describe('list', () => {
+    it('should list the keys of the user, most recent first', async () => {
+      await expect(service.list(mockUser.id)).resolves.toEqual([mockApiKey]);
+      expect(mockOrmService.apiKey.findMany).toHaveBeenCalledWith({
+        where: { userId: mockUser.id },
+        orderBy: { createdAt: 'desc' },
+      });
+    });
+  });
+
+  describe('revoke', () => {
+    it('should delete keys of the user', async () => {
+      await service.revoke(mockUser.id, mockApiKey.id);
+
+      expect(mockOrmService.apiKey.deleteMany).toHaveBeenCalledWith({
+        where: { id: mockApiKey.id, userId: mockUser.id },
+      });
+    });
+
+    it('should report keys of other users as missing', async () => {
+      mockOrmService.apiKey.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.revoke('other-user-id', mockApiKey.id)
+      ).rejects.toThrow(
+        new HttpException('API key not found', HttpStatus.NOT_FOUND)
+      );
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should look keys up by their hash and record their use', async () => {
+      const result = await service.authenticate('pat_test-key');
+
+      expect(mockOrmService.apiKey.findUnique).toHaveBeenCalledWith({
+        where: {
+          keyHash: createHash('sha256').update('pat_test-key').digest('hex'),
+        },
+        include: { user: true },
+      });
+      expect(getUpdatedData()).toEqual({ lastUsedAt: now });
+      expect(result?.user).toEqual(mockUser);
+      expect(result?.lastUsedAt).toEqual(now);
+    });
+
+    it('should record the use at most once a minute', async () => {
+      mockOrmService.apiKey.findUnique.mockResolvedValue({
+        ...mockApiKey,
+        lastUsedAt: new Date(now.getTime() - 30 * 1000),
+        user: mockUser,
+      });
+
+      await service.authenticate('pat_test-key');
+
+      expect(mockOrmService.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown and expired keys', async () => {
+      mockOrmService.apiKey.findUnique.mockResolvedValueOnce(null);
+      await expect(service.authenticate('pat_unknown')).resolves.toBeNull();
+
+      mockOrmService.apiKey.findUnique.mockResolvedValueOnce({
+        ...mockApiKey,
+        expiresAt: now,
+        user: mockUser,
+      });
+      await expect(service.authenticate('pat_test-key')).resolves.toBeNull();
+
+      expect(mockOrmService.apiKey.update).not.toHaveBeenCalled();
+    });
+  });
+});
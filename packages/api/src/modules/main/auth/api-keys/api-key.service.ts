@@ -0,0 +1,169 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey, User } from 'generated/prisma';
+import { OrmService } from '@/modules/common/orm/orm.service';
+
+/**
+ * Marks API keys, so they can be told apart from JWTs in the Authorization
+ * header
+ */
+export const API_KEY_PREFIX = 'pat_';
+
+// Length of the key start that is stored to tell keys apart
+const API_KEY_DISPLAY_LENGTH = API_KEY_PREFIX.length + 8;
+
+// Last-used times are only written once per interval, not on every request
+const LAST_USED_UPDATE_INTERVAL = 60 * 1000;
+
+/**
+ * The key as returned by the API, without its hash
+ */
+export type PublicApiKey = Omit<ApiKey, 'keyHash'>;
+
+@Injectable()
+export class ApiKeyService {
+  private readonly maxLifetime: number;
+
+  constructor(
+    private prisma: OrmService,
+    private readonly configService: ConfigService
+  ) {
+    this.maxLifetime = this.configService.getOrThrow<number>(
+      'apiKeys.maxLifetime'
+    );
+  }
+
+  private hashKey(key: string): string {
+    // Keys are random 256-bit values, so a fast hash is enough
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Strip the hash of a key
+   * @param apiKey - The key
+   * @returns The key without its hash
+   */
+  toPublic(apiKey: ApiKey): PublicApiKey {
+    const publicKey: Partial<ApiKey> = { ...apiKey };
+    delete publicKey.keyHash;
+
+    return publicKey as PublicApiKey;
+  }
+
+  /**
+   * Create an API key for a user
+   * @param userId - The user ID
+   * @param params - The name, scopes and expiry of the key
+   * @param grantedScopes - The scopes of the session creating the key, which
+   * the key cannot exceed
+   * @returns The key record and the key itself, which is not stored and cannot
+   * be retrieved again
+   * @throws HttpException when a scope is not granted or the expiry is not
+   * within the maximum lifetime
+   */
+  async create(
+    userId: string,
+    params: { name: string; scopes: string[]; expiresAt: string },
+    grantedScopes: string[]
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    const scopes = [...new Set(params.scopes)].sort();
+    const ungrantedScope = scopes.find(
+      (scope) => !grantedScopes.includes(scope)
+    );
+
+    if (ungrantedScope) {
+      throw new HttpException(
+        `Scope ${ungrantedScope} is not granted to the session`,
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    const expiresAt = new Date(params.expiresAt);
+    const now = Date.now();
+
+    if (
+      expiresAt.getTime() <= now ||
+      expiresAt.getTime() > now + this.maxLifetime
+    ) {
+      throw new HttpException(
+        'Expiry must be in the future and within the maximum key lifetime',
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        userId,
+        name: params.name,
+        prefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+        keyHash: this.hashKey(key),
+        scopes,
+        expiresAt,
+      },
+    });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * List the API keys of a user, expired ones included
+   * @param userId - The user ID
+   * @returns The keys, most recent first
+   */
+  async list(userId: string): Promise<ApiKey[]> {
+    return this.prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revoke an API key of a user
+   * @param userId - The user ID
+   * @param id - The key ID
+   * @throws HttpException when the user has no such key
+   */
+  async revoke(userId: string, id: string): Promise<void> {
+    const { count } = await this.prisma.apiKey.deleteMany({
+      where: { id, userId },
+    });
+
+    // Keys of other users are reported as missing, not as forbidden
+    if (count === 0) {
+      throw new HttpException('API key not found', HttpStatus.NOT_FOUND);
+    }
+  }
+
+  /**
+   * Look up the key presented with a request and record its use
+   * @param key - The API key
+   * @returns The key with its user, or null if the key is unknown or expired
+   */
+  async authenticate(key: string): Promise<(ApiKey & { user: User }) | null> {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+      include: { user: true },
+    });
+
+    if (!apiKey || apiKey.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    const now = new Date();
+
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_UPDATE_INTERVAL
+    ) {
+      await this.prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: now },
+      });
+      apiKey.lastUsedAt = now;
+    }
+
+    return apiKey;
+  }
+}
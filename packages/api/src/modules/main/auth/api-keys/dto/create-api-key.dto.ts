@@ -0,0 +1,22 @@
+import {
+  IsArray,
+  IsDateString,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export class CreateApiKeyDTO {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  // Only scopes the signed-in session holds can be passed on to a key
+  @IsArray()
+  @IsString({ each: true })
+  scopes: string[];
+
+  @IsDateString()
+  expiresAt: string;
+}
@@ -1,19 +1,32 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { HttpException, HttpStatus, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import {
+  HttpException,
+  HttpStatus,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { SignInDTO } from './dto/sign-in.dto';
+import { Session } from './session/session.service';
 import { Response, Request } from 'express';
+import { ethers } from 'ethers';
 import { AuthorizedUserProfileService } from '../smart-contracts/authorized-user-profile/authorized-user-profile.service';
-import { JwtService } from '@nestjs/jwt';
+import { JwtKeyService } from './keys/jwt-key.service';
+import { AuthCookieService } from './cookies/auth-cookie.service';
+import { SignInLockoutException } from './lockout/sign-in-lockout.exception';
+import { CsrfService } from '@/modules/common/csrf/csrf.service';
+import { RateLimitGuard } from '@/modules/common/guards/rate-limit.guard';
+import { AuthEventsService } from '@/modules/common/auth-events/auth-events.service';
 
 describe('AuthController', () => {
   let controller: AuthController;
   let mockAuthService: jest.Mocked<AuthService>;
-  let mockConfigService: jest.Mocked<ConfigService>;
   let mockAuthorizedUserProfileService: jest.Mocked<AuthorizedUserProfileService>;
-  let mockJwtService: jest.Mocked<JwtService>;
+  let mockJwtKeyService: jest.Mocked<JwtKeyService>;
+  let mockAuthCookieService: jest.Mocked<AuthCookieService>;
+  let mockCsrfService: jest.Mocked<CsrfService>;
+  let mockAuthEventsService: jest.Mocked<AuthEventsService>;
   let mockResponse: Partial<Response>;
   let mockRequest: Partial<Request>;
 
@@ -28,21 +41,36 @@ describe('AuthController', () => {
       getNonce: jest.fn(),
       signIn: jest.fn(),
       refresh: jest.fn(),
+      reauthenticate: jest.fn(),
+      getSessions: jest.fn(),
+      revokeSession: jest.fn(),
+      revokeAllSessions: jest.fn(),
     } as unknown as jest.Mocked<AuthService>;
 
-    mockConfigService = {
-      get: jest.fn(),
-    } as unknown as jest.Mocked<ConfigService>;
-
     mockAuthorizedUserProfileService = {
       addJwtToContract: jest.fn(),
       updateUsername: jest.fn(),
     } as unknown as jest.Mocked<AuthorizedUserProfileService>;
 
-    mockJwtService = {
-      verifyAsync: jest.fn(),
-      signAsync: jest.fn(),
-    } as unknown as jest.Mocked<JwtService>;
+    mockJwtKeyService = {
+      verify: jest.fn(),
+    } as unknown as jest.Mocked<JwtKeyService>;
+
+    mockAuthCookieService = {
+      setTokens: jest.fn(),
+      clearTokens: jest.fn(),
+      getAccessToken: jest.fn().mockReturnValue(null),
+      getRefreshToken: jest.fn().mockReturnValue(null),
+    } as unknown as jest.Mocked<AuthCookieService>;
+
+    mockCsrfService = {
+      issueToken: jest.fn().mockReturnValue('csrf-token'),
+      clearToken: jest.fn(),
+    } as unknown as jest.Mocked<CsrfService>;
+
+    mockAuthEventsService = {
+      emit: jest.fn(),
+    } as unknown as jest.Mocked<AuthEventsService>;
 
     const module: TestingModule = await Test.createTestingModule({
       controllers: [AuthController],
@@ -51,34 +79,45 @@ describe('AuthController', () => {
           provide: AuthService,
           useValue: mockAuthService,
         },
-        {
-          provide: ConfigService,
-          useValue: mockConfigService,
-        },
         {
           provide: AuthorizedUserProfileService,
           useValue: mockAuthorizedUserProfileService,
         },
         {
-          provide: JwtService,
-          useValue: mockJwtService,
+          provide: JwtKeyService,
+          useValue: mockJwtKeyService,
+        },
+        {
+          provide: AuthCookieService,
+          useValue: mockAuthCookieService,
+        },
+        {
+          provide: CsrfService,
+          useValue: mockCsrfService,
+        },
+        {
+          provide: AuthEventsService,
+          useValue: mockAuthEventsService,
         },
       ],
-    }).compile();
+    })
+      .overrideGuard(RateLimitGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
 
     controller = module.get<AuthController>(AuthController);
 
     // Setup mock response
     mockResponse = {
       json: jest.fn().mockReturnThis(),
-      cookie: jest.fn().mockReturnThis(),
-      clearCookie: jest.fn().mockReturnThis(),
       sendStatus: jest.fn().mockReturnThis(),
+      setHeader: jest.fn().mockReturnThis(),
     };
 
     // Setup mock request
     mockRequest = {
-      cookies: {},
+      headers: { 'user-agent': 'test-user-agent' },
+      ip: '127.0.0.1',
     };
   });
 
@@ -130,27 +169,28 @@ describe('AuthController', () => {
       };
       const mockPayload = {
         address: '0x1234567890abcdef',
+        chainId: 'eip155:1',
         accessToken: 'access-token',
         refreshToken: 'refresh-token',
+        scopes: ['profile:read', 'profile:write'],
       };
-      const mockAccessExpiresIn = 3600000; // 1 hour in ms
-      const mockRefreshExpiresIn = 86400000; // 24 hours in ms
-      const mockIsProduction = false;
 
       mockAuthService.signIn.mockResolvedValue(mockPayload);
-      mockAuthorizedUserProfileService.addJwtToContract.mockResolvedValue(
-        undefined
-      );
-      mockConfigService.get
-        .mockReturnValueOnce(mockAccessExpiresIn)
-        .mockReturnValueOnce(mockIsProduction)
-        .mockReturnValueOnce(mockRefreshExpiresIn)
-        .mockReturnValueOnce(mockIsProduction);
+      mockAuthorizedUserProfileService.addJwtToContract.mockResolvedValue({
+        hash: '0xtxhash',
+      } as ethers.ContractTransactionResponse);
 
-      await controller.signIn(inputDto, mockResponse as Response);
+      await controller.signIn(
+        inputDto,
+        mockRequest as Request,
+        mockResponse as Response
+      );
 
       expect(mockAuthService.signIn).toHaveBeenCalledTimes(1);
-      expect(mockAuthService.signIn).toHaveBeenCalledWith(inputDto);
+      expect(mockAuthService.signIn).toHaveBeenCalledWith(inputDto, {
+        userAgent: 'test-user-agent',
+        ip: '127.0.0.1',
+      });
 
       expect(
         mockAuthorizedUserProfileService.addJwtToContract
@@ -158,89 +198,60 @@ describe('AuthController', () => {
       expect(
         mockAuthorizedUserProfileService.addJwtToContract
       ).toHaveBeenCalledWith(mockPayload.address, mockPayload.accessToken);
+      expect(mockAuthEventsService.emit).toHaveBeenCalledWith({
+        type: 'contract.jwt_set',
+        address: mockPayload.address,
+        ip: '127.0.0.1',
+        userAgent: 'test-user-agent',
+        data: { transactionHash: '0xtxhash' },
+      });
 
-      expect(mockConfigService.get).toHaveBeenCalledTimes(4);
-      expect(mockConfigService.get).toHaveBeenNthCalledWith(
-        1,
-        'jwt.accessExpiresIn'
-      );
-      expect(mockConfigService.get).toHaveBeenNthCalledWith(2, 'isProduction');
-      expect(mockConfigService.get).toHaveBeenNthCalledWith(
-        3,
-        'jwt.refreshExpiresIn'
+      expect(mockAuthCookieService.setTokens).toHaveBeenCalledWith(
+        mockResponse,
+        mockPayload
       );
-      expect(mockConfigService.get).toHaveBeenNthCalledWith(4, 'isProduction');
 
-      expect(mockResponse.cookie).toHaveBeenCalledTimes(2);
-      expect(mockResponse.cookie).toHaveBeenNthCalledWith(
-        1,
-        'accessToken',
-        mockPayload.accessToken,
-        {
-          maxAge: mockAccessExpiresIn,
-          secure: mockIsProduction,
-        }
-      );
-      expect(mockResponse.cookie).toHaveBeenNthCalledWith(
-        2,
-        'refreshToken',
-        mockPayload.refreshToken,
-        {
-          maxAge: mockRefreshExpiresIn,
-          secure: mockIsProduction,
-        }
-      );
+      expect(mockCsrfService.issueToken).toHaveBeenCalledWith(mockResponse);
 
       expect(mockResponse.json).toHaveBeenCalledTimes(1);
       expect(mockResponse.json).toHaveBeenCalledWith({
         address: mockPayload.address,
         accessToken: mockPayload.accessToken,
+        scope: 'profile:read profile:write',
+        csrfToken: 'csrf-token',
       });
     });
 
-    it('should set secure cookies in production', async () => {
+    it('should not add the JWT of non-EVM sign-ins to the contract', async () => {
       const inputDto: SignInDTO = {
-        message: 'valid-siwe-message',
+        message: 'valid-siws-message',
         signature: 'valid-signature',
         nonce: 'test-nonce',
       };
       const mockPayload = {
-        address: '0x1234567890abcdef',
+        address: '7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv',
+        chainId: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
         accessToken: 'access-token',
         refreshToken: 'refresh-token',
+        scopes: ['profile:read'],
       };
-      const mockIsProduction = true;
-
       mockAuthService.signIn.mockResolvedValue(mockPayload);
-      mockAuthorizedUserProfileService.addJwtToContract.mockResolvedValue(
-        undefined
-      );
-      mockConfigService.get
-        .mockReturnValueOnce(3600000)
-        .mockReturnValueOnce(mockIsProduction)
-        .mockReturnValueOnce(86400000)
-        .mockReturnValueOnce(mockIsProduction);
-
-      await controller.signIn(inputDto, mockResponse as Response);
-
-      expect(mockResponse.cookie).toHaveBeenNthCalledWith(
-        1,
-        'accessToken',
-        mockPayload.accessToken,
-        {
-          maxAge: 3600000,
-          secure: true,
-        }
-      );
-      expect(mockResponse.cookie).toHaveBeenNthCalledWith(
-        2,
-        'refreshToken',
-        mockPayload.refreshToken,
-        {
-          maxAge: 86400000,
-          secure: true,
-        }
+
+      await controller.signIn(
+        inputDto,
+        mockRequest as Request,
+        mockResponse as Response
       );
+
+      expect(
+        mockAuthorizedUserProfileService.addJwtToContract
+      ).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        address: mockPayload.address,
+        accessToken: mockPayload.accessToken,
+        scope: 'profile:read',
+        csrfToken: 'csrf-token',
+      });
     });
 
     it('should throw error when adding JWT to contract fails', async () => {
@@ -251,8 +262,10 @@ describe('AuthController', () => {
       };
       const mockPayload = {
         address: '0x1234567890abcdef',
+        chainId: 'eip155:1',
         accessToken: 'access-token',
         refreshToken: 'refresh-token',
+        scopes: ['profile:read', 'profile:write'],
       };
       const expectedError = new Error('Contract error');
 
@@ -260,14 +273,13 @@ describe('AuthController', () => {
       mockAuthorizedUserProfileService.addJwtToContract.mockRejectedValue(
         expectedError
       );
-      mockConfigService.get
-        .mockReturnValueOnce(3600000)
-        .mockReturnValueOnce(false)
-        .mockReturnValueOnce(86400000)
-        .mockReturnValueOnce(false);
 
       await expect(
-        controller.signIn(inputDto, mockResponse as Response)
+        controller.signIn(
+          inputDto,
+          mockRequest as Request,
+          mockResponse as Response
+        )
       ).rejects.toThrow(
         new HttpException(
           'Failed to add JWT to contract',
@@ -275,10 +287,20 @@ describe('AuthController', () => {
         )
       );
 
-      expect(mockAuthService.signIn).toHaveBeenCalledWith(inputDto);
+      expect(mockAuthService.signIn).toHaveBeenCalledWith(inputDto, {
+        userAgent: 'test-user-agent',
+        ip: '127.0.0.1',
+      });
       expect(
         mockAuthorizedUserProfileService.addJwtToContract
       ).toHaveBeenCalledWith(mockPayload.address, mockPayload.accessToken);
+      expect(mockAuthEventsService.emit).toHaveBeenCalledWith({
+        type: 'contract.jwt_set_failed',
+        address: mockPayload.address,
+        ip: '127.0.0.1',
+        userAgent: 'test-user-agent',
+        data: { error: 'Contract error' },
+      });
       expect(mockResponse.json).not.toHaveBeenCalled();
     });
 
@@ -295,36 +317,56 @@ describe('AuthController', () => {
       mockAuthService.signIn.mockRejectedValue(expectedError);
 
       await expect(
-        controller.signIn(inputDto, mockResponse as Response)
+        controller.signIn(
+          inputDto,
+          mockRequest as Request,
+          mockResponse as Response
+        )
       ).rejects.toThrow(expectedError);
 
-      expect(mockAuthService.signIn).toHaveBeenCalledWith(inputDto);
+      expect(mockAuthService.signIn).toHaveBeenCalledWith(inputDto, {
+        userAgent: 'test-user-agent',
+        ip: '127.0.0.1',
+      });
       expect(
         mockAuthorizedUserProfileService.addJwtToContract
       ).not.toHaveBeenCalled();
-      expect(mockResponse.cookie).not.toHaveBeenCalled();
+      expect(mockAuthCookieService.setTokens).not.toHaveBeenCalled();
+      expect(mockResponse.json).not.toHaveBeenCalled();
+    });
+
+    it('should tell locked out clients when to retry', async () => {
+      const inputDto: SignInDTO = {
+        message: 'valid-siwe-message',
+        signature: 'invalid-signature',
+        nonce: 'test-nonce',
+      };
+      const expectedError = new SignInLockoutException(60);
+      mockAuthService.signIn.mockRejectedValue(expectedError);
+
+      await expect(
+        controller.signIn(
+          inputDto,
+          mockRequest as Request,
+          mockResponse as Response
+        )
+      ).rejects.toThrow(expectedError);
+
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', 60);
       expect(mockResponse.json).not.toHaveBeenCalled();
     });
   });
 
   describe('refresh', () => {
-    it('should refresh token successfully and set new access token cookie', async () => {
+    it('should refresh tokens successfully and set rotated token cookies', async () => {
       const mockRefreshToken = 'valid-refresh-token';
-      const mockOldAccessToken = 'old-access-token';
       const mockPayload = {
         accessToken: 'new-access-token',
+        refreshToken: 'new-refresh-token',
       };
-      const mockAccessExpiresIn = 3600000;
-      const mockIsProduction = false;
 
-      mockRequest.cookies = {
-        refreshToken: mockRefreshToken,
-        accessToken: mockOldAccessToken,
-      };
+      mockAuthCookieService.getRefreshToken.mockReturnValue(mockRefreshToken);
       mockAuthService.refresh.mockResolvedValue(mockPayload);
-      mockConfigService.get
-        .mockReturnValueOnce(mockAccessExpiresIn)
-        .mockReturnValueOnce(mockIsProduction);
 
       await controller.refresh(
         mockRequest as Request,
@@ -332,37 +374,29 @@ describe('AuthController', () => {
       );
 
       expect(mockAuthService.refresh).toHaveBeenCalledTimes(1);
-      expect(mockAuthService.refresh).toHaveBeenCalledWith(
-        mockRefreshToken,
-        mockOldAccessToken
-      );
+      expect(mockAuthService.refresh).toHaveBeenCalledWith(mockRefreshToken, {
+        userAgent: 'test-user-agent',
+        ip: '127.0.0.1',
+      });
 
-      expect(mockConfigService.get).toHaveBeenCalledTimes(2);
-      expect(mockConfigService.get).toHaveBeenNthCalledWith(
-        1,
-        'jwt.accessExpiresIn'
+      expect(mockAuthCookieService.getRefreshToken).toHaveBeenCalledWith(
+        mockRequest
       );
-      expect(mockConfigService.get).toHaveBeenNthCalledWith(2, 'isProduction');
-
-      expect(mockResponse.cookie).toHaveBeenCalledTimes(1);
-      expect(mockResponse.cookie).toHaveBeenCalledWith(
-        'accessToken',
-        mockPayload.accessToken,
-        {
-          maxAge: mockAccessExpiresIn,
-          secure: mockIsProduction,
-        }
+      expect(mockAuthCookieService.setTokens).toHaveBeenCalledWith(
+        mockResponse,
+        mockPayload
       );
 
+      expect(mockCsrfService.issueToken).toHaveBeenCalledWith(mockResponse);
+
       expect(mockResponse.json).toHaveBeenCalledTimes(1);
       expect(mockResponse.json).toHaveBeenCalledWith({
         accessToken: mockPayload.accessToken,
+        csrfToken: 'csrf-token',
       });
     });
 
     it('should throw error when refresh token is not in cookies', async () => {
-      mockRequest.cookies = {};
-
       await expect(
         controller.refresh(mockRequest as Request, mockResponse as Response)
       ).rejects.toThrow(
@@ -373,7 +407,7 @@ describe('AuthController', () => {
       );
 
       expect(mockAuthService.refresh).not.toHaveBeenCalled();
-      expect(mockResponse.cookie).not.toHaveBeenCalled();
+      expect(mockAuthCookieService.setTokens).not.toHaveBeenCalled();
       expect(mockResponse.json).not.toHaveBeenCalled();
     });
 
@@ -384,29 +418,29 @@ describe('AuthController', () => {
         HttpStatus.UNAUTHORIZED
       );
 
-      mockRequest.cookies = { refreshToken: mockRefreshToken };
+      mockAuthCookieService.getRefreshToken.mockReturnValue(mockRefreshToken);
       mockAuthService.refresh.mockRejectedValue(expectedError);
 
       await expect(
         controller.refresh(mockRequest as Request, mockResponse as Response)
       ).rejects.toThrow(expectedError);
 
-      expect(mockAuthService.refresh).toHaveBeenCalledWith(
-        mockRefreshToken,
-        undefined
-      );
-      expect(mockResponse.cookie).not.toHaveBeenCalled();
+      expect(mockAuthService.refresh).toHaveBeenCalledWith(mockRefreshToken, {
+        userAgent: 'test-user-agent',
+        ip: '127.0.0.1',
+      });
+      expect(mockAuthCookieService.setTokens).not.toHaveBeenCalled();
       expect(mockResponse.json).not.toHaveBeenCalled();
     });
   });
 
   describe('signOut', () => {
     it('should clear cookies and return NO_CONTENT status', async () => {
-      mockRequest.cookies = { accessToken: 'valid-token' };
-      mockJwtService.verifyAsync.mockResolvedValue({
+      mockAuthCookieService.getAccessToken.mockReturnValue('valid-token');
+      mockJwtKeyService.verify.mockResolvedValue({
         publicAddress: '0x1234567890abcdef',
+        sid: 'test-session-id',
       });
-      mockConfigService.getOrThrow = jest.fn().mockReturnValue('test-secret');
       mockAuthService.signOut = jest.fn().mockResolvedValue(undefined);
 
       await controller.signOut(
@@ -414,44 +448,66 @@ describe('AuthController', () => {
         mockResponse as Response
       );
 
-      expect(mockJwtService.verifyAsync).toHaveBeenCalledWith('valid-token', {
-        secret: 'test-secret',
-      });
-      expect(mockResponse.clearCookie).toHaveBeenCalledTimes(2);
-      expect(mockResponse.clearCookie).toHaveBeenNthCalledWith(
-        1,
-        'accessToken'
+      expect(mockJwtKeyService.verify).toHaveBeenCalledWith(
+        'access',
+        'valid-token',
+        { ignoreExpiration: true }
       );
-      expect(mockResponse.clearCookie).toHaveBeenNthCalledWith(
-        2,
-        'refreshToken'
+      expect(mockAuthCookieService.clearTokens).toHaveBeenCalledWith(
+        mockResponse
       );
+      expect(mockCsrfService.clearToken).toHaveBeenCalledWith(mockResponse);
 
       expect(mockResponse.sendStatus).toHaveBeenCalledTimes(1);
       expect(mockResponse.sendStatus).toHaveBeenCalledWith(
         HttpStatus.NO_CONTENT
       );
-      expect(mockAuthService.signOut).toHaveBeenCalledWith(
-        '0x1234567890abcdef'
+      expect(mockAuthService.signOut).toHaveBeenCalledWith('test-session-id', {
+        userAgent: 'test-user-agent',
+        ip: '127.0.0.1',
+      });
+    });
+
+    it('should revoke the session of an expired access token', async () => {
+      mockAuthCookieService.getAccessToken.mockReturnValue('expired-token');
+      mockJwtKeyService.verify.mockImplementation((type, token, options) =>
+        options?.ignoreExpiration
+          ? Promise.resolve({ sid: 'test-session-id' })
+          : Promise.reject(new Error('"exp" claim timestamp check failed'))
+      );
+      mockAuthService.signOut = jest.fn().mockResolvedValue(undefined);
+
+      await controller.signOut(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockAuthService.signOut).toHaveBeenCalledWith('test-session-id', {
+        userAgent: 'test-user-agent',
+        ip: '127.0.0.1',
+      });
+      expect(mockAuthCookieService.clearTokens).toHaveBeenCalledWith(
+        mockResponse
+      );
+      expect(mockResponse.sendStatus).toHaveBeenCalledWith(
+        HttpStatus.NO_CONTENT
       );
     });
 
     it('should clear cookies even when no access token present', async () => {
-      mockRequest.cookies = {};
-
       await controller.signOut(
         mockRequest as Request,
         mockResponse as Response
       );
 
-      expect(mockResponse.clearCookie).toHaveBeenCalledTimes(2);
+      expect(mockJwtKeyService.verify).not.toHaveBeenCalled();
+      expect(mockAuthCookieService.clearTokens).toHaveBeenCalledTimes(1);
       expect(mockResponse.sendStatus).toHaveBeenCalledTimes(1);
     });
 
     it('should throw error when clearing cookies fails', async () => {
-      mockRequest.cookies = {};
       const expectedError = new Error('Cookie clear failed');
-      mockResponse.clearCookie = jest.fn().mockImplementation(() => {
+      mockAuthCookieService.clearTokens.mockImplementation(() => {
         throw expectedError;
       });
 
@@ -467,4 +523,223 @@ describe('AuthController', () => {
       expect(mockResponse.sendStatus).not.toHaveBeenCalled();
     });
   });
+
+  describe('reauthenticate', () => {
+    const mockUser = { id: 'test-user-id' } as Express.User;
+    const inputDto: SignInDTO = {
+      message: 'valid-siwe-message',
+      signature: 'valid-signature',
+      nonce: 'test-nonce',
+    };
+
+    beforeEach(() => {
+      mockRequest.user = mockUser;
+      mockRequest.auth = {
+        type: 'session',
+        sessionId: 'current-session-id',
+        tokenId: 'test-token-id',
+        scopes: ['profile:read', 'profile:write'],
+        roles: ['user'],
+        authTime: 1704067200,
+        clientId: null,
+      };
+    });
+
+    it('should return an elevated access token of the current session', async () => {
+      const mockPayload = { accessToken: 'elevated-token', expiresIn: 300 };
+      mockAuthService.reauthenticate.mockResolvedValue(mockPayload);
+
+      await controller.reauthenticate(
+        inputDto,
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockAuthService.reauthenticate).toHaveBeenCalledWith(
+        mockUser,
+        'current-session-id',
+        inputDto,
+        { userAgent: 'test-user-agent', ip: '127.0.0.1' }
+      );
+      expect(mockResponse.json).toHaveBeenCalledWith(mockPayload);
+      expect(mockAuthCookieService.setTokens).not.toHaveBeenCalled();
+    });
+
+    it('should set Retry-After when the wallet is locked out', async () => {
+      mockAuthService.reauthenticate.mockRejectedValue(
+        new SignInLockoutException(60)
+      );
+
+      await expect(
+        controller.reauthenticate(
+          inputDto,
+          mockRequest as Request,
+          mockResponse as Response
+        )
+      ).rejects.toThrow(SignInLockoutException);
+
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', 60);
+      expect(mockResponse.json).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sessions', () => {
+    const mockUser = { id: 'test-user-id' } as Express.User;
+    const mockSession: Session = {
+      id: 'current-session-id',
+      userId: mockUser.id,
+      address: '0x1234567890abcdef',
+      chainId: 'eip155:1',
+      scopes: ['profile:read', 'profile:write'],
+      userAgent: 'test-user-agent',
+      ip: '127.0.0.1',
+      createdAt: '2024-01-02T00:00:00.000Z',
+      lastRefreshedAt: '2024-01-03T00:00:00.000Z',
+    };
+
+    beforeEach(() => {
+      mockRequest.user = mockUser;
+      mockRequest.auth = {
+        type: 'session',
+        sessionId: 'current-session-id',
+        tokenId: 'test-token-id',
+        scopes: ['sessions:read', 'sessions:write'],
+        roles: ['user'],
+        authTime: 1704153600,
+        clientId: null,
+      };
+    });
+
+    describe('getSessions', () => {
+      it('should list sessions of the user and flag the current one', async () => {
+        const otherSession: Session = {
+          ...mockSession,
+          id: 'other-session-id',
+          userAgent: null,
+          ip: null,
+          createdAt: '2024-01-01T00:00:00.000Z',
+          lastRefreshedAt: null,
+        };
+        mockAuthService.getSessions.mockResolvedValue([
+          mockSession,
+          otherSession,
+        ]);
+
+        const result = await controller.getSessions(mockRequest as Request);
+
+        expect(mockAuthService.getSessions).toHaveBeenCalledWith(mockUser.id);
+        expect(result).toEqual([
+          {
+            id: mockSession.id,
+            address: mockSession.address,
+            chainId: 'eip155:1',
+            userAgent: mockSession.userAgent,
+            ip: mockSession.ip,
+            createdAt: mockSession.createdAt,
+            lastRefreshedAt: mockSession.lastRefreshedAt,
+            current: true,
+          },
+          {
+            id: otherSession.id,
+            address: otherSession.address,
+            chainId: 'eip155:1',
+            userAgent: null,
+            ip: null,
+            createdAt: otherSession.createdAt,
+            lastRefreshedAt: null,
+            current: false,
+          },
+        ]);
+      });
+
+      it('should throw UnauthorizedException when user is missing', async () => {
+        mockRequest.user = undefined;
+
+        await expect(
+          controller.getSessions(mockRequest as Request)
+        ).rejects.toThrow(new UnauthorizedException('User not found'));
+
+        expect(mockAuthService.getSessions).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('revokeSession', () => {
+      it('should revoke another session and keep the cookies', async () => {
+        mockAuthService.revokeSession.mockResolvedValue();
+
+        await controller.revokeSession(
+          mockRequest as Request,
+          mockResponse as Response,
+          'other-session-id'
+        );
+
+        expect(mockAuthService.revokeSession).toHaveBeenCalledWith(
+          mockUser.id,
+          'other-session-id'
+        );
+        expect(mockAuthCookieService.clearTokens).not.toHaveBeenCalled();
+        expect(mockResponse.sendStatus).toHaveBeenCalledWith(
+          HttpStatus.NO_CONTENT
+        );
+      });
+
+      it('should clear cookies when revoking the current session', async () => {
+        mockAuthService.revokeSession.mockResolvedValue();
+
+        await controller.revokeSession(
+          mockRequest as Request,
+          mockResponse as Response,
+          'current-session-id'
+        );
+
+        expect(mockAuthCookieService.clearTokens).toHaveBeenCalledWith(
+          mockResponse
+        );
+        expect(mockCsrfService.clearToken).toHaveBeenCalledWith(mockResponse);
+        expect(mockResponse.sendStatus).toHaveBeenCalledWith(
+          HttpStatus.NO_CONTENT
+        );
+      });
+
+      it('should propagate errors from AuthService', async () => {
+        const expectedError = new HttpException(
+          'Session not found',
+          HttpStatus.NOT_FOUND
+        );
+        mockAuthService.revokeSession.mockRejectedValue(expectedError);
+
+        await expect(
+          controller.revokeSession(
+            mockRequest as Request,
+            mockResponse as Response,
+            'unknown-session-id'
+          )
+        ).rejects.toThrow(expectedError);
+
+        expect(mockResponse.sendStatus).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('revokeAllSessions', () => {
+      it('should revoke all sessions and clear cookies', async () => {
+        mockAuthService.revokeAllSessions.mockResolvedValue();
+
+        await controller.revokeAllSessions(
+          mockRequest as Request,
+          mockResponse as Response
+        );
+
+        expect(mockAuthService.revokeAllSessions).toHaveBeenCalledWith(
+          mockUser.id
+        );
+        expect(mockAuthCookieService.clearTokens).toHaveBeenCalledWith(
+          mockResponse
+        );
+        expect(mockCsrfService.clearToken).toHaveBeenCalledWith(mockResponse);
+        expect(mockResponse.sendStatus).toHaveBeenCalledWith(
+          HttpStatus.NO_CONTENT
+        );
+      });
+    });
+  });
 });
@@ -1,73 +1,130 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
   HttpException,
   HttpStatus,
   Logger,
+  Param,
   Post,
   Query,
   Req,
   Res,
+  UnauthorizedException,
+  UseGuards,
 } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { SignInDTO } from './dto/sign-in.dto';
 import type { Request, Response } from 'express';
-import { ConfigService } from '@nestjs/config';
 import { AuthorizedUserProfileService } from '../smart-contracts/authorized-user-profile/authorized-user-profile.service';
-import { JwtService } from '@nestjs/jwt';
+import { JwtKeyService } from './keys/jwt-key.service';
+import { AuthCookieService } from './cookies/auth-cookie.service';
+import { JwtAuthGuard } from '@/modules/common/guards/jwt-auth.guard';
+import { SessionAuthGuard } from '@/modules/common/guards/session-auth.guard';
+import { CsrfGuard } from '@/modules/common/guards/csrf.guard';
+import { CsrfService } from '@/modules/common/csrf/csrf.service';
+import { RateLimitGuard } from '@/modules/common/guards/rate-limit.guard';
+import { RateLimit } from '@/modules/common/rate-limit/rate-limit.decorator';
+import { ScopesGuard } from '@/modules/common/guards/scopes.guard';
+import { RequireScopes } from '@/modules/common/scopes/require-scopes.decorator';
+import { getSignInAddress } from './caip122/sign-in-address';
+import { SignInLockoutException } from './lockout/sign-in-lockout.exception';
+import { AuthEventsService } from '@/modules/common/auth-events/auth-events.service';
+
+function getQueryAddress(req: Request): string | undefined {
+  return typeof req.query.address === 'string' ? req.query.address : undefined;
+}
+
 @Controller('/auth')
 export class AuthController {
   constructor(
     private readonly authService: AuthService,
-    private readonly configService: ConfigService,
     private readonly authorizedUserProfileService: AuthorizedUserProfileService,
-    private readonly jwtService: JwtService
+    private readonly jwtKeyService: JwtKeyService,
+    private readonly authCookieService: AuthCookieService,
+    private readonly csrfService: CsrfService,
+    private readonly authEventsService: AuthEventsService
   ) {}
 
   @Get('/nonce')
+  @RateLimit('nonce', getQueryAddress)
+  @UseGuards(RateLimitGuard)
   async getNonce(@Res() res: Response, @Query('address') address: string) {
     const result = await this.authService.getNonce(address);
     return res.json(result);
   }
 
   @Post('/sign-in')
-  async signIn(@Body() signInDto: SignInDTO, @Res() res: Response) {
-    const payload = await this.authService.signIn(signInDto);
+  @RateLimit('signIn', getSignInAddress)
+  @UseGuards(RateLimitGuard)
+  async signIn(
+    @Body() signInDto: SignInDTO,
+    @Req() req: Request,
+    @Res() res: Response
+  ) {
+    const payload = await this.authService
+      .signIn(signInDto, {
+        userAgent: req.headers['user-agent'],
+        ip: req.ip,
+      })
+      .catch((e: unknown) => {
+        if (e instanceof SignInLockoutException) {
+          res.setHeader('Retry-After', e.retryAfter);
+        }
+        throw e;
+      });
 
-    res.cookie('accessToken', payload.accessToken, {
-      maxAge: this.configService.get('jwt.accessExpiresIn'),
-      secure: this.configService.get('isProduction'),
-    });
+    this.authCookieService.setTokens(res, payload);
+    const csrfToken = this.csrfService.issueToken(res);
 
-    res.cookie('refreshToken', payload.refreshToken, {
-      maxAge: this.configService.get('jwt.refreshExpiresIn'),
-      secure: this.configService.get('isProduction'),
-    });
+    // The profile contract lives on an EVM chain, so only EVM wallets can use
+    // it
+    if (payload.chainId.startsWith('eip155:')) {
+      const event = {
+        address: payload.address,
+        ip: req.ip,
+        userAgent: req.headers['user-agent'],
+      };
 
-    try {
-      await this.authorizedUserProfileService.addJwtToContract(
-        payload.address,
-        payload.accessToken
-      );
-    } catch (e) {
-      Logger.error('Failed to add JWT to contract', e);
-      throw new HttpException(
-        'Failed to add JWT to contract',
-        HttpStatus.INTERNAL_SERVER_ERROR
-      );
+      try {
+        const transaction =
+          await this.authorizedUserProfileService.addJwtToContract(
+            payload.address,
+            payload.accessToken
+          );
+        this.authEventsService.emit({
+          type: 'contract.jwt_set',
+          ...event,
+          data: { transactionHash: transaction.hash },
+        });
+      } catch (e) {
+        Logger.error('Failed to add JWT to contract', e);
+        this.authEventsService.emit({
+          type: 'contract.jwt_set_failed',
+          ...event,
+          data: { error: e instanceof Error ? e.message : String(e) },
+        });
+        throw new HttpException(
+          'Failed to add JWT to contract',
+          HttpStatus.INTERNAL_SERVER_ERROR
+        );
+      }
     }
 
     return res.json({
       address: payload.address,
       accessToken: payload.accessToken,
+      scope: payload.scopes.join(' '),
+      csrfToken,
     });
   }
 
   @Post('/refresh')
+  @RateLimit('refresh')
+  @UseGuards(RateLimitGuard, CsrfGuard)
   async refresh(@Req() req: Request, @Res() res: Response) {
-    const refreshToken = req.cookies['refreshToken'];
-    const oldAccessToken = req.cookies['accessToken'];
+    const refreshToken = this.authCookieService.getRefreshToken(req);
 
     if (!refreshToken) {
       throw new HttpException(
@@ -76,42 +133,48 @@ export class AuthController {
       );
     }
 
-    const payload = await this.authService.refresh(
-      refreshToken,
-      oldAccessToken
-    );
-
-    res.cookie('accessToken', payload.accessToken, {
-      maxAge: this.configService.get('jwt.accessExpiresIn'),
-      secure: this.configService.get('isProduction'),
+    const payload = await this.authService.refresh(refreshToken, {
+      userAgent: req.headers['user-agent'],
+      ip: req.ip,
     });
 
+    this.authCookieService.setTokens(res, payload);
+    const csrfToken = this.csrfService.issueToken(res);
+
     return res.json({
       accessToken: payload.accessToken,
+      csrfToken,
     });
   }
 
   @Post('/sign-out')
+  @UseGuards(CsrfGuard)
   async signOut(@Req() req: Request, @Res() res: Response) {
     try {
-      // Extract user address from JWT in cookie
-      const accessToken = req.cookies['accessToken'];
+      // Extract session ID from JWT in cookie. Expired tokens are accepted,
+      // as their session lives on until its refresh token expires
+      const accessToken = this.authCookieService.getAccessToken(req);
       if (accessToken) {
         try {
-          const decoded = await this.jwtService.verifyAsync(accessToken, {
-            secret: this.configService.getOrThrow<string>('jwt.accessSecret'),
-          });
-          if (decoded?.publicAddress) {
-            await this.authService.signOut(decoded.publicAddress);
+          const decoded = await this.jwtKeyService.verify(
+            'access',
+            accessToken,
+            { ignoreExpiration: true }
+          );
+          if (typeof decoded?.sid === 'string') {
+            await this.authService.signOut(decoded.sid, {
+              userAgent: req.headers['user-agent'],
+              ip: req.ip,
+            });
           }
         } catch (e) {
-          // Token might be expired or invalid, just clear cookies
+          // Token might be invalid, just clear cookies
           Logger.error('Error decoding token during sign out', e);
         }
       }
 
-      res.clearCookie('accessToken');
-      res.clearCookie('refreshToken');
+      this.authCookieService.clearTokens(res);
+      this.csrfService.clearToken(res);
 
       return res.sendStatus(HttpStatus.NO_CONTENT);
     } catch (e) {
@@ -121,4 +184,97 @@ export class AuthController {
       );
     }
   }
+
+  // Step-up for routes with @RequireFreshAuth(). Re-authenticating proves
+  // control of the wallet like a sign-in, so it is rate limited and locked out
+  // like one
+  @Post('/re-authenticate')
+  @RateLimit('signIn', getSignInAddress)
+  @UseGuards(SessionAuthGuard, RateLimitGuard, CsrfGuard)
+  async reauthenticate(
+    @Body() signInDto: SignInDTO,
+    @Req() req: Request,
+    @Res() res: Response
+  ) {
+    if (!req.user || !req.auth?.sessionId) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const payload = await this.authService
+      .reauthenticate(req.user, req.auth.sessionId, signInDto, {
+        userAgent: req.headers['user-agent'],
+        ip: req.ip,
+      })
+      .catch((e: unknown) => {
+        if (e instanceof SignInLockoutException) {
+          res.setHeader('Retry-After', e.retryAfter);
+        }
+        throw e;
+      });
+
+    // The elevated token is only returned, not set as cookie, so the regular
+    // access token keeps working once it has expired
+    return res.json(payload);
+  }
+
+  @Get('/sessions')
+  @RequireScopes('sessions:read')
+  @UseGuards(JwtAuthGuard, ScopesGuard)
+  async getSessions(@Req() req: Request) {
+    if (!req.user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const sessions = await this.authService.getSessions(req.user.id);
+
+    return sessions.map((session) => ({
+      id: session.id,
+      address: session.address,
+      chainId: session.chainId,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastRefreshedAt: session.lastRefreshedAt,
+      current: session.id === req.auth?.sessionId,
+    }));
+  }
+
+  @Delete('/sessions/:id')
+  @RequireScopes('sessions:write')
+  @UseGuards(JwtAuthGuard, ScopesGuard, CsrfGuard)
+  async revokeSession(
+    @Req() req: Request,
+    @Res() res: Response,
+    @Param('id') sessionId: string
+  ) {
+    if (!req.user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    await this.authService.revokeSession(req.user.id, sessionId);
+
+    // Revoking the current session is the same as signing out
+    if (sessionId === req.auth?.sessionId) {
+      this.authCookieService.clearTokens(res);
+      this.csrfService.clearToken(res);
+    }
+
+    return res.sendStatus(HttpStatus.NO_CONTENT);
+  }
+
+  @Delete('/sessions')
+  @RequireScopes('sessions:write')
+  @UseGuards(JwtAuthGuard, ScopesGuard, CsrfGuard)
+  async revokeAllSessions(@Req() req: Request, @Res() res: Response) {
+    if (!req.user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    await this.authService.revokeAllSessions(req.user.id);
+
+    this.authCookieService.clearTokens(res);
+    this.csrfService.clearToken(res);
+
+    return res.sendStatus(HttpStatus.NO_CONTENT);
+  }
 }
@@ -1,24 +1,115 @@
-import { Module } from '@nestjs/common';
+import { Module, OnModuleInit } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { UserModule } from '@/modules/main/user/user.module';
-import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule } from '@nestjs/config';
 import { PassportModule } from '@nestjs/passport';
 import { JwtStrategy } from './strategy/jwt.strategy';
+import { ApiKeyStrategy } from './strategy/api-key.strategy';
 import { AuthorizedUserProfileModule } from '../smart-contracts/authorized-user-profile/authorized-user-profile.module';
 import { RedisModule } from '@/modules/common/redis/redis.module';
+import { SiwePolicyService } from './siwe/siwe-policy.service';
+import { SignatureVerifierService } from './siwe/signature-verifier.service';
+import { SessionService } from './session/session.service';
+import { JwtKeyService } from './keys/jwt-key.service';
+import { JwksController } from './keys/jwks.controller';
+import { ClaimsService } from './claims/claims.service';
+import { RolesClaimsEnricher } from './claims/roles-claims.enricher';
+import { AuthCookieService } from './cookies/auth-cookie.service';
+import { SignInLockoutService } from './lockout/sign-in-lockout.service';
+import { LockoutController } from './lockout/lockout.controller';
+import { AuthEventLogService } from './events/auth-event-log.service';
+import { AuthEventController } from './events/auth-event.controller';
+import { ActivityController } from './events/activity.controller';
+import { EvmModule } from '@/modules/common/evm/evm.module';
+import { AuthEventsModule } from '@/modules/common/auth-events/auth-events.module';
+import { CsrfModule } from '@/modules/common/csrf/csrf.module';
+import { RateLimitModule } from '@/modules/common/rate-limit/rate-limit.module';
+import { ScopesModule } from '@/modules/common/scopes/scopes.module';
+import { ScopeRegistryService } from '@/modules/common/scopes/scope-registry.service';
+import { RecapScopesService } from './scopes/recap-scopes.service';
+import { ScopesClaimsEnricher } from './scopes/scopes-claims.enricher';
+import { ScopesController } from './scopes/scopes.controller';
+import { TokenGateService } from './token-gates/token-gate.service';
+import { ApiKeyService } from './api-keys/api-key.service';
+import { ApiKeyController } from './api-keys/api-key.controller';
+import { WalletController } from './wallets/wallet.controller';
+import { ChainVerifierRegistryService } from './caip122/chain-verifier-registry.service';
+import { Eip155ChainVerifier } from './caip122/eip155-chain.verifier';
+import { SolanaChainVerifier } from './caip122/solana-chain.verifier';
 
 @Module({
   imports: [
     UserModule,
     ConfigModule,
     PassportModule,
-    JwtModule,
     AuthorizedUserProfileModule,
     RedisModule,
+    EvmModule,
+    CsrfModule,
+    RateLimitModule,
+    ScopesModule,
+    AuthEventsModule,
+  ],
+  controllers: [
+    AuthController,
+    JwksController,
+    LockoutController,
+    ScopesController,
+    ApiKeyController,
+    WalletController,
+    AuthEventController,
+    ActivityController,
+  ],
+  providers: [
+    AuthService,
+    JwtStrategy,
+    ApiKeyStrategy,
+    SiwePolicyService,
+    SignatureVerifierService,
+    SessionService,
+    JwtKeyService,
+    ClaimsService,
+    RolesClaimsEnricher,
+    AuthCookieService,
+    AuthEventLogService,
+    SignInLockoutService,
+    RecapScopesService,
+    ScopesClaimsEnricher,
+    TokenGateService,
+    ApiKeyService,
+    ChainVerifierRegistryService,
+    Eip155ChainVerifier,
+    SolanaChainVerifier,
+  ],
+  exports: [
+    AuthService,
+    SessionService,
+    JwtKeyService,
+    ClaimsService,
+    AuthEventsModule,
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
 })
-export class AuthModule {}
+export class AuthModule implements OnModuleInit {
+  constructor(private readonly scopeRegistryService: ScopeRegistryService) {}
+
+  onModuleInit() {
+    this.scopeRegistryService.register(
+      {
+        name: 'sessions:read',
+        description: 'List your active sessions',
+        default: true,
+      },
+      {
+        name: 'sessions:write',
+        description: 'Sign out your sessions',
+        default: true,
+      },
+      {
+        name: 'activity:read',
+        description: 'List your recent sign-ins and account activity',
+        default: true,
+      }
+    );
+  }
+}
@@ -1,36 +1,97 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { HttpException, HttpStatus, Logger } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { UserService } from '@/modules/main/user/user.service';
+import { RoleBootstrapService } from '@/modules/main/user/role-bootstrap.service';
 import { SignInDTO } from './dto/sign-in.dto';
-import { User } from 'generated/prisma';
-import * as ethers from 'ethers';
+import { User, Wallet } from 'generated/prisma';
 import * as siwe from 'siwe';
 import { AuthorizedUserProfileService } from '../smart-contracts/authorized-user-profile/authorized-user-profile.service';
 import { RedisService } from '@/modules/common/redis/redis.service';
+import { SiwePolicyService } from './siwe/siwe-policy.service';
+import { ChainVerifierRegistryService } from './caip122/chain-verifier-registry.service';
+import { SignInMessage } from './caip122/chain-verifier';
+import { Session, SessionService } from './session/session.service';
+import { JwtKeyService } from './keys/jwt-key.service';
+import { AccessTokenClaims, ClaimsService } from './claims/claims.service';
+import {
+  SiwePolicyErrorCode,
+  SiwePolicyException,
+} from './siwe/siwe-policy.exception';
+import { SignInLockoutService } from './lockout/sign-in-lockout.service';
+import { SignInLockoutException } from './lockout/sign-in-lockout.exception';
+import { RecapScopesService } from './scopes/recap-scopes.service';
+import { EnsSyncService } from '@/modules/main/user/ens/ens-sync.service';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+import { AuthEventsService } from '@/modules/common/auth-events/auth-events.service';
 
-jest.mock('ethers');
 jest.mock('siwe');
 
 describe('AuthService', () => {
   let service: AuthService;
   let mockUserService: jest.Mocked<UserService>;
-  let mockJwtService: jest.Mocked<JwtService>;
   let mockConfigService: jest.Mocked<ConfigService>;
   let mockAuthorizedUserProfileService: jest.Mocked<AuthorizedUserProfileService>;
   let mockRedisService: jest.Mocked<RedisService>;
+  let mockSiwePolicyService: jest.Mocked<SiwePolicyService>;
+  let mockChainVerifierRegistryService: jest.Mocked<ChainVerifierRegistryService>;
+  let mockSessionService: jest.Mocked<SessionService>;
+  let mockJwtKeyService: jest.Mocked<JwtKeyService>;
+  let mockClaimsService: jest.Mocked<ClaimsService>;
+  let mockSignInLockoutService: jest.Mocked<SignInLockoutService>;
+  let mockRoleBootstrapService: jest.Mocked<RoleBootstrapService>;
+  let mockRecapScopesService: jest.Mocked<RecapScopesService>;
+  let mockEnsSyncService: jest.Mocked<EnsSyncService>;
+  let mockWalletService: jest.Mocked<WalletService>;
+  let mockAuthEventsService: jest.Mocked<AuthEventsService>;
+
+  const mockVerificationTime = new Date('2024-01-01T00:00:00.000Z');
 
   const mockUser: User = {
     id: 'test-user-id',
     publicAddress: '0x1234567890abcdef',
-    nonce: 'test-nonce',
     username: 'test-user',
+    role: 'user',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
   };
 
+  const mockSession: Session = {
+    id: 'test-session-id',
+    userId: mockUser.id,
+    address: mockUser.publicAddress,
+    chainId: 'eip155:1',
+    scopes: ['profile:read', 'profile:write'],
+    userAgent: 'test-user-agent',
+    ip: '127.0.0.1',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastRefreshedAt: null,
+  };
+
+  const mockClaims: AccessTokenClaims = {
+    sub: `eip155:1:${mockUser.publicAddress}`,
+    sid: mockSession.id,
+    auth_time: 1704067200,
+    chain_id: 'eip155:1',
+  };
+
+  const createSignInMessage = (
+    address = mockUser.publicAddress
+  ): SignInMessage => ({
+    namespace: 'eip155',
+    domain: 'localhost:3000',
+    address,
+    uri: 'http://localhost:3000',
+    version: '1',
+    chainId: 'eip155:1',
+    nonce: 'test-nonce',
+    issuedAt: '2024-01-01T00:00:00.000Z',
+  });
+
   beforeEach(async () => {
     // Mock Logger static methods to suppress logs during tests
     jest.spyOn(Logger, 'log').mockImplementation();
@@ -41,21 +102,17 @@ describe('AuthService', () => {
     mockUserService = {
       findUnique: jest.fn(),
       create: jest.fn(),
+      upsert: jest.fn(),
       update: jest.fn(),
     } as unknown as jest.Mocked<UserService>;
 
-    mockJwtService = {
-      signAsync: jest.fn(),
-      verifyAsync: jest.fn(),
-    } as unknown as jest.Mocked<JwtService>;
-
     mockConfigService = {
       getOrThrow: jest.fn((key: string) => {
         const configMap: Record<string, string | number> = {
-          'jwt.accessSecret': 'access-secret',
-          'jwt.refreshSecret': 'refresh-secret',
           'jwt.accessExpiresIn': 3600000,
           'jwt.refreshExpiresIn': 7200000,
+          'jwt.elevatedExpiresIn': 300000,
+          'siwe.nonceTtl': 300000,
         };
         return configMap[key];
       }),
@@ -69,11 +126,72 @@ describe('AuthService', () => {
     mockRedisService = {
       set: jest.fn(),
       get: jest.fn(),
+      getDelete: jest.fn(),
       exists: jest.fn(),
       delete: jest.fn(),
       keys: jest.fn(),
     } as unknown as jest.Mocked<RedisService>;
 
+    mockSiwePolicyService = {
+      enforce: jest.fn().mockReturnValue(mockVerificationTime),
+    } as unknown as jest.Mocked<SiwePolicyService>;
+
+    mockChainVerifierRegistryService = {
+      normalizeAddress: jest.fn(),
+      parse: jest.fn(),
+      verify: jest.fn(),
+    } as unknown as jest.Mocked<ChainVerifierRegistryService>;
+
+    mockSessionService = {
+      create: jest.fn(),
+      get: jest.fn(),
+      storeTokenId: jest.fn(),
+      getTokenId: jest.fn(),
+      isAccessTokenId: jest.fn(),
+      consumeTokenId: jest.fn(),
+      touch: jest.fn(),
+      list: jest.fn(),
+      revoke: jest.fn(),
+      revokeAll: jest.fn(),
+    } as unknown as jest.Mocked<SessionService>;
+
+    mockJwtKeyService = {
+      sign: jest.fn(),
+      verify: jest.fn(),
+    } as unknown as jest.Mocked<JwtKeyService>;
+
+    mockClaimsService = {
+      build: jest.fn().mockResolvedValue(mockClaims),
+    } as unknown as jest.Mocked<ClaimsService>;
+
+    mockSignInLockoutService = {
+      assertNotLocked: jest.fn(),
+      recordFailure: jest.fn(),
+      recordSuccess: jest.fn(),
+    } as unknown as jest.Mocked<SignInLockoutService>;
+
+    mockRoleBootstrapService = {
+      getInitialRole: jest.fn().mockReturnValue('user'),
+    } as unknown as jest.Mocked<RoleBootstrapService>;
+
+    mockRecapScopesService = {
+      resolve: jest.fn().mockReturnValue(['profile:read', 'profile:write']),
+    } as unknown as jest.Mocked<RecapScopesService>;
+
+    mockEnsSyncService = {
+      refresh: jest.fn((user: User) => Promise.resolve(user)),
+    } as unknown as jest.Mocked<EnsSyncService>;
+
+    mockWalletService = {
+      findUser: jest.fn().mockResolvedValue(null),
+      link: jest.fn(),
+      unlink: jest.fn(),
+    } as unknown as jest.Mocked<WalletService>;
+
+    mockAuthEventsService = {
+      emit: jest.fn(),
+    } as unknown as jest.Mocked<AuthEventsService>;
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AuthService,
@@ -81,10 +199,6 @@ describe('AuthService', () => {
           provide: UserService,
           useValue: mockUserService,
         },
-        {
-          provide: JwtService,
-          useValue: mockJwtService,
-        },
         {
           provide: ConfigService,
           useValue: mockConfigService,
@@ -97,6 +211,50 @@ describe('AuthService', () => {
           provide: RedisService,
           useValue: mockRedisService,
         },
+        {
+          provide: SiwePolicyService,
+          useValue: mockSiwePolicyService,
+        },
+        {
+          provide: ChainVerifierRegistryService,
+          useValue: mockChainVerifierRegistryService,
+        },
+        {
+          provide: SessionService,
+          useValue: mockSessionService,
+        },
+        {
+          provide: JwtKeyService,
+          useValue: mockJwtKeyService,
+        },
+        {
+          provide: ClaimsService,
+          useValue: mockClaimsService,
+        },
+        {
+          provide: SignInLockoutService,
+          useValue: mockSignInLockoutService,
+        },
+        {
+          provide: RoleBootstrapService,
+          useValue: mockRoleBootstrapService,
+        },
+        {
+          provide: RecapScopesService,
+          useValue: mockRecapScopesService,
+        },
+        {
+          provide: EnsSyncService,
+          useValue: mockEnsSyncService,
+        },
+        {
+          provide: WalletService,
+          useValue: mockWalletService,
+        },
+        {
+          provide: AuthEventsService,
+          useValue: mockAuthEventsService,
+        },
       ],
     }).compile();
 
@@ -110,268 +268,584 @@ describe('AuthService', () => {
 
   describe('getNonce', () => {
     const mockGenerateNonce = siwe.generateNonce as jest.Mock;
-    const mockIsAddress = ethers.isAddress as unknown as jest.Mock;
 
     it('should throw error for invalid address', async () => {
       const inputAddress = 'invalid-address';
-      mockIsAddress.mockReturnValue(false);
+      mockChainVerifierRegistryService.normalizeAddress.mockReturnValue(null);
 
       await expect(service.getNonce(inputAddress)).rejects.toThrow(
         new HttpException('Invalid address', HttpStatus.BAD_REQUEST)
       );
 
-      expect(mockIsAddress).toHaveBeenCalledTimes(1);
-      expect(mockIsAddress).toHaveBeenCalledWith(inputAddress);
+      expect(
+        mockChainVerifierRegistryService.normalizeAddress
+      ).toHaveBeenCalledWith(inputAddress);
       expect(mockUserService.findUnique).not.toHaveBeenCalled();
     });
 
-    it('should create new user with nonce when user does not exist', async () => {
-      const inputAddress = '0x1234567890abcdef';
+    it('should store a single-use challenge in Redis and return the nonce', async () => {
+      const inputAddress = '0x1234567890ABCDEF';
       const mockNonce = 'generated-nonce';
-      mockIsAddress.mockReturnValue(true);
-      mockGenerateNonce.mockReturnValue(mockNonce);
-      mockUserService.findUnique.mockResolvedValue(null);
-      const expectedUser = {
-        ...mockUser,
-        publicAddress: inputAddress,
-        nonce: mockNonce,
-      };
-      mockUserService.create.mockResolvedValue(expectedUser);
-
-      const actualResult = await service.getNonce(inputAddress);
-
-      expect(mockIsAddress).toHaveBeenCalledWith(inputAddress);
-      expect(mockUserService.findUnique).toHaveBeenCalledTimes(1);
-      expect(mockUserService.findUnique).toHaveBeenCalledWith({
-        publicAddress: inputAddress,
-      });
-      expect(mockUserService.create).toHaveBeenCalledTimes(1);
-      expect(mockUserService.create).toHaveBeenCalledWith({
-        publicAddress: inputAddress,
-        username: `user-${inputAddress}`,
-        nonce: mockNonce,
-      });
-      expect(mockUserService.update).not.toHaveBeenCalled();
-      expect(actualResult).toEqual({
-        nonce: mockNonce,
+      mockChainVerifierRegistryService.normalizeAddress.mockReturnValue({
+        namespace: 'eip155',
         address: inputAddress,
       });
-    });
-
-    it('should update existing user with new nonce when user exists', async () => {
-      const inputAddress = '0x1234567890abcdef';
-      const mockNonce = 'new-generated-nonce';
-      mockIsAddress.mockReturnValue(true);
       mockGenerateNonce.mockReturnValue(mockNonce);
-      mockUserService.findUnique.mockResolvedValue(mockUser);
-      const expectedUser = { ...mockUser, nonce: mockNonce };
-      mockUserService.update.mockResolvedValue(expectedUser);
+      mockRedisService.set.mockResolvedValue();
 
       const actualResult = await service.getNonce(inputAddress);
 
-      expect(mockIsAddress).toHaveBeenCalledWith(inputAddress);
-      expect(mockUserService.findUnique).toHaveBeenCalledTimes(1);
-      expect(mockUserService.findUnique).toHaveBeenCalledWith({
-        publicAddress: inputAddress,
-      });
-      expect(mockUserService.update).toHaveBeenCalledTimes(1);
-      expect(mockUserService.update).toHaveBeenCalledWith({
-        where: { publicAddress: inputAddress },
-        data: { nonce: mockNonce },
-      });
+      expect(
+        mockChainVerifierRegistryService.normalizeAddress
+      ).toHaveBeenCalledWith(inputAddress);
+      expect(mockRedisService.set).toHaveBeenCalledTimes(1);
+      expect(mockRedisService.set).toHaveBeenCalledWith(
+        `nonce:${inputAddress.toLowerCase()}:${mockNonce}`,
+        expect.any(String),
+        300 // TTL in seconds
+      );
+      expect(mockUserService.findUnique).not.toHaveBeenCalled();
       expect(mockUserService.create).not.toHaveBeenCalled();
+      expect(mockUserService.update).not.toHaveBeenCalled();
       expect(actualResult).toEqual({
         nonce: mockNonce,
-        address: mockUser.publicAddress,
+        address: inputAddress,
       });
     });
   });
 
   describe('signIn', () => {
-    const mockIsAddress = ethers.isAddress as unknown as jest.Mock;
-    const mockGenerateNonce = siwe.generateNonce as jest.Mock;
-    const mockSiweMessage = siwe.SiweMessage as jest.Mock;
-
-    it('should throw error for invalid SIWE message', async () => {
+    it('should reject invalid sign-in messages before the lockout check', async () => {
       const inputDto: SignInDTO = {
-        message: 'invalid-siwe-message',
+        message: 'invalid-sign-in-message',
         signature: 'test-signature',
         nonce: 'test-nonce',
       };
-      mockSiweMessage.mockImplementation(() => {
-        throw new Error('Invalid message');
+      const expectedError = new HttpException(
+        'Invalid sign-in message',
+        HttpStatus.BAD_REQUEST
+      );
+      mockChainVerifierRegistryService.parse.mockImplementation(() => {
+        throw expectedError;
       });
 
-      await expect(service.signIn(inputDto)).rejects.toThrow(
-        new HttpException('Invalid SIWE message', HttpStatus.BAD_REQUEST)
+      await expect(service.signIn(inputDto)).rejects.toThrow(expectedError);
+
+      expect(mockChainVerifierRegistryService.parse).toHaveBeenCalledWith(
+        inputDto.message
       );
+      expect(mockSignInLockoutService.assertNotLocked).not.toHaveBeenCalled();
+      expect(mockUserService.upsert).not.toHaveBeenCalled();
+    });
 
-      expect(mockSiweMessage).toHaveBeenCalledTimes(1);
-      expect(mockSiweMessage).toHaveBeenCalledWith(inputDto.message);
+    it('should throw policy error before consuming the nonce', async () => {
+      const inputDto: SignInDTO = {
+        message: 'phishing-siwe-message',
+        signature: 'test-signature',
+        nonce: 'test-nonce',
+      };
+      const mockAddress = '0x1234567890abcdef';
+      const expectedError = new SiwePolicyException(
+        SiwePolicyErrorCode.DOMAIN_NOT_ALLOWED,
+        'Domain "evil.example" is not allowed'
+      );
+      mockChainVerifierRegistryService.parse.mockReturnValue(
+        createSignInMessage(mockAddress)
+      );
+      mockSiwePolicyService.enforce.mockImplementation(() => {
+        throw expectedError;
+      });
+
+      await expect(service.signIn(inputDto)).rejects.toThrow(expectedError);
+
+      expect(mockSiwePolicyService.enforce).toHaveBeenCalledTimes(1);
+      expect(mockRedisService.getDelete).not.toHaveBeenCalled();
     });
 
-    it('should throw error for invalid address', async () => {
+    it('should reject invalid ReCaps before consuming the nonce', async () => {
       const inputDto: SignInDTO = {
         message: 'valid-siwe-message',
         signature: 'test-signature',
         nonce: 'test-nonce',
       };
-      const mockAddress = 'invalid-address';
-      mockSiweMessage.mockImplementation(() => ({
-        address: mockAddress,
-      }));
-      mockIsAddress.mockReturnValue(false);
-
-      await expect(service.signIn(inputDto)).rejects.toThrow(
-        new HttpException('Address is not valid!', HttpStatus.BAD_REQUEST)
+      const expectedError = new SiwePolicyException(
+        SiwePolicyErrorCode.CAPABILITY_NOT_ALLOWED,
+        'Unknown capability admin/write'
       );
+      mockChainVerifierRegistryService.parse.mockReturnValue(
+        createSignInMessage('0x1234567890abcdef')
+      );
+      mockRecapScopesService.resolve.mockImplementation(() => {
+        throw expectedError;
+      });
 
-      expect(mockSiweMessage).toHaveBeenCalledWith(inputDto.message);
-      expect(mockIsAddress).toHaveBeenCalledWith(mockAddress);
-      expect(mockUserService.findUnique).not.toHaveBeenCalled();
+      await expect(service.signIn(inputDto)).rejects.toThrow(expectedError);
+
+      expect(mockRedisService.getDelete).not.toHaveBeenCalled();
+      expect(mockSessionService.create).not.toHaveBeenCalled();
     });
 
-    it('should throw error when user not found', async () => {
+    it('should throw error when the nonce challenge does not exist', async () => {
       const inputDto: SignInDTO = {
         message: 'valid-siwe-message',
         signature: 'test-signature',
-        nonce: 'test-nonce',
+        nonce: 'wrong-nonce',
       };
       const mockAddress = '0x1234567890abcdef';
-      mockSiweMessage.mockImplementation(() => ({
-        address: mockAddress,
-      }));
-      mockIsAddress.mockReturnValue(true);
-      mockUserService.findUnique.mockResolvedValue(null);
+      mockChainVerifierRegistryService.parse.mockReturnValue(
+        createSignInMessage(mockAddress)
+      );
+      mockRedisService.getDelete.mockResolvedValue(null);
 
       await expect(service.signIn(inputDto)).rejects.toThrow(
-        new HttpException('User not found', HttpStatus.BAD_REQUEST)
+        new HttpException('Invalid nonce', HttpStatus.UNAUTHORIZED)
       );
 
-      expect(mockUserService.findUnique).toHaveBeenCalledTimes(1);
-      expect(mockUserService.findUnique).toHaveBeenCalledWith({
-        publicAddress: mockAddress,
+      expect(mockRedisService.getDelete).toHaveBeenCalledWith(
+        `nonce:${mockAddress}:${inputDto.nonce}`
+      );
+      expect(mockChainVerifierRegistryService.verify).not.toHaveBeenCalled();
+      expect(mockUserService.upsert).not.toHaveBeenCalled();
+      expect(mockSignInLockoutService.recordFailure).toHaveBeenCalledWith({
+        address: mockAddress,
+        ip: undefined,
       });
     });
 
-    it('should throw error for nonce mismatch', async () => {
+    it('should reject locked out sign-ins before consuming the nonce', async () => {
       const inputDto: SignInDTO = {
         message: 'valid-siwe-message',
         signature: 'test-signature',
-        nonce: 'wrong-nonce',
+        nonce: 'test-nonce',
       };
       const mockAddress = '0x1234567890abcdef';
-      mockSiweMessage.mockImplementation(() => ({
-        address: mockAddress,
-      }));
-      mockIsAddress.mockReturnValue(true);
-      mockUserService.findUnique.mockResolvedValue(mockUser);
-
-      await expect(service.signIn(inputDto)).rejects.toThrow(
-        new HttpException('Invalid nonce', HttpStatus.UNAUTHORIZED)
+      const expectedError = new SignInLockoutException(60);
+      mockChainVerifierRegistryService.parse.mockReturnValue(
+        createSignInMessage(mockAddress)
       );
+      mockSignInLockoutService.assertNotLocked.mockRejectedValue(expectedError);
 
-      expect(mockUserService.findUnique).toHaveBeenCalledWith({
-        publicAddress: mockAddress,
+      await expect(
+        service.signIn(inputDto, { ip: '127.0.0.1' })
+      ).rejects.toThrow(expectedError);
+
+      expect(mockSignInLockoutService.assertNotLocked).toHaveBeenCalledWith({
+        address: mockAddress,
+        ip: '127.0.0.1',
       });
+      expect(mockRedisService.getDelete).not.toHaveBeenCalled();
+      expect(mockSignInLockoutService.recordFailure).not.toHaveBeenCalled();
     });
 
     it('should throw error when signature verification fails', async () => {
       const inputDto: SignInDTO = {
         message: 'valid-siwe-message',
         signature: 'invalid-signature',
-        nonce: mockUser.nonce,
+        nonce: 'test-nonce',
       };
       const mockAddress = mockUser.publicAddress;
-      const mockVerify = jest.fn().mockResolvedValue({ success: false });
-      mockSiweMessage.mockImplementation(() => ({
-        address: mockAddress,
-        verify: mockVerify,
-      }));
-      mockIsAddress.mockReturnValue(true);
-      mockUserService.findUnique.mockResolvedValue(mockUser);
+      const mockMessage = createSignInMessage(mockAddress);
+      mockChainVerifierRegistryService.parse.mockReturnValue(mockMessage);
+      mockChainVerifierRegistryService.verify.mockResolvedValue(false);
+      mockRedisService.getDelete.mockResolvedValue('2024-01-01T00:00:00.000Z');
 
       await expect(service.signIn(inputDto)).rejects.toThrow(
         new HttpException('SIWE verification failed', HttpStatus.UNAUTHORIZED)
       );
 
-      expect(mockVerify).toHaveBeenCalledTimes(1);
-      expect(mockVerify).toHaveBeenCalledWith({
-        signature: inputDto.signature,
-        nonce: mockUser.nonce,
+      expect(mockChainVerifierRegistryService.verify).toHaveBeenCalledTimes(1);
+      expect(mockUserService.upsert).not.toHaveBeenCalled();
+      expect(mockSignInLockoutService.recordFailure).toHaveBeenCalledWith({
+        address: mockAddress,
+        ip: undefined,
+      });
+      expect(mockSignInLockoutService.recordSuccess).not.toHaveBeenCalled();
+      expect(mockAuthEventsService.emit).toHaveBeenCalledWith({
+        type: 'sign_in.failed',
+        address: mockAddress,
+        ip: undefined,
+        userAgent: undefined,
+        data: { reason: 'invalid_signature' },
       });
+      expect(mockChainVerifierRegistryService.verify).toHaveBeenCalledWith(
+        'eip155',
+        {
+          message: inputDto.message,
+          signature: inputDto.signature,
+          nonce: inputDto.nonce,
+          time: mockVerificationTime,
+        }
+      );
     });
 
     it('should successfully sign in and return tokens', async () => {
       const inputDto: SignInDTO = {
         message: 'valid-siwe-message',
         signature: 'valid-signature',
-        nonce: mockUser.nonce,
+        nonce: 'test-nonce',
       };
       const mockAddress = mockUser.publicAddress;
-      const mockVerify = jest.fn().mockResolvedValue({ success: true });
-      mockSiweMessage.mockImplementation(() => ({
-        address: mockAddress,
-        verify: mockVerify,
-      }));
-      mockIsAddress.mockReturnValue(true);
-      mockUserService.findUnique.mockResolvedValue(mockUser);
-      const mockNextNonce = 'next-nonce';
-      mockGenerateNonce.mockReturnValue(mockNextNonce);
-      const mockUpdatedUser = { ...mockUser, nonce: mockNextNonce };
-      mockUserService.update.mockResolvedValue(mockUpdatedUser);
+      const mockMessage = createSignInMessage(mockAddress);
+      mockChainVerifierRegistryService.parse.mockReturnValue(mockMessage);
+      mockChainVerifierRegistryService.verify.mockResolvedValue(true);
+      mockRedisService.getDelete.mockResolvedValue('2024-01-01T00:00:00.000Z');
+      mockUserService.upsert.mockResolvedValue(mockUser);
       const mockAccessToken = 'access-token';
       const mockRefreshToken = 'refresh-token';
-      mockJwtService.signAsync
-        .mockResolvedValueOnce(mockAccessToken)
-        .mockResolvedValueOnce(mockRefreshToken);
-      mockRedisService.set.mockResolvedValue();
-
-      const actualResult = await service.signIn(inputDto);
+      mockJwtKeyService.sign.mockImplementation((type) =>
+        Promise.resolve(type === 'access' ? mockAccessToken : mockRefreshToken)
+      );
+      mockSessionService.create.mockResolvedValue(mockSession);
+      mockSessionService.storeTokenId.mockResolvedValue();
 
-      expect(mockVerify).toHaveBeenCalledWith({
-        signature: inputDto.signature,
-        nonce: mockUser.nonce,
+      const actualResult = await service.signIn(inputDto, {
+        userAgent: 'test-user-agent',
+        ip: '127.0.0.1',
       });
-      expect(mockUserService.update).toHaveBeenCalledTimes(1);
-      expect(mockUserService.update).toHaveBeenCalledWith({
+
+      expect(mockChainVerifierRegistryService.verify).toHaveBeenCalledWith(
+        'eip155',
+        {
+          message: inputDto.message,
+          signature: inputDto.signature,
+          nonce: inputDto.nonce,
+          time: mockVerificationTime,
+        }
+      );
+      expect(mockRedisService.getDelete).toHaveBeenCalledWith(
+        `nonce:${mockAddress}:${inputDto.nonce}`
+      );
+      expect(mockSignInLockoutService.recordSuccess).toHaveBeenCalledWith(
+        mockAddress
+      );
+      expect(mockSignInLockoutService.recordFailure).not.toHaveBeenCalled();
+      expect(mockUserService.upsert).toHaveBeenCalledTimes(1);
+      expect(mockUserService.upsert).toHaveBeenCalledWith({
         where: { publicAddress: mockAddress },
-        data: { nonce: mockNextNonce },
+        create: {
+          publicAddress: mockAddress,
+          username: `user-${mockAddress}`,
+          role: 'user',
+          wallets: { create: { namespace: 'eip155', address: mockAddress } },
+        },
+        update: {},
+      });
+      expect(mockRoleBootstrapService.getInitialRole).toHaveBeenCalledWith(
+        mockAddress
+      );
+      expect(mockEnsSyncService.refresh).toHaveBeenCalledWith(mockUser);
+      expect(mockSessionService.create).toHaveBeenCalledWith({
+        userId: mockUser.id,
+        address: mockAddress,
+        chainId: 'eip155:1',
+        scopes: ['profile:read', 'profile:write'],
+        userAgent: 'test-user-agent',
+        ip: '127.0.0.1',
       });
-      expect(mockJwtService.signAsync).toHaveBeenCalledTimes(2);
-      expect(mockJwtService.signAsync).toHaveBeenNthCalledWith(
-        1,
-        { ...mockUser },
+      expect(mockClaimsService.build).toHaveBeenCalledWith({
+        user: mockUser,
+        session: mockSession,
+      });
+      expect(mockJwtKeyService.sign).toHaveBeenCalledTimes(2);
+      expect(mockJwtKeyService.sign).toHaveBeenCalledWith(
+        'access',
+        mockClaims,
         {
-          secret: 'access-secret',
           expiresIn: 3600000,
+          jwtid: expect.any(String),
         }
       );
-      expect(mockJwtService.signAsync).toHaveBeenNthCalledWith(
-        2,
-        { ...mockUser },
+      expect(mockJwtKeyService.sign).toHaveBeenCalledWith(
+        'refresh',
+        { sub: mockClaims.sub, sid: mockSession.id },
         {
-          secret: 'refresh-secret',
           expiresIn: 7200000,
+          jwtid: expect.any(String),
         }
       );
 
-      // Verify Redis operations - tokens stored as values
-      expect(mockRedisService.set).toHaveBeenCalledWith(
-        `access:${mockAddress}`,
-        mockAccessToken,
-        3600 // TTL in seconds
+      // Verify token IDs are stored for the session
+      const [[, , accessOptions], [, , refreshOptions]] =
+        mockJwtKeyService.sign.mock.calls;
+      expect(accessOptions?.jwtid).not.toEqual(refreshOptions?.jwtid);
+      expect(mockSessionService.storeTokenId).toHaveBeenCalledWith(
+        'access',
+        mockSession.id,
+        accessOptions?.jwtid,
+        3600000
       );
-      expect(mockRedisService.set).toHaveBeenCalledWith(
-        `refresh:${mockAddress}`,
-        mockRefreshToken,
-        7200 // TTL in seconds
+      expect(mockSessionService.storeTokenId).toHaveBeenCalledWith(
+        'refresh',
+        mockSession.id,
+        refreshOptions?.jwtid,
+        7200000
       );
+      expect(mockUserService.findUnique).toHaveBeenCalledWith({
+        publicAddress: mockAddress,
+      });
+      expect(mockAuthEventsService.emit).toHaveBeenCalledWith({
+        type: 'user.created',
+        userId: mockUser.id,
+        address: mockAddress,
+        ip: '127.0.0.1',
+        userAgent: 'test-user-agent',
+        sessionId: mockSession.id,
+        data: { chainId: 'eip155:1' },
+      });
+      expect(mockAuthEventsService.emit).toHaveBeenCalledWith({
+        type: 'sign_in.succeeded',
+        userId: mockUser.id,
+        address: mockAddress,
+        ip: '127.0.0.1',
+        userAgent: 'test-user-agent',
+        sessionId: mockSession.id,
+        data: {
+          chainId: 'eip155:1',
+          scopes: ['profile:read', 'profile:write'],
+        },
+      });
       expect(actualResult).toEqual({
         address: mockAddress,
+        chainId: 'eip155:1',
         accessToken: mockAccessToken,
         refreshToken: mockRefreshToken,
+        scopes: ['profile:read', 'profile:write'],
+      });
+    });
+
+    it('should only resolve the ENS name of users that were never resolved', async () => {
+      const resolvedUser: User = {
+        ...mockUser,
+        ensName: 'test-user.eth',
+        ensResolvedAt: new Date('2024-01-01'),
+      };
+      mockChainVerifierRegistryService.parse.mockReturnValue(
+        createSignInMessage(mockUser.publicAddress)
+      );
+      mockChainVerifierRegistryService.verify.mockResolvedValue(true);
+      mockRedisService.getDelete.mockResolvedValue('2024-01-01T00:00:00.000Z');
+      mockUserService.upsert.mockResolvedValue(resolvedUser);
+      mockJwtKeyService.sign.mockResolvedValue('token');
+      mockSessionService.create.mockResolvedValue(mockSession);
+
+      await service.signIn({
+        message: 'valid-siwe-message',
+        signature: 'valid-signature',
+        nonce: 'test-nonce',
+      });
+
+      expect(mockEnsSyncService.refresh).not.toHaveBeenCalled();
+      expect(mockClaimsService.build).toHaveBeenCalledWith({
+        user: resolvedUser,
+        session: mockSession,
+      });
+    });
+
+    it('should sign in the user a linked wallet belongs to', async () => {
+      const linkedAddress = '0xfedcba0987654321';
+      const resolvedUser: User = {
+        ...mockUser,
+        ensResolvedAt: new Date('2024-01-01'),
+      };
+      mockChainVerifierRegistryService.parse.mockReturnValue(
+        createSignInMessage(linkedAddress)
+      );
+      mockChainVerifierRegistryService.verify.mockResolvedValue(true);
+      mockRedisService.getDelete.mockResolvedValue('2024-01-01T00:00:00.000Z');
+      mockWalletService.findUser.mockResolvedValue(resolvedUser);
+      mockJwtKeyService.sign.mockResolvedValue('token');
+      mockSessionService.create.mockResolvedValue(mockSession);
+
+      const actualResult = await service.signIn({
+        message: 'valid-siwe-message',
+        signature: 'valid-signature',
+        nonce: 'test-nonce',
+      });
+
+      expect(mockWalletService.findUser).toHaveBeenCalledWith(linkedAddress);
+      expect(mockUserService.upsert).not.toHaveBeenCalled();
+      expect(mockAuthEventsService.emit).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'user.created' })
+      );
+      expect(mockSessionService.create).toHaveBeenCalledWith({
+        userId: mockUser.id,
+        address: linkedAddress,
+        chainId: 'eip155:1',
+        scopes: ['profile:read', 'profile:write'],
+        userAgent: undefined,
+        ip: undefined,
+      });
+      expect(actualResult.address).toEqual(linkedAddress);
+    });
+
+    it('should not create users that exist without a linked wallet', async () => {
+      mockChainVerifierRegistryService.parse.mockReturnValue(
+        createSignInMessage(mockUser.publicAddress)
+      );
+      mockChainVerifierRegistryService.verify.mockResolvedValue(true);
+      mockRedisService.getDelete.mockResolvedValue('2024-01-01T00:00:00.000Z');
+      mockUserService.findUnique.mockResolvedValue(mockUser);
+      mockJwtKeyService.sign.mockResolvedValue('token');
+      mockSessionService.create.mockResolvedValue(mockSession);
+
+      await service.signIn({
+        message: 'valid-siwe-message',
+        signature: 'valid-signature',
+        nonce: 'test-nonce',
+      });
+
+      expect(mockUserService.upsert).not.toHaveBeenCalled();
+      expect(mockAuthEventsService.emit).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'user.created' })
+      );
+      expect(mockAuthEventsService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'sign_in.succeeded' })
+      );
+    });
+
+    it('should sign in Solana wallets with their CAIP-2 chain ID', async () => {
+      const solanaAddress = '7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv';
+      const solanaChainId = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp';
+      const solanaUser: User = {
+        ...mockUser,
+        publicAddress: solanaAddress,
+        ensResolvedAt: new Date('2024-01-01'),
+      };
+      mockChainVerifierRegistryService.parse.mockReturnValue({
+        ...createSignInMessage(solanaAddress),
+        namespace: 'solana',
+        chainId: solanaChainId,
+      });
+      mockChainVerifierRegistryService.verify.mockResolvedValue(true);
+      mockRedisService.getDelete.mockResolvedValue('2024-01-01T00:00:00.000Z');
+      mockUserService.upsert.mockResolvedValue(solanaUser);
+      mockJwtKeyService.sign.mockResolvedValue('token');
+      mockSessionService.create.mockResolvedValue(mockSession);
+
+      const actualResult = await service.signIn({
+        message: 'valid-siws-message',
+        signature: 'valid-signature',
+        nonce: 'test-nonce',
+      });
+
+      expect(mockChainVerifierRegistryService.verify).toHaveBeenCalledWith(
+        'solana',
+        expect.objectContaining({ message: 'valid-siws-message' })
+      );
+      expect(mockUserService.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            wallets: {
+              create: { namespace: 'solana', address: solanaAddress },
+            },
+          }),
+        })
+      );
+      expect(mockSessionService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: solanaAddress,
+          chainId: solanaChainId,
+        })
+      );
+      expect(actualResult.chainId).toEqual(solanaChainId);
+    });
+  });
+
+  describe('linkWallet', () => {
+    const linkedAddress = '0xfedcba0987654321';
+    const inputDto: SignInDTO = {
+      message: 'valid-siwe-message',
+      signature: 'valid-signature',
+      nonce: 'test-nonce',
+    };
+
+    beforeEach(() => {
+      mockChainVerifierRegistryService.parse.mockReturnValue(
+        createSignInMessage(linkedAddress)
+      );
+      mockRedisService.getDelete.mockResolvedValue('2024-01-01T00:00:00.000Z');
+    });
+
+    it('should link the wallet once its signature is verified', async () => {
+      const mockWallet: Wallet = {
+        id: 'test-wallet-id',
+        namespace: 'eip155',
+        address: linkedAddress,
+        userId: mockUser.id,
+        createdAt: new Date('2024-01-02'),
+      };
+      mockChainVerifierRegistryService.verify.mockResolvedValue(true);
+      mockWalletService.link.mockResolvedValue(mockWallet);
+
+      await expect(
+        service.linkWallet(mockUser, inputDto, { ip: '127.0.0.1' })
+      ).resolves.toBe(mockWallet);
+
+      expect(mockSignInLockoutService.assertNotLocked).toHaveBeenCalledWith({
+        address: linkedAddress,
+        ip: '127.0.0.1',
+      });
+      expect(mockRedisService.getDelete).toHaveBeenCalledWith(
+        `nonce:${linkedAddress}:${inputDto.nonce}`
+      );
+      expect(mockWalletService.link).toHaveBeenCalledWith(mockUser.id, {
+        namespace: 'eip155',
+        address: linkedAddress,
+      });
+      expect(mockSessionService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not link the wallet when verification fails', async () => {
+      mockChainVerifierRegistryService.verify.mockResolvedValue(false);
+
+      await expect(service.linkWallet(mockUser, inputDto)).rejects.toThrow(
+        new HttpException('SIWE verification failed', HttpStatus.UNAUTHORIZED)
+      );
+
+      expect(mockSignInLockoutService.recordFailure).toHaveBeenCalledWith({
+        address: linkedAddress,
+        ip: undefined,
       });
+      expect(mockWalletService.link).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlinkWallet', () => {
+    const linkedAddress = '0xfedcba0987654321';
+
+    it('should revoke the sessions signed in with the wallet', async () => {
+      const linkedSession: Session = {
+        ...mockSession,
+        id: 'linked-session-id',
+        address: linkedAddress,
+      };
+      mockWalletService.unlink.mockResolvedValue(mockUser);
+      mockSessionService.list.mockResolvedValue([mockSession, linkedSession]);
+
+      await expect(
+        service.unlinkWallet(mockUser, linkedAddress)
+      ).resolves.toEqual([linkedSession.id]);
+
+      expect(mockWalletService.unlink).toHaveBeenCalledWith(
+        mockUser,
+        linkedAddress
+      );
+      expect(mockSessionService.revoke).toHaveBeenCalledTimes(1);
+      expect(mockSessionService.revoke).toHaveBeenCalledWith(linkedSession.id);
+    });
+
+    it('should not revoke sessions when the wallet cannot be unlinked', async () => {
+      const expectedError = new HttpException(
+        'At least one wallet must remain linked',
+        HttpStatus.BAD_REQUEST
+      );
+      mockWalletService.unlink.mockRejectedValue(expectedError);
+
+      await expect(
+        service.unlinkWallet(mockUser, mockUser.publicAddress)
+      ).rejects.toThrow(expectedError);
+
+      expect(mockSessionService.revoke).not.toHaveBeenCalled();
     });
   });
 
@@ -379,82 +853,138 @@ describe('AuthService', () => {
     it('should throw error for invalid refresh token', async () => {
       const inputToken = 'invalid-token';
       const mockError = new Error('Invalid token');
-      mockJwtService.verifyAsync.mockRejectedValue(mockError);
+      mockJwtKeyService.verify.mockRejectedValue(mockError);
 
       await expect(service.refresh(inputToken)).rejects.toThrow(
         new HttpException('Invalid refresh token', HttpStatus.UNAUTHORIZED)
       );
 
-      expect(mockJwtService.verifyAsync).toHaveBeenCalledTimes(1);
-      expect(mockJwtService.verifyAsync).toHaveBeenCalledWith(inputToken, {
-        secret: 'refresh-secret',
-      });
+      expect(mockJwtKeyService.verify).toHaveBeenCalledTimes(1);
+      expect(mockJwtKeyService.verify).toHaveBeenCalledWith(
+        'refresh',
+        inputToken
+      );
     });
 
-    it('should successfully refresh and return new access token', async () => {
+    it('should rotate the refresh token and return new tokens', async () => {
       const inputToken = 'valid-refresh-token';
-      const oldAccessToken = 'old-access-token';
       const mockDecodedToken = {
-        id: mockUser.id,
-        publicAddress: mockUser.publicAddress,
-        nonce: mockUser.nonce,
-        username: mockUser.username,
-        createdAt: mockUser.createdAt,
-        updatedAt: mockUser.updatedAt,
+        sub: mockClaims.sub,
+        sid: mockSession.id,
         iat: 1234567890,
         exp: 1234567999,
+        jti: 'refresh-token-id',
       };
-      mockJwtService.verifyAsync.mockResolvedValue(mockDecodedToken);
+      mockJwtKeyService.verify.mockResolvedValue(mockDecodedToken);
       const mockAccessToken = 'new-access-token';
-      mockJwtService.signAsync.mockResolvedValue(mockAccessToken);
-      mockRedisService.get.mockResolvedValue(inputToken); // Stored refresh token
-      mockRedisService.set.mockResolvedValue();
-
-      const actualResult = await service.refresh(inputToken, oldAccessToken);
+      const mockRefreshToken = 'new-refresh-token';
+      mockJwtKeyService.sign.mockImplementation((type) =>
+        Promise.resolve(type === 'access' ? mockAccessToken : mockRefreshToken)
+      );
+      mockSessionService.consumeTokenId.mockResolvedValue('refresh-token-id');
+      mockSessionService.get.mockResolvedValue(mockSession);
+      mockSessionService.storeTokenId.mockResolvedValue();
+      mockSessionService.touch.mockResolvedValue();
+      mockUserService.findUnique.mockResolvedValue(mockUser);
 
-      expect(mockJwtService.verifyAsync).toHaveBeenCalledTimes(1);
-      expect(mockJwtService.verifyAsync).toHaveBeenCalledWith(inputToken, {
-        secret: 'refresh-secret',
+      const actualResult = await service.refresh(inputToken, {
+        userAgent: 'test-user-agent',
+        ip: '127.0.0.2',
       });
-      expect(mockRedisService.get).toHaveBeenCalledWith(
-        `refresh:${mockUser.publicAddress}`
+
+      expect(mockJwtKeyService.verify).toHaveBeenCalledTimes(1);
+      expect(mockJwtKeyService.verify).toHaveBeenCalledWith(
+        'refresh',
+        inputToken
       );
-      expect(mockJwtService.signAsync).toHaveBeenCalledTimes(1);
-      expect(mockJwtService.signAsync).toHaveBeenCalledWith(
-        {
-          id: mockUser.id,
-          publicAddress: mockUser.publicAddress,
-          nonce: mockUser.nonce,
-          username: mockUser.username,
-          createdAt: mockUser.createdAt,
-          updatedAt: mockUser.updatedAt,
-        },
+      expect(mockSessionService.consumeTokenId).toHaveBeenCalledWith(
+        'refresh',
+        mockSession.id
+      );
+      // Claims are rebuilt from the current user, not copied from the token
+      expect(mockUserService.findUnique).toHaveBeenCalledWith({
+        id: mockSession.userId,
+      });
+      expect(mockClaimsService.build).toHaveBeenCalledWith({
+        user: mockUser,
+        session: mockSession,
+      });
+      expect(mockJwtKeyService.sign).toHaveBeenCalledTimes(2);
+      expect(mockJwtKeyService.sign).toHaveBeenCalledWith(
+        'access',
+        mockClaims,
         {
-          secret: 'access-secret',
           expiresIn: 3600000,
+          jwtid: expect.any(String),
         }
       );
-      expect(mockRedisService.set).toHaveBeenCalledWith(
-        `access:${mockUser.publicAddress}`,
-        mockAccessToken,
-        3600 // TTL in seconds
+      expect(mockJwtKeyService.sign).toHaveBeenCalledWith(
+        'refresh',
+        { sub: mockClaims.sub, sid: mockSession.id },
+        {
+          expiresIn: 7200000,
+          jwtid: expect.any(String),
+        }
+      );
+      const [[, , accessOptions], [, , refreshOptions]] =
+        mockJwtKeyService.sign.mock.calls;
+      expect(refreshOptions?.jwtid).not.toEqual('refresh-token-id');
+      expect(mockSessionService.storeTokenId).toHaveBeenCalledWith(
+        'access',
+        mockSession.id,
+        accessOptions?.jwtid,
+        3600000
+      );
+      expect(mockSessionService.storeTokenId).toHaveBeenCalledWith(
+        'refresh',
+        mockSession.id,
+        refreshOptions?.jwtid,
+        7200000
       );
+      expect(mockSessionService.touch).toHaveBeenCalledWith(mockSession);
+      expect(mockSessionService.revoke).not.toHaveBeenCalled();
+      expect(mockAuthEventsService.emit).toHaveBeenCalledWith({
+        type: 'session.refreshed',
+        userId: mockUser.id,
+        address: mockSession.address,
+        ip: '127.0.0.2',
+        userAgent: 'test-user-agent',
+        sessionId: mockSession.id,
+      });
       expect(actualResult).toEqual({
         accessToken: mockAccessToken,
+        refreshToken: mockRefreshToken,
       });
     });
 
-    it('should throw error when refresh token not in Redis', async () => {
+    it('should throw error when refresh token has no session', async () => {
+      const inputToken = 'legacy-refresh-token';
+      const mockDecodedToken = {
+        sub: mockClaims.sub,
+        iat: 1234567890,
+        exp: 1234567999,
+      };
+      mockJwtKeyService.verify.mockResolvedValue(mockDecodedToken);
+
+      await expect(service.refresh(inputToken)).rejects.toThrow(
+        new HttpException('Invalid token payload', HttpStatus.UNAUTHORIZED)
+      );
+
+      expect(mockSessionService.consumeTokenId).not.toHaveBeenCalled();
+    });
+
+    it('should throw error when the session no longer exists', async () => {
       const inputToken = 'valid-refresh-token';
       const mockDecodedToken = {
-        id: mockUser.id,
-        publicAddress: mockUser.publicAddress,
+        sub: mockClaims.sub,
+        sid: mockSession.id,
         iat: 1234567890,
         exp: 1234567999,
+        jti: 'refresh-token-id',
       };
-      mockJwtService.verifyAsync.mockResolvedValue(mockDecodedToken);
-      mockConfigService.getOrThrow.mockReturnValueOnce('refresh-secret');
-      mockRedisService.get.mockResolvedValue(null); // No token in Redis
+      mockJwtKeyService.verify.mockResolvedValue(mockDecodedToken);
+      mockSessionService.consumeTokenId.mockResolvedValue(null); // No token in Redis
+      mockSessionService.get.mockResolvedValue(null);
 
       await expect(service.refresh(inputToken)).rejects.toThrow(
         new HttpException(
@@ -462,40 +992,402 @@ describe('AuthService', () => {
           HttpStatus.UNAUTHORIZED
         )
       );
+
+      expect(mockSessionService.consumeTokenId).not.toHaveBeenCalled();
+      expect(mockSessionService.revoke).not.toHaveBeenCalled();
+      expect(mockJwtKeyService.sign).not.toHaveBeenCalled();
+    });
+
+    it('should only accept refresh tokens of client sessions from their client', async () => {
+      mockJwtKeyService.verify.mockResolvedValue({
+        sub: mockClaims.sub,
+        sid: mockSession.id,
+        jti: 'refresh-token-id',
+      });
+      mockSessionService.consumeTokenId.mockResolvedValue('refresh-token-id');
+      mockSessionService.get.mockResolvedValue({
+        ...mockSession,
+        clientId: 'test-client-id',
+      });
+
+      await expect(service.refresh('valid-refresh-token')).rejects.toThrow(
+        new HttpException(
+          'Refresh token not found or expired',
+          HttpStatus.UNAUTHORIZED
+        )
+      );
+      await expect(
+        service.refresh('valid-refresh-token', { clientId: 'other-client-id' })
+      ).rejects.toThrow(HttpException);
+
+      // The token stays usable by its client
+      expect(mockSessionService.consumeTokenId).not.toHaveBeenCalled();
+      expect(mockSessionService.revoke).not.toHaveBeenCalled();
+      expect(mockJwtKeyService.sign).not.toHaveBeenCalled();
     });
 
-    it('should throw error when refresh token does not match', async () => {
+    it('should revoke the session when its user no longer exists', async () => {
       const inputToken = 'valid-refresh-token';
-      const differentToken = 'different-refresh-token';
+      mockJwtKeyService.verify.mockResolvedValue({
+        sub: mockClaims.sub,
+        sid: mockSession.id,
+        jti: 'refresh-token-id',
+      });
+      mockSessionService.consumeTokenId.mockResolvedValue('refresh-token-id');
+      mockSessionService.get.mockResolvedValue(mockSession);
+      mockUserService.findUnique.mockResolvedValue(null);
+
+      await expect(service.refresh(inputToken)).rejects.toThrow(
+        new HttpException('User not found', HttpStatus.UNAUTHORIZED)
+      );
+
+      expect(mockSessionService.revoke).toHaveBeenCalledWith(mockSession.id);
+      expect(mockJwtKeyService.sign).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session when a rotated refresh token is reused', async () => {
+      const inputToken = 'rotated-refresh-token';
       const mockDecodedToken = {
-        id: mockUser.id,
-        publicAddress: mockUser.publicAddress,
+        sub: mockClaims.sub,
+        sid: mockSession.id,
         iat: 1234567890,
         exp: 1234567999,
+        jti: 'rotated-refresh-token-id',
       };
-      mockJwtService.verifyAsync.mockResolvedValue(mockDecodedToken);
-      mockConfigService.getOrThrow.mockReturnValueOnce('refresh-secret');
-      mockRedisService.get.mockResolvedValue(differentToken); // Different token
+      mockJwtKeyService.verify.mockResolvedValue(mockDecodedToken);
+      mockSessionService.consumeTokenId.mockResolvedValue('refresh-token-id'); // Newer token
+      mockSessionService.get.mockResolvedValue(mockSession);
+      mockSessionService.revoke.mockResolvedValue();
+
+      await expect(
+        service.refresh(inputToken, {
+          ip: '127.0.0.1',
+          userAgent: 'test-agent',
+        })
+      ).rejects.toThrow(
+        new HttpException(
+          'Refresh token has already been used',
+          HttpStatus.UNAUTHORIZED
+        )
+      );
+
+      expect(mockSessionService.revoke).toHaveBeenCalledWith(mockSession.id);
+      expect(Logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('refresh token reuse detected')
+      );
+      expect(mockAuthEventsService.emit).toHaveBeenCalledWith({
+        type: 'session.token_reused',
+        userId: mockSession.userId,
+        address: mockSession.address,
+        ip: '127.0.0.1',
+        userAgent: 'test-agent',
+        sessionId: mockSession.id,
+      });
+      expect(mockJwtKeyService.sign).not.toHaveBeenCalled();
+      expect(mockSessionService.storeTokenId).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session when a refresh token is used concurrently', async () => {
+      const inputToken = 'valid-refresh-token';
+      const mockDecodedToken = {
+        sub: mockClaims.sub,
+        sid: mockSession.id,
+        iat: 1234567890,
+        exp: 1234567999,
+        jti: 'refresh-token-id',
+      };
+      mockJwtKeyService.verify.mockResolvedValue(mockDecodedToken);
+      mockSessionService.consumeTokenId.mockResolvedValue(null); // Already consumed
+      mockSessionService.get.mockResolvedValue(mockSession);
+      mockSessionService.revoke.mockResolvedValue();
 
       await expect(service.refresh(inputToken)).rejects.toThrow(
         new HttpException(
-          'Refresh token not found or expired',
+          'Refresh token has already been used',
           HttpStatus.UNAUTHORIZED
         )
       );
+
+      expect(mockSessionService.revoke).toHaveBeenCalledWith(mockSession.id);
+    });
+  });
+
+  describe('reauthenticate', () => {
+    const inputDto: SignInDTO = {
+      message: 'valid-siwe-message',
+      signature: 'valid-signature',
+      nonce: 'test-nonce',
+    };
+
+    beforeEach(() => {
+      mockSessionService.get.mockResolvedValue(mockSession);
+      mockChainVerifierRegistryService.parse.mockReturnValue(
+        createSignInMessage()
+      );
+      mockChainVerifierRegistryService.verify.mockResolvedValue(true);
+      mockRedisService.getDelete.mockResolvedValue('2024-01-01T00:00:00.000Z');
+      mockJwtKeyService.sign.mockResolvedValue('elevated-token');
+    });
+
+    it('should issue an elevated access token of the session', async () => {
+      await expect(
+        service.reauthenticate(mockUser, mockSession.id, inputDto, {
+          ip: '127.0.0.1',
+        })
+      ).resolves.toEqual({ accessToken: 'elevated-token', expiresIn: 300 });
+
+      expect(mockSignInLockoutService.assertNotLocked).toHaveBeenCalledWith({
+        address: mockUser.publicAddress,
+        ip: '127.0.0.1',
+      });
+      expect(mockRedisService.getDelete).toHaveBeenCalledWith(
+        `nonce:${mockUser.publicAddress.toLowerCase()}:${inputDto.nonce}`
+      );
+      expect(mockClaimsService.build).toHaveBeenCalledWith({
+        user: mockUser,
+        session: mockSession,
+        reauthenticatedAt: expect.any(Date),
+      });
+      expect(mockJwtKeyService.sign).toHaveBeenCalledWith(
+        'access',
+        mockClaims,
+        { expiresIn: 300000, jwtid: expect.any(String) }
+      );
+
+      // The regular tokens of the session stay valid, no session is started
+      const [[, , options]] = mockJwtKeyService.sign.mock.calls;
+      expect(mockSessionService.storeTokenId).toHaveBeenCalledTimes(1);
+      expect(mockSessionService.storeTokenId).toHaveBeenCalledWith(
+        'elevated',
+        mockSession.id,
+        options?.jwtid,
+        300000
+      );
+      expect(mockSessionService.create).not.toHaveBeenCalled();
+      expect(mockAuthEventsService.emit).toHaveBeenCalledWith({
+        type: 'session.reauthenticated',
+        userId: mockUser.id,
+        address: mockUser.publicAddress,
+        ip: '127.0.0.1',
+        userAgent: undefined,
+        sessionId: mockSession.id,
+      });
+    });
+
+    it('should reject messages signed by another wallet', async () => {
+      mockChainVerifierRegistryService.parse.mockReturnValue(
+        createSignInMessage('0xfedcba0987654321')
+      );
+
+      await expect(
+        service.reauthenticate(mockUser, mockSession.id, inputDto)
+      ).rejects.toThrow(
+        new HttpException(
+          'The message must be signed by the wallet of the session',
+          HttpStatus.FORBIDDEN
+        )
+      );
+
+      expect(mockRedisService.getDelete).not.toHaveBeenCalled();
+      expect(mockJwtKeyService.sign).not.toHaveBeenCalled();
+    });
+
+    it('should reject sessions of other users', async () => {
+      mockSessionService.get.mockResolvedValue({
+        ...mockSession,
+        userId: 'other-user-id',
+      });
+
+      await expect(
+        service.reauthenticate(mockUser, mockSession.id, inputDto)
+      ).rejects.toThrow(
+        new HttpException('Session not found', HttpStatus.UNAUTHORIZED)
+      );
+
+      expect(mockChainVerifierRegistryService.parse).not.toHaveBeenCalled();
+    });
+
+    it('should not issue a token when verification fails', async () => {
+      mockChainVerifierRegistryService.verify.mockResolvedValue(false);
+
+      await expect(
+        service.reauthenticate(mockUser, mockSession.id, inputDto)
+      ).rejects.toThrow(
+        new HttpException('SIWE verification failed', HttpStatus.UNAUTHORIZED)
+      );
+
+      expect(mockSignInLockoutService.recordFailure).toHaveBeenCalled();
+      expect(mockJwtKeyService.sign).not.toHaveBeenCalled();
+      expect(mockAuthEventsService.emit).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'session.reauthenticated' })
+      );
+    });
+  });
+
+  describe('inspectToken', () => {
+    const mockPayload = {
+      sub: mockClaims.sub,
+      sid: mockSession.id,
+      jti: 'access-token-id',
+    };
+
+    it('should return the claims and the session of current tokens', async () => {
+      mockJwtKeyService.verify.mockResolvedValue(mockPayload);
+      mockSessionService.isAccessTokenId.mockResolvedValue(true);
+      mockSessionService.get.mockResolvedValue(mockSession);
+
+      await expect(service.inspectToken('access-token')).resolves.toEqual({
+        type: 'access',
+        payload: mockPayload,
+        session: mockSession,
+      });
+      // Elevated access tokens are as current as the regular one
+      expect(mockSessionService.isAccessTokenId).toHaveBeenCalledWith(
+        mockSession.id,
+        'access-token-id'
+      );
+      // Inspecting a token must not use it up
+      expect(mockSessionService.consumeTokenId).not.toHaveBeenCalled();
+    });
+
+    it('should try the other token type when verification fails', async () => {
+      mockJwtKeyService.verify
+        .mockRejectedValueOnce(new Error('unexpected "typ" JWT header value'))
+        .mockResolvedValueOnce({ ...mockPayload, jti: 'refresh-token-id' });
+      mockSessionService.getTokenId.mockResolvedValue('refresh-token-id');
+      mockSessionService.get.mockResolvedValue(mockSession);
+
+      const result = await service.inspectToken('refresh-token');
+
+      expect(mockJwtKeyService.verify).toHaveBeenNthCalledWith(
+        2,
+        'refresh',
+        'refresh-token'
+      );
+      expect(result?.type).toEqual('refresh');
+    });
+
+    it('should try the hinted token type first', async () => {
+      mockJwtKeyService.verify.mockResolvedValue(mockPayload);
+      mockSessionService.getTokenId.mockResolvedValue('access-token-id');
+      mockSessionService.get.mockResolvedValue(mockSession);
+
+      await service.inspectToken('refresh-token', 'refresh');
+
+      expect(mockJwtKeyService.verify).toHaveBeenCalledTimes(1);
+      expect(mockJwtKeyService.verify).toHaveBeenCalledWith(
+        'refresh',
+        'refresh-token'
+      );
+    });
+
+    it('should return null for rotated or revoked tokens', async () => {
+      mockJwtKeyService.verify.mockResolvedValue(mockPayload);
+      mockSessionService.isAccessTokenId.mockResolvedValue(false);
+      mockSessionService.get.mockResolvedValue(mockSession);
+
+      await expect(service.inspectToken('access-token')).resolves.toBeNull();
+
+      mockSessionService.isAccessTokenId.mockResolvedValue(true);
+      mockSessionService.get.mockResolvedValue(null);
+
+      await expect(service.inspectToken('access-token')).resolves.toBeNull();
+    });
+
+    it('should return null for invalid tokens', async () => {
+      mockJwtKeyService.verify.mockRejectedValue(new Error('Invalid token'));
+
+      await expect(service.inspectToken('invalid-token')).resolves.toBeNull();
+      expect(mockJwtKeyService.verify).toHaveBeenCalledTimes(2);
     });
   });
 
   describe('signOut', () => {
-    it('should remove both tokens from Redis', async () => {
-      mockRedisService.delete.mockResolvedValue();
+    it('should revoke only the given session', async () => {
+      mockSessionService.get.mockResolvedValue(mockSession);
+      mockSessionService.revoke.mockResolvedValue();
+
+      await service.signOut(mockSession.id, { ip: '127.0.0.1' });
+
+      expect(mockSessionService.revoke).toHaveBeenCalledTimes(1);
+      expect(mockSessionService.revoke).toHaveBeenCalledWith(mockSession.id);
+      expect(mockRedisService.delete).not.toHaveBeenCalled();
+      expect(mockAuthEventsService.emit).toHaveBeenCalledWith({
+        type: 'session.signed_out',
+        userId: mockUser.id,
+        address: mockSession.address,
+        ip: '127.0.0.1',
+        userAgent: undefined,
+        sessionId: mockSession.id,
+      });
+    });
+
+    it('should not record sign-outs of sessions that are already gone', async () => {
+      mockSessionService.get.mockResolvedValue(null);
 
-      await service.signOut(mockUser.publicAddress);
+      await service.signOut(mockSession.id);
 
-      expect(mockRedisService.delete).toHaveBeenCalledWith(
-        `access:${mockUser.publicAddress}`,
-        `refresh:${mockUser.publicAddress}`
+      expect(mockSessionService.revoke).toHaveBeenCalledWith(mockSession.id);
+      expect(mockAuthEventsService.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSessions', () => {
+    it('should return the active sessions of the user', async () => {
+      mockSessionService.list.mockResolvedValue([mockSession]);
+
+      const result = await service.getSessions(mockUser.id);
+
+      expect(mockSessionService.list).toHaveBeenCalledWith(mockUser.id);
+      expect(result).toEqual([mockSession]);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke a session of the user', async () => {
+      mockSessionService.get.mockResolvedValue(mockSession);
+      mockSessionService.revoke.mockResolvedValue();
+
+      await service.revokeSession(mockUser.id, mockSession.id);
+
+      expect(mockSessionService.revoke).toHaveBeenCalledWith(mockSession.id);
+    });
+
+    it('should throw error when the session does not exist', async () => {
+      mockSessionService.get.mockResolvedValue(null);
+
+      await expect(
+        service.revokeSession(mockUser.id, 'unknown-session-id')
+      ).rejects.toThrow(
+        new HttpException('Session not found', HttpStatus.NOT_FOUND)
       );
+
+      expect(mockSessionService.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should throw error when the session belongs to another user', async () => {
+      mockSessionService.get.mockResolvedValue({
+        ...mockSession,
+        userId: 'other-user-id',
+      });
+
+      await expect(
+        service.revokeSession(mockUser.id, mockSession.id)
+      ).rejects.toThrow(
+        new HttpException('Session not found', HttpStatus.NOT_FOUND)
+      );
+
+      expect(mockSessionService.revoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should revoke all sessions of the user', async () => {
+      mockSessionService.revokeAll.mockResolvedValue();
+
+      await service.revokeAllSessions(mockUser.id);
+
+      expect(mockSessionService.revokeAll).toHaveBeenCalledWith(mockUser.id);
     });
   });
 });
@@ -1,230 +1,392 @@
 import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
 import { UserService } from '@/modules/main/user/user.service';
-import { ethers } from 'ethers';
-import { generateNonce, SiweMessage, SiweResponse } from 'siwe';
+import { RoleBootstrapService } from '@/modules/main/user/role-bootstrap.service';
+import { EnsSyncService } from '@/modules/main/user/ens/ens-sync.service';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+import { getPlaceholderUsername } from '@/modules/main/user/username';
+import { generateNonce } from 'siwe';
 import { SignInDTO } from './dto/sign-in.dto';
-import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { RedisService } from '@/modules/common/redis/redis.service';
+import { SiwePolicyService } from './siwe/siwe-policy.service';
+import { ChainVerifierRegistryService } from './caip122/chain-verifier-registry.service';
+import { SignInMessage } from './caip122/chain-verifier';
+import {
+  Session,
+  SessionClient,
+  SessionService,
+  TokenType,
+} from './session/session.service';
+import { ClaimsService } from './claims/claims.service';
+import { JwtKeyService, TokenPayload } from './keys/jwt-key.service';
+import { SignInLockoutService } from './lockout/sign-in-lockout.service';
+import { RecapScopesService } from './scopes/recap-scopes.service';
+import { AuthEventsService } from '@/modules/common/auth-events/auth-events.service';
+import { randomUUID } from 'crypto';
+import { User } from 'generated/prisma';
+
+export interface InspectedToken {
+  type: TokenType;
+  payload: TokenPayload;
+  session: Session;
+}
 
 @Injectable()
 export class AuthService {
-  private readonly jwtAccessSecret: string;
-  private readonly jwtRefreshSecret: string;
   private readonly jwtAccessExpiresIn: number;
   private readonly jwtRefreshExpiresIn: number;
+  private readonly jwtElevatedExpiresIn: number;
+  private readonly siweNonceTtl: number;
 
   constructor(
     private readonly userService: UserService,
-    private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
-    private readonly redisService: RedisService
+    private readonly redisService: RedisService,
+    private readonly siwePolicyService: SiwePolicyService,
+    private readonly chainVerifierRegistryService: ChainVerifierRegistryService,
+    private readonly sessionService: SessionService,
+    private readonly jwtKeyService: JwtKeyService,
+    private readonly claimsService: ClaimsService,
+    private readonly signInLockoutService: SignInLockoutService,
+    private readonly roleBootstrapService: RoleBootstrapService,
+    private readonly recapScopesService: RecapScopesService,
+    private readonly ensSyncService: EnsSyncService,
+    private readonly walletService: WalletService,
+    private readonly authEventsService: AuthEventsService
   ) {
     // Cache configuration values to avoid repeated lookups
-    this.jwtAccessSecret =
-      this.configService.getOrThrow<string>('jwt.accessSecret');
-    this.jwtRefreshSecret =
-      this.configService.getOrThrow<string>('jwt.refreshSecret');
     this.jwtAccessExpiresIn = this.configService.getOrThrow<number>(
       'jwt.accessExpiresIn'
     );
     this.jwtRefreshExpiresIn = this.configService.getOrThrow<number>(
       'jwt.refreshExpiresIn'
     );
+    this.jwtElevatedExpiresIn = this.configService.getOrThrow<number>(
+      'jwt.elevatedExpiresIn'
+    );
+    this.siweNonceTtl = this.configService.getOrThrow<number>('siwe.nonceTtl');
   }
 
   private generateNonce() {
     return generateNonce();
   }
 
-  private getTokenKey(
-    type: 'access' | 'refresh',
-    publicAddress: string
-  ): string {
-    return `${type}:${publicAddress}`;
-  }
-
-  private async storeToken(
-    type: 'access' | 'refresh',
-    publicAddress: string,
-    token: string,
-    ttl: number
-  ): Promise<void> {
-    const ttlSeconds = Math.floor(ttl / 1000);
-    await this.redisService.set(
-      this.getTokenKey(type, publicAddress),
-      token,
-      ttlSeconds
-    );
-  }
-
-  private checkIfAddressIsValid(address: string) {
-    return ethers.isAddress(address);
+  private getNonceKey(address: string, nonce: string): string {
+    return `nonce:${address.toLowerCase()}:${nonce}`;
   }
 
   async getNonce(address: string) {
-    if (!this.checkIfAddressIsValid(address)) {
+    // Addresses of any chain users can sign in with
+    if (!this.chainVerifierRegistryService.normalizeAddress(address)) {
       throw new HttpException('Invalid address', HttpStatus.BAD_REQUEST);
     }
 
-    let user = await this.userService.findUnique({
-      publicAddress: address,
-    });
-
     const nonce = this.generateNonce();
 
-    if (!user) {
-      // Create new user with nonce
-      user = await this.userService.create({
-        publicAddress: address,
-        username: `user-${address}`,
-        nonce: nonce,
-      });
-    } else {
-      // Update existing user with new nonce
-      user = await this.userService.update({
-        where: { publicAddress: address },
-        data: { nonce },
-      });
-    }
+    await this.redisService.set(
+      this.getNonceKey(address, nonce),
+      new Date().toISOString(),
+      Math.floor(this.siweNonceTtl / 1000)
+    );
 
     return {
-      nonce: user.nonce,
-      address: user.publicAddress,
+      nonce,
+      address,
     };
   }
 
-  async signIn(dto: SignInDTO) {
-    let siweMessage: SiweMessage;
-    try {
-      siweMessage = new SiweMessage(dto.message);
-    } catch (e) {
-      throw new HttpException('Invalid SIWE message', HttpStatus.BAD_REQUEST);
-    }
-
-    const address = siweMessage.address;
-
-    if (!this.checkIfAddressIsValid(address)) {
-      throw new HttpException('Address is not valid!', HttpStatus.BAD_REQUEST);
-    }
-
-    let user = await this.userService.findUnique({
-      publicAddress: address,
+  private async recordFailure(
+    address: string,
+    client: SessionClient,
+    reason: string
+  ) {
+    await this.signInLockoutService.recordFailure({ address, ip: client.ip });
+    this.authEventsService.emit({
+      type: 'sign_in.failed',
+      address,
+      ip: client.ip,
+      userAgent: client.userAgent,
+      data: { reason },
     });
+  }
 
-    if (!user) {
-      throw new HttpException('User not found', HttpStatus.BAD_REQUEST);
-    }
+  private async verifySignature(
+    signInMessage: SignInMessage,
+    dto: SignInDTO,
+    client: SessionClient,
+    verificationTime: Date
+  ) {
+    const { address } = signInMessage;
+
+    // Consume the challenge atomically so that the nonce can only be used once,
+    // even by concurrent sign-in attempts
+    const challenge = await this.redisService.getDelete(
+      this.getNonceKey(address, dto.nonce)
+    );
 
-    if (user.nonce !== dto.nonce) {
+    if (!challenge) {
+      await this.recordFailure(address, client, 'invalid_nonce');
       throw new HttpException('Invalid nonce', HttpStatus.UNAUTHORIZED);
     }
 
-    let verifyResult: SiweResponse | null = null;
+    let verified = false;
 
     try {
-      verifyResult = await siweMessage.verify({
-        signature: dto.signature,
-        nonce: user.nonce,
-      });
+      verified = await this.chainVerifierRegistryService.verify(
+        signInMessage.namespace,
+        {
+          message: dto.message,
+          signature: dto.signature,
+          nonce: dto.nonce,
+          time: verificationTime,
+        }
+      );
     } catch (e) {
+      await this.recordFailure(address, client, 'verification_error');
       throw new HttpException(
         'SIWE verification failed. Bad signature or nonce',
         HttpStatus.UNAUTHORIZED
       );
     }
 
-    if (!verifyResult.success) {
+    if (!verified) {
+      await this.recordFailure(address, client, 'invalid_signature');
       throw new HttpException(
         'SIWE verification failed',
         HttpStatus.UNAUTHORIZED
       );
     }
 
-    const nextNonce = this.generateNonce();
-    await this.userService.update({
-      where: { publicAddress: address },
-      data: { nonce: nextNonce },
+    await this.signInLockoutService.recordSuccess(address);
+  }
+
+  async signIn(dto: SignInDTO, client: SessionClient = {}) {
+    // The message names the chain, e.g. Sign-In with Ethereum or Solana
+    const signInMessage = this.chainVerifierRegistryService.parse(dto.message);
+    const { namespace, address, chainId } = signInMessage;
+
+    const attempt = { address, ip: client.ip };
+    await this.signInLockoutService.assertNotLocked(attempt);
+
+    const verificationTime = this.siwePolicyService.enforce(signInMessage);
+    const scopes = this.recapScopesService.resolve(signInMessage);
+
+    await this.verifySignature(signInMessage, dto, client, verificationTime);
+
+    // Linked wallets sign in to the account they are linked to, users are
+    // only created once they proved control of the address
+    const existingUser =
+      (await this.walletService.findUser(address)) ??
+      (await this.userService.findUnique({ publicAddress: address }));
+    const signedInUser =
+      existingUser ??
+      (await this.userService.upsert({
+        where: { publicAddress: address },
+        create: {
+          publicAddress: address,
+          username: getPlaceholderUsername(address),
+          role: this.roleBootstrapService.getInitialRole(address),
+          wallets: { create: { namespace, address } },
+        },
+        update: {},
+      }));
+
+    // New users start with their ENS name, later changes are picked up by the
+    // periodic refresh
+    const user = signedInUser.ensResolvedAt
+      ? signedInUser
+      : await this.ensSyncService.refresh(signedInUser);
+
+    // Every sign-in starts its own session, so other devices stay signed in
+    const { session, accessToken, refreshToken } = await this.startSession(
+      user,
+      {
+        address,
+        chainId,
+        scopes,
+        ...client,
+      }
+    );
+
+    if (!existingUser) {
+      this.authEventsService.emit({
+        type: 'user.created',
+        userId: user.id,
+        address,
+        ip: client.ip,
+        userAgent: client.userAgent,
+        sessionId: session.id,
+        data: { chainId },
+      });
+    }
+
+    this.authEventsService.emit({
+      type: 'sign_in.succeeded',
+      userId: user.id,
+      address,
+      ip: client.ip,
+      userAgent: client.userAgent,
+      sessionId: session.id,
+      data: { chainId, scopes },
+    });
+
+    return {
+      address,
+      chainId,
+      accessToken,
+      refreshToken,
+      scopes,
+    };
+  }
+
+  /**
+   * Start a session for a user that has already signed in with a wallet, e.g.
+   * the session of an OAuth client the user authorized
+   * @param user - The user
+   * @param params - The address and CAIP-2 chain ID the user signed in with,
+   * the granted scopes and the client
+   * @returns The session and its access and refresh tokens
+   */
+  async startSession(
+    user: User,
+    params: {
+      address: string;
+      chainId: string;
+      scopes: string[];
+    } & SessionClient
+  ) {
+    const session = await this.sessionService.create({
+      userId: user.id,
+      ...params,
     });
+    const tokens = await this.issueTokens(user, session);
 
-    const payload = { ...user };
+    return { session, ...tokens };
+  }
+
+  private async issueTokens(user: User, session: Session) {
+    const claims = await this.claimsService.build({ user, session });
+    const accessTokenId = randomUUID();
+    const refreshTokenId = randomUUID();
 
     const [accessToken, refreshToken] = await Promise.all([
-      this.jwtService.signAsync(payload, {
-        secret: this.jwtAccessSecret,
+      this.jwtKeyService.sign('access', claims, {
         expiresIn: this.jwtAccessExpiresIn,
+        jwtid: accessTokenId,
       }),
-      this.jwtService.signAsync(payload, {
-        secret: this.jwtRefreshSecret,
-        expiresIn: this.jwtRefreshExpiresIn,
-      }),
+      // Refresh tokens are only read by the API, which rebuilds the claims
+      // from the session on every refresh
+      this.jwtKeyService.sign(
+        'refresh',
+        { sub: claims.sub, sid: session.id },
+        {
+          expiresIn: this.jwtRefreshExpiresIn,
+          jwtid: refreshTokenId,
+        }
+      ),
     ]);
 
-    // Store tokens in Redis
+    // Replacing the token IDs of the session revokes its previous tokens
     await Promise.all([
-      this.storeToken('access', address, accessToken, this.jwtAccessExpiresIn),
-      this.storeToken(
+      this.sessionService.storeTokenId(
+        'access',
+        session.id,
+        accessTokenId,
+        this.jwtAccessExpiresIn
+      ),
+      this.sessionService.storeTokenId(
         'refresh',
-        address,
-        refreshToken,
+        session.id,
+        refreshTokenId,
         this.jwtRefreshExpiresIn
       ),
     ]);
 
-    return {
-      address,
-      accessToken,
-      refreshToken,
-    };
+    return { accessToken, refreshToken };
   }
 
-  async refresh(refreshToken: string, oldAccessToken?: string) {
+  /**
+   * Rotate the refresh token of a session and issue new tokens
+   * @param refreshToken - The refresh token
+   * @param client - The client presenting the token. Tokens of sessions of an
+   * OAuth client are only accepted from their client
+   * @returns The new access and refresh tokens
+   */
+  async refresh(refreshToken: string, client: SessionClient = {}) {
     try {
-      const { iat, exp, ...decoded } = await this.jwtService.verifyAsync(
-        refreshToken,
-        {
-          secret: this.jwtRefreshSecret,
-        }
+      // The refresh token names the key it was signed with, so tokens issued
+      // before a key rotation keep working until they expire
+      const { sid: sessionId, jti } = await this.jwtKeyService.verify(
+        'refresh',
+        refreshToken
       );
 
-      // Extract publicAddress from decoded token
-      const publicAddress = decoded.publicAddress;
-
-      if (!publicAddress) {
+      if (typeof sessionId !== 'string' || !jti) {
         throw new HttpException(
           'Invalid token payload',
           HttpStatus.UNAUTHORIZED
         );
       }
 
-      // Validate refresh token matches the one stored in Redis
-      const refreshTokenKey = this.getTokenKey('refresh', publicAddress);
-      const storedRefreshToken = await this.redisService.get(refreshTokenKey);
+      const session = await this.sessionService.get(sessionId);
 
-      if (!storedRefreshToken || storedRefreshToken !== refreshToken) {
+      // Checked before the token is consumed, so a token presented to the
+      // wrong client is rejected without burning it
+      if (!session || (session.clientId ?? undefined) !== client.clientId) {
         throw new HttpException(
           'Refresh token not found or expired',
           HttpStatus.UNAUTHORIZED
         );
       }
 
-      // Use the user fields directly from decoded token
-      const payload = { ...decoded };
+      // Consume the refresh token of the session, so it can only be used once
+      const storedRefreshTokenId = await this.sessionService.consumeTokenId(
+        'refresh',
+        sessionId
+      );
 
-      const accessToken = await this.jwtService.signAsync(payload, {
-        secret: this.jwtAccessSecret,
-        expiresIn: this.jwtAccessExpiresIn,
-      });
+      if (storedRefreshTokenId !== jti) {
+        // An already rotated refresh token was presented again, so one of its
+        // copies is in the wrong hands: revoke the whole token family
+        Logger.warn(
+          `Security event: refresh token reuse detected for session ${sessionId} of ${session.address}, revoking the session`
+        );
+        await this.sessionService.revoke(sessionId);
+        this.authEventsService.emit({
+          type: 'session.token_reused',
+          userId: session.userId,
+          address: session.address,
+          ip: client.ip,
+          userAgent: client.userAgent,
+          sessionId: session.id,
+        });
 
-      // Update access token in Redis
-      await this.storeToken(
-        'access',
-        publicAddress,
-        accessToken,
-        this.jwtAccessExpiresIn
-      );
+        throw new HttpException(
+          'Refresh token has already been used',
+          HttpStatus.UNAUTHORIZED
+        );
+      }
+
+      const user = await this.userService.findUnique({ id: session.userId });
 
-      return { accessToken };
+      if (!user) {
+        await this.sessionService.revoke(sessionId);
+        throw new HttpException('User not found', HttpStatus.UNAUTHORIZED);
+      }
+
+      const tokens = await this.issueTokens(user, session);
+      await this.sessionService.touch(session);
+
+      this.authEventsService.emit({
+        type: 'session.refreshed',
+        userId: user.id,
+        address: session.address,
+        ip: client.ip,
+        userAgent: client.userAgent,
+        sessionId: session.id,
+      });
+
+      return tokens;
     } catch (e) {
       Logger.error(e);
       if (e instanceof HttpException) {
@@ -234,11 +396,206 @@ export class AuthService {
     }
   }
 
-  async signOut(publicAddress: string) {
-    // Remove both tokens for this address
-    const accessKey = this.getTokenKey('access', publicAddress);
-    const refreshKey = this.getTokenKey('refresh', publicAddress);
+  /**
+   * Re-authenticate the user of a session with a fresh sign-in message of the
+   * wallet the session was signed in with, for routes that require a recent
+   * sign-in. No new session is started
+   * @param user - The signed-in user
+   * @param sessionId - The session of the request
+   * @param dto - The message signed by the wallet, its signature and nonce
+   * @param client - The client, whose IP counts towards sign-in lockouts
+   * @returns A short-lived elevated access token of the session, whose
+   * auth_time is the time of the re-authentication
+   * @throws HttpException when the session is gone, the message is invalid or
+   * not signed by the wallet of the session
+   */
+  async reauthenticate(
+    user: User,
+    sessionId: string,
+    dto: SignInDTO,
+    client: SessionClient = {}
+  ) {
+    const session = await this.sessionService.get(sessionId);
+
+    if (!session || session.userId !== user.id) {
+      throw new HttpException('Session not found', HttpStatus.UNAUTHORIZED);
+    }
+
+    const signInMessage = this.chainVerifierRegistryService.parse(dto.message);
+    const { address } = signInMessage;
+
+    // Another linked wallet would not prove control of the wallet in the
+    // token sub
+    if (address !== session.address) {
+      throw new HttpException(
+        'The message must be signed by the wallet of the session',
+        HttpStatus.FORBIDDEN
+      );
+    }
+
+    const attempt = { address, ip: client.ip };
+    await this.signInLockoutService.assertNotLocked(attempt);
+
+    const verificationTime = this.siwePolicyService.enforce(signInMessage);
+    await this.verifySignature(signInMessage, dto, client, verificationTime);
+
+    const claims = await this.claimsService.build({
+      user,
+      session,
+      reauthenticatedAt: new Date(),
+    });
+    const accessTokenId = randomUUID();
+    const accessToken = await this.jwtKeyService.sign('access', claims, {
+      expiresIn: this.jwtElevatedExpiresIn,
+      jwtid: accessTokenId,
+    });
+
+    // The regular access token of the session stays valid
+    await this.sessionService.storeTokenId(
+      'elevated',
+      session.id,
+      accessTokenId,
+      this.jwtElevatedExpiresIn
+    );
+
+    this.authEventsService.emit({
+      type: 'session.reauthenticated',
+      userId: user.id,
+      address,
+      ip: client.ip,
+      userAgent: client.userAgent,
+      sessionId: session.id,
+    });
+
+    return {
+      accessToken,
+      expiresIn: Math.floor(this.jwtElevatedExpiresIn / 1000),
+    };
+  }
+
+  /**
+   * Look up the session of a token without using it up, the same way tokens
+   * are checked when they are presented
+   * @param token - An access or refresh token
+   * @param typeHint - The type the token most likely has, which is tried first
+   * @returns The type and claims of the token and its session, or null if the
+   * token is invalid, expired or revoked
+   */
+  async inspectToken(
+    token: string,
+    typeHint?: TokenType
+  ): Promise<InspectedToken | null> {
+    const types: TokenType[] =
+      typeHint === 'refresh' ? ['refresh', 'access'] : ['access', 'refresh'];
+
+    for (const type of types) {
+      let payload: TokenPayload;
+      try {
+        payload = await this.jwtKeyService.verify(type, token);
+      } catch {
+        continue;
+      }
+
+      if (typeof payload.sid !== 'string' || !payload.jti) {
+        return null;
+      }
+
+      // Only the tokens currently stored for the session are valid
+      const current =
+        type === 'access'
+          ? await this.sessionService.isAccessTokenId(payload.sid, payload.jti)
+          : (await this.sessionService.getTokenId(type, payload.sid)) ===
+            payload.jti;
+      const session = await this.sessionService.get(payload.sid);
+
+      return current && session ? { type, payload, session } : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Link another wallet to a signed-in user, who proves control of the wallet
+   * with a sign-in message like on sign-in, on any supported chain
+   * @param user - The signed-in user
+   * @param dto - The message signed by the wallet, its signature and nonce
+   * @param client - The client, whose IP counts towards sign-in lockouts
+   * @returns The linked wallet
+   * @throws HttpException when the message is invalid or the wallet is already
+   * linked to an account
+   */
+  async linkWallet(user: User, dto: SignInDTO, client: SessionClient = {}) {
+    const signInMessage = this.chainVerifierRegistryService.parse(dto.message);
+    const { namespace, address } = signInMessage;
+
+    const attempt = { address, ip: client.ip };
+    await this.signInLockoutService.assertNotLocked(attempt);
+
+    const verificationTime = this.siwePolicyService.enforce(signInMessage);
+    await this.verifySignature(signInMessage, dto, client, verificationTime);
+
+    return this.walletService.link(user.id, { namespace, address });
+  }
+
+  /**
+   * Unlink a wallet from a user and revoke the sessions signed in with it
+   * @param user - The user
+   * @param address - The canonical wallet address
+   * @returns The IDs of the revoked sessions
+   * @throws HttpException when the wallet is not linked to the user or is the
+   * last wallet of the user
+   */
+  async unlinkWallet(user: User, address: string): Promise<string[]> {
+    await this.walletService.unlink(user, address);
+
+    const sessions = await this.sessionService.list(user.id);
+    const revokedSessionIds = sessions
+      .filter((session) => session.address === address)
+      .map((session) => session.id);
+
+    await Promise.all(
+      revokedSessionIds.map((sessionId) =>
+        this.sessionService.revoke(sessionId)
+      )
+    );
+
+    return revokedSessionIds;
+  }
+
+  async signOut(sessionId: string, client: SessionClient = {}) {
+    const session = await this.sessionService.get(sessionId);
+
+    // Only the signed-out session is revoked, other devices stay signed in
+    await this.sessionService.revoke(sessionId);
+
+    if (session) {
+      this.authEventsService.emit({
+        type: 'session.signed_out',
+        userId: session.userId,
+        address: session.address,
+        ip: client.ip,
+        userAgent: client.userAgent,
+        sessionId,
+      });
+    }
+  }
+
+  async getSessions(userId: string) {
+    return this.sessionService.list(userId);
+  }
+
+  async revokeSession(userId: string, sessionId: string) {
+    const session = await this.sessionService.get(sessionId);
+
+    // Sessions of other users are reported as missing, not as forbidden
+    if (!session || session.userId !== userId) {
+      throw new HttpException('Session not found', HttpStatus.NOT_FOUND);
+    }
+
+    await this.sessionService.revoke(sessionId);
+  }
 
-    await this.redisService.delete(accessKey, refreshKey);
+  async revokeAllSessions(userId: string) {
+    await this.sessionService.revokeAll(userId);
   }
 }
@@ -0,0 +1,140 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ChainVerifierRegistryService } from './chain-verifier-registry.service';
+import { ChainVerifier, SignInMessage } from './chain-verifier';
+
+describe('ChainVerifierRegistryService', () => {
+  let service: ChainVerifierRegistryService;
+  let mockEip155Verifier: jest.Mocked<ChainVerifier>;
+  let mockSolanaVerifier: jest.Mocked<ChainVerifier>;
+
+  const evmAddress = '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb';
+  const solanaAddress = '7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv';
+
+  const signInMessage: SignInMessage = {
+    namespace: 'solana',
+    domain: 'localhost:3000',
+    address: solanaAddress,
+    uri: 'http://localhost:3000',
+    version: '1',
+    chainId: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+    nonce: 'test-nonce',
+  };
+
+  const createMessage = (blockchain: string, address: string) =>
+    `localhost:3000 wants you to sign in with your ${blockchain} account:\n${address}\n\n`;
+
+  const createVerifier = (
+    namespace: string,
+    blockchain: string,
+    address: string
+  ) =>
+    ({
+      namespace,
+      blockchain,
+      normalizeAddress: jest.fn((value: string) =>
+        value.toLowerCase() === address.toLowerCase() ? address : null
+      ),
+      parse: jest.fn(),
+      verify: jest.fn(),
+    }) as unknown as jest.Mocked<ChainVerifier>;
+
+  beforeEach(() => {
+    mockEip155Verifier = createVerifier('eip155', 'Ethereum', evmAddress);
+    mockSolanaVerifier = createVerifier('solana', 'Solana', solanaAddress);
+
+    service = new ChainVerifierRegistryService();
+    service.register(mockEip155Verifier);
+    service.register(mockSolanaVerifier);
+  });
+
+  describe('register', () => {
+    it('should reject a second verifier for a namespace', () => {
+      expect(() => service.register(mockSolanaVerifier)).toThrow(
+        'Namespace solana already has a chain verifier'
+      );
+    });
+  });
+
+  describe('normalizeAddress', () => {
+    it('should return the namespace and canonical form of the address', () => {
+      expect(service.normalizeAddress(evmAddress.toLowerCase())).toEqual({
+        namespace: 'eip155',
+        address: evmAddress,
+      });
+      expect(service.normalizeAddress(solanaAddress)).toEqual({
+        namespace: 'solana',
+        address: solanaAddress,
+      });
+    });
+
+    it('should return null for addresses of no namespace', () => {
+      expect(service.normalizeAddress('invalid-address')).toBeNull();
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse the message with the verifier of its blockchain', () => {
+      const message = createMessage('Solana', solanaAddress);
+      mockSolanaVerifier.parse.mockReturnValue(signInMessage);
+
+      expect(service.parse(message)).toBe(signInMessage);
+      expect(mockSolanaVerifier.parse).toHaveBeenCalledWith(message);
+      expect(mockEip155Verifier.parse).not.toHaveBeenCalled();
+    });
+
+    it('should reject messages of unsupported blockchains', () => {
+      expect(() => service.parse(createMessage('Bitcoin', 'bc1q'))).toThrow(
+        new HttpException('Invalid sign-in message', HttpStatus.BAD_REQUEST)
+      );
+    });
+
+    it('should reject messages the verifier cannot parse', () => {
+      mockSolanaVerifier.parse.mockImplementation(() => {
+        throw new Error('Invalid Sign-In With Solana message');
+      });
+
+      expect(() =>
+        service.parse(createMessage('Solana', solanaAddress))
+      ).toThrow(
+        new HttpException('Invalid sign-in message', HttpStatus.BAD_REQUEST)
+      );
+    });
+
+    it('should reject messages with an invalid address', () => {
+      mockSolanaVerifier.parse.mockReturnValue({
+        ...signInMessage,
+        address: evmAddress,
+      });
+
+      expect(() => service.parse(createMessage('Solana', evmAddress))).toThrow(
+        new HttpException('Address is not valid!', HttpStatus.BAD_REQUEST)
+      );
+    });
+  });
+
+  describe('verify', () => {
+    it('should verify the signature with the verifier of the namespace', async () => {
+      const params = {
+        message: createMessage('Solana', solanaAddress),
+        signature: 'test-signature',
+        nonce: 'test-nonce',
+        time: new Date('2024-01-01T00:00:00.000Z'),
+      };
+      mockSolanaVerifier.verify.mockResolvedValue(true);
+
+      await expect(service.verify('solana', params)).resolves.toBe(true);
+      expect(mockSolanaVerifier.verify).toHaveBeenCalledWith(params);
+    });
+
+    it('should throw for namespaces without a verifier', () => {
+      expect(() =>
+        service.verify('bip122', {
+          message: '',
+          signature: '',
+          nonce: '',
+          time: new Date(),
+        })
+      ).toThrow('Namespace bip122 has no chain verifier');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { parseCaip122Header } from '@/utils';
+import {
+  ChainVerifier,
+  SignatureParams,
+  SignInMessage,
+} from './chain-verifier';
+
+/**
+ * Chain verifiers keyed by CAIP-2 namespace. Verifiers register themselves
+ * from their onModuleInit hook, sign-in messages are routed to them by the
+ * blockchain named in the message header
+ */
+@Injectable()
+export class ChainVerifierRegistryService {
+  private readonly verifiers = new Map<string, ChainVerifier>();
+
+  /**
+   * Register the verifier of a namespace
+   * @param verifier - The chain verifier
+   * @throws Error when the namespace already has a verifier
+   */
+  register(verifier: ChainVerifier) {
+    if (this.verifiers.has(verifier.namespace)) {
+      throw new Error(
+        `Namespace ${verifier.namespace} already has a chain verifier`
+      );
+    }
+
+    this.verifiers.set(verifier.namespace, verifier);
+  }
+
+  /**
+   * Get the canonical form of an address of any namespace
+   * @param address - The address
+   * @returns The namespace and the address, or null if no verifier accepts it
+   */
+  normalizeAddress(
+    address: string
+  ): { namespace: string; address: string } | null {
+    for (const verifier of this.verifiers.values()) {
+      const normalizedAddress = verifier.normalizeAddress(address);
+
+      if (normalizedAddress) {
+        return { namespace: verifier.namespace, address: normalizedAddress };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse a sign-in message with the verifier of its blockchain
+   * @param message - The sign-in message
+   * @returns The parsed message
+   * @throws HttpException when no verifier supports the message, or the
+   * message or its address is invalid
+   */
+  parse(message: string): SignInMessage {
+    const blockchain = parseCaip122Header(message)?.blockchain;
+    const verifier = [...this.verifiers.values()].find(
+      (verifier) => verifier.blockchain === blockchain
+    );
+
+    if (!verifier) {
+      throw new HttpException(
+        'Invalid sign-in message',
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    let signInMessage: SignInMessage;
+    try {
+      signInMessage = verifier.parse(message);
+    } catch {
+      throw new HttpException(
+        'Invalid sign-in message',
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    if (!verifier.normalizeAddress(signInMessage.address)) {
+      throw new HttpException('Address is not valid!', HttpStatus.BAD_REQUEST);
+    }
+
+    return signInMessage;
+  }
+
+  /**
+   * Verify the signature of a sign-in message
+   * @param namespace - The namespace of the parsed message
+   * @param params - The signed message, its signature and the expected nonce
+   * and time
+   * @returns Whether the signature is valid, failures may also be thrown
+   */
+  verify(namespace: string, params: SignatureParams): Promise<boolean> {
+    const verifier = this.verifiers.get(namespace);
+
+    if (!verifier) {
+      throw new Error(`Namespace ${namespace} has no chain verifier`);
+    }
+
+    return verifier.verify(params);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * A parsed CAIP-122 sign-in message, the same for every chain
+ */
+export interface SignInMessage {
+  // CAIP-2 namespace of the verifier that parsed the message, e.g. eip155
+  namespace: string;
+  domain: string;
+  // Address in the canonical form of the chain, e.g. EIP-55 checksummed
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  // CAIP-2 chain ID, e.g. eip155:1
+  chainId: string;
+  nonce: string;
+  issuedAt?: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export interface SignatureParams {
+  // The message as the wallet signed it
+  message: string;
+  signature: string;
+  // The nonce the challenge was issued for
+  nonce: string;
+  // Time the validity window of the message is checked at
+  time: Date;
+}
+
+/**
+ * Parses and verifies the sign-in messages of one CAIP-2 namespace
+ */
+export interface ChainVerifier {
+  readonly namespace: string;
+  // Name in the message header, as in "sign in with your Ethereum account"
+  readonly blockchain: string;
+
+  /**
+   * Get the canonical form of an address
+   * @returns The address, or null if it is no address of the namespace
+   */
+  normalizeAddress(address: string): string | null;
+
+  /**
+   * Parse a sign-in message of the namespace
+   * @throws Error when the message is malformed
+   */
+  parse(message: string): SignInMessage;
+
+  /**
+   * Verify the signature of a sign-in message
+   * @returns Whether the signature is valid, failures may also be thrown
+   */
+  verify(params: SignatureParams): Promise<boolean>;
+}
@@ -0,0 +1,101 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SiweMessage, SiweResponse } from 'siwe';
+import { Eip155ChainVerifier } from './eip155-chain.verifier';
+import { ChainVerifierRegistryService } from './chain-verifier-registry.service';
+import { SignatureVerifierService } from '../siwe/signature-verifier.service';
+
+describe('Eip155ChainVerifier', () => {
+  let verifier: Eip155ChainVerifier;
+  let mockSignatureVerifierService: jest.Mocked<SignatureVerifierService>;
+
+  const address = '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb';
+  const message = new SiweMessage({
+    domain: 'localhost:3000',
+    address,
+    statement: 'Sign in to the app',
+    uri: 'http://localhost:3000',
+    version: '1',
+    chainId: 1,
+    nonce: 'testnonce1234',
+    issuedAt: '2024-01-01T00:00:00.000Z',
+  }).prepareMessage();
+
+  beforeEach(async () => {
+    mockSignatureVerifierService = {
+      verify: jest.fn(),
+    } as unknown as jest.Mocked<SignatureVerifierService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        Eip155ChainVerifier,
+        {
+          provide: ChainVerifierRegistryService,
+          useValue: { register: jest.fn() },
+        },
+        {
+          provide: SignatureVerifierService,
+          useValue: mockSignatureVerifierService,
+        },
+      ],
+    }).compile();
+
+    verifier = module.get<Eip155ChainVerifier>(Eip155ChainVerifier);
+  });
+
+  describe('normalizeAddress', () => {
+    it('should checksum EVM addresses', () => {
+      expect(verifier.normalizeAddress(address.toLowerCase())).toEqual(address);
+    });
+
+    it('should reject other addresses', () => {
+      expect(
+        verifier.normalizeAddress(
+          '7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv'
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse SIWE messages with a CAIP-2 chain ID', () => {
+      expect(verifier.parse(message)).toEqual(
+        expect.objectContaining({
+          namespace: 'eip155',
+          address,
+          chainId: 'eip155:1',
+          nonce: 'testnonce1234',
+        })
+      );
+    });
+
+    it('should reject malformed messages', () => {
+      expect(() => verifier.parse('invalid-siwe-message')).toThrow();
+    });
+  });
+
+  describe('verify', () => {
+    it('should verify the SIWE signature at the given time', async () => {
+      const time = new Date('2024-01-01T00:00:00.000Z');
+      mockSignatureVerifierService.verify.mockResolvedValue({
+        success: true,
+      } as SiweResponse);
+
+      await expect(
+        verifier.verify({
+          message,
+          signature: '0x1234',
+          nonce: 'testnonce1234',
+          time,
+        })
+      ).resolves.toBe(true);
+      expect(mockSignatureVerifierService.verify).toHaveBeenCalledWith(
+        expect.any(SiweMessage),
+        {
+          signature: '0x1234',
+          nonce: 'testnonce1234',
+          time: time.toISOString(),
+        }
+      );
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { SiweMessage } from 'siwe';
+import { SignatureVerifierService } from '../siwe/signature-verifier.service';
+import {
+  ChainVerifier,
+  SignatureParams,
+  SignInMessage,
+} from './chain-verifier';
+import { ChainVerifierRegistryService } from './chain-verifier-registry.service';
+
+/**
+ * Sign-In with Ethereum (EIP-4361) for EVM wallets, including smart-contract
+ * wallets
+ */
+@Injectable()
+export class Eip155ChainVerifier implements ChainVerifier, OnModuleInit {
+  readonly namespace = 'eip155';
+  readonly blockchain = 'Ethereum';
+
+  constructor(
+    private readonly chainVerifierRegistryService: ChainVerifierRegistryService,
+    private readonly signatureVerifierService: SignatureVerifierService
+  ) {}
+
+  onModuleInit() {
+    this.chainVerifierRegistryService.register(this);
+  }
+
+  normalizeAddress(address: string): string | null {
+    return ethers.isAddress(address) ? ethers.getAddress(address) : null;
+  }
+
+  parse(message: string): SignInMessage {
+    // The siwe package rejects addresses that are not EIP-55 checksummed
+    const siweMessage = new SiweMessage(message);
+
+    return {
+      namespace: this.namespace,
+      domain: siweMessage.domain,
+      address: siweMessage.address,
+      statement: siweMessage.statement,
+      uri: siweMessage.uri,
+      version: siweMessage.version,
+      chainId: `${this.namespace}:${siweMessage.chainId}`,
+      nonce: siweMessage.nonce,
+      issuedAt: siweMessage.issuedAt,
+      expirationTime: siweMessage.expirationTime,
+      notBefore: siweMessage.notBefore,
+      requestId: siweMessage.requestId,
+      resources: siweMessage.resources,
+    };
+  }
+
+  async verify({
+    message,
+    signature,
+    nonce,
+    time,
+  }: SignatureParams): Promise<boolean> {
+    const result = await this.signatureVerifierService.verify(
+      new SiweMessage(message),
+      { signature, nonce, time: time.toISOString() }
+    );
+
+    return result.success;
+  }
+}
@@ -0,0 +1,13 @@
+import type { Request } from 'express';
+import { parseCaip122Header } from '@/utils';
+import { SignInDTO } from '../dto/sign-in.dto';
+
+// Guards run before validation, so a malformed message is left to the
+// sign-in to reject and only counts against the IP limit
+export function getSignInAddress(req: Request): string | undefined {
+  const { message } = (req.body ?? {}) as Partial<SignInDTO>;
+
+  return typeof message === 'string'
+    ? parseCaip122Header(message)?.address
+    : undefined;
+}
@@ -0,0 +1,174 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { ethers } from 'ethers';
+import { SolanaChainVerifier } from './solana-chain.verifier';
+import { ChainVerifierRegistryService } from './chain-verifier-registry.service';
+
+describe('SolanaChainVerifier', () => {
+  let verifier: SolanaChainVerifier;
+  let mockChainVerifierRegistryService: jest.Mocked<ChainVerifierRegistryService>;
+  let privateKey: KeyObject;
+  let address: string;
+
+  const time = new Date('2024-01-01T00:00:00.000Z');
+
+  const createMessage = (signer = address, chainId = 'mainnet') =>
+    [
+      'localhost:3000 wants you to sign in with your Solana account:',
+      signer,
+      '',
+      'Sign in to the app',
+      '',
+      'URI: http://localhost:3000',
+      'Version: 1',
+      `Chain ID: ${chainId}`,
+      'Nonce: test-nonce',
+      'Issued At: 2024-01-01T00:00:00.000Z',
+    ].join('\n');
+
+  const signMessage = (message: string) =>
+    ethers.encodeBase58(sign(null, Buffer.from(message, 'utf8'), privateKey));
+
+  beforeEach(async () => {
+    const keyPair = generateKeyPairSync('ed25519');
+    const { x } = keyPair.publicKey.export({ format: 'jwk' });
+    privateKey = keyPair.privateKey;
+    address = ethers.encodeBase58(Buffer.from(x!, 'base64url'));
+
+    mockChainVerifierRegistryService = {
+      register: jest.fn(),
+    } as unknown as jest.Mocked<ChainVerifierRegistryService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SolanaChainVerifier,
+        {
+          provide: ChainVerifierRegistryService,
+          useValue: mockChainVerifierRegistryService,
+        },
+      ],
+    }).compile();
+
+    verifier = module.get<SolanaChainVerifier>(SolanaChainVerifier);
+  });
+
+  it('should register itself with the registry', () => {
+    verifier.onModuleInit();
+
+    expect(mockChainVerifierRegistryService.register).toHaveBeenCalledWith(
+      verifier
+    );
+  });
+
+  describe('normalizeAddress', () => {
+    it('should accept ed25519 public keys', () => {
+      expect(verifier.normalizeAddress(address)).toEqual(address);
+    });
+
+    it('should reject EVM addresses and malformed keys', () => {
+      expect(
+        verifier.normalizeAddress('0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb')
+      ).toBeNull();
+      expect(verifier.normalizeAddress(address.slice(0, 20))).toBeNull();
+      expect(verifier.normalizeAddress(`1${address}`)).toBeNull();
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse the message with the CAIP-2 chain ID of the cluster', () => {
+      expect(verifier.parse(createMessage())).toEqual(
+        expect.objectContaining({
+          namespace: 'solana',
+          domain: 'localhost:3000',
+          address,
+          statement: 'Sign in to the app',
+          chainId: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+          nonce: 'test-nonce',
+        })
+      );
+    });
+
+    it('should keep CAIP-2 chain IDs', () => {
+      expect(
+        verifier.parse(
+          createMessage(address, 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1')
+        ).chainId
+      ).toEqual('solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1');
+    });
+
+    it('should reject messages of other blockchains', () => {
+      expect(() =>
+        verifier.parse(
+          createMessage().replace('Solana account', 'Ethereum account')
+        )
+      ).toThrow('Invalid Sign-In With Solana message');
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept signatures of the address', async () => {
+      const message = createMessage();
+
+      await expect(
+        verifier.verify({
+          message,
+          signature: signMessage(message),
+          nonce: 'test-nonce',
+          time,
+        })
+      ).resolves.toBe(true);
+    });
+
+    it('should reject signatures of other messages', async () => {
+      await expect(
+        verifier.verify({
+          message: createMessage(),
+          signature: signMessage(createMessage(address, 'devnet')),
+          nonce: 'test-nonce',
+          time,
+        })
+      ).resolves.toBe(false);
+    });
+
+    it('should reject signatures of other keys', async () => {
+      const { publicKey } = generateKeyPairSync('ed25519');
+      const { x } = publicKey.export({ format: 'jwk' });
+      const message = createMessage(
+        ethers.encodeBase58(Buffer.from(x!, 'base64url'))
+      );
+
+      await expect(
+        verifier.verify({
+          message,
+          signature: signMessage(message),
+          nonce: 'test-nonce',
+          time,
+        })
+      ).resolves.toBe(false);
+    });
+
+    it('should reject messages for another nonce', async () => {
+      const message = createMessage();
+
+      await expect(
+        verifier.verify({
+          message,
+          signature: signMessage(message),
+          nonce: 'other-nonce',
+          time,
+        })
+      ).resolves.toBe(false);
+    });
+
+    it('should reject malformed signatures', async () => {
+      await expect(
+        verifier.verify({
+          message: createMessage(),
+          signature: 'not-base58',
+          nonce: 'test-nonce',
+          time,
+        })
+      ).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { createPublicKey, verify } from 'crypto';
+import { ethers } from 'ethers';
+import { parseCaip122Message, SOLANA_CHAIN_REFERENCES } from '@/utils';
+import {
+  ChainVerifier,
+  SignatureParams,
+  SignInMessage,
+} from './chain-verifier';
+import { ChainVerifierRegistryService } from './chain-verifier-registry.service';
+
+const PUBLIC_KEY_LENGTH = 32;
+const SIGNATURE_LENGTH = 64;
+
+// Base58 values of a fixed length, null for anything else. Re-encoding
+// rejects values whose leading zero bytes do not match their length
+function decodeBase58(value: string, length: number): Buffer | null {
+  let bytes: Uint8Array;
+  try {
+    bytes = ethers.getBytes(ethers.toBeHex(ethers.decodeBase58(value), length));
+  } catch {
+    return null;
+  }
+
+  return ethers.encodeBase58(bytes) === value ? Buffer.from(bytes) : null;
+}
+
+/**
+ * Sign-In With Solana: CAIP-122 messages signed with the ed25519 key of the
+ * account. Signatures are Base58 encoded, as wallets return them
+ */
+@Injectable()
+export class SolanaChainVerifier implements ChainVerifier, OnModuleInit {
+  readonly namespace = 'solana';
+  readonly blockchain = 'Solana';
+
+  constructor(
+    private readonly chainVerifierRegistryService: ChainVerifierRegistryService
+  ) {}
+
+  onModuleInit() {
+    this.chainVerifierRegistryService.register(this);
+  }
+
+  normalizeAddress(address: string): string | null {
+    return decodeBase58(address, PUBLIC_KEY_LENGTH) ? address : null;
+  }
+
+  parse(message: string): SignInMessage {
+    const fields = parseCaip122Message(message);
+
+    if (!fields || fields.blockchain !== this.blockchain) {
+      throw new Error('Invalid Sign-In With Solana message');
+    }
+
+    if (fields.version !== '1') {
+      throw new Error(`Unsupported message version ${fields.version}`);
+    }
+
+    // Wallets write the cluster name, e.g. mainnet, or the CAIP-2 reference
+    const reference = fields.chainId.replace(/^solana:/, '');
+
+    return {
+      namespace: this.namespace,
+      domain: fields.domain,
+      address: fields.address,
+      statement: fields.statement,
+      uri: fields.uri,
+      version: fields.version,
+      chainId: `${this.namespace}:${SOLANA_CHAIN_REFERENCES[reference] ?? reference}`,
+      nonce: fields.nonce,
+      issuedAt: fields.issuedAt,
+      expirationTime: fields.expirationTime,
+      notBefore: fields.notBefore,
+      requestId: fields.requestId,
+      resources: fields.resources,
+    };
+  }
+
+  verify({ message, signature, nonce }: SignatureParams): Promise<boolean> {
+    const { address, nonce: messageNonce } = this.parse(message);
+    const publicKey = decodeBase58(address, PUBLIC_KEY_LENGTH);
+    const signatureBytes = decodeBase58(signature, SIGNATURE_LENGTH);
+
+    if (messageNonce !== nonce || !publicKey || !signatureBytes) {
+      return Promise.resolve(false);
+    }
+
+    const key = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: publicKey.toString('base64url') },
+      format: 'jwk',
+    });
+
+    return Promise.resolve(
+      verify(null, Buffer.from(message, 'utf8'), key, signatureBytes)
+    );
+  }
+}
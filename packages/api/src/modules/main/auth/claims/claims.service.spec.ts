@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { User } from 'generated/prisma';
+import { Session } from '../session/session.service';
+import { ClaimsService } from './claims.service';
+
+describe('ClaimsService', () => {
+  let service: ClaimsService;
+
+  const mockUser: User = {
+    id: 'test-user-id',
+    publicAddress: '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb',
+    username: 'test-user',
+    role: 'user',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockSession: Session = {
+    id: 'test-session-id',
+    userId: mockUser.id,
+    address: mockUser.publicAddress,
+    chainId: 'eip155:31337',
+    scopes: ['profile:read', 'profile:write'],
+    userAgent: null,
+    ip: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastRefreshedAt: '2024-01-02T00:00:00.000Z',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ClaimsService],
+    }).compile();
+
+    service = module.get<ClaimsService>(ClaimsService);
+  });
+
+  describe('build', () => {
+    it('should build the standard claims from the session', async () => {
+      const result = await service.build({
+        user: mockUser,
+        session: mockSession,
+      });
+
+      expect(result).toEqual({
+        sub: `eip155:31337:${mockUser.publicAddress}`,
+        sid: mockSession.id,
+        auth_time: 1704067200, // 2024-01-01T00:00:00Z, not the last refresh
+        chain_id: 'eip155:31337',
+      });
+    });
+
+    it('should use the re-authentication time as auth_time', async () => {
+      const result = await service.build({
+        user: mockUser,
+        session: mockSession,
+        reauthenticatedAt: new Date('2024-01-02T00:00:00.000Z'),
+      });
+
+      expect(result.auth_time).toBe(1704153600);
+    });
+
+    it('should name the OAuth client of client sessions', async () => {
+      const result = await service.build({
+        user: mockUser,
+        session: { ...mockSession, clientId: 'test-client-id' },
+      });
+
+      expect(result.client_id).toBe('test-client-id');
+    });
+
+    it('should name Solana accounts by their CAIP-10 account ID', async () => {
+      const solanaAddress = '7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv';
+      const solanaChainId = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp';
+
+      const result = await service.build({
+        user: mockUser,
+        session: {
+          ...mockSession,
+          address: solanaAddress,
+          chainId: solanaChainId,
+        },
+      });
+
+      expect(result.sub).toBe(`${solanaChainId}:${solanaAddress}`);
+      expect(result.chain_id).toBe(solanaChainId);
+    });
+
+    it('should not leak user fields into the claims', async () => {
+      const result = await service.build({
+        user: mockUser,
+        session: mockSession,
+      });
+
+      expect(result).not.toHaveProperty('id');
+      expect(result).not.toHaveProperty('username');
+      expect(result).not.toHaveProperty('createdAt');
+    });
+
+    it('should merge the claims of registered enrichers', async () => {
+      const enrich = jest.fn().mockResolvedValue({ roles: ['admin'] });
+      service.registerEnricher({ enrich });
+      service.registerEnricher({ enrich: () => ({ tier: 'gold' }) });
+
+      const result = await service.build({
+        user: mockUser,
+        session: mockSession,
+      });
+
+      expect(enrich).toHaveBeenCalledWith({
+        user: mockUser,
+        session: mockSession,
+      });
+      expect(result).toEqual(
+        expect.objectContaining({ roles: ['admin'], tier: 'gold' })
+      );
+    });
+
+    it('should reject enrichers that set reserved claims', async () => {
+      service.registerEnricher({ enrich: () => ({ sub: 'other-account' }) });
+
+      await expect(
+        service.build({ user: mockUser, session: mockSession })
+      ).rejects.toThrow('Claims enrichers cannot set the reserved "sub" claim');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { Injectable } from '@nestjs/common';
+import { User } from 'generated/prisma';
+import { formatCaip10Account } from '@/utils';
+import { Session } from '../session/session.service';
+
+/**
+ * Claims that are always part of an access token. `iss`, `aud`, `iat`, `exp`
+ * and `jti` are added when the token is signed
+ */
+export interface AccessTokenClaims {
+  // CAIP-10 account the user signed in with
+  sub: string;
+  sid: string;
+  auth_time: number;
+  // CAIP-2 chain ID, e.g. eip155:1
+  chain_id: string;
+  // OAuth client the session was started for, unset for first-party sessions
+  client_id?: string;
+  [claim: string]: unknown;
+}
+
+export interface ClaimsContext {
+  user: User;
+  session: Session;
+  // Time the user re-authenticated at, for elevated tokens
+  reauthenticatedAt?: Date;
+}
+
+/**
+ * Adds custom claims to access tokens, e.g. roles or scopes. Enrichers run on
+ * every sign-in and refresh, so their claims are never older than the token
+ */
+export interface ClaimsEnricher {
+  enrich(
+    context: ClaimsContext
+  ): Record<string, unknown> | Promise<Record<string, unknown>>;
+}
+
+export const RESERVED_CLAIMS = [
+  'iss',
+  'sub',
+  'aud',
+  'exp',
+  'nbf',
+  'iat',
+  'jti',
+  'sid',
+  'auth_time',
+  'chain_id',
+  'client_id',
+];
+
+@Injectable()
+export class ClaimsService {
+  private readonly enrichers: ClaimsEnricher[] = [];
+
+  /**
+   * Register a claims enricher, usually from the onModuleInit hook of the
+   * module that owns the claims
+   * @param enricher - The claims enricher
+   */
+  registerEnricher(enricher: ClaimsEnricher) {
+    this.enrichers.push(enricher);
+  }
+
+  /**
+   * Build the access token claims of a session
+   * @param context - The user and the session the token is issued for
+   * @returns The standard claims merged with the claims of all enrichers
+   * @throws Error when an enricher sets a reserved claim
+   */
+  async build(context: ClaimsContext): Promise<AccessTokenClaims> {
+    const { session, reauthenticatedAt } = context;
+    const customClaims: Record<string, unknown> = {};
+
+    for (const enricher of this.enrichers) {
+      const claims = await enricher.enrich(context);
+      const reservedClaim = Object.keys(claims).find((claim) =>
+        RESERVED_CLAIMS.includes(claim)
+      );
+
+      if (reservedClaim) {
+        throw new Error(
+          `Claims enrichers cannot set the reserved "${reservedClaim}" claim`
+        );
+      }
+
+      Object.assign(customClaims, claims);
+    }
+
+    return {
+      ...customClaims,
+      sub: formatCaip10Account(session.chainId, session.address),
+      sid: session.id,
+      // The session starts when the user signs the SIWE message, refreshes
+      // do not re-authenticate the user, only a new signature does
+      auth_time: Math.floor(
+        (reauthenticatedAt ?? new Date(session.createdAt)).getTime() / 1000
+      ),
+      chain_id: session.chainId,
+      ...(session.clientId && { client_id: session.clientId }),
+    };
+  }
+}
@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { User, Wallet } from 'generated/prisma';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+import { Session } from '../session/session.service';
+import { ClaimsService } from './claims.service';
+import { RolesClaimsEnricher } from './roles-claims.enricher';
+import { TokenGateService } from '../token-gates/token-gate.service';
+
+describe('RolesClaimsEnricher', () => {
+  let enricher: RolesClaimsEnricher;
+  let claimsService: ClaimsService;
+  let mockTokenGateService: jest.Mocked<TokenGateService>;
+  let mockWalletService: jest.Mocked<WalletService>;
+
+  const mockUser: User = {
+    id: 'test-user-id',
+    publicAddress: '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb',
+    username: 'test-user',
+    role: 'moderator',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockSession: Session = {
+    id: 'test-session-id',
+    userId: mockUser.id,
+    address: mockUser.publicAddress,
+    chainId: 'eip155:1',
+    scopes: ['profile:read', 'profile:write'],
+    userAgent: null,
+    ip: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastRefreshedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const mockWallets: Wallet[] = [
+    {
+      id: 'test-wallet-id',
+      userId: mockUser.id,
+      namespace: 'eip155',
+      address: mockUser.publicAddress,
+      createdAt: new Date('2024-01-01'),
+    },
+    {
+      id: 'test-solana-wallet-id',
+      userId: mockUser.id,
+      namespace: 'solana',
+      address: '7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv',
+      createdAt: new Date('2024-01-02'),
+    },
+  ];
+
+  beforeEach(async () => {
+    mockTokenGateService = {
+      getWalletRoles: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<TokenGateService>;
+
+    mockWalletService = {
+      list: jest.fn().mockResolvedValue(mockWallets),
+    } as unknown as jest.Mocked<WalletService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClaimsService,
+        RolesClaimsEnricher,
+        {
+          provide: TokenGateService,
+          useValue: mockTokenGateService,
+        },
+        {
+          provide: WalletService,
+          useValue: mockWalletService,
+        },
+      ],
+    }).compile();
+
+    await module.init();
+
+    enricher = module.get<RolesClaimsEnricher>(RolesClaimsEnricher);
+    claimsService = module.get<ClaimsService>(ClaimsService);
+  });
+
+  it('should add the granted roles of the user', async () => {
+    await expect(
+      enricher.enrich({ user: mockUser, session: mockSession })
+    ).resolves.toEqual({
+      roles: ['user', 'moderator'],
+    });
+  });
+
+  it('should add the token-gated roles of the linked wallets', async () => {
+    mockTokenGateService.getWalletRoles.mockResolvedValue(['holder']);
+
+    await expect(
+      enricher.enrich({ user: mockUser, session: mockSession })
+    ).resolves.toEqual({
+      roles: ['user', 'moderator', 'holder'],
+    });
+    expect(mockWalletService.list).toHaveBeenCalledWith(mockUser.id);
+    expect(mockTokenGateService.getWalletRoles).toHaveBeenCalledWith(
+      mockWallets
+    );
+  });
+
+  it('should register itself with the claims service', async () => {
+    const claims = await claimsService.build({
+      user: mockUser,
+      session: mockSession,
+    });
+
+    expect(claims.roles).toEqual(['user', 'moderator']);
+  });
+});
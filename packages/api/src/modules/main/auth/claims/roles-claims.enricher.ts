@@ -0,0 +1,33 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { getGrantedRoles } from '@/modules/common/roles/roles';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+import { TokenGateService } from '../token-gates/token-gate.service';
+import { ClaimsContext, ClaimsEnricher, ClaimsService } from './claims.service';
+
+/**
+ * Adds the `roles` claim, so resource servers can authorize without looking
+ * the user up: the roles granted by the role of the user, which the API itself
+ * checks against the database instead, and the token-gated roles of the
+ * wallets of the user
+ */
+@Injectable()
+export class RolesClaimsEnricher implements ClaimsEnricher, OnModuleInit {
+  constructor(
+    private readonly claimsService: ClaimsService,
+    private readonly tokenGateService: TokenGateService,
+    private readonly walletService: WalletService
+  ) {}
+
+  onModuleInit() {
+    this.claimsService.registerEnricher(this);
+  }
+
+  async enrich({ user }: ClaimsContext) {
+    // Tokens held by any linked wallet count, not only by the primary one
+    const gatedRoles = await this.tokenGateService.getWalletRoles(
+      await this.walletService.list(user.id)
+    );
+
+    return { roles: [...getGrantedRoles(user.role), ...gatedRoles] };
+  }
+}
@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { AuthCookieService } from './auth-cookie.service';
+
+describe('AuthCookieService', () => {
+  let mockResponse: jest.Mocked<Pick<Response, 'cookie' | 'clearCookie'>>;
+
+  const baseConfig = {
+    'cookies.secure': false,
+    'cookies.httpOnly': true,
+    'cookies.sameSite': 'lax',
+    'cookies.refreshPath': '/auth/refresh',
+    'jwt.accessExpiresIn': 3600000,
+    'jwt.refreshExpiresIn': 7200000,
+  };
+
+  const createService = async (config: Record<string, unknown> = {}) => {
+    const configMap: Record<string, unknown> = { ...baseConfig, ...config };
+    const mockConfigService = {
+      get: jest.fn((key: string) => configMap[key]),
+      getOrThrow: jest.fn((key: string) => configMap[key]),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthCookieService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    return module.get<AuthCookieService>(AuthCookieService);
+  };
+
+  const mockTokens = {
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token',
+  };
+
+  beforeEach(() => {
+    mockResponse = {
+      cookie: jest.fn(),
+      clearCookie: jest.fn(),
+    } as unknown as jest.Mocked<Pick<Response, 'cookie' | 'clearCookie'>>;
+  });
+
+  describe('initialization', () => {
+    it('should reject unsupported sameSite values', async () => {
+      await expect(
+        createService({ 'cookies.sameSite': 'relaxed' })
+      ).rejects.toThrow('Unsupported COOKIE_SAME_SITE value "relaxed"');
+    });
+
+    it('should reject sameSite none without secure cookies', async () => {
+      await expect(
+        createService({ 'cookies.sameSite': 'none' })
+      ).rejects.toThrow('COOKIE_SAME_SITE=none requires COOKIE_SECURE');
+    });
+  });
+
+  describe('setTokens', () => {
+    it('should set httpOnly cookies and scope the refresh cookie', async () => {
+      const service = await createService();
+
+      service.setTokens(mockResponse as unknown as Response, mockTokens);
+
+      expect(mockResponse.cookie).toHaveBeenCalledWith(
+        'accessToken',
+        'access-token',
+        {
+          httpOnly: true,
+          secure: false,
+          sameSite: 'lax',
+          domain: undefined,
+          path: '/',
+          maxAge: 3600000,
+        }
+      );
+      expect(mockResponse.cookie).toHaveBeenCalledWith(
+        'refreshToken',
+        'refresh-token',
+        {
+          httpOnly: true,
+          secure: false,
+          sameSite: 'lax',
+          domain: undefined,
+          path: '/auth/refresh',
+          maxAge: 7200000,
+        }
+      );
+    });
+
+    it('should prefix secure cookies', async () => {
+      const service = await createService({
+        'cookies.secure': true,
+        'cookies.sameSite': 'strict',
+      });
+
+      service.setTokens(mockResponse as unknown as Response, mockTokens);
+
+      expect(mockResponse.cookie).toHaveBeenCalledWith(
+        '__Host-accessToken',
+        'access-token',
+        expect.objectContaining({ secure: true, sameSite: 'strict', path: '/' })
+      );
+      // __Host- cookies cannot be scoped to a path
+      expect(mockResponse.cookie).toHaveBeenCalledWith(
+        '__Secure-refreshToken',
+        'refresh-token',
+        expect.objectContaining({ secure: true, path: '/auth/refresh' })
+      );
+    });
+
+    it('should not use the __Host- prefix for cookies with a domain', async () => {
+      const service = await createService({
+        'cookies.secure': true,
+        'cookies.domain': 'example.com',
+      });
+
+      service.setTokens(mockResponse as unknown as Response, mockTokens);
+
+      expect(mockResponse.cookie).toHaveBeenCalledWith(
+        '__Secure-accessToken',
+        'access-token',
+        expect.objectContaining({ domain: 'example.com' })
+      );
+    });
+  });
+
+  describe('clearTokens', () => {
+    it('should clear both cookies with their path', async () => {
+      const service = await createService();
+
+      service.clearTokens(mockResponse as unknown as Response);
+
+      expect(mockResponse.clearCookie).toHaveBeenCalledWith(
+        'accessToken',
+        expect.objectContaining({ path: '/' })
+      );
+      expect(mockResponse.clearCookie).toHaveBeenCalledWith(
+        'refreshToken',
+        expect.objectContaining({ path: '/auth/refresh' })
+      );
+    });
+  });
+
+  describe('getAccessToken', () => {
+    it('should read the access token cookie', async () => {
+      const service = await createService({ 'cookies.secure': true });
+      const mockRequest = {
+        cookies: { '__Host-accessToken': 'access-token' },
+      } as unknown as Request;
+
+      expect(service.getAccessToken(mockRequest)).toBe('access-token');
+    });
+
+    it('should ignore cookies without the expected prefix', async () => {
+      const service = await createService({ 'cookies.secure': true });
+      const mockRequest = {
+        cookies: { accessToken: 'access-token' },
+      } as unknown as Request;
+
+      expect(service.getAccessToken(mockRequest)).toBeNull();
+    });
+  });
+
+  describe('getRefreshToken', () => {
+    it('should read the refresh token cookie', async () => {
+      const service = await createService();
+      const mockRequest = {
+        cookies: { refreshToken: 'refresh-token' },
+      } as unknown as Request;
+
+      expect(service.getRefreshToken(mockRequest)).toBe('refresh-token');
+    });
+
+    it('should return null when cookies are not parsed', async () => {
+      const service = await createService();
+
+      expect(service.getRefreshToken({} as Request)).toBeNull();
+    });
+  });
+});
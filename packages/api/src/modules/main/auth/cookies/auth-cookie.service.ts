@@ -0,0 +1,121 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { CookieOptions, Request, Response } from 'express';
+
+export const COOKIE_SAME_SITE_VALUES = ['strict', 'lax', 'none'] as const;
+
+export type CookieSameSite = (typeof COOKIE_SAME_SITE_VALUES)[number];
+
+@Injectable()
+export class AuthCookieService {
+  private readonly secure: boolean;
+  private readonly httpOnly: boolean;
+  private readonly sameSite: CookieSameSite;
+  private readonly domain: string | undefined;
+  private readonly refreshPath: string;
+  private readonly accessMaxAge: number;
+  private readonly refreshMaxAge: number;
+
+  constructor(private readonly configService: ConfigService) {
+    const sameSite = this.configService.getOrThrow<string>('cookies.sameSite');
+
+    if (!COOKIE_SAME_SITE_VALUES.includes(sameSite as CookieSameSite)) {
+      throw new Error(
+        `Unsupported COOKIE_SAME_SITE value "${sameSite}", expected one of ${COOKIE_SAME_SITE_VALUES.join(', ')}`
+      );
+    }
+
+    this.secure = this.configService.getOrThrow<boolean>('cookies.secure');
+    this.httpOnly = this.configService.getOrThrow<boolean>('cookies.httpOnly');
+    this.sameSite = sameSite as CookieSameSite;
+    this.domain = this.configService.get<string>('cookies.domain');
+    this.refreshPath = this.configService.getOrThrow<string>(
+      'cookies.refreshPath'
+    );
+    this.accessMaxAge = this.configService.getOrThrow<number>(
+      'jwt.accessExpiresIn'
+    );
+    this.refreshMaxAge = this.configService.getOrThrow<number>(
+      'jwt.refreshExpiresIn'
+    );
+
+    // Browsers drop SameSite=None cookies that are not secure
+    if (this.sameSite === 'none' && !this.secure) {
+      throw new Error('COOKIE_SAME_SITE=none requires COOKIE_SECURE');
+    }
+  }
+
+  // __Host- cookies must be secure, host-only and sent on every path, so the
+  // path-scoped refresh cookie and cookies with a domain use __Secure- instead
+  private get accessCookieName(): string {
+    if (!this.secure) {
+      return 'accessToken';
+    }
+
+    return this.domain ? '__Secure-accessToken' : '__Host-accessToken';
+  }
+
+  private get refreshCookieName(): string {
+    return this.secure ? '__Secure-refreshToken' : 'refreshToken';
+  }
+
+  private getOptions(path: string): CookieOptions {
+    return {
+      httpOnly: this.httpOnly,
+      secure: this.secure,
+      sameSite: this.sameSite,
+      domain: this.domain,
+      path,
+    };
+  }
+
+  /**
+   * Set the access and refresh token cookies
+   * @param res - The response
+   * @param tokens - The access and refresh tokens
+   */
+  setTokens(
+    res: Response,
+    tokens: { accessToken: string; refreshToken: string }
+  ) {
+    res.cookie(this.accessCookieName, tokens.accessToken, {
+      ...this.getOptions('/'),
+      maxAge: this.accessMaxAge,
+    });
+
+    // The refresh token is only sent to the refresh endpoint
+    res.cookie(this.refreshCookieName, tokens.refreshToken, {
+      ...this.getOptions(this.refreshPath),
+      maxAge: this.refreshMaxAge,
+    });
+  }
+
+  /**
+   * Clear the access and refresh token cookies
+   * @param res - The response
+   */
+  clearTokens(res: Response) {
+    res.clearCookie(this.accessCookieName, this.getOptions('/'));
+    res.clearCookie(this.refreshCookieName, this.getOptions(this.refreshPath));
+  }
+
+  /**
+   * Get the access token from the request cookies
+   * @param req - The request
+   * @returns The access token or null if the cookie is not set
+   */
+  getAccessToken(req: Request): string | null {
+    return (req.cookies?.[this.accessCookieName] as string | undefined) ?? null;
+  }
+
+  /**
+   * Get the refresh token from the request cookies
+   * @param req - The request
+   * @returns The refresh token or null if the cookie is not set
+   */
+  getRefreshToken(req: Request): string | null {
+    return (
+      (req.cookies?.[this.refreshCookieName] as string | undefined) ?? null
+    );
+  }
+}
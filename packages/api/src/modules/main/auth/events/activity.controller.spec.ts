@@ -0,0 +1,103 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import type { Request } from 'express';
+import { AuthEvent, User, Wallet } from 'generated/prisma';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+import { ActivityController } from './activity.controller';
+import { AuthEventLogService } from './auth-event-log.service';
+
+describe('ActivityController', () => {
+  let controller: ActivityController;
+  let mockAuthEventLogService: jest.Mocked<AuthEventLogService>;
+  let mockWalletService: jest.Mocked<WalletService>;
+
+  const mockUser = { id: 'test-user-id' } as User;
+
+  const mockWallets = [
+    { address: '0x1234567890abcdef' },
+    { address: '7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv' },
+  ] as Wallet[];
+
+  const mockAuthEvent: AuthEvent = {
+    id: 'test-event-id',
+    type: 'sign_in.failed',
+    userId: null,
+    address: '0x1234567890abcdef',
+    ip: '127.0.0.1',
+    userAgent: 'test-user-agent',
+    sessionId: null,
+    metadata: { reason: 'invalid_signature' },
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  };
+
+  beforeEach(async () => {
+    mockAuthEventLogService = {
+      listForUser: jest
+        .fn()
+        .mockResolvedValue({ events: [mockAuthEvent], total: 1 }),
+    } as unknown as jest.Mocked<AuthEventLogService>;
+
+    mockWalletService = {
+      list: jest.fn().mockResolvedValue(mockWallets),
+    } as unknown as jest.Mocked<WalletService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ActivityController],
+      providers: [
+        {
+          provide: AuthEventLogService,
+          useValue: mockAuthEventLogService,
+        },
+        {
+          provide: WalletService,
+          useValue: mockWalletService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<ActivityController>(ActivityController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getActivity', () => {
+    it('should list the events of the user and their wallets', async () => {
+      const result = await controller.getActivity(
+        { user: mockUser } as Request,
+        { limit: 20, offset: 0 }
+      );
+
+      expect(mockWalletService.list).toHaveBeenCalledWith(mockUser.id);
+      expect(mockAuthEventLogService.listForUser).toHaveBeenCalledWith(
+        mockUser.id,
+        mockWallets.map((wallet) => wallet.address),
+        { limit: 20, offset: 0 }
+      );
+      expect(result).toEqual({
+        events: [
+          {
+            id: mockAuthEvent.id,
+            type: mockAuthEvent.type,
+            address: mockAuthEvent.address,
+            ip: mockAuthEvent.ip,
+            userAgent: mockAuthEvent.userAgent,
+            sessionId: mockAuthEvent.sessionId,
+            metadata: mockAuthEvent.metadata,
+            createdAt: mockAuthEvent.createdAt,
+          },
+        ],
+        total: 1,
+        limit: 20,
+        offset: 0,
+      });
+    });
+
+    it('should throw UnauthorizedException when user is missing', async () => {
+      await expect(
+        controller.getActivity({} as Request, { limit: 20, offset: 0 })
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Req,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { JwtAuthGuard } from '@/modules/common/guards/jwt-auth.guard';
+import { ScopesGuard } from '@/modules/common/guards/scopes.guard';
+import { RequireScopes } from '@/modules/common/scopes/require-scopes.decorator';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+import { AuthEventLogService } from './auth-event-log.service';
+import { AuthEventsPageDTO } from './dto/auth-events-page.dto';
+
+@Controller('/auth/activity')
+@UseGuards(JwtAuthGuard, ScopesGuard)
+export class ActivityController {
+  constructor(
+    private readonly authEventLogService: AuthEventLogService,
+    private readonly walletService: WalletService
+  ) {}
+
+  @Get()
+  @RequireScopes('activity:read')
+  async getActivity(@Req() req: Request, @Query() query: AuthEventsPageDTO) {
+    if (!req.user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const { limit, offset } = query;
+    const wallets = await this.walletService.list(req.user.id);
+
+    const { events, total } = await this.authEventLogService.listForUser(
+      req.user.id,
+      wallets.map((wallet) => wallet.address),
+      { limit, offset }
+    );
+
+    // Events are the user's own, so the user ID is left out
+    return {
+      events: events.map(
+        ({
+          id,
+          type,
+          address,
+          ip,
+          userAgent,
+          sessionId,
+          metadata,
+          createdAt,
+        }) => ({
+          id,
+          type,
+          address,
+          ip,
+          userAgent,
+          sessionId,
+          metadata,
+          createdAt,
+        })
+      ),
+      total,
+      limit,
+      offset,
+    };
+  }
+}
@@ -0,0 +1,151 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuthEvent } from 'generated/prisma';
+import { OrmService } from '@/modules/common/orm/orm.service';
+import { AuthEventsService } from '@/modules/common/auth-events/auth-events.service';
+import { AuthEventLogService } from './auth-event-log.service';
+
+describe('AuthEventLogService', () => {
+  let service: AuthEventLogService;
+  let mockAuthEventsService: jest.Mocked<AuthEventsService>;
+  let mockOrmService: {
+    authEvent: {
+      create: jest.Mock;
+      findMany: jest.Mock;
+      count: jest.Mock;
+    };
+  };
+
+  const mockAuthEvent: AuthEvent = {
+    id: 'test-event-id',
+    type: 'sign_in.succeeded',
+    userId: 'test-user-id',
+    address: '0x1234567890abcdef',
+    ip: '127.0.0.1',
+    userAgent: 'test-user-agent',
+    sessionId: 'test-session-id',
+    metadata: { chainId: 'eip155:1' },
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  };
+
+  beforeEach(async () => {
+    mockAuthEventsService = {
+      subscribe: jest.fn(),
+    } as unknown as jest.Mocked<AuthEventsService>;
+
+    mockOrmService = {
+      authEvent: {
+        create: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([mockAuthEvent]),
+        count: jest.fn().mockResolvedValue(1),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthEventLogService,
+        {
+          provide: OrmService,
+          useValue: mockOrmService,
+        },
+        {
+          provide: AuthEventsService,
+          useValue: mockAuthEventsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuthEventLogService>(AuthEventLogService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should subscribe to auth events', () => {
+    service.onModuleInit();
+
+    expect(mockAuthEventsService.subscribe).toHaveBeenCalledWith(service);
+  });
+
+  describe('handle', () => {
+    it('should store the event with its data as metadata', async () => {
+      const lockedUntil = new Date('2024-01-01T00:01:00.000Z');
+
+      await service.handle({
+        type: 'sign_in.locked_out',
+        address: '0x1234567890abcdef',
+        data: { level: 1, lockedUntil },
+        createdAt: mockAuthEvent.createdAt,
+      });
+
+      expect(mockOrmService.authEvent.create).toHaveBeenCalledWith({
+        data: {
+          type: 'sign_in.locked_out',
+          userId: undefined,
+          address: '0x1234567890abcdef',
+          ip: undefined,
+          userAgent: undefined,
+          sessionId: undefined,
+          metadata: { level: 1, lockedUntil: '2024-01-01T00:01:00.000Z' },
+          createdAt: mockAuthEvent.createdAt,
+        },
+      });
+    });
+  });
+
+  describe('list', () => {
+    it('should return the matching events, newest first', async () => {
+      const from = new Date('2024-01-01T00:00:00.000Z');
+
+      const result = await service.list(
+        { type: 'sign_in.succeeded', userId: 'test-user-id', from },
+        { limit: 20, offset: 40 }
+      );
+
+      const where = {
+        type: 'sign_in.succeeded',
+        userId: 'test-user-id',
+        createdAt: { gte: from, lte: undefined },
+      };
+      expect(mockOrmService.authEvent.findMany).toHaveBeenCalledWith({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: 40,
+        take: 20,
+      });
+      expect(mockOrmService.authEvent.count).toHaveBeenCalledWith({ where });
+      expect(result).toEqual({ events: [mockAuthEvent], total: 1 });
+    });
+
+    it('should not filter by time without a range', async () => {
+      await service.list({}, { limit: 20, offset: 0 });
+
+      expect(mockOrmService.authEvent.count).toHaveBeenCalledWith({
+        where: {},
+      });
+    });
+  });
+
+  describe('listForUser', () => {
+    it('should include events of the wallets without a user', async () => {
+      const result = await service.listForUser(
+        'test-user-id',
+        ['0x1234567890abcdef'],
+        { limit: 10, offset: 0 }
+      );
+
+      expect(mockOrmService.authEvent.findMany).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { userId: 'test-user-id' },
+            { userId: null, address: { in: ['0x1234567890abcdef'] } },
+          ],
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: 0,
+        take: 10,
+      });
+      expect(result).toEqual({ events: [mockAuthEvent], total: 1 });
+    });
+  });
+});
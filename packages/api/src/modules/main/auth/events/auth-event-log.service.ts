@@ -0,0 +1,118 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { AuthEvent as StoredAuthEvent, Prisma } from 'generated/prisma';
+import { OrmService } from '@/modules/common/orm/orm.service';
+import {
+  AuthEvent,
+  AuthEventListener,
+  AuthEventsService,
+  AuthEventType,
+} from '@/modules/common/auth-events/auth-events.service';
+
+export interface AuthEventFilter {
+  type?: AuthEventType;
+  userId?: string;
+  address?: string;
+  ip?: string;
+  sessionId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuthEventPage {
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Writes every auth event to the auth_events table, the persistent audit log
+ * next to the application logs
+ */
+@Injectable()
+export class AuthEventLogService implements AuthEventListener, OnModuleInit {
+  constructor(
+    private prisma: OrmService,
+    private readonly authEventsService: AuthEventsService
+  ) {}
+
+  onModuleInit() {
+    this.authEventsService.subscribe(this);
+  }
+
+  async handle(event: AuthEvent): Promise<void> {
+    await this.prisma.authEvent.create({
+      data: {
+        type: event.type,
+        userId: event.userId,
+        address: event.address,
+        ip: event.ip,
+        userAgent: event.userAgent,
+        sessionId: event.sessionId,
+        // Round-trip through JSON, e.g. for dates in the event data
+        metadata: event.data
+          ? (JSON.parse(JSON.stringify(event.data)) as Prisma.InputJsonObject)
+          : undefined,
+        createdAt: event.createdAt,
+      },
+    });
+  }
+
+  private async find(where: Prisma.AuthEventWhereInput, page: AuthEventPage) {
+    const [events, total] = await Promise.all([
+      this.prisma.authEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: page.offset,
+        take: page.limit,
+      }),
+      this.prisma.authEvent.count({ where }),
+    ]);
+
+    return { events, total };
+  }
+
+  /**
+   * List auth events, newest first
+   * @param filter - Only events matching every given field, created between
+   * from and to
+   * @param page - The number of events to skip and return
+   * @returns The events of the page and the total number of matching events
+   */
+  async list(
+    filter: AuthEventFilter,
+    page: AuthEventPage
+  ): Promise<{ events: StoredAuthEvent[]; total: number }> {
+    const { from, to, ...fields } = filter;
+
+    return this.find(
+      {
+        ...fields,
+        ...((from || to) && { createdAt: { gte: from, lte: to } }),
+      },
+      page
+    );
+  }
+
+  /**
+   * List the auth events of a user, newest first. Failed sign-ins and
+   * lockouts are only known by address, so the events of the wallets of the
+   * user without a user are included
+   * @param userId - The user ID
+   * @param addresses - The addresses of the wallets of the user
+   * @param page - The number of events to skip and return
+   * @returns The events of the page and the total number of events
+   */
+  async listForUser(
+    userId: string,
+    addresses: string[],
+    page: AuthEventPage
+  ): Promise<{ events: StoredAuthEvent[]; total: number }> {
+    return this.find(
+      {
+        // Events of other users are left out, also for wallets that were
+        // linked to another account before
+        OR: [{ userId }, { userId: null, address: { in: addresses } }],
+      },
+      page
+    );
+  }
+}
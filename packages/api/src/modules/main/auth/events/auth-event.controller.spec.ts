@@ -0,0 +1,53 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuthEventController } from './auth-event.controller';
+import { AuthEventLogService } from './auth-event-log.service';
+
+describe('AuthEventController', () => {
+  let controller: AuthEventController;
+  let mockAuthEventLogService: jest.Mocked<AuthEventLogService>;
+
+  beforeEach(async () => {
+    mockAuthEventLogService = {
+      list: jest.fn().mockResolvedValue({ events: [], total: 0 }),
+    } as unknown as jest.Mocked<AuthEventLogService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AuthEventController],
+      providers: [
+        {
+          provide: AuthEventLogService,
+          useValue: mockAuthEventLogService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<AuthEventController>(AuthEventController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('list', () => {
+    it('should list the events matching the filter', async () => {
+      const result = await controller.list({
+        type: 'sign_in.failed',
+        address: '0x1234567890abcdef',
+        from: '2024-01-01T00:00:00.000Z',
+        limit: 50,
+        offset: 100,
+      });
+
+      expect(mockAuthEventLogService.list).toHaveBeenCalledWith(
+        {
+          type: 'sign_in.failed',
+          address: '0x1234567890abcdef',
+          from: new Date('2024-01-01T00:00:00.000Z'),
+          to: undefined,
+        },
+        { limit: 50, offset: 100 }
+      );
+      expect(result).toEqual({ events: [], total: 0, limit: 50, offset: 100 });
+    });
+  });
+});
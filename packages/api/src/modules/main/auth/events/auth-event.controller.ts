@@ -0,0 +1,30 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { SessionAuthGuard } from '@/modules/common/guards/session-auth.guard';
+import { RolesGuard } from '@/modules/common/guards/roles.guard';
+import { Roles } from '@/modules/common/roles/roles.decorator';
+import { Role } from 'generated/prisma';
+import { AuthEventLogService } from './auth-event-log.service';
+import { ListAuthEventsDTO } from './dto/list-auth-events.dto';
+
+@Controller('/admin/auth-events')
+@UseGuards(SessionAuthGuard, RolesGuard)
+@Roles(Role.admin)
+export class AuthEventController {
+  constructor(private readonly authEventLogService: AuthEventLogService) {}
+
+  @Get()
+  async list(@Query() query: ListAuthEventsDTO) {
+    const { limit, offset, from, to, ...filter } = query;
+
+    const { events, total } = await this.authEventLogService.list(
+      {
+        ...filter,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+      },
+      { limit, offset }
+    );
+
+    return { events, total, limit, offset };
+  }
+}
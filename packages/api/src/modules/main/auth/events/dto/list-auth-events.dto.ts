@@ -0,0 +1,34 @@
+import { IsDateString, IsIn, IsOptional, IsString } from 'class-validator';
+import { AUTH_EVENT_TYPES } from '@/modules/common/auth-events/auth-events.service';
+import type { AuthEventType } from '@/modules/common/auth-events/auth-events.service';
+import { AuthEventsPageDTO } from './auth-events-page.dto';
+
+export class ListAuthEventsDTO extends AuthEventsPageDTO {
+  @IsOptional()
+  @IsIn(AUTH_EVENT_TYPES)
+  type?: AuthEventType;
+
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @IsOptional()
+  @IsString()
+  address?: string;
+
+  @IsOptional()
+  @IsString()
+  ip?: string;
+
+  @IsOptional()
+  @IsString()
+  sessionId?: string;
+
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
@@ -0,0 +1,54 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwksController } from './jwks.controller';
+import { JwtKeyService } from './jwt-key.service';
+
+describe('JwksController', () => {
+  let controller: JwksController;
+  let mockJwtKeyService: jest.Mocked<JwtKeyService>;
+
+  beforeEach(async () => {
+    mockJwtKeyService = {
+      getJwks: jest.fn(),
+    } as unknown as jest.Mocked<JwtKeyService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [JwksController],
+      providers: [
+        {
+          provide: JwtKeyService,
+          useValue: mockJwtKeyService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<JwksController>(JwksController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getJwks', () => {
+    it('should return the public signing keys', () => {
+      const mockJwks = {
+        keys: [
+          {
+            kty: 'EC',
+            crv: 'P-256',
+            x: 'test-x',
+            y: 'test-y',
+            kid: 'test-kid',
+            alg: 'ES256',
+            use: 'sig',
+          },
+        ],
+      };
+      mockJwtKeyService.getJwks.mockReturnValue(mockJwks);
+
+      const result = controller.getJwks();
+
+      expect(mockJwtKeyService.getJwks).toHaveBeenCalledTimes(1);
+      expect(result).toEqual(mockJwks);
+    });
+  });
+});
@@ -0,0 +1,13 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { JwtKeyService } from './jwt-key.service';
+
+@Controller('/.well-known')
+export class JwksController {
+  constructor(private readonly jwtKeyService: JwtKeyService) {}
+
+  @Get('/jwks.json')
+  @Header('Cache-Control', 'public, max-age=300')
+  getJwks() {
+    return this.jwtKeyService.getJwks();
+  }
+}
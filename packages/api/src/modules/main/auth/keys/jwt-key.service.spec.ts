@@ -0,0 +1,619 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { generateKeyPairSync } from 'crypto';
+import {
+  calculateJwkThumbprint,
+  createLocalJWKSet,
+  decodeProtectedHeader,
+  JWK,
+  jwtVerify,
+} from 'jose';
+import { RedisService } from '@/modules/common/redis/redis.service';
+import { JwtKeyService } from './jwt-key.service';
+
+describe('JwtKeyService', () => {
+  const services: JwtKeyService[] = [];
+
+  const baseConfig = {
+    'jwt.issuer': 'https://api.example.com',
+    'jwt.audience': 'test-audience',
+    'jwt.accessExpiresIn': 3600000,
+    'jwt.refreshExpiresIn': 7200000,
+    'jwt.keyRotationInterval': 86400000,
+    'jwt.keyEncryptionSecret': 'test-key-encryption-secret',
+  };
+
+  const createRedisService = (storage = new Map<string, string>()) =>
+    ({
+      get: jest.fn((key: string) => Promise.resolve(storage.get(key) ?? null)),
+      set: jest.fn((key: string, value: string) => {
+        storage.set(key, value);
+        return Promise.resolve();
+      }),
+      setIfNotExists: jest.fn((key: string, value: string) => {
+        if (storage.has(key)) {
+          return Promise.resolve(false);
+        }
+        storage.set(key, value);
+        return Promise.resolve(true);
+      }),
+      delete: jest.fn((...keys: string[]) => {
+        keys.forEach((key) => storage.delete(key));
+        return Promise.resolve();
+      }),
+    }) as unknown as jest.Mocked<RedisService>;
+
+  const createService = async (
+    config: Record<string, unknown>,
+    storage = new Map<string, string>()
+  ) => {
+    const mockConfigService = {
+      get: jest.fn((key: string) => config[key] ?? baseConfig[key]),
+      getOrThrow: jest.fn((key: string) => {
+        const value = config[key] ?? baseConfig[key];
+        if (value === undefined) {
+          throw new Error(`Missing config ${key}`);
+        }
+        return value;
+      }),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtKeyService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+        {
+          provide: RedisService,
+          useValue: createRedisService(storage),
+        },
+      ],
+    }).compile();
+
+    const service = module.get<JwtKeyService>(JwtKeyService);
+    services.push(service);
+    await service.onModuleInit();
+
+    return service;
+  };
+
+  const getActiveKid = (storage: Map<string, string>) =>
+    (
+      JSON.parse(storage.get('jwt:keys')!) as {
+        kid: string;
+        status: string;
+      }[]
+    ).find((key) => key.status === 'active')!.kid;
+
+  const mockPayload = {
+    id: 'test-user-id',
+    publicAddress: '0x1234567890abcdef',
+    sid: 'test-session-id',
+  };
+
+  const signOptions = { expiresIn: 3600000, jwtid: 'test-token-id' };
+
+  beforeEach(() => {
+    // Mock Logger static methods to suppress logs during tests
+    jest.spyOn(Logger, 'log').mockImplementation();
+    jest.spyOn(Logger, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    services.splice(0).forEach((service) => service.onModuleDestroy());
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('initialization', () => {
+    it('should reject unsupported algorithms', async () => {
+      await expect(
+        createService({ 'jwt.accessAlgorithm': 'none' })
+      ).rejects.toThrow('Unsupported JWT algorithm "none"');
+    });
+
+    it('should reject a private key of the wrong type', async () => {
+      const { privateKey } = generateKeyPairSync('ed25519');
+
+      await expect(
+        createService({
+          'jwt.accessAlgorithm': 'ES256',
+          'jwt.accessPrivateKey': privateKey.export({
+            format: 'pem',
+            type: 'pkcs8',
+          }),
+        })
+      ).rejects.toThrow('JWT_ACCESS_PRIVATE_KEY is not a valid ES256 key');
+    });
+
+    it('should seed the keyring with the configured key', async () => {
+      const { privateKey, publicKey } = generateKeyPairSync('ec', {
+        namedCurve: 'P-256',
+      });
+      const storage = new Map<string, string>();
+
+      await createService(
+        {
+          'jwt.accessAlgorithm': 'ES256',
+          'jwt.accessPrivateKey': privateKey.export({
+            format: 'pem',
+            type: 'pkcs8',
+          }),
+        },
+        storage
+      );
+
+      expect(getActiveKid(storage)).toBe(
+        await calculateJwkThumbprint(publicKey.export({ format: 'jwk' }) as JWK)
+      );
+    });
+
+    it('should generate and persist an active and a verify-only key', async () => {
+      const storage = new Map<string, string>();
+
+      const service = await createService(
+        { 'jwt.accessAlgorithm': 'ES256' },
+        storage
+      );
+
+      const storedKeys = JSON.parse(storage.get('jwt:keys')!) as {
+        kid: string;
+      }[];
+      expect(storedKeys).toEqual([
+        expect.objectContaining({ status: 'active', alg: 'ES256' }),
+        expect.objectContaining({ status: 'verify-only', alg: 'ES256' }),
+      ]);
+      expect(service.getJwks().keys.map((key) => key.kid)).toEqual(
+        storedKeys.map((key) => key.kid)
+      );
+    });
+
+    it('should require a key encryption secret for asymmetric keys', async () => {
+      await expect(
+        createService({
+          'jwt.accessAlgorithm': 'ES256',
+          'jwt.keyEncryptionSecret': '',
+        })
+      ).rejects.toThrow('JWT_KEY_ENCRYPTION_SECRET is required');
+    });
+
+    it('should encrypt the private keys in Redis', async () => {
+      const storage = new Map<string, string>();
+      await createService({ 'jwt.accessAlgorithm': 'ES256' }, storage);
+
+      const storedKeys = JSON.parse(storage.get('jwt:keys')!) as Record<
+        string,
+        unknown
+      >[];
+      expect(storage.get('jwt:keys')).not.toContain('PRIVATE KEY');
+      storedKeys.forEach((key) => {
+        expect(key).not.toHaveProperty('privateKey');
+        expect(key.encryptedPrivateKey).toEqual(expect.any(String));
+      });
+    });
+
+    it('should not load keys encrypted with another secret', async () => {
+      const storage = new Map<string, string>();
+      await createService({ 'jwt.accessAlgorithm': 'ES256' }, storage);
+
+      await expect(
+        createService(
+          {
+            'jwt.accessAlgorithm': 'ES256',
+            'jwt.keyEncryptionSecret': 'other-secret',
+          },
+          storage
+        )
+      ).rejects.toThrow('cannot be decrypted');
+    });
+
+    it('should encrypt keyrings stored in plaintext', async () => {
+      const { privateKey, publicKey } = generateKeyPairSync('ec', {
+        namedCurve: 'P-256',
+      });
+      const kid = await calculateJwkThumbprint(
+        publicKey.export({ format: 'jwk' }) as JWK
+      );
+      const storage = new Map([
+        [
+          'jwt:keys',
+          JSON.stringify([
+            {
+              kid,
+              alg: 'ES256',
+              status: 'active',
+              privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }),
+              createdAt: '2024-01-01T00:00:00.000Z',
+              activatedAt: '2024-01-01T00:00:00.000Z',
+              retiresAt: null,
+            },
+          ]),
+        ],
+      ]);
+
+      const service = await createService(
+        { 'jwt.accessAlgorithm': 'ES256' },
+        storage
+      );
+      const token = await service.sign('access', mockPayload, signOptions);
+
+      expect(decodeProtectedHeader(token).kid).toBe(kid);
+      expect(storage.get('jwt:keys')).not.toContain('PRIVATE KEY');
+      expect(getActiveKid(storage)).toBe(kid);
+    });
+
+    it('should reuse the persisted keyring after a restart', async () => {
+      const storage = new Map<string, string>();
+      const service = await createService(
+        { 'jwt.accessAlgorithm': 'ES256' },
+        storage
+      );
+      const token = await service.sign('access', mockPayload, signOptions);
+
+      const restartedService = await createService(
+        { 'jwt.accessAlgorithm': 'ES256' },
+        storage
+      );
+
+      expect(restartedService.getJwks()).toEqual(service.getJwks());
+      await expect(restartedService.verify('access', token)).resolves.toEqual(
+        expect.objectContaining(mockPayload)
+      );
+    });
+  });
+
+  describe('HS256', () => {
+    const config = {
+      'jwt.accessAlgorithm': 'HS256',
+      'jwt.accessSecret': 'access-secret',
+      'jwt.refreshSecret': 'refresh-secret',
+    };
+
+    it('should sign and verify tokens with the shared secret', async () => {
+      const service = await createService(config);
+
+      const token = await service.sign('access', mockPayload, signOptions);
+      const payload = await service.verify('access', token);
+
+      expect(decodeProtectedHeader(token)).toEqual({
+        alg: 'HS256',
+        typ: 'at+jwt',
+      });
+      expect(payload).toEqual(
+        expect.objectContaining({
+          ...mockPayload,
+          iss: 'https://api.example.com',
+          aud: 'test-audience',
+          jti: 'test-token-id',
+        })
+      );
+      expect(payload.exp! - payload.iat!).toBe(3600);
+    });
+
+    it('should reject tokens issued for another audience', async () => {
+      const service = await createService(config);
+      const otherService = await createService({
+        ...config,
+        'jwt.audience': 'other-audience',
+      });
+
+      const token = await otherService.sign('access', mockPayload, signOptions);
+
+      await expect(service.verify('access', token)).rejects.toThrow(
+        'unexpected "aud" claim value'
+      );
+    });
+
+    it('should sign refresh tokens with the refresh secret', async () => {
+      const service = await createService(config);
+      const refreshOnlyService = await createService({
+        ...config,
+        'jwt.accessSecret': 'other-secret',
+      });
+
+      const token = await service.sign('refresh', mockPayload, signOptions);
+
+      await expect(
+        refreshOnlyService.verify('refresh', token)
+      ).resolves.toEqual(expect.objectContaining(mockPayload));
+    });
+
+    it('should not publish any keys', async () => {
+      const service = await createService(config);
+
+      expect(service.getJwks()).toEqual({ keys: [] });
+    });
+
+    it('should not rotate keys', async () => {
+      const service = await createService(config);
+
+      await expect(service.rotate()).rejects.toThrow(
+        'Key rotation requires an asymmetric JWT algorithm'
+      );
+    });
+
+    it('should reject tokens signed with another secret', async () => {
+      const service = await createService(config);
+      const otherService = await createService({
+        ...config,
+        'jwt.accessSecret': 'other-secret',
+      });
+
+      const token = await otherService.sign('access', mockPayload, signOptions);
+
+      await expect(service.verify('access', token)).rejects.toThrow();
+    });
+  });
+
+  describe.each([
+    ['RS256', () => generateKeyPairSync('rsa', { modulusLength: 2048 })],
+    ['ES256', () => generateKeyPairSync('ec', { namedCurve: 'P-256' })],
+    ['EdDSA', () => generateKeyPairSync('ed25519')],
+  ])('%s', (algorithm, generateKeyPair) => {
+    const { privateKey } = generateKeyPair();
+    const config = {
+      'jwt.accessAlgorithm': algorithm,
+      'jwt.accessPrivateKey': privateKey.export({
+        format: 'pem',
+        type: 'pkcs8',
+      }),
+    };
+
+    it('should sign tokens with the active key and verify them', async () => {
+      const storage = new Map<string, string>();
+      const service = await createService(config, storage);
+
+      const token = await service.sign('access', mockPayload, signOptions);
+      const payload = await service.verify('access', token);
+
+      expect(decodeProtectedHeader(token)).toEqual({
+        alg: algorithm,
+        kid: getActiveKid(storage),
+        typ: 'at+jwt',
+      });
+      expect(payload).toEqual(
+        expect.objectContaining({ ...mockPayload, jti: 'test-token-id' })
+      );
+    });
+
+    it('should publish the public keys only', async () => {
+      const service = await createService(config);
+
+      const { keys } = service.getJwks();
+
+      expect(keys).toHaveLength(2);
+      keys.forEach((key) => {
+        expect(key).toEqual(
+          expect.objectContaining({
+            kid: expect.any(String),
+            alg: algorithm,
+            use: 'sig',
+          })
+        );
+        expect(key).not.toHaveProperty('d');
+      });
+    });
+
+    it('should let downstream services verify tokens with the JWKS only', async () => {
+      const service = await createService(config);
+
+      const token = await service.sign('access', mockPayload, signOptions);
+      const { payload } = await jwtVerify(
+        token,
+        createLocalJWKSet(service.getJwks())
+      );
+
+      expect(payload.sid).toBe(mockPayload.sid);
+    });
+
+    it('should reject tokens signed with an unknown key', async () => {
+      const service = await createService(config);
+      const otherService = await createService({
+        'jwt.accessAlgorithm': algorithm,
+      });
+
+      const token = await otherService.sign('access', mockPayload, signOptions);
+
+      await expect(service.verify('access', token)).rejects.toThrow(
+        'Unknown JWT key ID'
+      );
+    });
+  });
+
+  it('should not accept a refresh token as an access token', async () => {
+    const service = await createService({ 'jwt.accessAlgorithm': 'ES256' });
+
+    const token = await service.sign('refresh', mockPayload, signOptions);
+
+    await expect(service.verify('access', token)).rejects.toThrow();
+    await expect(service.verify('refresh', token)).resolves.toEqual(
+      expect.objectContaining(mockPayload)
+    );
+  });
+
+  it('should reject tokens signed with another algorithm', async () => {
+    const service = await createService({ 'jwt.accessAlgorithm': 'ES256' });
+    const hmacService = await createService({
+      'jwt.accessAlgorithm': 'HS256',
+      'jwt.accessSecret': 'access-secret',
+      'jwt.refreshSecret': 'refresh-secret',
+    });
+
+    const token = await hmacService.sign('access', mockPayload, signOptions);
+
+    await expect(service.verify('access', token)).rejects.toThrow();
+  });
+
+  it('should reject expired tokens', async () => {
+    const service = await createService({ 'jwt.accessAlgorithm': 'ES256' });
+
+    const token = await service.sign('access', mockPayload, {
+      ...signOptions,
+      expiresIn: -1000,
+    });
+
+    await expect(service.verify('access', token)).rejects.toThrow();
+  });
+
+  it('should accept expired tokens when the expiration is ignored', async () => {
+    const service = await createService({ 'jwt.accessAlgorithm': 'ES256' });
+    const hmacService = await createService({
+      'jwt.accessAlgorithm': 'HS256',
+      'jwt.accessSecret': 'access-secret',
+      'jwt.refreshSecret': 'refresh-secret',
+    });
+
+    const token = await service.sign('access', mockPayload, {
+      ...signOptions,
+      expiresIn: -1000,
+    });
+    const forgedToken = await hmacService.sign('access', mockPayload, {
+      ...signOptions,
+      expiresIn: -1000,
+    });
+
+    await expect(
+      service.verify('access', token, { ignoreExpiration: true })
+    ).resolves.toEqual(expect.objectContaining(mockPayload));
+    await expect(
+      service.verify('access', forgedToken, { ignoreExpiration: true })
+    ).rejects.toThrow();
+    await expect(
+      service.verify('refresh', token, { ignoreExpiration: true })
+    ).rejects.toThrow();
+  });
+
+  describe('signIdToken', () => {
+    it('should sign ID tokens for the client with the active key', async () => {
+      const storage = new Map<string, string>();
+      const service = await createService(
+        { 'jwt.accessAlgorithm': 'ES256' },
+        storage
+      );
+
+      const idToken = await service.signIdToken(
+        { sub: '0x1234567890abcdef', nonce: 'test-nonce' },
+        { audience: 'test-client-id', expiresIn: 3600000 }
+      );
+
+      expect(decodeProtectedHeader(idToken)).toEqual({
+        alg: 'ES256',
+        typ: 'JWT',
+        kid: getActiveKid(storage),
+      });
+      const { payload } = await jwtVerify(
+        idToken,
+        createLocalJWKSet(service.getJwks()),
+        {
+          issuer: 'https://api.example.com',
+          audience: 'test-client-id',
+        }
+      );
+      expect(payload.nonce).toBe('test-nonce');
+      expect(payload.exp! - payload.iat!).toBe(3600);
+    });
+
+    it('should refuse to sign ID tokens with a shared secret', async () => {
+      const service = await createService({
+        'jwt.accessAlgorithm': 'HS256',
+        'jwt.accessSecret': 'access-secret',
+        'jwt.refreshSecret': 'refresh-secret',
+      });
+
+      await expect(
+        service.signIdToken(
+          { sub: '0x1234567890abcdef' },
+          { audience: 'test-client-id', expiresIn: 3600000 }
+        )
+      ).rejects.toThrow('ID tokens require an asymmetric JWT algorithm');
+    });
+  });
+
+  describe('rotate', () => {
+    const config = { 'jwt.accessAlgorithm': 'ES256' };
+
+    it('should promote the verify-only key and keep verifying old tokens', async () => {
+      const storage = new Map<string, string>();
+      const service = await createService(config, storage);
+      const [previousKey, nextKey] = service.getJwks().keys;
+      const oldToken = await service.sign('access', mockPayload, signOptions);
+
+      const activeKey = await service.rotate();
+      const newToken = await service.sign('access', mockPayload, signOptions);
+
+      expect(activeKey.kid).toBe(nextKey.kid);
+      expect(getActiveKid(storage)).toBe(nextKey.kid);
+      expect(decodeProtectedHeader(newToken).kid).toBe(nextKey.kid);
+      await expect(service.verify('access', oldToken)).resolves.toEqual(
+        expect.objectContaining(mockPayload)
+      );
+      expect(service.getJwks().keys.map((key) => key.kid)).toEqual([
+        nextKey.kid,
+        expect.any(String),
+        previousKey.kid,
+      ]);
+    });
+
+    it('should drop retiring keys once their tokens have expired', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') });
+      const storage = new Map<string, string>();
+      const service = await createService(
+        { ...config, 'jwt.keyRotationInterval': 0 },
+        storage
+      );
+      const [previousKey] = service.getJwks().keys;
+
+      await service.rotate();
+      // Longest token lifetime is the refresh token lifetime
+      jest.setSystemTime(new Date('2024-01-01T02:00:00.000Z'));
+
+      expect(service.getJwks().keys.map((key) => key.kid)).not.toContain(
+        previousKey.kid
+      );
+
+      await service.rotate();
+
+      expect(storage.get('jwt:keys')).not.toContain(previousKey.kid);
+    });
+
+    it('should let other instances verify tokens signed with a new key', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') });
+      const storage = new Map<string, string>();
+      const service = await createService(config, storage);
+      const otherInstance = await createService(config, storage);
+
+      // The second rotation activates a key the other instance has never seen
+      await service.rotate();
+      await service.rotate();
+      const token = await service.sign('access', mockPayload, signOptions);
+      jest.setSystemTime(new Date('2024-01-01T00:00:10.000Z'));
+
+      await expect(otherInstance.verify('access', token)).resolves.toEqual(
+        expect.objectContaining(mockPayload)
+      );
+    });
+
+    it('should rotate keys on schedule only once across instances', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') });
+      const storage = new Map<string, string>();
+      const scheduledConfig = { ...config, 'jwt.keyRotationInterval': 120000 };
+      const service = await createService(scheduledConfig, storage);
+      const otherInstance = await createService(scheduledConfig, storage);
+      const [, nextKey] = service.getJwks().keys;
+
+      await jest.advanceTimersByTimeAsync(180000);
+
+      expect(getActiveKid(storage)).toBe(nextKey.kid);
+      expect(JSON.parse(storage.get('jwt:keys')!)).toHaveLength(3);
+      const token = await otherInstance.sign(
+        'access',
+        mockPayload,
+        signOptions
+      );
+      expect(decodeProtectedHeader(token).kid).toBe(nextKey.kid);
+    });
+  });
+});
@@ -0,0 +1,630 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createPrivateKey,
+  createPublicKey,
+  createSecretKey,
+  generateKeyPairSync,
+  hkdfSync,
+  KeyObject,
+  randomBytes,
+  randomUUID,
+} from 'crypto';
+import {
+  calculateJwkThumbprint,
+  errors,
+  JWK,
+  JWTHeaderParameters,
+  JWTPayload,
+  jwtVerify,
+  SignJWT,
+} from 'jose';
+import { RedisService } from '@/modules/common/redis/redis.service';
+import { TokenType } from '../session/session.service';
+
+export const JWT_ALGORITHMS = ['HS256', 'RS256', 'ES256', 'EdDSA'] as const;
+
+export type JwtAlgorithm = (typeof JWT_ALGORITHMS)[number];
+
+/**
+ * Lifecycle of a signing key: it is published as verify-only ahead of its
+ * activation, signs tokens while active and keeps verifying them while
+ * retiring, until every token it signed has expired
+ */
+export type SigningKeyStatus = 'verify-only' | 'active' | 'retiring';
+
+export interface SigningKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  status: SigningKeyStatus;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  createdAt: string;
+  activatedAt: string | null;
+  retiresAt: string | null;
+}
+
+interface StoredSigningKey
+  extends Omit<SigningKey, 'privateKey' | 'publicKey'> {
+  // AES-256-GCM encrypted PKCS8 DER key, as base64url of IV, tag and
+  // ciphertext
+  encryptedPrivateKey?: string;
+  // PKCS8 PEM key of keyrings written before keys were encrypted
+  privateKey?: string;
+}
+
+export type TokenPayload = JWTPayload & Record<string, unknown>;
+
+const KEYRING_KEY = 'jwt:keys';
+const KEYRING_LOCK_KEY = 'jwt:keys:lock';
+const KEYRING_LOCK_TTL = 30; // seconds
+const KEYRING_SYNC_INTERVAL = 60 * 1000;
+const KEYRING_RELOAD_COOLDOWN = 10 * 1000;
+const KEY_ENCRYPTION_IV_LENGTH = 12;
+const KEY_ENCRYPTION_TAG_LENGTH = 16;
+
+// Explicit token types keep a refresh token from being accepted as an access
+// token and vice versa, even though both are signed with the same key
+const TOKEN_TYPES: Record<TokenType, string> = {
+  access: 'at+jwt',
+  refresh: 'rt+jwt',
+};
+
+@Injectable()
+export class JwtKeyService implements OnModuleInit, OnModuleDestroy {
+  private readonly algorithm: JwtAlgorithm;
+  private readonly issuer: string;
+  private readonly audience: string;
+  private readonly rotationInterval: number;
+  private readonly maxTokenLifetime: number;
+  private readonly keyEncryptionKey: Buffer | null = null;
+  private keys: SigningKey[] = [];
+  private hasPlaintextKeys = false;
+  private secretKeys: Record<TokenType, KeyObject> | null = null;
+  private syncTimer: NodeJS.Timeout | null = null;
+  private lastReloadAt = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly redisService: RedisService
+  ) {
+    const algorithm = this.configService.getOrThrow<string>(
+      'jwt.accessAlgorithm'
+    );
+
+    if (!JWT_ALGORITHMS.includes(algorithm as JwtAlgorithm)) {
+      throw new Error(
+        `Unsupported JWT algorithm "${algorithm}", expected one of ${JWT_ALGORITHMS.join(', ')}`
+      );
+    }
+
+    this.algorithm = algorithm as JwtAlgorithm;
+    this.issuer = this.configService.getOrThrow<string>('jwt.issuer');
+    this.audience = this.configService.getOrThrow<string>('jwt.audience');
+    this.rotationInterval = this.configService.getOrThrow<number>(
+      'jwt.keyRotationInterval'
+    );
+    this.maxTokenLifetime = Math.max(
+      this.configService.getOrThrow<number>('jwt.accessExpiresIn'),
+      this.configService.getOrThrow<number>('jwt.refreshExpiresIn')
+    );
+
+    if (this.algorithm !== 'HS256') {
+      const secret = this.configService.get<string | null>(
+        'jwt.keyEncryptionSecret'
+      );
+
+      if (!secret) {
+        throw new Error(
+          `JWT_KEY_ENCRYPTION_SECRET is required for ${this.algorithm} keys`
+        );
+      }
+
+      // The keyring is shared through Redis, so anyone who can read Redis
+      // could sign tokens with plaintext private keys
+      this.keyEncryptionKey = Buffer.from(
+        hkdfSync('sha256', secret, '', 'jwt-keyring', 32)
+      );
+    }
+  }
+
+  async onModuleInit() {
+    if (this.algorithm === 'HS256') {
+      this.secretKeys = {
+        access: this.loadSecretKey('jwt.accessSecret'),
+        refresh: this.loadSecretKey('jwt.refreshSecret'),
+      };
+      return;
+    }
+
+    await this.reload();
+
+    if (!this.getActiveKey()) {
+      // Another instance may be bootstrapping the keyring at the same time
+      await this.updateKeyring((keys) =>
+        keys.some((key) => key.status === 'active')
+          ? keys
+          : this.rotateKeys(keys)
+      );
+    }
+
+    if (this.hasPlaintextKeys) {
+      // Writing the keyring back encrypts the keys
+      await this.updateKeyring((keys) =>
+        this.hasPlaintextKeys ? [...keys] : keys
+      );
+    }
+
+    this.syncTimer = setInterval(() => void this.sync(), KEYRING_SYNC_INTERVAL);
+    // Syncing keys must not keep the process alive on shutdown
+    this.syncTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+    }
+  }
+
+  private loadSecretKey(configKey: string): KeyObject {
+    return createSecretKey(
+      Buffer.from(this.configService.getOrThrow<string>(configKey))
+    );
+  }
+
+  private loadInitialPrivateKey(): KeyObject {
+    const pem = this.configService.get<string>('jwt.accessPrivateKey');
+
+    if (!pem) {
+      return this.generatePrivateKey();
+    }
+
+    const privateKey = createPrivateKey(pem);
+    this.assertKeyMatchesAlgorithm(privateKey);
+    return privateKey;
+  }
+
+  private generatePrivateKey(): KeyObject {
+    switch (this.algorithm) {
+      case 'RS256':
+        return generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+      case 'ES256':
+        return generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey;
+      default:
+        return generateKeyPairSync('ed25519').privateKey;
+    }
+  }
+
+  private assertKeyMatchesAlgorithm(privateKey: KeyObject) {
+    const { asymmetricKeyType, asymmetricKeyDetails } = privateKey;
+    const matches =
+      (this.algorithm === 'RS256' && asymmetricKeyType === 'rsa') ||
+      (this.algorithm === 'ES256' &&
+        asymmetricKeyType === 'ec' &&
+        asymmetricKeyDetails?.namedCurve === 'prime256v1') ||
+      (this.algorithm === 'EdDSA' && asymmetricKeyType === 'ed25519');
+
+    if (!matches) {
+      throw new Error(
+        `JWT_ACCESS_PRIVATE_KEY is not a valid ${this.algorithm} key`
+      );
+    }
+  }
+
+  private async createKey(privateKey: KeyObject): Promise<SigningKey> {
+    const publicKey = createPublicKey(privateKey);
+
+    return {
+      // RFC 7638 thumbprint, so the same key always gets the same ID
+      kid: await calculateJwkThumbprint(this.toPublicJwk(publicKey)),
+      alg: this.algorithm,
+      status: 'verify-only',
+      privateKey,
+      publicKey,
+      createdAt: new Date().toISOString(),
+      activatedAt: null,
+      retiresAt: null,
+    };
+  }
+
+  private toPublicJwk(publicKey: KeyObject): JWK {
+    return publicKey.export({ format: 'jwk' }) as JWK;
+  }
+
+  private isExpired(key: SigningKey, now: Date): boolean {
+    return (
+      key.status === 'retiring' &&
+      !!key.retiresAt &&
+      new Date(key.retiresAt) <= now
+    );
+  }
+
+  private isRotationDue(keys: SigningKey[]): boolean {
+    const activeKey = keys.find((key) => key.status === 'active');
+
+    if (!this.rotationInterval || !activeKey?.activatedAt) {
+      return false;
+    }
+
+    return (
+      new Date(activeKey.activatedAt).getTime() + this.rotationInterval <=
+      Date.now()
+    );
+  }
+
+  private async rotateKeys(keys: SigningKey[]): Promise<SigningKey[]> {
+    const now = new Date();
+    // The outgoing key verifies tokens for as long as the longest-lived token
+    // it may have signed
+    const retiresAt = new Date(
+      now.getTime() + this.maxTokenLifetime
+    ).toISOString();
+
+    const keyring = keys
+      .filter((key) => !this.isExpired(key, now))
+      .map((key) =>
+        key.status === 'active'
+          ? { ...key, status: 'retiring' as const, retiresAt }
+          : key
+      );
+
+    // The next key was already published as verify-only, so downstream JWKS
+    // caches know it before the first token signed with it shows up
+    const nextKey =
+      keyring.find((key) => key.status === 'verify-only') ??
+      (await this.createKey(
+        keys.length ? this.generatePrivateKey() : this.loadInitialPrivateKey()
+      ));
+    const upcomingKey = await this.createKey(this.generatePrivateKey());
+
+    Logger.log(`JWT signing key ${nextKey.kid} is now active`);
+
+    return [
+      { ...nextKey, status: 'active', activatedAt: now.toISOString() },
+      upcomingKey,
+      ...keyring.filter((key) => key !== nextKey),
+    ];
+  }
+
+  private encryptPrivateKey(kid: string, privateKey: KeyObject): string {
+    const iv = randomBytes(KEY_ENCRYPTION_IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', this.keyEncryptionKey!, iv);
+    // Binds the ciphertext to its key ID, so keys cannot be swapped
+    cipher.setAAD(Buffer.from(kid));
+
+    const ciphertext = Buffer.concat([
+      cipher.update(privateKey.export({ format: 'der', type: 'pkcs8' })),
+      cipher.final(),
+    ]);
+
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+      'base64url'
+    );
+  }
+
+  private decryptPrivateKey(key: StoredSigningKey): KeyObject {
+    if (!key.encryptedPrivateKey) {
+      return createPrivateKey(key.privateKey!);
+    }
+
+    const data = Buffer.from(key.encryptedPrivateKey, 'base64url');
+    const tagEnd = KEY_ENCRYPTION_IV_LENGTH + KEY_ENCRYPTION_TAG_LENGTH;
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this.keyEncryptionKey!,
+      data.subarray(0, KEY_ENCRYPTION_IV_LENGTH)
+    );
+    decipher.setAAD(Buffer.from(key.kid));
+    decipher.setAuthTag(data.subarray(KEY_ENCRYPTION_IV_LENGTH, tagEnd));
+
+    try {
+      return createPrivateKey({
+        key: Buffer.concat([
+          decipher.update(data.subarray(tagEnd)),
+          decipher.final(),
+        ]),
+        format: 'der',
+        type: 'pkcs8',
+      });
+    } catch {
+      throw new Error(
+        `JWT signing key ${key.kid} cannot be decrypted, check JWT_KEY_ENCRYPTION_SECRET`
+      );
+    }
+  }
+
+  private async readKeyring(): Promise<SigningKey[]> {
+    const value = await this.redisService.get(KEYRING_KEY);
+    const storedKeys = value ? (JSON.parse(value) as StoredSigningKey[]) : [];
+
+    this.hasPlaintextKeys = storedKeys.some((key) => !key.encryptedPrivateKey);
+
+    return storedKeys.map((key) => {
+      const privateKey = this.decryptPrivateKey(key);
+
+      return {
+        kid: key.kid,
+        alg: key.alg,
+        status: key.status,
+        privateKey,
+        publicKey: createPublicKey(privateKey),
+        createdAt: key.createdAt,
+        activatedAt: key.activatedAt,
+        retiresAt: key.retiresAt,
+      };
+    });
+  }
+
+  private async writeKeyring(keys: SigningKey[]) {
+    const storedKeys: StoredSigningKey[] = keys.map((key) => ({
+      kid: key.kid,
+      alg: key.alg,
+      status: key.status,
+      encryptedPrivateKey: this.encryptPrivateKey(key.kid, key.privateKey),
+      createdAt: key.createdAt,
+      activatedAt: key.activatedAt,
+      retiresAt: key.retiresAt,
+    }));
+
+    await this.redisService.set(KEYRING_KEY, JSON.stringify(storedKeys));
+    this.hasPlaintextKeys = false;
+  }
+
+  private async acquireKeyringLock(lockId: string) {
+    const deadline = Date.now() + KEYRING_LOCK_TTL * 1000;
+
+    while (
+      !(await this.redisService.setIfNotExists(
+        KEYRING_LOCK_KEY,
+        lockId,
+        KEYRING_LOCK_TTL
+      ))
+    ) {
+      if (Date.now() >= deadline) {
+        throw new Error('Timed out waiting for the JWT keyring lock');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+
+  private async updateKeyring(
+    update: (keys: SigningKey[]) => SigningKey[] | Promise<SigningKey[]>
+  ) {
+    const lockId = randomUUID();
+    await this.acquireKeyringLock(lockId);
+
+    try {
+      // Read the keyring again under the lock, as another instance may have
+      // changed it since the last sync
+      const keys = await this.readKeyring();
+      const updatedKeys = await update(keys);
+
+      if (updatedKeys !== keys) {
+        await this.writeKeyring(updatedKeys);
+      }
+
+      this.keys = updatedKeys;
+      this.lastReloadAt = Date.now();
+    } finally {
+      if ((await this.redisService.get(KEYRING_LOCK_KEY)) === lockId) {
+        await this.redisService.delete(KEYRING_LOCK_KEY);
+      }
+    }
+  }
+
+  private async reload() {
+    this.keys = await this.readKeyring();
+    this.lastReloadAt = Date.now();
+  }
+
+  private async sync() {
+    try {
+      await this.reload();
+
+      if (this.isRotationDue(this.keys)) {
+        await this.updateKeyring((keys) =>
+          this.isRotationDue(keys) ? this.rotateKeys(keys) : keys
+        );
+      }
+    } catch (e) {
+      Logger.error(e);
+    }
+  }
+
+  private getActiveKey(): SigningKey | undefined {
+    return this.keys.find((key) => key.status === 'active');
+  }
+
+  private getVerificationKeys(): SigningKey[] {
+    const now = new Date();
+    return this.keys.filter((key) => !this.isExpired(key, now));
+  }
+
+  private async getVerificationKey(
+    type: TokenType,
+    header: JWTHeaderParameters
+  ): Promise<KeyObject> {
+    if (this.secretKeys) {
+      return this.secretKeys[type];
+    }
+
+    const findKey = () =>
+      this.getVerificationKeys().find((key) => key.kid === header.kid);
+
+    let key = findKey();
+
+    // The keys may have been rotated by another instance since the last sync
+    if (!key && Date.now() - this.lastReloadAt >= KEYRING_RELOAD_COOLDOWN) {
+      await this.reload();
+      key = findKey();
+    }
+
+    if (!key) {
+      throw new Error(`Unknown JWT key ID "${header.kid}"`);
+    }
+
+    return key.publicKey;
+  }
+
+  /**
+   * Sign a token with the active key, or the shared secret of its type
+   * @param type - Whether an access or a refresh token is signed
+   * @param payload - The token claims
+   * @param options - The token lifetime in milliseconds and the token ID
+   * @returns The signed token
+   */
+  async sign(
+    type: TokenType,
+    payload: Record<string, unknown>,
+    options: { expiresIn: number; jwtid: string }
+  ): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    const typ = TOKEN_TYPES[type];
+    let header: JWTHeaderParameters = { alg: this.algorithm, typ };
+    let signingKey: KeyObject;
+
+    if (this.secretKeys) {
+      signingKey = this.secretKeys[type];
+    } else {
+      const activeKey = this.getActiveKey();
+
+      if (!activeKey) {
+        throw new Error('No active JWT signing key');
+      }
+
+      header = { ...header, kid: activeKey.kid };
+      signingKey = activeKey.privateKey;
+    }
+
+    return new SignJWT(payload)
+      .setProtectedHeader(header)
+      .setIssuer(this.issuer)
+      .setAudience(this.audience)
+      .setIssuedAt(now)
+      .setExpirationTime(now + Math.floor(options.expiresIn / 1000))
+      .setJti(options.jwtid)
+      .sign(signingKey);
+  }
+
+  /**
+   * Sign an OpenID Connect ID token with the active key. ID tokens are
+   * verified by the clients, so they cannot be HMAC-signed
+   * @param payload - The token claims
+   * @param options - The client the token is issued to and the token lifetime
+   * in milliseconds
+   * @returns The signed token
+   * @throws Error when tokens are HMAC-signed
+   */
+  async signIdToken(
+    payload: Record<string, unknown>,
+    options: { audience: string; expiresIn: number }
+  ): Promise<string> {
+    const activeKey = this.getActiveKey();
+
+    if (this.secretKeys || !activeKey) {
+      throw new Error('ID tokens require an asymmetric JWT algorithm');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+
+    return new SignJWT(payload)
+      .setProtectedHeader({
+        alg: this.algorithm,
+        typ: 'JWT',
+        kid: activeKey.kid,
+      })
+      .setIssuer(this.issuer)
+      .setAudience(options.audience)
+      .setIssuedAt(now)
+      .setExpirationTime(now + Math.floor(options.expiresIn / 1000))
+      .sign(activeKey.privateKey);
+  }
+
+  /**
+   * Get the algorithm tokens are signed with
+   * @returns The JWT algorithm
+   */
+  getAlgorithm(): JwtAlgorithm {
+    return this.algorithm;
+  }
+
+  /**
+   * Verify a token against the key referenced by its `kid` header
+   * @param type - Whether an access or a refresh token is expected
+   * @param token - The token
+   * @param options - `ignoreExpiration` accepts expired tokens, whose
+   * signature, issuer and audience are still verified
+   * @returns The token claims
+   * @throws Error when the token is malformed, expired, badly signed, of
+   * another type or issued for another audience
+   */
+  async verify(
+    type: TokenType,
+    token: string,
+    options: { ignoreExpiration?: boolean } = {}
+  ): Promise<TokenPayload> {
+    try {
+      const { payload } = await jwtVerify(
+        token,
+        (header) => this.getVerificationKey(type, header),
+        {
+          algorithms: [this.algorithm],
+          typ: TOKEN_TYPES[type],
+          issuer: this.issuer,
+          audience: this.audience,
+        }
+      );
+
+      return payload;
+    } catch (error) {
+      // jose checks the expiry after the signature and all other claims
+      if (
+        options.ignoreExpiration &&
+        error instanceof errors.JWTExpired &&
+        error.claim === 'exp'
+      ) {
+        return error.payload;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Retire the active key and promote the next one, without invalidating
+   * tokens signed with the retired key
+   * @returns The newly active key
+   * @throws Error when tokens are HMAC-signed
+   */
+  async rotate(): Promise<SigningKey> {
+    if (this.secretKeys) {
+      throw new Error('Key rotation requires an asymmetric JWT algorithm');
+    }
+
+    await this.updateKeyring((keys) => this.rotateKeys(keys));
+
+    return this.getActiveKey()!;
+  }
+
+  /**
+   * Get the public keys that tokens can be verified with
+   * @returns The JSON Web Key Set, empty when tokens are HMAC-signed
+   */
+  getJwks(): { keys: JWK[] } {
+    return {
+      keys: this.getVerificationKeys().map((key) => ({
+        ...this.toPublicJwk(key.publicKey),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig',
+      })),
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { LockoutController } from './lockout.controller';
+import { SignInLockoutService } from './sign-in-lockout.service';
+
+describe('LockoutController', () => {
+  let controller: LockoutController;
+  let mockSignInLockoutService: jest.Mocked<SignInLockoutService>;
+
+  beforeEach(async () => {
+    mockSignInLockoutService = {
+      list: jest.fn(),
+      getStatus: jest.fn(),
+      clear: jest.fn(),
+    } as unknown as jest.Mocked<SignInLockoutService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [LockoutController],
+      providers: [
+        {
+          provide: SignInLockoutService,
+          useValue: mockSignInLockoutService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<LockoutController>(LockoutController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('list', () => {
+    it('should return the active lockouts', async () => {
+      const mockLockouts = [
+        {
+          subject: 'address' as const,
+          value: '0x1234',
+          level: 1,
+          lockedAt: '2024-01-01T00:00:00.000Z',
+          lockedUntil: '2024-01-01T00:01:00.000Z',
+        },
+      ];
+      mockSignInLockoutService.list.mockResolvedValue(mockLockouts);
+
+      const result = await controller.list();
+
+      expect(result).toEqual(mockLockouts);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should return the lockout status of the subject', async () => {
+      const mockStatus = {
+        subject: 'ip' as const,
+        value: '127.0.0.1',
+        failures: 2,
+        lockout: null,
+      };
+      mockSignInLockoutService.getStatus.mockResolvedValue(mockStatus);
+
+      const result = await controller.getStatus('ip', '127.0.0.1');
+
+      expect(mockSignInLockoutService.getStatus).toHaveBeenCalledWith(
+        'ip',
+        '127.0.0.1'
+      );
+      expect(result).toEqual(mockStatus);
+    });
+
+    it('should reject unknown subjects', async () => {
+      await expect(controller.getStatus('user', 'test')).rejects.toThrow(
+        BadRequestException
+      );
+
+      expect(mockSignInLockoutService.getStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('clear', () => {
+    it('should clear the lockout of the subject', async () => {
+      await controller.clear('address', '0x1234');
+
+      expect(mockSignInLockoutService.clear).toHaveBeenCalledWith(
+        'address',
+        '0x1234'
+      );
+    });
+  });
+});
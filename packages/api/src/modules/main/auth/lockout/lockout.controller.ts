@@ -0,0 +1,61 @@
+import {
+  BadRequestException,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { SessionAuthGuard } from '@/modules/common/guards/session-auth.guard';
+import { RolesGuard } from '@/modules/common/guards/roles.guard';
+import { Roles } from '@/modules/common/roles/roles.decorator';
+import { Role } from 'generated/prisma';
+import {
+  LOCKOUT_SUBJECTS,
+  LockoutSubject,
+  SignInLockoutService,
+} from './sign-in-lockout.service';
+
+@Controller('/admin/lockouts')
+@UseGuards(SessionAuthGuard, RolesGuard)
+@Roles(Role.admin)
+export class LockoutController {
+  constructor(private readonly signInLockoutService: SignInLockoutService) {}
+
+  private parseSubject(subject: string): LockoutSubject {
+    if (!LOCKOUT_SUBJECTS.includes(subject as LockoutSubject)) {
+      throw new BadRequestException(
+        `Lockout subject must be one of ${LOCKOUT_SUBJECTS.join(', ')}`
+      );
+    }
+
+    return subject as LockoutSubject;
+  }
+
+  @Get()
+  async list() {
+    return this.signInLockoutService.list();
+  }
+
+  @Get('/:subject/:value')
+  async getStatus(
+    @Param('subject') subject: string,
+    @Param('value') value: string
+  ) {
+    return this.signInLockoutService.getStatus(
+      this.parseSubject(subject),
+      value
+    );
+  }
+
+  @Delete('/:subject/:value')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async clear(
+    @Param('subject') subject: string,
+    @Param('value') value: string
+  ) {
+    await this.signInLockoutService.clear(this.parseSubject(subject), value);
+  }
+}
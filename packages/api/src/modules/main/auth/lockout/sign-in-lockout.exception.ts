@@ -0,0 +1,17 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export const SIGN_IN_LOCKED_CODE = 'SIGN_IN_LOCKED';
+
+export class SignInLockoutException extends HttpException {
+  constructor(public readonly retryAfter: number) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        code: SIGN_IN_LOCKED_CODE,
+        message: 'Too many failed sign-in attempts, try again later',
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS
+    );
+  }
+}
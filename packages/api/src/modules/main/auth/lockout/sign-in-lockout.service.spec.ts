@@ -0,0 +1,249 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Logger } from '@nestjs/common';
+import { RedisService } from '@/modules/common/redis/redis.service';
+import { AuthEventsService } from '@/modules/common/auth-events/auth-events.service';
+import { Lockout, SignInLockoutService } from './sign-in-lockout.service';
+import { SignInLockoutException } from './sign-in-lockout.exception';
+
+describe('SignInLockoutService', () => {
+  let service: SignInLockoutService;
+  let mockRedisService: jest.Mocked<RedisService>;
+  let mockAuthEventsService: jest.Mocked<AuthEventsService>;
+  let redisStorage: Map<string, string>;
+
+  const address = '0xAb16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb';
+  const normalizedAddress = address.toLowerCase();
+  const ip = '::ffff:127.0.0.1';
+
+  const config: Record<string, unknown> = {
+    'lockout.maxAddressFailures': 3,
+    'lockout.maxIpFailures': 5,
+    'lockout.failureWindow': 900000,
+    'lockout.baseDuration': 60000,
+    'lockout.maxDuration': 180000,
+  };
+
+  const failTimes = async (times: number, attemptIp?: string) => {
+    for (let i = 0; i < times; i++) {
+      await service.recordFailure({ address, ip: attemptIp });
+    }
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') });
+    jest.spyOn(Logger, 'warn').mockImplementation();
+
+    redisStorage = new Map();
+    mockRedisService = {
+      get: jest.fn((key: string) =>
+        Promise.resolve(redisStorage.get(key) ?? null)
+      ),
+      set: jest.fn((key: string, value: string) => {
+        redisStorage.set(key, value);
+        return Promise.resolve();
+      }),
+      delete: jest.fn((...keys: string[]) => {
+        keys.forEach((key) => redisStorage.delete(key));
+        return Promise.resolve();
+      }),
+      increment: jest.fn((key: string) => {
+        const count = Number(redisStorage.get(key) ?? 0) + 1;
+        redisStorage.set(key, String(count));
+        return Promise.resolve(count);
+      }),
+      scan: jest.fn((pattern: string) =>
+        Promise.resolve(
+          [...redisStorage.keys()].filter((key) =>
+            key.startsWith(pattern.replace('*', ''))
+          )
+        )
+      ),
+    } as unknown as jest.Mocked<RedisService>;
+
+    mockAuthEventsService = {
+      emit: jest.fn(),
+    } as unknown as jest.Mocked<AuthEventsService>;
+
+    const mockConfigService = {
+      getOrThrow: jest.fn((key: string) => config[key]),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignInLockoutService,
+        {
+          provide: RedisService,
+          useValue: mockRedisService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+        {
+          provide: AuthEventsService,
+          useValue: mockAuthEventsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SignInLockoutService>(SignInLockoutService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('recordFailure', () => {
+    it('should count failures within the failure window', async () => {
+      await failTimes(2, ip);
+
+      expect(mockRedisService.increment).toHaveBeenCalledWith(
+        `lockout:failures:address:${normalizedAddress}`,
+        900
+      );
+      expect(mockRedisService.increment).toHaveBeenCalledWith(
+        'lockout:failures:ip:127.0.0.1',
+        900
+      );
+      await expect(
+        service.assertNotLocked({ address, ip })
+      ).resolves.toBeUndefined();
+    });
+
+    it('should lock the address out after too many failures', async () => {
+      await failTimes(3);
+
+      await expect(service.assertNotLocked({ address })).rejects.toThrow(
+        new SignInLockoutException(60)
+      );
+      expect(mockRedisService.set).toHaveBeenCalledWith(
+        `lockout:lock:address:${normalizedAddress}`,
+        expect.any(String),
+        60
+      );
+      expect(
+        redisStorage.has(`lockout:failures:address:${normalizedAddress}`)
+      ).toBe(false);
+    });
+
+    it('should emit an auth event for every lockout', async () => {
+      await failTimes(3);
+
+      expect(mockAuthEventsService.emit).toHaveBeenCalledWith({
+        type: 'sign_in.locked_out',
+        address: normalizedAddress,
+        ip: undefined,
+        data: {
+          subject: 'address',
+          level: 1,
+          lockedUntil: '2024-01-01T00:01:00.000Z',
+        },
+      });
+    });
+
+    it('should double the lockout duration up to the max duration', async () => {
+      const durations: number[] = [];
+
+      for (let i = 0; i < 3; i++) {
+        await failTimes(3);
+        const lockout = JSON.parse(
+          redisStorage.get(`lockout:lock:address:${normalizedAddress}`)!
+        ) as Lockout;
+        durations.push(
+          new Date(lockout.lockedUntil).getTime() -
+            new Date(lockout.lockedAt).getTime()
+        );
+      }
+
+      expect(durations).toEqual([60000, 120000, 180000]);
+    });
+
+    it('should lock the IP out independently of the address', async () => {
+      for (let i = 0; i < 5; i++) {
+        await service.recordFailure({
+          address: `0x${String(i).repeat(40)}`,
+          ip,
+        });
+      }
+
+      await expect(service.assertNotLocked({ address, ip })).rejects.toThrow(
+        SignInLockoutException
+      );
+      await expect(
+        service.assertNotLocked({ address })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('assertNotLocked', () => {
+    it('should allow sign-ins once the lockout expired', async () => {
+      await failTimes(3);
+      jest.advanceTimersByTime(60000);
+
+      await expect(
+        service.assertNotLocked({ address })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it('should reset the failures and the lockout level of the address', async () => {
+      await failTimes(3);
+      await service.recordSuccess(address);
+
+      expect(mockRedisService.delete).toHaveBeenCalledWith(
+        `lockout:failures:address:${normalizedAddress}`,
+        `lockout:level:address:${normalizedAddress}`
+      );
+    });
+  });
+
+  describe('list', () => {
+    it('should list the active lockouts', async () => {
+      await failTimes(3);
+
+      const result = await service.list();
+
+      expect(result).toEqual([
+        {
+          subject: 'address',
+          value: normalizedAddress,
+          level: 1,
+          lockedAt: '2024-01-01T00:00:00.000Z',
+          lockedUntil: '2024-01-01T00:01:00.000Z',
+        },
+      ]);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should return the failures and the lockout', async () => {
+      await failTimes(1, ip);
+
+      const result = await service.getStatus('ip', ip);
+
+      expect(result).toEqual({
+        subject: 'ip',
+        value: '127.0.0.1',
+        failures: 1,
+        lockout: null,
+      });
+    });
+  });
+
+  describe('clear', () => {
+    it('should lift the lockout', async () => {
+      await failTimes(3);
+
+      await service.clear('address', address);
+
+      await expect(
+        service.assertNotLocked({ address })
+      ).resolves.toBeUndefined();
+      expect(await service.list()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '@/modules/common/redis/redis.service';
+import { AuthEventsService } from '@/modules/common/auth-events/auth-events.service';
+import { SignInLockoutException } from './sign-in-lockout.exception';
+
+export const LOCKOUT_SUBJECTS = ['address', 'ip'] as const;
+
+export type LockoutSubject = (typeof LOCKOUT_SUBJECTS)[number];
+
+export interface Lockout {
+  subject: LockoutSubject;
+  value: string;
+  // Number of lockouts in a row, the duration doubles with each one
+  level: number;
+  lockedAt: string;
+  lockedUntil: string;
+}
+
+export interface LockoutStatus {
+  subject: LockoutSubject;
+  value: string;
+  failures: number;
+  lockout: Lockout | null;
+}
+
+export interface SignInAttempt {
+  address: string;
+  ip?: string;
+}
+
+// Lockout levels decay after a day without lockouts
+const LOCKOUT_LEVEL_TTL = 24 * 60 * 60;
+
+@Injectable()
+export class SignInLockoutService {
+  private readonly maxFailures: Record<LockoutSubject, number>;
+  private readonly failureWindow: number;
+  private readonly baseDuration: number;
+  private readonly maxDuration: number;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+    private readonly authEventsService: AuthEventsService
+  ) {
+    this.maxFailures = {
+      address: this.configService.getOrThrow<number>(
+        'lockout.maxAddressFailures'
+      ),
+      ip: this.configService.getOrThrow<number>('lockout.maxIpFailures'),
+    };
+    this.failureWindow = this.configService.getOrThrow<number>(
+      'lockout.failureWindow'
+    );
+    this.baseDuration = this.configService.getOrThrow<number>(
+      'lockout.baseDuration'
+    );
+    this.maxDuration = this.configService.getOrThrow<number>(
+      'lockout.maxDuration'
+    );
+  }
+
+  // Addresses are case-insensitive, and Express reports IPv4 clients of a
+  // dual-stack server as ::ffff:1.2.3.4
+  private normalize(subject: LockoutSubject, value: string): string {
+    return subject === 'address'
+      ? value.toLowerCase()
+      : value.replace(/^::ffff:/, '');
+  }
+
+  private getKey(
+    type: 'failures' | 'lock' | 'level',
+    subject: LockoutSubject,
+    value: string
+  ): string {
+    return `lockout:${type}:${subject}:${this.normalize(subject, value)}`;
+  }
+
+  private getSubjects(attempt: SignInAttempt): [LockoutSubject, string][] {
+    const subjects: [LockoutSubject, string][] = [['address', attempt.address]];
+
+    if (attempt.ip) {
+      subjects.push(['ip', attempt.ip]);
+    }
+
+    return subjects.filter(([subject]) => this.maxFailures[subject] > 0);
+  }
+
+  private async getLockout(
+    subject: LockoutSubject,
+    value: string
+  ): Promise<Lockout | null> {
+    const lockout = await this.redisService.get(
+      this.getKey('lock', subject, value)
+    );
+
+    return lockout ? (JSON.parse(lockout) as Lockout) : null;
+  }
+
+  private async lock(subject: LockoutSubject, value: string): Promise<void> {
+    const levelKey = this.getKey('level', subject, value);
+    const level = Number((await this.redisService.get(levelKey)) ?? 0) + 1;
+    const duration = Math.min(
+      this.baseDuration * 2 ** (level - 1),
+      this.maxDuration
+    );
+    const lockedAt = new Date();
+    const lockout: Lockout = {
+      subject,
+      value: this.normalize(subject, value),
+      level,
+      lockedAt: lockedAt.toISOString(),
+      lockedUntil: new Date(lockedAt.getTime() + duration).toISOString(),
+    };
+
+    await Promise.all([
+      this.redisService.set(
+        this.getKey('lock', subject, value),
+        JSON.stringify(lockout),
+        Math.ceil(duration / 1000)
+      ),
+      this.redisService.set(levelKey, String(level), LOCKOUT_LEVEL_TTL),
+      // The next lockout needs a full set of new failures
+      this.redisService.delete(this.getKey('failures', subject, value)),
+    ]);
+
+    Logger.warn(
+      `Security event: sign-in locked out for ${subject} ${lockout.value} until ${lockout.lockedUntil}`
+    );
+    this.authEventsService.emit({
+      type: 'sign_in.locked_out',
+      address: subject === 'address' ? lockout.value : undefined,
+      ip: subject === 'ip' ? lockout.value : undefined,
+      data: {
+        subject,
+        level,
+        lockedUntil: lockout.lockedUntil,
+      },
+    });
+  }
+
+  /**
+   * Reject a sign-in attempt while its address or IP is locked out
+   * @param attempt - The address and IP of the sign-in attempt
+   * @throws SignInLockoutException when the address or IP is locked out
+   */
+  async assertNotLocked(attempt: SignInAttempt): Promise<void> {
+    const lockouts = await Promise.all(
+      this.getSubjects(attempt).map(([subject, value]) =>
+        this.getLockout(subject, value)
+      )
+    );
+    const lockedUntil = Math.max(
+      0,
+      ...lockouts.map((lockout) =>
+        lockout ? new Date(lockout.lockedUntil).getTime() : 0
+      )
+    );
+
+    if (lockedUntil > Date.now()) {
+      throw new SignInLockoutException(
+        Math.ceil((lockedUntil - Date.now()) / 1000)
+      );
+    }
+  }
+
+  /**
+   * Count a failed sign-in against its address and IP, and lock them out
+   * once they reach the configured number of failures
+   * @param attempt - The address and IP of the failed sign-in attempt
+   */
+  async recordFailure(attempt: SignInAttempt): Promise<void> {
+    for (const [subject, value] of this.getSubjects(attempt)) {
+      const failures = await this.redisService.increment(
+        this.getKey('failures', subject, value),
+        Math.ceil(this.failureWindow / 1000)
+      );
+
+      if (failures >= this.maxFailures[subject]) {
+        await this.lock(subject, value);
+      }
+    }
+  }
+
+  /**
+   * Forget the failures and lockout level of an address after it signed in
+   * @param address - The address that signed in
+   */
+  async recordSuccess(address: string): Promise<void> {
+    await this.redisService.delete(
+      this.getKey('failures', 'address', address),
+      this.getKey('level', 'address', address)
+    );
+  }
+
+  /**
+   * List the active lockouts
+   * @returns The active lockouts, most recent first
+   */
+  async list(): Promise<Lockout[]> {
+    const keys = await this.redisService.scan('lockout:lock:*');
+    const lockouts = await Promise.all(
+      keys.map((key) => this.redisService.get(key))
+    );
+
+    return lockouts
+      .filter((lockout): lockout is string => lockout !== null)
+      .map((lockout) => JSON.parse(lockout) as Lockout)
+      .sort((a, b) => b.lockedAt.localeCompare(a.lockedAt));
+  }
+
+  /**
+   * Get the failures and the lockout of an address or IP
+   * @param subject - Whether the value is an address or an IP
+   * @param value - The address or IP
+   * @returns The failures in the current window and the active lockout
+   */
+  async getStatus(
+    subject: LockoutSubject,
+    value: string
+  ): Promise<LockoutStatus> {
+    const [failures, lockout] = await Promise.all([
+      this.redisService.get(this.getKey('failures', subject, value)),
+      this.getLockout(subject, value),
+    ]);
+
+    return {
+      subject,
+      value: this.normalize(subject, value),
+      failures: Number(failures ?? 0),
+      lockout,
+    };
+  }
+
+  /**
+   * Lift the lockout of an address or IP and reset its failures and level
+   * @param subject - Whether the value is an address or an IP
+   * @param value - The address or IP
+   */
+  async clear(subject: LockoutSubject, value: string): Promise<void> {
+    await this.redisService.delete(
+      this.getKey('lock', subject, value),
+      this.getKey('failures', subject, value),
+      this.getKey('level', subject, value)
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ScopeRegistryService } from '@/modules/common/scopes/scope-registry.service';
+import { encodeRecap, getRecapStatement, Recap } from '@/utils';
+import { RecapScopesService } from './recap-scopes.service';
+import {
+  SiwePolicyErrorCode,
+  SiwePolicyException,
+} from '../siwe/siwe-policy.exception';
+import { SignInMessage } from '../caip122/chain-verifier';
+
+describe('RecapScopesService', () => {
+  let service: RecapScopesService;
+
+  const resourceUri = 'https://api.example.com';
+
+  const createMessage = (recap: Recap, options: Partial<SignInMessage> = {}) =>
+    ({
+      statement: `Sign in to Example. ${getRecapStatement(recap)}`,
+      resources: ['https://example.com/terms', encodeRecap(recap)],
+      ...options,
+    }) as SignInMessage;
+
+  const createRecap = (...abilities: string[]): Recap => ({
+    att: {
+      [resourceUri]: Object.fromEntries(
+        abilities.map((ability) => [ability, []])
+      ),
+    },
+    prf: [],
+  });
+
+  const expectPolicyError = (
+    message: SignInMessage,
+    code: SiwePolicyErrorCode
+  ) => {
+    try {
+      service.resolve(message);
+      fail('Expected a SiwePolicyException');
+    } catch (e) {
+      expect(e).toBeInstanceOf(SiwePolicyException);
+      expect((e as SiwePolicyException).code).toBe(code);
+    }
+  };
+
+  beforeEach(async () => {
+    const mockConfigService = {
+      getOrThrow: jest.fn().mockReturnValue(resourceUri),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecapScopesService,
+        ScopeRegistryService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RecapScopesService>(RecapScopesService);
+
+    module
+      .get<ScopeRegistryService>(ScopeRegistryService)
+      .register(
+        { name: 'profile:read', description: 'Read', default: true },
+        { name: 'profile:write', description: 'Update', default: true },
+        { name: 'sessions:read', description: 'Sessions' }
+      );
+  });
+
+  describe('resolve', () => {
+    it('should return the default scopes without a ReCap', () => {
+      const actualResult = service.resolve({
+        resources: ['https://example.com/terms'],
+      } as SignInMessage);
+
+      expect(actualResult).toEqual(['profile:read', 'profile:write']);
+    });
+
+    it('should return the scopes of the ReCap abilities', () => {
+      const actualResult = service.resolve(
+        createMessage(createRecap('sessions/read', 'profile/read'))
+      );
+
+      expect(actualResult).toEqual(['profile:read', 'sessions:read']);
+    });
+
+    it('should reject a ReCap that is not the last resource', () => {
+      const message = createMessage(createRecap('profile/read'));
+      message.resources = [...message.resources!].reverse();
+
+      expectPolicyError(message, SiwePolicyErrorCode.INVALID_RECAP);
+    });
+
+    it('should reject malformed ReCaps', () => {
+      expectPolicyError(
+        createMessage(createRecap('profile/read'), {
+          resources: ['urn:recap:invalid!'],
+        }),
+        SiwePolicyErrorCode.INVALID_RECAP
+      );
+    });
+
+    it('should reject delegated ReCaps', () => {
+      expectPolicyError(
+        createMessage({ ...createRecap('profile/read'), prf: ['cid'] }),
+        SiwePolicyErrorCode.INVALID_RECAP
+      );
+    });
+
+    it('should reject statements that do not match the ReCap', () => {
+      expectPolicyError(
+        createMessage(createRecap('profile/read', 'profile/write'), {
+          statement: getRecapStatement(createRecap('profile/read')),
+        }),
+        SiwePolicyErrorCode.INVALID_RECAP
+      );
+    });
+
+    it('should reject capabilities for other resources', () => {
+      const recap: Recap = {
+        att: { 'https://other.example.com': { 'profile/read': [] } },
+        prf: [],
+      };
+
+      expectPolicyError(
+        createMessage(recap),
+        SiwePolicyErrorCode.CAPABILITY_NOT_ALLOWED
+      );
+    });
+
+    it('should reject abilities that are not registered scopes', () => {
+      expectPolicyError(
+        createMessage(createRecap('profile/read', 'admin/write')),
+        SiwePolicyErrorCode.CAPABILITY_NOT_ALLOWED
+      );
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ScopeRegistryService } from '@/modules/common/scopes/scope-registry.service';
+import {
+  decodeRecap,
+  getRecapStatement,
+  isRecapUri,
+  parseRecapAbility,
+} from '@/utils';
+import {
+  SiwePolicyErrorCode,
+  SiwePolicyException,
+} from '../siwe/siwe-policy.exception';
+import { SignInMessage } from '../caip122/chain-verifier';
+
+@Injectable()
+export class RecapScopesService {
+  private readonly resourceUri: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly scopeRegistryService: ScopeRegistryService
+  ) {
+    this.resourceUri = this.configService.getOrThrow<string>(
+      'siwe.recapResourceUri'
+    );
+  }
+
+  /**
+   * Resolve the scopes a sign-in message grants from its EIP-5573 ReCap
+   * @param message - The parsed sign-in message
+   * @returns The scopes of the ReCap abilities, or the default scopes when the
+   * message has no ReCap
+   * @throws SiwePolicyException when the ReCap is malformed, does not match
+   * the statement or grants abilities that are not registered scopes
+   */
+  resolve(message: SignInMessage): string[] {
+    const resources = message.resources ?? [];
+    const recapIndex = resources.findIndex((uri) => isRecapUri(uri));
+
+    if (recapIndex === -1) {
+      return this.scopeRegistryService.getDefaultScopes();
+    }
+
+    if (recapIndex !== resources.length - 1) {
+      throw new SiwePolicyException(
+        SiwePolicyErrorCode.INVALID_RECAP,
+        'The ReCap must be the last resource of the SIWE message'
+      );
+    }
+
+    const recap = decodeRecap(resources[recapIndex]);
+
+    if (!recap) {
+      throw new SiwePolicyException(
+        SiwePolicyErrorCode.INVALID_RECAP,
+        'Invalid ReCap'
+      );
+    }
+
+    if (recap.prf.length) {
+      throw new SiwePolicyException(
+        SiwePolicyErrorCode.INVALID_RECAP,
+        'Delegated ReCaps are not supported'
+      );
+    }
+
+    // The signature covers the resources, the statement is what the wallet
+    // showed the user, so both have to grant the same capabilities
+    if (!message.statement?.endsWith(getRecapStatement(recap))) {
+      throw new SiwePolicyException(
+        SiwePolicyErrorCode.INVALID_RECAP,
+        'The SIWE statement does not match the ReCap'
+      );
+    }
+
+    const scopes = new Set<string>();
+
+    for (const [resource, abilities] of Object.entries(recap.att)) {
+      if (resource !== this.resourceUri) {
+        throw new SiwePolicyException(
+          SiwePolicyErrorCode.CAPABILITY_NOT_ALLOWED,
+          `Capabilities for ${resource} are not supported`
+        );
+      }
+
+      for (const ability of Object.keys(abilities)) {
+        const { namespace, name } = parseRecapAbility(ability)!;
+        const scope = `${namespace}:${name}`;
+
+        if (!this.scopeRegistryService.has(scope)) {
+          throw new SiwePolicyException(
+            SiwePolicyErrorCode.CAPABILITY_NOT_ALLOWED,
+            `Unknown capability ${ability}`
+          );
+        }
+
+        scopes.add(scope);
+      }
+    }
+
+    return [...scopes].sort();
+  }
+}
@@ -0,0 +1,71 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { User } from 'generated/prisma';
+import { ScopeRegistryService } from '@/modules/common/scopes/scope-registry.service';
+import { Session } from '../session/session.service';
+import { ClaimsService } from '../claims/claims.service';
+import { ScopesClaimsEnricher } from './scopes-claims.enricher';
+
+describe('ScopesClaimsEnricher', () => {
+  let enricher: ScopesClaimsEnricher;
+  let claimsService: ClaimsService;
+
+  const mockUser: User = {
+    id: 'test-user-id',
+    publicAddress: '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb',
+    username: 'test-user',
+    role: 'user',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockSession: Session = {
+    id: 'test-session-id',
+    userId: mockUser.id,
+    address: mockUser.publicAddress,
+    chainId: 'eip155:1',
+    scopes: ['profile:read'],
+    userAgent: null,
+    ip: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastRefreshedAt: null,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ClaimsService, ScopeRegistryService, ScopesClaimsEnricher],
+    }).compile();
+
+    await module.init();
+
+    module
+      .get<ScopeRegistryService>(ScopeRegistryService)
+      .register(
+        { name: 'profile:read', description: 'Read', default: true },
+        { name: 'profile:write', description: 'Update', default: true }
+      );
+
+    enricher = module.get<ScopesClaimsEnricher>(ScopesClaimsEnricher);
+    claimsService = module.get<ClaimsService>(ClaimsService);
+  });
+
+  it('should add the scopes of the session', async () => {
+    const claims = await claimsService.build({
+      user: mockUser,
+      session: mockSession,
+    });
+
+    expect(claims.scope).toBe('profile:read');
+  });
+
+  it('should fall back to the default scopes for older sessions', () => {
+    const olderSession: Partial<Session> = { ...mockSession };
+    delete olderSession.scopes;
+
+    expect(
+      enricher.enrich({ user: mockUser, session: olderSession as Session })
+    ).toEqual({ scope: 'profile:read profile:write' });
+  });
+});
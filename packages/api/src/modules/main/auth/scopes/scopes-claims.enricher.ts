@@ -0,0 +1,31 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ScopeRegistryService } from '@/modules/common/scopes/scope-registry.service';
+import {
+  ClaimsContext,
+  ClaimsEnricher,
+  ClaimsService,
+} from '../claims/claims.service';
+
+/**
+ * Adds the space-delimited `scope` claim with the scopes the user consented
+ * to on sign-in
+ */
+@Injectable()
+export class ScopesClaimsEnricher implements ClaimsEnricher, OnModuleInit {
+  constructor(
+    private readonly claimsService: ClaimsService,
+    private readonly scopeRegistryService: ScopeRegistryService
+  ) {}
+
+  onModuleInit() {
+    this.claimsService.registerEnricher(this);
+  }
+
+  enrich({ session }: ClaimsContext) {
+    // Sessions started before scopes existed keep the default scopes
+    const scopes =
+      session.scopes ?? this.scopeRegistryService.getDefaultScopes();
+
+    return { scope: scopes.join(' ') };
+  }
+}
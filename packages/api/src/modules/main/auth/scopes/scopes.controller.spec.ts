@@ -0,0 +1,37 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ScopeRegistryService } from '@/modules/common/scopes/scope-registry.service';
+import { ScopesController } from './scopes.controller';
+
+describe('ScopesController', () => {
+  let controller: ScopesController;
+  let mockScopeRegistryService: jest.Mocked<ScopeRegistryService>;
+
+  beforeEach(async () => {
+    mockScopeRegistryService = {
+      list: jest.fn(),
+    } as unknown as jest.Mocked<ScopeRegistryService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ScopesController],
+      providers: [
+        {
+          provide: ScopeRegistryService,
+          useValue: mockScopeRegistryService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<ScopesController>(ScopesController);
+  });
+
+  describe('list', () => {
+    it('should return the registered scopes', () => {
+      const mockScopes = [
+        { name: 'profile:read', description: 'Read your profile' },
+      ];
+      mockScopeRegistryService.list.mockReturnValue(mockScopes);
+
+      expect(controller.list()).toEqual(mockScopes);
+    });
+  });
+});
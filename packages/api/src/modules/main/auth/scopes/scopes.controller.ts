@@ -0,0 +1,12 @@
+import { Controller, Get } from '@nestjs/common';
+import { ScopeRegistryService } from '@/modules/common/scopes/scope-registry.service';
+
+@Controller('/auth/scopes')
+export class ScopesController {
+  constructor(private readonly scopeRegistryService: ScopeRegistryService) {}
+
+  @Get()
+  list() {
+    return this.scopeRegistryService.list();
+  }
+}
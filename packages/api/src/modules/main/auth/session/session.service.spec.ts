@@ -0,0 +1,361 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '@/modules/common/redis/redis.service';
+import { Session, SessionService } from './session.service';
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let mockRedisService: jest.Mocked<RedisService>;
+  let mockConfigService: jest.Mocked<ConfigService>;
+
+  const mockSession: Session = {
+    id: 'test-session-id',
+    userId: 'test-user-id',
+    address: '0x1234567890abcdef',
+    chainId: 'eip155:1',
+    scopes: ['profile:read', 'profile:write'],
+    userAgent: 'test-user-agent',
+    ip: '127.0.0.1',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastRefreshedAt: null,
+  };
+
+  beforeEach(async () => {
+    mockRedisService = {
+      set: jest.fn(),
+      get: jest.fn(),
+      getDelete: jest.fn(),
+      delete: jest.fn(),
+      expire: jest.fn(),
+      addToSet: jest.fn(),
+      getSetMembers: jest.fn(),
+      removeFromSet: jest.fn(),
+    } as unknown as jest.Mocked<RedisService>;
+
+    mockConfigService = {
+      getOrThrow: jest.fn((key: string) => {
+        const configMap: Record<string, number> = {
+          'jwt.refreshExpiresIn': 7200000,
+        };
+        return configMap[key];
+      }),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        {
+          provide: RedisService,
+          useValue: mockRedisService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store the session and index it by user', async () => {
+      const session = await service.create({
+        userId: mockSession.userId,
+        address: mockSession.address,
+        chainId: mockSession.chainId,
+        scopes: mockSession.scopes,
+        userAgent: mockSession.userAgent ?? undefined,
+        ip: mockSession.ip ?? undefined,
+      });
+
+      expect(session.id).toEqual(expect.any(String));
+      expect(session.userId).toBe(mockSession.userId);
+      expect(session.address).toBe(mockSession.address);
+      expect(session.chainId).toBe(mockSession.chainId);
+      expect(session.scopes).toEqual(mockSession.scopes);
+      expect(session.userAgent).toBe(mockSession.userAgent);
+      expect(session.ip).toBe(mockSession.ip);
+      expect(session.clientId).toBeNull();
+      expect(session.lastRefreshedAt).toBeNull();
+      expect(mockRedisService.set).toHaveBeenCalledWith(
+        `session:${session.id}`,
+        JSON.stringify(session),
+        7200 // TTL in seconds
+      );
+      expect(mockRedisService.addToSet).toHaveBeenCalledWith(
+        `sessions:${mockSession.userId}`,
+        session.id
+      );
+      expect(mockRedisService.expire).toHaveBeenCalledWith(
+        `sessions:${mockSession.userId}`,
+        7200
+      );
+    });
+
+    it('should store the OAuth client of the session', async () => {
+      const session = await service.create({
+        userId: mockSession.userId,
+        address: mockSession.address,
+        chainId: mockSession.chainId,
+        scopes: ['openid'],
+        clientId: 'test-client-id',
+      });
+
+      expect(session.clientId).toBe('test-client-id');
+    });
+
+    it('should create a distinct session for every sign-in', async () => {
+      const params = {
+        userId: mockSession.userId,
+        address: mockSession.address,
+        chainId: mockSession.chainId,
+        scopes: mockSession.scopes,
+      };
+
+      const first = await service.create(params);
+      const second = await service.create(params);
+
+      expect(first.id).not.toBe(second.id);
+      expect(first.userAgent).toBeNull();
+      expect(first.ip).toBeNull();
+    });
+  });
+
+  describe('get', () => {
+    it('should return the parsed session', async () => {
+      mockRedisService.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      const result = await service.get(mockSession.id);
+
+      expect(mockRedisService.get).toHaveBeenCalledWith(
+        `session:${mockSession.id}`
+      );
+      expect(result).toEqual(mockSession);
+    });
+
+    it('should upgrade the numeric chain ID of older sessions', async () => {
+      mockRedisService.get.mockResolvedValue(
+        JSON.stringify({ ...mockSession, chainId: 31337 })
+      );
+
+      const result = await service.get(mockSession.id);
+
+      expect(result).toEqual({ ...mockSession, chainId: 'eip155:31337' });
+    });
+
+    it('should return null when the session does not exist', async () => {
+      mockRedisService.get.mockResolvedValue(null);
+
+      const result = await service.get('missing-session-id');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('list', () => {
+    it('should return active sessions most recent first', async () => {
+      const olderSession: Session = {
+        ...mockSession,
+        id: 'older-session-id',
+        createdAt: '2023-12-31T00:00:00.000Z',
+      };
+      mockRedisService.getSetMembers.mockResolvedValue([
+        olderSession.id,
+        mockSession.id,
+      ]);
+      mockRedisService.get.mockImplementation((key: string) =>
+        Promise.resolve(
+          key === `session:${olderSession.id}`
+            ? JSON.stringify(olderSession)
+            : JSON.stringify(mockSession)
+        )
+      );
+
+      const result = await service.list(mockSession.userId);
+
+      expect(mockRedisService.getSetMembers).toHaveBeenCalledWith(
+        `sessions:${mockSession.userId}`
+      );
+      expect(result).toEqual([mockSession, olderSession]);
+    });
+
+    it('should drop expired sessions from the index', async () => {
+      mockRedisService.getSetMembers.mockResolvedValue([
+        'expired-session-id',
+        mockSession.id,
+      ]);
+      mockRedisService.get.mockImplementation((key: string) =>
+        Promise.resolve(
+          key === `session:${mockSession.id}`
+            ? JSON.stringify(mockSession)
+            : null
+        )
+      );
+
+      const result = await service.list(mockSession.userId);
+
+      expect(result).toEqual([mockSession]);
+      expect(mockRedisService.removeFromSet).toHaveBeenCalledWith(
+        `sessions:${mockSession.userId}`,
+        'expired-session-id'
+      );
+    });
+  });
+
+  describe('storeTokenId', () => {
+    it('should store the token ID under the session', async () => {
+      await service.storeTokenId(
+        'access',
+        mockSession.id,
+        'test-token-id',
+        3600000
+      );
+
+      expect(mockRedisService.set).toHaveBeenCalledWith(
+        `access:${mockSession.id}`,
+        'test-token-id',
+        3600 // TTL in seconds
+      );
+    });
+  });
+
+  describe('getTokenId', () => {
+    it('should return the stored token ID', async () => {
+      mockRedisService.get.mockResolvedValue('test-token-id');
+
+      const result = await service.getTokenId('refresh', mockSession.id);
+
+      expect(mockRedisService.get).toHaveBeenCalledWith(
+        `refresh:${mockSession.id}`
+      );
+      expect(result).toBe('test-token-id');
+    });
+  });
+
+  describe('isAccessTokenId', () => {
+    beforeEach(() => {
+      mockRedisService.get.mockImplementation((key: string) =>
+        Promise.resolve(
+          key === `access:${mockSession.id}`
+            ? 'access-token-id'
+            : key === `elevated:${mockSession.id}`
+              ? 'elevated-token-id'
+              : null
+        )
+      );
+    });
+
+    it('should accept the regular and the elevated access token', async () => {
+      await expect(
+        service.isAccessTokenId(mockSession.id, 'access-token-id')
+      ).resolves.toBe(true);
+      await expect(
+        service.isAccessTokenId(mockSession.id, 'elevated-token-id')
+      ).resolves.toBe(true);
+    });
+
+    it('should reject other token IDs', async () => {
+      await expect(
+        service.isAccessTokenId(mockSession.id, 'rotated-token-id')
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('consumeTokenId', () => {
+    it('should atomically get and remove the stored token ID', async () => {
+      mockRedisService.getDelete.mockResolvedValue('test-token-id');
+
+      const result = await service.consumeTokenId('refresh', mockSession.id);
+
+      expect(mockRedisService.getDelete).toHaveBeenCalledWith(
+        `refresh:${mockSession.id}`
+      );
+      expect(result).toBe('test-token-id');
+    });
+  });
+
+  describe('touch', () => {
+    it('should record the refresh and extend the session', async () => {
+      await service.touch(mockSession);
+
+      const [[key, value, ttl]] = mockRedisService.set.mock.calls;
+      const touchedSession = JSON.parse(value) as Session;
+      expect(key).toBe(`session:${mockSession.id}`);
+      expect(ttl).toBe(7200);
+      expect(touchedSession).toEqual({
+        ...mockSession,
+        lastRefreshedAt: expect.any(String),
+      });
+      expect(mockRedisService.expire).toHaveBeenCalledWith(
+        `sessions:${mockSession.userId}`,
+        7200
+      );
+    });
+  });
+
+  describe('revoke', () => {
+    it('should delete the session, its tokens and its index entry', async () => {
+      mockRedisService.get.mockResolvedValue(JSON.stringify(mockSession));
+
+      await service.revoke(mockSession.id);
+
+      expect(mockRedisService.delete).toHaveBeenCalledWith(
+        `session:${mockSession.id}`,
+        `access:${mockSession.id}`,
+        `elevated:${mockSession.id}`,
+        `refresh:${mockSession.id}`
+      );
+      expect(mockRedisService.removeFromSet).toHaveBeenCalledWith(
+        `sessions:${mockSession.userId}`,
+        mockSession.id
+      );
+    });
+
+    it('should still delete the tokens when the session has expired', async () => {
+      mockRedisService.get.mockResolvedValue(null);
+
+      await service.revoke(mockSession.id);
+
+      expect(mockRedisService.delete).toHaveBeenCalledWith(
+        `session:${mockSession.id}`,
+        `access:${mockSession.id}`,
+        `elevated:${mockSession.id}`,
+        `refresh:${mockSession.id}`
+      );
+      expect(mockRedisService.removeFromSet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAll', () => {
+    it('should revoke every session of the user', async () => {
+      mockRedisService.getSetMembers.mockResolvedValue([
+        mockSession.id,
+        'other-session-id',
+      ]);
+      mockRedisService.get.mockResolvedValue(null);
+
+      await service.revokeAll(mockSession.userId);
+
+      expect(mockRedisService.delete).toHaveBeenCalledWith(
+        `session:${mockSession.id}`,
+        `access:${mockSession.id}`,
+        `elevated:${mockSession.id}`,
+        `refresh:${mockSession.id}`
+      );
+      expect(mockRedisService.delete).toHaveBeenCalledWith(
+        'session:other-session-id',
+        'access:other-session-id',
+        'elevated:other-session-id',
+        'refresh:other-session-id'
+      );
+      expect(mockRedisService.delete).toHaveBeenCalledWith(
+        `sessions:${mockSession.userId}`
+      );
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { RedisService } from '@/modules/common/redis/redis.service';
+
+export type TokenType = 'access' | 'refresh';
+
+// Elevated tokens are access tokens issued on re-authentication. They are
+// stored next to the regular access token, so that both stay valid
+export type StoredTokenType = TokenType | 'elevated';
+
+export interface SessionClient {
+  userAgent?: string;
+  ip?: string;
+  // OAuth client the session was started for, see OidcService
+  clientId?: string;
+}
+
+export interface Session {
+  id: string;
+  userId: string;
+  address: string;
+  // CAIP-2 chain ID the user signed in on, e.g. eip155:1
+  chainId: string;
+  // Scopes the user consented to on sign-in, kept for every refresh
+  scopes: string[];
+  userAgent: string | null;
+  ip: string | null;
+  // Missing on sessions created before OAuth clients existed
+  clientId?: string | null;
+  createdAt: string;
+  lastRefreshedAt: string | null;
+}
+
+@Injectable()
+export class SessionService {
+  private readonly sessionTtl: number;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService
+  ) {
+    // A session lives as long as its refresh token
+    this.sessionTtl = this.configService.getOrThrow<number>(
+      'jwt.refreshExpiresIn'
+    );
+  }
+
+  private getSessionKey(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
+
+  private getUserSessionsKey(userId: string): string {
+    return `sessions:${userId}`;
+  }
+
+  private getTokenKey(type: StoredTokenType, sessionId: string): string {
+    return `${type}:${sessionId}`;
+  }
+
+  private toSeconds(ttl: number): number {
+    return Math.floor(ttl / 1000);
+  }
+
+  private parse(value: string): Session {
+    const session = JSON.parse(value) as Omit<Session, 'chainId'> & {
+      chainId: string | number;
+    };
+
+    // Sessions created before sign-in was chain-agnostic store the EIP-155
+    // chain ID as a number
+    return {
+      ...session,
+      chainId:
+        typeof session.chainId === 'number'
+          ? `eip155:${session.chainId}`
+          : session.chainId,
+    };
+  }
+
+  private async save(session: Session): Promise<void> {
+    const ttlSeconds = this.toSeconds(this.sessionTtl);
+    const userSessionsKey = this.getUserSessionsKey(session.userId);
+
+    await this.redisService.set(
+      this.getSessionKey(session.id),
+      JSON.stringify(session),
+      ttlSeconds
+    );
+    await this.redisService.addToSet(userSessionsKey, session.id);
+    await this.redisService.expire(userSessionsKey, ttlSeconds);
+  }
+
+  /**
+   * Create a new session for a signed-in user
+   * @param params - The user, the address and chain used to sign in, the
+   * granted scopes and the client
+   * @returns The created session
+   */
+  async create(
+    params: {
+      userId: string;
+      address: string;
+      chainId: string;
+      scopes: string[];
+    } & SessionClient
+  ): Promise<Session> {
+    const session: Session = {
+      id: randomUUID(),
+      userId: params.userId,
+      address: params.address,
+      chainId: params.chainId,
+      scopes: params.scopes,
+      userAgent: params.userAgent ?? null,
+      ip: params.ip ?? null,
+      clientId: params.clientId ?? null,
+      createdAt: new Date().toISOString(),
+      lastRefreshedAt: null,
+    };
+
+    await this.save(session);
+
+    return session;
+  }
+
+  /**
+   * Get a session by ID
+   * @param sessionId - The session ID
+   * @returns The session or null if it does not exist or has expired
+   */
+  async get(sessionId: string): Promise<Session | null> {
+    const session = await this.redisService.get(this.getSessionKey(sessionId));
+    return session ? this.parse(session) : null;
+  }
+
+  /**
+   * List the active sessions of a user, most recent first
+   * @param userId - The user ID
+   * @returns The active sessions
+   */
+  async list(userId: string): Promise<Session[]> {
+    const userSessionsKey = this.getUserSessionsKey(userId);
+    const sessionIds = await this.redisService.getSetMembers(userSessionsKey);
+    const sessions = await Promise.all(sessionIds.map((id) => this.get(id)));
+
+    // Drop index entries of sessions that have expired in the meantime
+    const expiredSessionIds = sessionIds.filter((_, i) => !sessions[i]);
+    await this.redisService.removeFromSet(
+      userSessionsKey,
+      ...expiredSessionIds
+    );
+
+    return sessions
+      .filter((session): session is Session => session !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Store the ID of the currently valid token of a session
+   * @param type - The token type
+   * @param sessionId - The session ID
+   * @param tokenId - The token ID (jti claim)
+   * @param ttl - TTL in milliseconds
+   */
+  async storeTokenId(
+    type: StoredTokenType,
+    sessionId: string,
+    tokenId: string,
+    ttl: number
+  ): Promise<void> {
+    await this.redisService.set(
+      this.getTokenKey(type, sessionId),
+      tokenId,
+      this.toSeconds(ttl)
+    );
+  }
+
+  /**
+   * Get the ID of the currently valid token of a session
+   * @param type - The token type
+   * @param sessionId - The session ID
+   * @returns The token ID or null if the session has no valid token
+   */
+  async getTokenId(
+    type: StoredTokenType,
+    sessionId: string
+  ): Promise<string | null> {
+    return this.redisService.get(this.getTokenKey(type, sessionId));
+  }
+
+  /**
+   * Whether a token ID is the regular or the elevated access token of a session
+   * @param sessionId - The session ID
+   * @param tokenId - The token ID (jti claim)
+   * @returns Whether the access token is currently valid
+   */
+  async isAccessTokenId(sessionId: string, tokenId: string): Promise<boolean> {
+    const [accessTokenId, elevatedTokenId] = await Promise.all([
+      this.getTokenId('access', sessionId),
+      this.getTokenId('elevated', sessionId),
+    ]);
+
+    return tokenId === accessTokenId || tokenId === elevatedTokenId;
+  }
+
+  /**
+   * Atomically get and remove the ID of the currently valid token of a session,
+   * so that the token can only be used once
+   * @param type - The token type
+   * @param sessionId - The session ID
+   * @returns The token ID or null if the session has no valid token
+   */
+  async consumeTokenId(
+    type: StoredTokenType,
+    sessionId: string
+  ): Promise<string | null> {
+    return this.redisService.getDelete(this.getTokenKey(type, sessionId));
+  }
+
+  /**
+   * Record a refresh of a session and extend its lifetime
+   * @param session - The session
+   */
+  async touch(session: Session): Promise<void> {
+    await this.save({
+      ...session,
+      lastRefreshedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Revoke a session and all of its tokens
+   * @param sessionId - The session ID
+   */
+  async revoke(sessionId: string): Promise<void> {
+    const session = await this.get(sessionId);
+
+    await this.redisService.delete(
+      this.getSessionKey(sessionId),
+      this.getTokenKey('access', sessionId),
+      this.getTokenKey('elevated', sessionId),
+      this.getTokenKey('refresh', sessionId)
+    );
+
+    if (session) {
+      await this.redisService.removeFromSet(
+        this.getUserSessionsKey(session.userId),
+        sessionId
+      );
+    }
+  }
+
+  /**
+   * Revoke all sessions of a user
+   * @param userId - The user ID
+   */
+  async revokeAll(userId: string): Promise<void> {
+    const userSessionsKey = this.getUserSessionsKey(userId);
+    const sessionIds = await this.redisService.getSetMembers(userSessionsKey);
+
+    await Promise.all(sessionIds.map((id) => this.revoke(id)));
+    await this.redisService.delete(userSessionsKey);
+  }
+}
@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { SiweMessage, SiweResponse, VerifyOpts } from 'siwe';
+import { SignatureVerifierService } from './signature-verifier.service';
+import { EvmProviderService } from '@/modules/common/evm/evm-provider.service';
+import { ERC6492_MAGIC_SUFFIX } from './erc6492';
+
+describe('SignatureVerifierService', () => {
+  let service: SignatureVerifierService;
+  let mockEvmProviderService: jest.Mocked<EvmProviderService>;
+  let mockProvider: { call: jest.Mock };
+  let mockMessage: jest.Mocked<SiweMessage>;
+
+  const address = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+  const verifyParams = {
+    signature: '0x1234',
+    nonce: 'test-nonce',
+    time: '2024-01-01T00:00:00.000Z',
+  };
+
+  const wrapErc6492 = (signature: string) =>
+    ethers.concat([
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['address', 'bytes', 'bytes'],
+        [ethers.ZeroAddress, '0xabcdef', signature]
+      ),
+      ERC6492_MAGIC_SUFFIX,
+    ]);
+
+  const getVerificationFallback = () => {
+    const opts = mockMessage.verify.mock.calls[0][1] as VerifyOpts;
+    return opts.verificationFallback!;
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger, 'error').mockImplementation();
+
+    mockProvider = {
+      call: jest.fn(),
+    };
+
+    mockEvmProviderService = {
+      getProvider: jest.fn().mockReturnValue(mockProvider),
+    } as unknown as jest.Mocked<EvmProviderService>;
+
+    mockMessage = {
+      address,
+      chainId: 31337,
+      prepareMessage: jest.fn().mockReturnValue('siwe-message'),
+      verify: jest.fn().mockResolvedValue({ success: true }),
+    } as unknown as jest.Mocked<SiweMessage>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignatureVerifierService,
+        {
+          provide: EvmProviderService,
+          useValue: mockEvmProviderService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SignatureVerifierService>(SignatureVerifierService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('verify', () => {
+    it('should verify EOA signatures only when no provider is configured', async () => {
+      mockEvmProviderService.getProvider.mockReturnValue(null);
+
+      await service.verify(mockMessage, verifyParams);
+
+      expect(mockEvmProviderService.getProvider).toHaveBeenCalledWith(31337);
+      expect(mockMessage.verify).toHaveBeenCalledWith(verifyParams);
+    });
+
+    it('should pass the chain provider for EIP-1271 verification', async () => {
+      await service.verify(mockMessage, verifyParams);
+
+      expect(mockMessage.verify).toHaveBeenCalledWith(verifyParams, {
+        provider: mockProvider,
+        verificationFallback: expect.any(Function),
+      });
+    });
+
+    it('should defer to EIP-1271 for signatures not wrapped by EIP-6492', async () => {
+      await service.verify(mockMessage, verifyParams);
+      const eip1271Promise = Promise.resolve({
+        success: true,
+      } as SiweResponse);
+
+      const result = getVerificationFallback()(
+        verifyParams,
+        {},
+        mockMessage,
+        eip1271Promise
+      );
+
+      expect(result).toBe(eip1271Promise);
+      expect(mockProvider.call).not.toHaveBeenCalled();
+    });
+
+    it('should validate EIP-6492 signatures with the deployless validator', async () => {
+      const signature = wrapErc6492('0x1234');
+      mockProvider.call.mockResolvedValue('0x01');
+      await service.verify(mockMessage, { ...verifyParams, signature });
+
+      const result = await getVerificationFallback()(
+        { ...verifyParams, signature },
+        {},
+        mockMessage,
+        Promise.resolve({ success: false } as SiweResponse)
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockProvider.call).toHaveBeenCalledTimes(1);
+      const [{ data }] = mockProvider.call.mock.calls[0] as [{ data: string }];
+      expect(data.endsWith(signature.slice(2))).toBe(true);
+    });
+
+    it('should reject EIP-6492 signatures the validator does not accept', async () => {
+      const signature = wrapErc6492('0x1234');
+      mockProvider.call.mockResolvedValue('0x00');
+      await service.verify(mockMessage, { ...verifyParams, signature });
+
+      const result = await getVerificationFallback()(
+        { ...verifyParams, signature },
+        {},
+        mockMessage,
+        Promise.resolve({ success: false } as SiweResponse)
+      );
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject EIP-6492 signatures when the validator call fails', async () => {
+      const signature = wrapErc6492('0x1234');
+      mockProvider.call.mockRejectedValue(new Error('execution reverted'));
+      await service.verify(mockMessage, { ...verifyParams, signature });
+
+      const result = await getVerificationFallback()(
+        { ...verifyParams, signature },
+        {},
+        mockMessage,
+        Promise.resolve({ success: false } as SiweResponse)
+      );
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import {
+  SiweError,
+  SiweErrorType,
+  SiweMessage,
+  SiweResponse,
+  VerifyParams,
+} from 'siwe';
+import { EvmProviderService } from '@/modules/common/evm/evm-provider.service';
+import { encodeErc6492Validation, isErc6492Signature } from './erc6492';
+
+@Injectable()
+export class SignatureVerifierService {
+  constructor(private readonly evmProviderService: EvmProviderService) {}
+
+  /**
+   * Verify a SIWE message signed by an EOA, a deployed smart-contract wallet
+   * (EIP-1271) or a counterfactual smart-contract wallet (EIP-6492)
+   * @param message - The parsed SIWE message
+   * @param params - The signature and the expected nonce and time
+   * @returns The verification result
+   * @throws SiweResponse when the verification fails
+   */
+  async verify(
+    message: SiweMessage,
+    params: VerifyParams
+  ): Promise<SiweResponse> {
+    const provider = this.evmProviderService.getProvider(message.chainId);
+
+    // Without a provider for the chain only EOA signatures can be verified
+    if (!provider) {
+      return message.verify(params);
+    }
+
+    return message.verify(params, {
+      provider,
+      verificationFallback: (_params, _opts, _message, eip1271Promise) => {
+        if (!isErc6492Signature(params.signature)) {
+          return eip1271Promise;
+        }
+
+        return this.verifyErc6492(message, params.signature, provider);
+      },
+    });
+  }
+
+  private async verifyErc6492(
+    message: SiweMessage,
+    signature: string,
+    provider: ethers.Provider
+  ): Promise<SiweResponse> {
+    try {
+      const result = await provider.call({
+        data: encodeErc6492Validation(
+          message.address,
+          ethers.hashMessage(message.prepareMessage()),
+          signature
+        ),
+      });
+
+      if (result === '0x01') {
+        return { success: true, data: message };
+      }
+    } catch (e) {
+      Logger.error('EIP-6492 signature validation failed', e);
+    }
+
+    return {
+      success: false,
+      data: message,
+      error: new SiweError(
+        SiweErrorType.INVALID_SIGNATURE,
+        message.address,
+        'EIP-6492 signature is not valid'
+      ),
+    };
+  }
+}
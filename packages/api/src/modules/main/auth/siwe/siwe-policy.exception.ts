@@ -0,0 +1,26 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export enum SiwePolicyErrorCode {
+  DOMAIN_NOT_ALLOWED = 'SIWE_DOMAIN_NOT_ALLOWED',
+  URI_NOT_ALLOWED = 'SIWE_URI_NOT_ALLOWED',
+  CHAIN_NOT_ALLOWED = 'SIWE_CHAIN_NOT_ALLOWED',
+  ISSUED_AT_MISSING = 'SIWE_ISSUED_AT_MISSING',
+  ISSUED_IN_FUTURE = 'SIWE_ISSUED_IN_FUTURE',
+  MESSAGE_TOO_OLD = 'SIWE_MESSAGE_TOO_OLD',
+  MESSAGE_EXPIRED = 'SIWE_MESSAGE_EXPIRED',
+  MESSAGE_NOT_YET_VALID = 'SIWE_MESSAGE_NOT_YET_VALID',
+  INVALID_RECAP = 'SIWE_INVALID_RECAP',
+  CAPABILITY_NOT_ALLOWED = 'SIWE_CAPABILITY_NOT_ALLOWED',
+}
+
+export class SiwePolicyException extends HttpException {
+  constructor(
+    public readonly code: SiwePolicyErrorCode,
+    message: string
+  ) {
+    super(
+      { statusCode: HttpStatus.UNAUTHORIZED, code, message },
+      HttpStatus.UNAUTHORIZED
+    );
+  }
+}
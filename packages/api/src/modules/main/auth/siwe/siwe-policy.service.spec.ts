@@ -0,0 +1,194 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SiwePolicyService } from './siwe-policy.service';
+import {
+  SiwePolicyErrorCode,
+  SiwePolicyException,
+} from './siwe-policy.exception';
+import { SignInMessage } from '../caip122/chain-verifier';
+
+describe('SiwePolicyService', () => {
+  let service: SiwePolicyService;
+  let mockConfigService: jest.Mocked<ConfigService>;
+
+  const now = new Date('2024-01-01T12:00:00.000Z');
+
+  const createMessage = (overrides: Partial<SignInMessage> = {}) =>
+    ({
+      domain: 'localhost:3000',
+      uri: 'http://localhost:3000/login',
+      chainId: 'eip155:1',
+      issuedAt: '2024-01-01T11:59:00.000Z',
+      ...overrides,
+    }) as SignInMessage;
+
+  const expectPolicyError = (
+    message: SignInMessage,
+    code: SiwePolicyErrorCode
+  ) => {
+    try {
+      service.enforce(message, now);
+    } catch (e) {
+      expect(e).toBeInstanceOf(SiwePolicyException);
+      expect((e as SiwePolicyException).code).toBe(code);
+      return;
+    }
+
+    throw new Error(`Expected ${code} to be thrown`);
+  };
+
+  beforeEach(async () => {
+    mockConfigService = {
+      getOrThrow: jest.fn((key: string) => {
+        const configMap: Record<string, unknown> = {
+          'siwe.allowedDomains': ['localhost:3000', 'localhost'],
+          'siwe.allowedUris': ['http://localhost:3000'],
+          'siwe.allowedChains': [
+            'eip155:1',
+            'eip155:31337',
+            'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+          ],
+          'siwe.maxMessageAge': 5 * 60 * 1000,
+          'siwe.clockSkew': 30 * 1000,
+        };
+        return configMap[key];
+      }),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SiwePolicyService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SiwePolicyService>(SiwePolicyService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('enforce', () => {
+    it('should accept a message matching the policy and return now', () => {
+      const result = service.enforce(createMessage(), now);
+
+      expect(result).toEqual(now);
+    });
+
+    it('should reject a domain that is not allowed', () => {
+      expectPolicyError(
+        createMessage({ domain: 'evil.example' }),
+        SiwePolicyErrorCode.DOMAIN_NOT_ALLOWED
+      );
+    });
+
+    it('should reject a URI with a different origin', () => {
+      expectPolicyError(
+        createMessage({ uri: 'https://evil.example/login' }),
+        SiwePolicyErrorCode.URI_NOT_ALLOWED
+      );
+    });
+
+    it('should reject a URI that cannot be parsed', () => {
+      expectPolicyError(
+        createMessage({ uri: 'not a uri' }),
+        SiwePolicyErrorCode.URI_NOT_ALLOWED
+      );
+    });
+
+    it('should reject a chain that is not allowed', () => {
+      expectPolicyError(
+        createMessage({ chainId: 'eip155:137' }),
+        SiwePolicyErrorCode.CHAIN_NOT_ALLOWED
+      );
+    });
+
+    it('should accept allowed chains of other namespaces', () => {
+      const result = service.enforce(
+        createMessage({
+          namespace: 'solana',
+          chainId: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+        }),
+        now
+      );
+
+      expect(result).toEqual(now);
+    });
+
+    it('should reject chains of other namespaces that are not allowed', () => {
+      expectPolicyError(
+        createMessage({
+          namespace: 'solana',
+          chainId: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+        }),
+        SiwePolicyErrorCode.CHAIN_NOT_ALLOWED
+      );
+    });
+
+    it('should reject a message without issuance time', () => {
+      expectPolicyError(
+        createMessage({ issuedAt: undefined }),
+        SiwePolicyErrorCode.ISSUED_AT_MISSING
+      );
+    });
+
+    it('should reject a message issued in the future beyond clock skew', () => {
+      expectPolicyError(
+        createMessage({ issuedAt: '2024-01-01T12:01:00.000Z' }),
+        SiwePolicyErrorCode.ISSUED_IN_FUTURE
+      );
+    });
+
+    it('should tolerate issuance within clock skew', () => {
+      const result = service.enforce(
+        createMessage({ issuedAt: '2024-01-01T12:00:20.000Z' }),
+        now
+      );
+
+      expect(result).toEqual(now);
+    });
+
+    it('should reject a message older than max age', () => {
+      expectPolicyError(
+        createMessage({ issuedAt: '2024-01-01T11:50:00.000Z' }),
+        SiwePolicyErrorCode.MESSAGE_TOO_OLD
+      );
+    });
+
+    it('should reject an expired message', () => {
+      expectPolicyError(
+        createMessage({ expirationTime: '2024-01-01T11:59:00.000Z' }),
+        SiwePolicyErrorCode.MESSAGE_EXPIRED
+      );
+    });
+
+    it('should clamp verification time for expiration within clock skew', () => {
+      const result = service.enforce(
+        createMessage({ expirationTime: '2024-01-01T11:59:50.000Z' }),
+        now
+      );
+
+      expect(result).toEqual(new Date('2024-01-01T11:59:49.999Z'));
+    });
+
+    it('should reject a message that is not yet valid', () => {
+      expectPolicyError(
+        createMessage({ notBefore: '2024-01-01T12:05:00.000Z' }),
+        SiwePolicyErrorCode.MESSAGE_NOT_YET_VALID
+      );
+    });
+
+    it('should clamp verification time for not-before within clock skew', () => {
+      const result = service.enforce(
+        createMessage({ notBefore: '2024-01-01T12:00:10.000Z' }),
+        now
+      );
+
+      expect(result).toEqual(new Date('2024-01-01T12:00:10.000Z'));
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SignInMessage } from '../caip122/chain-verifier';
+import {
+  SiwePolicyErrorCode,
+  SiwePolicyException,
+} from './siwe-policy.exception';
+
+@Injectable()
+export class SiwePolicyService {
+  private readonly allowedDomains: string[];
+  private readonly allowedOrigins: string[];
+  private readonly allowedChains: string[];
+  private readonly maxMessageAge: number;
+  private readonly clockSkew: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.allowedDomains = this.configService.getOrThrow<string[]>(
+      'siwe.allowedDomains'
+    );
+    this.allowedOrigins = this.configService
+      .getOrThrow<string[]>('siwe.allowedUris')
+      .map((uri) => this.toOrigin(uri))
+      .filter((origin): origin is string => origin !== null);
+    this.allowedChains =
+      this.configService.getOrThrow<string[]>('siwe.allowedChains');
+    this.maxMessageAge =
+      this.configService.getOrThrow<number>('siwe.maxMessageAge');
+    this.clockSkew = this.configService.getOrThrow<number>('siwe.clockSkew');
+  }
+
+  private toOrigin(uri: string): string | null {
+    try {
+      return new URL(uri).origin;
+    } catch {
+      return null;
+    }
+  }
+
+  private parseTime(value?: string): number | null {
+    if (!value) {
+      return null;
+    }
+
+    const time = new Date(value).getTime();
+    return Number.isNaN(time) ? null : time;
+  }
+
+  /**
+   * Enforce the domain, URI, chain and time-window policy on a sign-in
+   * message of any chain
+   * @param message - The parsed sign-in message
+   * @param now - The current time
+   * @returns The time the signature should be verified at, clamped into the
+   * message validity window so that tolerated clock skew is not rejected again
+   * @throws SiwePolicyException when the message violates the policy
+   */
+  enforce(message: SignInMessage, now: Date = new Date()): Date {
+    if (!this.allowedDomains.includes(message.domain)) {
+      throw new SiwePolicyException(
+        SiwePolicyErrorCode.DOMAIN_NOT_ALLOWED,
+        `Domain "${message.domain}" is not allowed`
+      );
+    }
+
+    const origin = this.toOrigin(message.uri);
+    if (!origin || !this.allowedOrigins.includes(origin)) {
+      throw new SiwePolicyException(
+        SiwePolicyErrorCode.URI_NOT_ALLOWED,
+        `URI "${message.uri}" is not allowed`
+      );
+    }
+
+    if (!this.allowedChains.includes(message.chainId)) {
+      throw new SiwePolicyException(
+        SiwePolicyErrorCode.CHAIN_NOT_ALLOWED,
+        `Chain ${message.chainId} is not allowed`
+      );
+    }
+
+    const currentTime = now.getTime();
+
+    const issuedAt = this.parseTime(message.issuedAt);
+    if (issuedAt === null) {
+      throw new SiwePolicyException(
+        SiwePolicyErrorCode.ISSUED_AT_MISSING,
+        'Message has no valid issuance time'
+      );
+    }
+
+    if (issuedAt > currentTime + this.clockSkew) {
+      throw new SiwePolicyException(
+        SiwePolicyErrorCode.ISSUED_IN_FUTURE,
+        'Message is issued in the future'
+      );
+    }
+
+    if (currentTime - issuedAt > this.maxMessageAge + this.clockSkew) {
+      throw new SiwePolicyException(
+        SiwePolicyErrorCode.MESSAGE_TOO_OLD,
+        'Message is too old'
+      );
+    }
+
+    let verificationTime = currentTime;
+
+    const expirationTime = this.parseTime(message.expirationTime);
+    if (expirationTime !== null) {
+      if (currentTime >= expirationTime + this.clockSkew) {
+        throw new SiwePolicyException(
+          SiwePolicyErrorCode.MESSAGE_EXPIRED,
+          'Message has expired'
+        );
+      }
+
+      verificationTime = Math.min(verificationTime, expirationTime - 1);
+    }
+
+    const notBefore = this.parseTime(message.notBefore);
+    if (notBefore !== null) {
+      if (currentTime < notBefore - this.clockSkew) {
+        throw new SiwePolicyException(
+          SiwePolicyErrorCode.MESSAGE_NOT_YET_VALID,
+          'Message is not yet valid'
+        );
+      }
+
+      verificationTime = Math.max(verificationTime, notBefore);
+    }
+
+    return new Date(verificationTime);
+  }
+}
@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { Request } from 'express';
+import { ApiKey, User, Wallet } from 'generated/prisma';
+import { ApiKeyService } from '@/modules/main/auth/api-keys/api-key.service';
+import { TokenGateService } from '@/modules/main/auth/token-gates/token-gate.service';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+import { ApiKeyStrategy } from './api-key.strategy';
+
+describe('ApiKeyStrategy', () => {
+  let strategy: ApiKeyStrategy;
+  let mockApiKeyService: jest.Mocked<ApiKeyService>;
+  let mockTokenGateService: jest.Mocked<TokenGateService>;
+  let mockWalletService: jest.Mocked<WalletService>;
+
+  const mockUser: User = {
+    id: 'test-user-id',
+    publicAddress: '0x1234567890abcdef',
+    username: 'test-user',
+    role: 'moderator',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockApiKey: ApiKey & { user: User } = {
+    id: 'test-api-key-id',
+    userId: mockUser.id,
+    name: 'Deploy bot',
+    prefix: 'pat_abcdefgh',
+    keyHash: 'test-key-hash',
+    scopes: ['profile:write'],
+    expiresAt: new Date('2099-01-01'),
+    lastUsedAt: null,
+    createdAt: new Date('2024-01-01'),
+    user: mockUser,
+  };
+
+  const mockWallets: Wallet[] = [
+    {
+      id: 'test-wallet-id',
+      userId: mockUser.id,
+      namespace: 'eip155',
+      address: mockUser.publicAddress,
+      createdAt: new Date('2024-01-01'),
+    },
+  ];
+
+  const createRequest = (authorization?: string) =>
+    ({ headers: { authorization } }) as Request;
+
+  beforeEach(async () => {
+    mockApiKeyService = {
+      authenticate: jest.fn().mockResolvedValue(mockApiKey),
+    } as unknown as jest.Mocked<ApiKeyService>;
+
+    mockTokenGateService = {
+      getWalletRoles: jest.fn().mockResolvedValue(['holder']),
+    } as unknown as jest.Mocked<TokenGateService>;
+
+    mockWalletService = {
+      list: jest.fn().mockResolvedValue(mockWallets),
+    } as unknown as jest.Mocked<WalletService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyStrategy,
+        {
+          provide: ApiKeyService,
+          useValue: mockApiKeyService,
+        },
+        {
+          provide: TokenGateService,
+          useValue: mockTokenGateService,
+        },
+        {
+          provide: WalletService,
+          useValue: mockWalletService,
+        },
+      ],
+    }).compile();
+
+    strategy = module.get<ApiKeyStrategy>(ApiKeyStrategy);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should authenticate API keys', async () => {
+    const req = createRequest('Bearer pat_test-key');
+
+    await expect(strategy.validate(req)).resolves.toEqual(mockUser);
+
+    expect(mockApiKeyService.authenticate).toHaveBeenCalledWith('pat_test-key');
+    expect(mockWalletService.list).toHaveBeenCalledWith(mockUser.id);
+    expect(mockTokenGateService.getWalletRoles).toHaveBeenCalledWith(
+      mockWallets
+    );
+    expect(req.auth).toEqual({
+      type: 'api-key',
+      sessionId: null,
+      tokenId: mockApiKey.id,
+      scopes: ['profile:write'],
+      roles: ['user', 'moderator', 'holder'],
+      authTime: null,
+      clientId: null,
+    });
+  });
+
+  it('should leave other tokens to the JWT strategy', async () => {
+    const req = createRequest('Bearer eyJhbGciOiJIUzI1NiJ9.e30.sig');
+
+    await expect(strategy.validate(req)).resolves.toBeNull();
+    await expect(strategy.validate(createRequest())).resolves.toBeNull();
+
+    expect(mockApiKeyService.authenticate).not.toHaveBeenCalled();
+    expect(req.auth).toBeUndefined();
+  });
+
+  it('should reject unknown or expired API keys', async () => {
+    mockApiKeyService.authenticate.mockResolvedValue(null);
+
+    await expect(
+      strategy.validate(createRequest('Bearer pat_unknown-key'))
+    ).rejects.toThrow(new UnauthorizedException('Invalid or expired API key'));
+  });
+});
@@ -0,0 +1,58 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import { ExtractJwt } from 'passport-jwt';
+import { Request } from 'express';
+import { getGrantedRoles } from '@/modules/common/roles/roles';
+import {
+  API_KEY_PREFIX,
+  ApiKeyService,
+} from '@/modules/main/auth/api-keys/api-key.service';
+import { TokenGateService } from '@/modules/main/auth/token-gates/token-gate.service';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  private readonly extractToken = ExtractJwt.fromAuthHeaderAsBearerToken();
+
+  constructor(
+    private readonly apiKeyService: ApiKeyService,
+    private readonly tokenGateService: TokenGateService,
+    private readonly walletService: WalletService
+  ) {
+    super();
+  }
+
+  async validate(req: Request) {
+    const token = this.extractToken(req);
+
+    // Anything but an API key is left to the JWT strategy
+    if (!token?.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyService.authenticate(token);
+
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid or expired API key');
+    }
+
+    // Keys carry no claims, so the roles are looked up the way the roles
+    // claim of access tokens is built
+    const gatedRoles = await this.tokenGateService.getWalletRoles(
+      await this.walletService.list(apiKey.user.id)
+    );
+
+    req.auth = {
+      type: 'api-key',
+      sessionId: null,
+      tokenId: apiKey.id,
+      scopes: apiKey.scopes,
+      roles: [...getGrantedRoles(apiKey.user.role), ...gatedRoles],
+      authTime: null,
+      clientId: null,
+    };
+
+    return apiKey.user;
+  }
+}
@@ -1,67 +1,85 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { UnauthorizedException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import { JwtStrategy } from './jwt.strategy';
-import { UserService } from '@/modules/main/user/user.service';
-import { RedisService } from '@/modules/common/redis/redis.service';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+import { SessionService } from '@/modules/main/auth/session/session.service';
+import { JwtKeyService } from '@/modules/main/auth/keys/jwt-key.service';
+import { AuthCookieService } from '@/modules/main/auth/cookies/auth-cookie.service';
 import { User } from 'generated/prisma';
 import { Request } from 'express';
 
 describe('JwtStrategy', () => {
   let strategy: JwtStrategy;
-  let mockConfigService: jest.Mocked<ConfigService>;
-  let mockUserService: jest.Mocked<UserService>;
-  let mockRedisService: jest.Mocked<RedisService>;
+  let mockWalletService: jest.Mocked<WalletService>;
+  let mockSessionService: jest.Mocked<SessionService>;
+  let mockJwtKeyService: jest.Mocked<JwtKeyService>;
+  let mockAuthCookieService: jest.Mocked<AuthCookieService>;
 
   const mockUser: User = {
     id: 'test-user-id',
     publicAddress: '0x1234567890abcdef',
-    nonce: 'test-nonce',
     username: 'test-user',
+    role: 'user',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
   };
 
   const mockPayload = {
-    id: mockUser.id,
-    publicAddress: mockUser.publicAddress,
-    nonce: mockUser.nonce,
-    username: mockUser.username,
+    sub: `eip155:1:${mockUser.publicAddress}`,
+    sid: 'test-session-id',
+    auth_time: 1704067200,
+    chain_id: 'eip155:1',
+    scope: 'profile:read profile:write',
+    roles: ['user', 'holder'],
+    jti: 'test-token-id',
   };
 
-  const mockRequest = {
-    headers: {
-      authorization: 'Bearer test-token',
-    },
-  } as Request;
+  let mockRequest: Request;
 
   beforeEach(async () => {
-    mockConfigService = {
-      getOrThrow: jest.fn().mockReturnValue('test-secret'),
-    } as unknown as jest.Mocked<ConfigService>;
+    mockRequest = {
+      headers: {
+        authorization: 'Bearer test-token',
+      },
+    } as Request;
 
-    mockUserService = {
-      findUnique: jest.fn(),
-    } as unknown as jest.Mocked<UserService>;
+    mockWalletService = {
+      findUser: jest.fn(),
+    } as unknown as jest.Mocked<WalletService>;
 
-    mockRedisService = {
-      get: jest.fn(),
-    } as unknown as jest.Mocked<RedisService>;
+    mockSessionService = {
+      isAccessTokenId: jest.fn(),
+    } as unknown as jest.Mocked<SessionService>;
+
+    mockJwtKeyService = {
+      verify: jest.fn().mockResolvedValue(mockPayload),
+    } as unknown as jest.Mocked<JwtKeyService>;
+
+    mockAuthCookieService = {
+      getAccessToken: jest.fn().mockReturnValue(null),
+    } as unknown as jest.Mocked<AuthCookieService>;
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         JwtStrategy,
         {
-          provide: ConfigService,
-          useValue: mockConfigService,
+          provide: WalletService,
+          useValue: mockWalletService,
+        },
+        {
+          provide: SessionService,
+          useValue: mockSessionService,
         },
         {
-          provide: UserService,
-          useValue: mockUserService,
+          provide: JwtKeyService,
+          useValue: mockJwtKeyService,
         },
         {
-          provide: RedisService,
-          useValue: mockRedisService,
+          provide: AuthCookieService,
+          useValue: mockAuthCookieService,
         },
       ],
     }).compile();
@@ -74,67 +92,176 @@ describe('JwtStrategy', () => {
   });
 
   describe('validate', () => {
-    it('should validate and return user when token matches Redis', async () => {
-      mockRedisService.get.mockResolvedValue('test-token');
-      mockUserService.findUnique.mockResolvedValue(mockUser);
+    it('should validate and return user when token matches its session', async () => {
+      mockSessionService.isAccessTokenId.mockResolvedValue(true);
+      mockWalletService.findUser.mockResolvedValue(mockUser);
 
-      const result = await strategy.validate(mockRequest, mockPayload);
+      const result = await strategy.validate(mockRequest);
 
-      expect(mockRedisService.get).toHaveBeenCalledWith(
-        `access:${mockPayload.publicAddress}`
+      expect(mockJwtKeyService.verify).toHaveBeenCalledWith(
+        'access',
+        'test-token'
       );
-      expect(mockUserService.findUnique).toHaveBeenCalledWith({
-        id: mockPayload.id,
+      expect(mockSessionService.isAccessTokenId).toHaveBeenCalledWith(
+        mockPayload.sid,
+        mockPayload.jti
+      );
+      expect(mockWalletService.findUser).toHaveBeenCalledWith(
+        mockUser.publicAddress
+      );
+      expect(result).toEqual(mockUser);
+      expect(mockRequest.auth).toEqual({
+        type: 'session',
+        sessionId: mockPayload.sid,
+        tokenId: mockPayload.jti,
+        scopes: ['profile:read', 'profile:write'],
+        roles: ['user', 'holder'],
+        authTime: 1704067200,
+        clientId: null,
       });
+    });
+
+    it('should expose the OAuth client the token was issued to', async () => {
+      mockJwtKeyService.verify.mockResolvedValue({
+        ...mockPayload,
+        client_id: 'test-client-id',
+      });
+      mockSessionService.isAccessTokenId.mockResolvedValue(true);
+      mockWalletService.findUser.mockResolvedValue(mockUser);
+
+      await strategy.validate(mockRequest);
+
+      expect(mockRequest.auth?.clientId).toBe('test-client-id');
+    });
+
+    it('should expose no scopes for tokens without a scope claim', async () => {
+      const payloadWithoutScope: Partial<typeof mockPayload> = {
+        ...mockPayload,
+      };
+      delete payloadWithoutScope.scope;
+      mockJwtKeyService.verify.mockResolvedValue(payloadWithoutScope);
+      mockSessionService.isAccessTokenId.mockResolvedValue(true);
+      mockWalletService.findUser.mockResolvedValue(mockUser);
+
+      await strategy.validate(mockRequest);
+
+      expect(mockRequest.auth?.scopes).toEqual([]);
+    });
+
+    it('should expose no roles for tokens without a roles claim', async () => {
+      mockJwtKeyService.verify.mockResolvedValue({
+        ...mockPayload,
+        roles: 'admin',
+      });
+      mockSessionService.isAccessTokenId.mockResolvedValue(true);
+      mockWalletService.findUser.mockResolvedValue(mockUser);
+
+      await strategy.validate(mockRequest);
+
+      expect(mockRequest.auth?.roles).toEqual([]);
+    });
+
+    it('should throw UnauthorizedException when no token in request', async () => {
+      const requestWithoutAuth = { headers: {} } as Request;
+
+      await expect(strategy.validate(requestWithoutAuth)).rejects.toThrow(
+        new UnauthorizedException('No access token')
+      );
+
+      expect(mockJwtKeyService.verify).not.toHaveBeenCalled();
+    });
+
+    it('should accept the access token from the cookie', async () => {
+      const requestWithCookie = { headers: {} } as Request;
+      mockAuthCookieService.getAccessToken.mockReturnValue('cookie-token');
+      mockSessionService.isAccessTokenId.mockResolvedValue(true);
+      mockWalletService.findUser.mockResolvedValue(mockUser);
+
+      const result = await strategy.validate(requestWithCookie);
+
+      expect(mockAuthCookieService.getAccessToken).toHaveBeenCalledWith(
+        requestWithCookie
+      );
+      expect(mockJwtKeyService.verify).toHaveBeenCalledWith(
+        'access',
+        'cookie-token'
+      );
       expect(result).toEqual(mockUser);
     });
 
-    it('should throw UnauthorizedException when payload has no id', async () => {
-      const invalidPayload = { publicAddress: '0xabc' };
+    it('should prefer the bearer token over the cookie', async () => {
+      mockAuthCookieService.getAccessToken.mockReturnValue('cookie-token');
+      mockSessionService.isAccessTokenId.mockResolvedValue(true);
+      mockWalletService.findUser.mockResolvedValue(mockUser);
+
+      await strategy.validate(mockRequest);
+
+      expect(mockJwtKeyService.verify).toHaveBeenCalledWith(
+        'access',
+        'test-token'
+      );
+    });
+
+    it('should throw UnauthorizedException when token verification fails', async () => {
+      mockJwtKeyService.verify.mockRejectedValue(new Error('Invalid token'));
+
+      await expect(strategy.validate(mockRequest)).rejects.toThrow(
+        new UnauthorizedException('Invalid access token')
+      );
 
-      await expect(
-        strategy.validate(mockRequest, invalidPayload)
-      ).rejects.toThrow(new UnauthorizedException('User not found'));
+      expect(mockSessionService.isAccessTokenId).not.toHaveBeenCalled();
     });
 
-    it('should throw UnauthorizedException when no authorization header', async () => {
-      const requestWithoutAuth = {
-        headers: {},
-      } as Request;
+    it('should throw UnauthorizedException when subject is not an account', async () => {
+      const invalidPayload = { ...mockPayload, sub: mockUser.id };
+      mockJwtKeyService.verify.mockResolvedValue(invalidPayload);
 
-      await expect(
-        strategy.validate(requestWithoutAuth, mockPayload)
-      ).rejects.toThrow(new UnauthorizedException('No authorization header'));
+      await expect(strategy.validate(mockRequest)).rejects.toThrow(
+        new UnauthorizedException('Invalid token payload')
+      );
     });
 
-    it('should throw UnauthorizedException when no publicAddress in payload', async () => {
-      const payloadWithoutAddress = {
-        id: 'test-id',
-      };
+    it('should throw UnauthorizedException when the user no longer exists', async () => {
+      mockSessionService.isAccessTokenId.mockResolvedValue(true);
+      mockWalletService.findUser.mockResolvedValue(null);
 
-      await expect(
-        strategy.validate(mockRequest, payloadWithoutAddress)
-      ).rejects.toThrow(new UnauthorizedException('Invalid token payload'));
+      await expect(strategy.validate(mockRequest)).rejects.toThrow(
+        new UnauthorizedException('User not found')
+      );
     });
 
-    it('should throw UnauthorizedException when token not in Redis', async () => {
-      mockRedisService.get.mockResolvedValue(null);
+    it('should throw UnauthorizedException when no session ID in payload', async () => {
+      const payloadWithoutSession = {
+        sub: mockPayload.sub,
+        jti: 'test-token-id',
+      };
+      mockJwtKeyService.verify.mockResolvedValue(payloadWithoutSession);
 
-      await expect(strategy.validate(mockRequest, mockPayload)).rejects.toThrow(
-        new UnauthorizedException('Token not found or expired in session store')
+      await expect(strategy.validate(mockRequest)).rejects.toThrow(
+        new UnauthorizedException('Invalid token payload')
       );
+    });
 
-      expect(mockUserService.findUnique).not.toHaveBeenCalled();
+    it('should throw UnauthorizedException when no token ID in payload', async () => {
+      const payloadWithoutTokenId = {
+        sub: mockPayload.sub,
+        sid: 'test-session-id',
+      };
+      mockJwtKeyService.verify.mockResolvedValue(payloadWithoutTokenId);
+
+      await expect(strategy.validate(mockRequest)).rejects.toThrow(
+        new UnauthorizedException('Invalid token payload')
+      );
     });
 
-    it('should throw UnauthorizedException when token does not match', async () => {
-      mockRedisService.get.mockResolvedValue('different-token');
+    it('should throw UnauthorizedException when the token is not current', async () => {
+      mockSessionService.isAccessTokenId.mockResolvedValue(false);
 
-      await expect(strategy.validate(mockRequest, mockPayload)).rejects.toThrow(
+      await expect(strategy.validate(mockRequest)).rejects.toThrow(
         new UnauthorizedException('Token not found or expired in session store')
       );
 
-      expect(mockUserService.findUnique).not.toHaveBeenCalled();
+      expect(mockWalletService.findUser).not.toHaveBeenCalled();
     });
   });
 });
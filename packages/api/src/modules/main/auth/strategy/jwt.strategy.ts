@@ -1,56 +1,95 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
-import { ExtractJwt, Strategy } from 'passport-jwt';
-import { ConfigService } from '@nestjs/config';
-import { UserService } from '@/modules/main/user/user.service';
-import { RedisService } from '@/modules/common/redis/redis.service';
+import { Strategy } from 'passport-custom';
+import { ExtractJwt } from 'passport-jwt';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+import { SessionService } from '@/modules/main/auth/session/session.service';
+import {
+  JwtKeyService,
+  TokenPayload,
+} from '@/modules/main/auth/keys/jwt-key.service';
+import { AuthCookieService } from '@/modules/main/auth/cookies/auth-cookie.service';
 import { Request } from 'express';
+import { parseCaip10Account } from '@/utils';
 
 @Injectable()
-export class JwtStrategy extends PassportStrategy(Strategy) {
+export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
+  // Bearer tokens take precedence, browser apps can rely on the httpOnly
+  // access token cookie instead of handling the token in JavaScript
+  private readonly extractToken = ExtractJwt.fromExtractors([
+    ExtractJwt.fromAuthHeaderAsBearerToken(),
+    (req: Request) => this.authCookieService.getAccessToken(req),
+  ]);
+
   constructor(
-    private readonly configService: ConfigService,
-    private readonly userService: UserService,
-    private readonly redisService: RedisService
+    private readonly walletService: WalletService,
+    private readonly sessionService: SessionService,
+    private readonly jwtKeyService: JwtKeyService,
+    private readonly authCookieService: AuthCookieService
   ) {
-    super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-      ignoreExpiration: false,
-      secretOrKey: configService.getOrThrow<string>('jwt.accessSecret'),
-      passReqToCallback: true,
-    });
+    super();
   }
 
-  async validate(req: Request, payload: any) {
-    if (!payload || !payload.id) {
-      throw new UnauthorizedException('User not found');
+  async validate(req: Request) {
+    const token = this.extractToken(req);
+
+    if (!token) {
+      throw new UnauthorizedException('No access token');
     }
 
-    // Extract token from Authorization header
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      throw new UnauthorizedException('No authorization header');
+    // Access tokens are signed with rotating keys, which passport-jwt cannot
+    // pick by kid, so verification goes through the key service
+    let payload: TokenPayload;
+    try {
+      payload = await this.jwtKeyService.verify('access', token);
+    } catch {
+      throw new UnauthorizedException('Invalid access token');
     }
 
-    const token = authHeader.replace('Bearer ', '');
-    const publicAddress = payload.publicAddress;
+    const account = payload?.sub ? parseCaip10Account(payload.sub) : null;
+    const sessionId = typeof payload?.sid === 'string' ? payload.sid : null;
 
-    if (!publicAddress) {
+    if (!account || !sessionId || !payload.jti) {
       throw new UnauthorizedException('Invalid token payload');
     }
 
-    // Validate token matches the one stored in Redis
-    const tokenKey = `access:${publicAddress}`;
-    const storedToken = await this.redisService.get(tokenKey);
-
-    if (!storedToken || storedToken !== token) {
+    // Validate token is one of the access tokens stored for its session in
+    // Redis, the regular or the elevated one
+    if (!(await this.sessionService.isAccessTokenId(sessionId, payload.jti))) {
       throw new UnauthorizedException(
         'Token not found or expired in session store'
       );
     }
 
-    return await this.userService.findUnique({
-      id: payload.id,
-    });
+    // Expose the session, the scopes and the roles of the token to the
+    // handlers and the ScopesGuard and RolesGuard
+    req.auth = {
+      type: 'session',
+      sessionId,
+      tokenId: payload.jti,
+      scopes:
+        typeof payload.scope === 'string'
+          ? payload.scope.split(' ').filter(Boolean)
+          : [],
+      roles: Array.isArray(payload.roles)
+        ? payload.roles.filter(
+            (role): role is string => typeof role === 'string'
+          )
+        : [],
+      authTime:
+        typeof payload.auth_time === 'number' ? payload.auth_time : null,
+      clientId:
+        typeof payload.client_id === 'string' ? payload.client_id : null,
+    };
+
+    // The user is loaded fresh, the token only names the wallet, which may be
+    // any wallet linked to the user
+    const user = await this.walletService.findUser(account.address);
+
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    return user;
   }
 }
@@ -0,0 +1,252 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { EvmProviderService } from '@/modules/common/evm/evm-provider.service';
+import { RedisService } from '@/modules/common/redis/redis.service';
+import { TokenGateService } from './token-gate.service';
+
+describe('TokenGateService', () => {
+  let mockRedisService: jest.Mocked<RedisService>;
+  let mockEvmProviderService: jest.Mocked<EvmProviderService>;
+  let mockProvider: { call: jest.Mock };
+
+  const address = '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb';
+  const erc20Contract = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+  const erc1155Contract = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+  const encodeBalance = (balance: bigint) =>
+    ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [balance]);
+
+  const createService = async (rules: unknown) => {
+    const config: Record<string, unknown> = {
+      'tokenGates.rules': rules,
+      'tokenGates.cacheTtl': 300000,
+    };
+
+    const mockConfigService = {
+      getOrThrow: jest.fn((key: string) => config[key]),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TokenGateService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+        {
+          provide: EvmProviderService,
+          useValue: mockEvmProviderService,
+        },
+        {
+          provide: RedisService,
+          useValue: mockRedisService,
+        },
+      ],
+    }).compile();
+
+    return module.get<TokenGateService>(TokenGateService);
+  };
+
+  const holderRule = {
+    role: 'holder',
+    chainId: 1,
+    standard: 'erc20',
+    contract: erc20Contract,
+    minBalance: '1000',
+  };
+
+  const passRule = {
+    role: 'pass',
+    chainId: 1,
+    standard: 'erc1155',
+    contract: erc1155Contract,
+    tokenId: '7',
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Logger, 'warn').mockImplementation();
+
+    mockProvider = {
+      call: jest.fn().mockResolvedValue(encodeBalance(0n)),
+    };
+
+    mockRedisService = {
+      get: jest.fn().mockResolvedValue(null),
+      set: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<RedisService>;
+
+    mockEvmProviderService = {
+      getProvider: jest.fn().mockReturnValue(mockProvider),
+    } as unknown as jest.Mocked<EvmProviderService>;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('rules', () => {
+    it.each([
+      [{ ...holderRule, role: 'Holder' }, 'role must be a lowercase name'],
+      [{ ...holderRule, role: 'admin' }, 'role "admin" is a built-in role'],
+      [{ ...holderRule, chainId: '1' }, 'chainId must be an integer'],
+      [{ ...holderRule, standard: 'erc777' }, 'standard must be one of'],
+      [{ ...holderRule, contract: '0x1234' }, 'contract must be an address'],
+      [{ ...holderRule, tokenId: '1' }, 'tokenId must be set for erc1155'],
+      [{ ...passRule, tokenId: undefined }, 'tokenId must be set for erc1155'],
+      [
+        { ...holderRule, minBalance: '1.5' },
+        'tokenId and minBalance must be integers',
+      ],
+    ])('should reject invalid rule %j', async (rule, reason) => {
+      await expect(createService([rule])).rejects.toThrow(
+        `Invalid token gate rule 0: ${reason}`
+      );
+    });
+
+    it('should reject rules that are not an array', async () => {
+      await expect(createService(holderRule)).rejects.toThrow(
+        'Token gate rules must be an array'
+      );
+    });
+  });
+
+  describe('getRoles', () => {
+    it('should grant no roles without rules', async () => {
+      const service = await createService([]);
+
+      await expect(service.getRoles(address)).resolves.toEqual([]);
+      expect(mockRedisService.get).not.toHaveBeenCalled();
+    });
+
+    it('should grant no roles to addresses of other chains', async () => {
+      const service = await createService([holderRule]);
+
+      await expect(
+        service.getRoles('7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv')
+      ).resolves.toEqual([]);
+      expect(mockEvmProviderService.getProvider).not.toHaveBeenCalled();
+    });
+
+    it('should grant roles for balances of at least the minimum', async () => {
+      mockProvider.call.mockResolvedValue(encodeBalance(1000n));
+      const service = await createService([holderRule]);
+
+      await expect(service.getRoles(address)).resolves.toEqual(['holder']);
+      expect(mockEvmProviderService.getProvider).toHaveBeenCalledWith(1);
+    });
+
+    it('should not grant roles for balances below the minimum', async () => {
+      mockProvider.call.mockResolvedValue(encodeBalance(999n));
+      const service = await createService([holderRule]);
+
+      await expect(service.getRoles(address)).resolves.toEqual([]);
+    });
+
+    it('should check the ERC-1155 balance of the token ID', async () => {
+      mockProvider.call.mockResolvedValue(encodeBalance(1n));
+      const service = await createService([passRule]);
+
+      await expect(service.getRoles(address)).resolves.toEqual(['pass']);
+
+      const iface = new ethers.Interface([
+        'function balanceOf(address account, uint256 id) view returns (uint256)',
+      ]);
+      const [{ data }] = mockProvider.call.mock.calls[0] as [{ data: string }];
+      const [account, id] = iface.decodeFunctionData('balanceOf', data);
+      expect(account).toEqual(address);
+      expect(id).toEqual(7n);
+    });
+
+    it('should grant a role when any of its rules passes', async () => {
+      mockProvider.call
+        .mockResolvedValueOnce(encodeBalance(0n))
+        .mockResolvedValueOnce(encodeBalance(1n));
+      const service = await createService([
+        holderRule,
+        { ...passRule, role: 'holder' },
+      ]);
+
+      await expect(service.getRoles(address)).resolves.toEqual(['holder']);
+    });
+
+    it('should cache the roles of the address', async () => {
+      mockProvider.call.mockResolvedValue(encodeBalance(1000n));
+      const service = await createService([holderRule]);
+
+      await service.getRoles(address);
+
+      expect(mockRedisService.set).toHaveBeenCalledWith(
+        `token-gate:${address.toLowerCase()}`,
+        JSON.stringify(['holder']),
+        300
+      );
+    });
+
+    it('should return cached roles without checking balances', async () => {
+      mockRedisService.get.mockResolvedValue(JSON.stringify(['holder']));
+      const service = await createService([holderRule]);
+
+      await expect(service.getRoles(address)).resolves.toEqual(['holder']);
+      expect(mockProvider.call).not.toHaveBeenCalled();
+    });
+
+    it('should fail closed without caching when a balance check fails', async () => {
+      mockProvider.call
+        .mockRejectedValueOnce(new Error('RPC unavailable'))
+        .mockResolvedValueOnce(encodeBalance(1n));
+      const service = await createService([holderRule, passRule]);
+
+      await expect(service.getRoles(address)).resolves.toEqual(['pass']);
+      expect(Logger.warn).toHaveBeenCalled();
+      expect(mockRedisService.set).not.toHaveBeenCalled();
+    });
+
+    it('should fail closed for chains without an RPC URL', async () => {
+      mockEvmProviderService.getProvider.mockReturnValue(null);
+      const service = await createService([holderRule]);
+
+      await expect(service.getRoles(address)).resolves.toEqual([]);
+      expect(mockRedisService.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getWalletRoles', () => {
+    it('should grant the roles of all EVM wallets', async () => {
+      const otherAddress = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+      mockProvider.call.mockImplementation(({ data }: { data: string }) =>
+        Promise.resolve(
+          encodeBalance(
+            data.toLowerCase().includes(otherAddress.slice(2).toLowerCase())
+              ? 1000n
+              : 0n
+          )
+        )
+      );
+      const service = await createService([holderRule]);
+
+      await expect(
+        service.getWalletRoles([
+          { namespace: 'eip155', address },
+          { namespace: 'eip155', address: otherAddress },
+        ])
+      ).resolves.toEqual(['holder']);
+      expect(mockProvider.call).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip wallets of other chains', async () => {
+      const service = await createService([holderRule]);
+
+      await expect(
+        service.getWalletRoles([
+          {
+            namespace: 'solana',
+            address: '7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv',
+          },
+        ])
+      ).resolves.toEqual([]);
+      expect(mockEvmProviderService.getProvider).not.toHaveBeenCalled();
+    });
+  });
+});
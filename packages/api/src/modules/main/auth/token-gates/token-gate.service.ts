@@ -0,0 +1,203 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { Wallet } from 'generated/prisma';
+import { EvmProviderService } from '@/modules/common/evm/evm-provider.service';
+import { RedisService } from '@/modules/common/redis/redis.service';
+import { ROLE_HIERARCHY } from '@/modules/common/roles/roles';
+
+export const TOKEN_STANDARDS = ['erc20', 'erc721', 'erc1155'] as const;
+
+export type TokenStandard = (typeof TOKEN_STANDARDS)[number];
+
+/**
+ * Grants a role to holders of at least `minBalance` of a token. ERC-20
+ * balances are in the smallest unit of the token
+ */
+export interface TokenGateRule {
+  role: string;
+  chainId: number;
+  standard: TokenStandard;
+  contract: string;
+  // ERC-1155 only
+  tokenId?: bigint;
+  minBalance: bigint;
+}
+
+const BALANCE_OF_ABI = {
+  erc20: ['function balanceOf(address owner) view returns (uint256)'],
+  erc721: ['function balanceOf(address owner) view returns (uint256)'],
+  erc1155: [
+    'function balanceOf(address account, uint256 id) view returns (uint256)',
+  ],
+};
+
+const ROLE_REGEX = /^[a-z][a-z0-9-]*$/;
+
+@Injectable()
+export class TokenGateService {
+  private readonly rules: TokenGateRule[];
+  private readonly cacheTtl: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly evmProviderService: EvmProviderService,
+    private readonly redisService: RedisService
+  ) {
+    this.rules = this.parseRules(
+      this.configService.getOrThrow<unknown>('tokenGates.rules')
+    );
+    this.cacheTtl = this.configService.getOrThrow<number>(
+      'tokenGates.cacheTtl'
+    );
+  }
+
+  private parseRules(rules: unknown): TokenGateRule[] {
+    if (!Array.isArray(rules)) {
+      throw new Error('Token gate rules must be an array');
+    }
+
+    return rules.map((rule: Record<string, unknown>, i) => {
+      const invalid = (reason: string) =>
+        new Error(`Invalid token gate rule ${i}: ${reason}`);
+      const { role, chainId, standard, contract, tokenId, minBalance } =
+        rule ?? {};
+
+      if (typeof role !== 'string' || !ROLE_REGEX.test(role)) {
+        throw invalid('role must be a lowercase name');
+      }
+
+      // Gated roles come from the token, built-in roles from the database
+      if (ROLE_HIERARCHY.includes(role as (typeof ROLE_HIERARCHY)[number])) {
+        throw invalid(`role "${role}" is a built-in role`);
+      }
+
+      if (!Number.isInteger(chainId)) {
+        throw invalid('chainId must be an integer');
+      }
+
+      if (!TOKEN_STANDARDS.includes(standard as TokenStandard)) {
+        throw invalid(`standard must be one of ${TOKEN_STANDARDS.join(', ')}`);
+      }
+
+      if (typeof contract !== 'string' || !ethers.isAddress(contract)) {
+        throw invalid('contract must be an address');
+      }
+
+      if ((standard === 'erc1155') !== (tokenId !== undefined)) {
+        throw invalid('tokenId must be set for erc1155 rules only');
+      }
+
+      try {
+        return {
+          role,
+          chainId: chainId as number,
+          standard: standard as TokenStandard,
+          contract,
+          tokenId:
+            tokenId !== undefined ? BigInt(tokenId as string) : undefined,
+          minBalance: BigInt((minBalance as string | undefined) ?? 1),
+        };
+      } catch {
+        throw invalid('tokenId and minBalance must be integers');
+      }
+    });
+  }
+
+  private getCacheKey(address: string): string {
+    return `token-gate:${address.toLowerCase()}`;
+  }
+
+  private async getBalance(
+    rule: TokenGateRule,
+    address: string
+  ): Promise<bigint> {
+    const provider = this.evmProviderService.getProvider(rule.chainId);
+
+    if (!provider) {
+      throw new Error(`No RPC URL configured for chain ${rule.chainId}`);
+    }
+
+    const contract = new ethers.Contract(
+      rule.contract,
+      BALANCE_OF_ABI[rule.standard],
+      provider
+    );
+
+    return rule.standard === 'erc1155'
+      ? ((await contract.balanceOf(address, rule.tokenId)) as bigint)
+      : ((await contract.balanceOf(address)) as bigint);
+  }
+
+  /**
+   * Get the roles an address holds the tokens for. Results are cached, unless
+   * a rule could not be evaluated
+   * @param address - The wallet address
+   * @returns The gated roles, sorted
+   */
+  async getRoles(address: string): Promise<string[]> {
+    // Gated tokens are EVM contracts, addresses of other chains hold none
+    if (!this.rules.length || !ethers.isAddress(address)) {
+      return [];
+    }
+
+    const cacheKey = this.getCacheKey(address);
+    const cachedRoles = await this.redisService.get(cacheKey);
+
+    if (cachedRoles) {
+      return JSON.parse(cachedRoles) as string[];
+    }
+
+    const roles = new Set<string>();
+    let complete = true;
+
+    // Any rule of a role grants it, so rules of roles already granted are
+    // skipped
+    for (const rule of this.rules) {
+      if (roles.has(rule.role)) {
+        continue;
+      }
+
+      try {
+        if ((await this.getBalance(rule, address)) >= rule.minBalance) {
+          roles.add(rule.role);
+        }
+      } catch (error) {
+        // Fail closed: the role is not granted until the rule can be checked
+        complete = false;
+        Logger.warn(
+          `Token gate for role ${rule.role} on chain ${rule.chainId} could not be evaluated: ${(error as Error).message}`
+        );
+      }
+    }
+
+    const result = [...roles].sort();
+
+    if (complete) {
+      await this.redisService.set(
+        cacheKey,
+        JSON.stringify(result),
+        Math.floor(this.cacheTtl / 1000)
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the roles any EVM wallet of a user holds the tokens for
+   * @param wallets - The linked wallets of the user
+   * @returns The gated roles, sorted
+   */
+  async getWalletRoles(
+    wallets: Pick<Wallet, 'namespace' | 'address'>[]
+  ): Promise<string[]> {
+    const roles = await Promise.all(
+      wallets
+        .filter((wallet) => wallet.namespace === 'eip155')
+        .map((wallet) => this.getRoles(wallet.address))
+    );
+
+    return [...new Set(roles.flat())].sort();
+  }
+}
@@ -0,0 +1,303 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { ethers } from 'ethers';
+import { User, Wallet } from 'generated/prisma';
+import { CsrfGuard } from '@/modules/common/guards/csrf.guard';
+import { RateLimitGuard } from '@/modules/common/guards/rate-limit.guard';
+import { FreshAuthGuard } from '@/modules/common/guards/fresh-auth.guard';
+import { FreshAuthRequiredException } from '@/modules/common/fresh-auth/fresh-auth-required.exception';
+import { CsrfService } from '@/modules/common/csrf/csrf.service';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+import { AuthService } from '../auth.service';
+import { SignInDTO } from '../dto/sign-in.dto';
+import { AuthCookieService } from '../cookies/auth-cookie.service';
+import { SignInLockoutException } from '../lockout/sign-in-lockout.exception';
+import { ChainVerifierRegistryService } from '../caip122/chain-verifier-registry.service';
+import { WalletController } from './wallet.controller';
+
+describe('WalletController', () => {
+  let controller: WalletController;
+  let mockAuthService: jest.Mocked<AuthService>;
+  let mockWalletService: jest.Mocked<WalletService>;
+  let mockAuthCookieService: jest.Mocked<AuthCookieService>;
+  let mockCsrfService: jest.Mocked<CsrfService>;
+  let mockChainVerifierRegistryService: jest.Mocked<ChainVerifierRegistryService>;
+  let mockResponse: Partial<Response>;
+
+  const primaryAddress = '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb';
+  const secondAddress = '0x71C7656EC7ab88b098defB751B7401B5f6d8976F';
+
+  const mockUser: User = {
+    id: 'test-user-id',
+    publicAddress: primaryAddress,
+    username: 'test-user',
+    role: 'user',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const primaryWallet: Wallet = {
+    id: 'primary-wallet-id',
+    namespace: 'eip155',
+    address: primaryAddress,
+    userId: mockUser.id,
+    createdAt: new Date('2024-01-01'),
+  };
+
+  const secondWallet: Wallet = {
+    id: 'second-wallet-id',
+    namespace: 'eip155',
+    address: secondAddress,
+    userId: mockUser.id,
+    createdAt: new Date('2024-01-02'),
+  };
+
+  const mockRequest = {
+    user: mockUser,
+    auth: {
+      type: 'session',
+      sessionId: 'test-session-id',
+      tokenId: 'test-token-id',
+      scopes: [],
+      roles: ['user'],
+    },
+    headers: { 'user-agent': 'test-user-agent' },
+    ip: '127.0.0.1',
+  } as unknown as Request;
+
+  const signInDto: SignInDTO = {
+    message: 'valid-siwe-message',
+    signature: 'valid-signature',
+    nonce: 'test-nonce',
+  };
+
+  beforeEach(async () => {
+    mockAuthService = {
+      linkWallet: jest.fn().mockResolvedValue(secondWallet),
+      unlinkWallet: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AuthService>;
+
+    mockWalletService = {
+      list: jest.fn().mockResolvedValue([primaryWallet, secondWallet]),
+    } as unknown as jest.Mocked<WalletService>;
+
+    mockAuthCookieService = {
+      clearTokens: jest.fn(),
+    } as unknown as jest.Mocked<AuthCookieService>;
+
+    mockCsrfService = {
+      clearToken: jest.fn(),
+    } as unknown as jest.Mocked<CsrfService>;
+
+    mockChainVerifierRegistryService = {
+      normalizeAddress: jest.fn((address: string) =>
+        ethers.isAddress(address)
+          ? { namespace: 'eip155', address: ethers.getAddress(address) }
+          : null
+      ),
+    } as unknown as jest.Mocked<ChainVerifierRegistryService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [WalletController],
+      providers: [
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+        {
+          provide: WalletService,
+          useValue: mockWalletService,
+        },
+        {
+          provide: AuthCookieService,
+          useValue: mockAuthCookieService,
+        },
+        {
+          provide: CsrfService,
+          useValue: mockCsrfService,
+        },
+        {
+          provide: ChainVerifierRegistryService,
+          useValue: mockChainVerifierRegistryService,
+        },
+      ],
+    })
+      .overrideGuard(RateLimitGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(CsrfGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<WalletController>(WalletController);
+
+    mockResponse = {
+      json: jest.fn().mockReturnThis(),
+      status: jest.fn().mockReturnThis(),
+      sendStatus: jest.fn().mockReturnThis(),
+      setHeader: jest.fn().mockReturnThis(),
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getWallets', () => {
+    it('should list wallets and mark the primary one', async () => {
+      await expect(controller.getWallets(mockRequest)).resolves.toEqual([
+        {
+          namespace: 'eip155',
+          address: primaryAddress,
+          primary: true,
+          createdAt: primaryWallet.createdAt,
+        },
+        {
+          namespace: 'eip155',
+          address: secondAddress,
+          primary: false,
+          createdAt: secondWallet.createdAt,
+        },
+      ]);
+      expect(mockWalletService.list).toHaveBeenCalledWith(mockUser.id);
+    });
+
+    it('should throw when the user is missing', async () => {
+      await expect(controller.getWallets({} as Request)).rejects.toThrow(
+        UnauthorizedException
+      );
+    });
+  });
+
+  describe('linkWallet', () => {
+    it('should link the wallet that signed the message', async () => {
+      await controller.linkWallet(
+        signInDto,
+        mockRequest,
+        mockResponse as Response
+      );
+
+      expect(mockAuthService.linkWallet).toHaveBeenCalledWith(
+        mockUser,
+        signInDto,
+        { userAgent: 'test-user-agent', ip: '127.0.0.1' }
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        namespace: 'eip155',
+        address: secondAddress,
+        primary: false,
+        createdAt: secondWallet.createdAt,
+      });
+    });
+
+    it('should set Retry-After when the wallet is locked out', async () => {
+      mockAuthService.linkWallet.mockRejectedValue(
+        new SignInLockoutException(60)
+      );
+
+      await expect(
+        controller.linkWallet(signInDto, mockRequest, mockResponse as Response)
+      ).rejects.toThrow(SignInLockoutException);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', 60);
+    });
+  });
+
+  describe('unlinkWallet', () => {
+    it('should unlink the checksummed address', async () => {
+      await controller.unlinkWallet(
+        mockRequest,
+        mockResponse as Response,
+        secondAddress.toLowerCase()
+      );
+
+      expect(mockAuthService.unlinkWallet).toHaveBeenCalledWith(
+        mockUser,
+        secondAddress
+      );
+      expect(mockAuthCookieService.clearTokens).not.toHaveBeenCalled();
+      expect(mockResponse.sendStatus).toHaveBeenCalledWith(204);
+    });
+
+    it('should sign out when the current session was revoked', async () => {
+      mockAuthService.unlinkWallet.mockResolvedValue(['test-session-id']);
+
+      await controller.unlinkWallet(
+        mockRequest,
+        mockResponse as Response,
+        primaryAddress
+      );
+
+      expect(mockAuthCookieService.clearTokens).toHaveBeenCalledWith(
+        mockResponse
+      );
+      expect(mockCsrfService.clearToken).toHaveBeenCalledWith(mockResponse);
+    });
+
+    it('should reject invalid addresses', async () => {
+      await expect(
+        controller.unlinkWallet(
+          mockRequest,
+          mockResponse as Response,
+          'not-an-address'
+        )
+      ).rejects.toThrow(BadRequestException);
+      expect(mockAuthService.unlinkWallet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fresh authentication', () => {
+    const freshAuthGuard = new FreshAuthGuard(new Reflector());
+
+    const createContext = (
+      handler: 'linkWallet' | 'unlinkWallet',
+      authTime: number
+    ) =>
+      ({
+        getHandler: () =>
+          (WalletController.prototype as unknown as Record<string, unknown>)[
+            handler
+          ],
+        getClass: () => WalletController,
+        switchToHttp: () => ({
+          getRequest: () => ({
+            ...mockRequest,
+            auth: { ...mockRequest.auth, authTime },
+          }),
+          getResponse: () => mockResponse,
+        }),
+      }) as unknown as ExecutionContext;
+
+    const nowSeconds = Math.floor(Date.now() / 1000);
+
+    it.each(['linkWallet', 'unlinkWallet'] as const)(
+      'should reject stale access tokens on %s',
+      (handler) => {
+        expect(() =>
+          freshAuthGuard.canActivate(createContext(handler, nowSeconds - 600))
+        ).toThrow(FreshAuthRequiredException);
+        expect(mockResponse.setHeader).toHaveBeenCalledWith(
+          'WWW-Authenticate',
+          'Bearer error="insufficient_user_authentication", max_age=300'
+        );
+      }
+    );
+
+    it.each(['linkWallet', 'unlinkWallet'] as const)(
+      'should accept recent sign-ins on %s',
+      (handler) => {
+        expect(
+          freshAuthGuard.canActivate(createContext(handler, nowSeconds - 60))
+        ).toBe(true);
+      }
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+  Res,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { SessionAuthGuard } from '@/modules/common/guards/session-auth.guard';
+import { CsrfGuard } from '@/modules/common/guards/csrf.guard';
+import { FreshAuthGuard } from '@/modules/common/guards/fresh-auth.guard';
+import { RequireFreshAuth } from '@/modules/common/fresh-auth/require-fresh-auth.decorator';
+import { CsrfService } from '@/modules/common/csrf/csrf.service';
+import { RateLimitGuard } from '@/modules/common/guards/rate-limit.guard';
+import { RateLimit } from '@/modules/common/rate-limit/rate-limit.decorator';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+import { AuthService } from '../auth.service';
+import { SignInDTO } from '../dto/sign-in.dto';
+import { AuthCookieService } from '../cookies/auth-cookie.service';
+import { SignInLockoutException } from '../lockout/sign-in-lockout.exception';
+import { getSignInAddress } from '../caip122/sign-in-address';
+import { ChainVerifierRegistryService } from '../caip122/chain-verifier-registry.service';
+
+// Wallets are managed from signed-in sessions only, so an API key cannot
+// link a wallet to the account
+@Controller('/auth/wallets')
+@UseGuards(SessionAuthGuard)
+export class WalletController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly walletService: WalletService,
+    private readonly authCookieService: AuthCookieService,
+    private readonly csrfService: CsrfService,
+    private readonly chainVerifierRegistryService: ChainVerifierRegistryService
+  ) {}
+
+  @Get()
+  async getWallets(@Req() req: Request) {
+    if (!req.user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const { publicAddress } = req.user;
+    const wallets = await this.walletService.list(req.user.id);
+
+    return wallets.map(({ namespace, address, createdAt }) => ({
+      namespace,
+      address,
+      primary: address === publicAddress,
+      createdAt,
+    }));
+  }
+
+  // Linking proves control of the wallet with a sign-in message, so it is rate
+  // limited and locked out like a sign-in. Like unlinking, it changes who can
+  // sign in to the account, so a stolen access token is not enough
+  @Post()
+  @RateLimit('signIn', getSignInAddress)
+  @RequireFreshAuth(5 * 60)
+  @UseGuards(RateLimitGuard, CsrfGuard, FreshAuthGuard)
+  async linkWallet(
+    @Body() signInDto: SignInDTO,
+    @Req() req: Request,
+    @Res() res: Response
+  ) {
+    if (!req.user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const wallet = await this.authService
+      .linkWallet(req.user, signInDto, {
+        userAgent: req.headers['user-agent'],
+        ip: req.ip,
+      })
+      .catch((e: unknown) => {
+        if (e instanceof SignInLockoutException) {
+          res.setHeader('Retry-After', e.retryAfter);
+        }
+        throw e;
+      });
+
+    return res.status(HttpStatus.CREATED).json({
+      namespace: wallet.namespace,
+      address: wallet.address,
+      primary: false,
+      createdAt: wallet.createdAt,
+    });
+  }
+
+  @Delete('/:address')
+  @RequireFreshAuth(5 * 60)
+  @UseGuards(CsrfGuard, FreshAuthGuard)
+  async unlinkWallet(
+    @Req() req: Request,
+    @Res() res: Response,
+    @Param('address') address: string
+  ) {
+    if (!req.user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const wallet = this.chainVerifierRegistryService.normalizeAddress(address);
+
+    if (!wallet) {
+      throw new BadRequestException('Invalid address');
+    }
+
+    const revokedSessionIds = await this.authService.unlinkWallet(
+      req.user,
+      wallet.address
+    );
+
+    // Unlinking the wallet of the current session signs it out
+    if (req.auth?.sessionId && revokedSessionIds.includes(req.auth.sessionId)) {
+      this.authCookieService.clearTokens(res);
+      this.csrfService.clearToken(res);
+    }
+
+    return res.sendStatus(HttpStatus.NO_CONTENT);
+  }
+}
@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { OAuthClient } from 'generated/prisma';
+import { CsrfGuard } from '@/modules/common/guards/csrf.guard';
+import { AdminOAuthClientController } from './admin-oauth-client.controller';
+import { OAuthClientService } from './oauth-client.service';
+
+describe('AdminOAuthClientController', () => {
+  let controller: AdminOAuthClientController;
+  let mockOAuthClientService: jest.Mocked<OAuthClientService>;
+
+  const mockClient: OAuthClient = {
+    id: 'test-client-id',
+    name: 'Test Client',
+    secretHash: 'test-secret-hash',
+    redirectUris: ['https://client.example.com/callback'],
+    allowedScopes: [],
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const publicClient = {
+    id: mockClient.id,
+    name: mockClient.name,
+    redirectUris: mockClient.redirectUris,
+    createdAt: mockClient.createdAt,
+    updatedAt: mockClient.updatedAt,
+  };
+
+  beforeEach(async () => {
+    mockOAuthClientService = {
+      findMany: jest.fn().mockResolvedValue([mockClient]),
+      findById: jest.fn().mockResolvedValue(mockClient),
+      create: jest.fn().mockResolvedValue({
+        client: mockClient,
+        clientSecret: 'test-client-secret',
+      }),
+      delete: jest.fn().mockResolvedValue(mockClient),
+      toPublic: jest.fn(() => ({ ...publicClient, confidential: true })),
+    } as unknown as jest.Mocked<OAuthClientService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AdminOAuthClientController],
+      providers: [
+        {
+          provide: OAuthClientService,
+          useValue: mockOAuthClientService,
+        },
+      ],
+    })
+      .overrideGuard(CsrfGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<AdminOAuthClientController>(
+      AdminOAuthClientController
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getClients', () => {
+    it('should list clients without their secret hash', async () => {
+      await expect(controller.getClients()).resolves.toEqual([
+        { ...publicClient, confidential: true },
+      ]);
+    });
+  });
+
+  describe('createClient', () => {
+    it('should return the secret of new clients once', async () => {
+      const body = {
+        name: 'Test Client',
+        redirectUris: mockClient.redirectUris,
+        confidential: true,
+      };
+
+      await expect(controller.createClient(body)).resolves.toEqual({
+        ...publicClient,
+        confidential: true,
+        clientSecret: 'test-client-secret',
+      });
+      expect(mockOAuthClientService.create).toHaveBeenCalledWith(body);
+    });
+  });
+
+  describe('deleteClient', () => {
+    it('should delete clients', async () => {
+      await controller.deleteClient(mockClient.id);
+
+      expect(mockOAuthClientService.delete).toHaveBeenCalledWith(mockClient.id);
+    });
+
+    it('should throw when the client does not exist', async () => {
+      mockOAuthClientService.findById.mockResolvedValue(null);
+
+      await expect(controller.deleteClient('missing-id')).rejects.toThrow(
+        NotFoundException
+      );
+      expect(mockOAuthClientService.delete).not.toHaveBeenCalled();
+    });
+  });
+});
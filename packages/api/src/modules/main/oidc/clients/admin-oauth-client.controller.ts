@@ -0,0 +1,54 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { Role } from 'generated/prisma';
+import { SessionAuthGuard } from '@/modules/common/guards/session-auth.guard';
+import { RolesGuard } from '@/modules/common/guards/roles.guard';
+import { CsrfGuard } from '@/modules/common/guards/csrf.guard';
+import { Roles } from '@/modules/common/roles/roles.decorator';
+import { OAuthClientService } from './oauth-client.service';
+import { CreateOAuthClientDTO } from './dto/create-oauth-client.dto';
+
+@Controller('/admin/oauth/clients')
+@UseGuards(SessionAuthGuard, RolesGuard)
+@Roles(Role.admin)
+export class AdminOAuthClientController {
+  constructor(private readonly oauthClientService: OAuthClientService) {}
+
+  @Get()
+  async getClients() {
+    const clients = await this.oauthClientService.findMany();
+    return clients.map((client) => this.oauthClientService.toPublic(client));
+  }
+
+  @Post()
+  @UseGuards(CsrfGuard)
+  async createClient(@Body() body: CreateOAuthClientDTO) {
+    const { client, clientSecret } = await this.oauthClientService.create(body);
+
+    // The secret is only shown once
+    return { ...this.oauthClientService.toPublic(client), clientSecret };
+  }
+
+  @Delete('/:id')
+  @UseGuards(CsrfGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteClient(@Param('id') id: string) {
+    const client = await this.oauthClientService.findById(id);
+
+    if (!client) {
+      throw new NotFoundException('Client not found');
+    }
+
+    await this.oauthClientService.delete(id);
+  }
+}
@@ -0,0 +1,40 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MinLength,
+} from 'class-validator';
+
+export class CreateOAuthClientDTO {
+  @IsString()
+  @MinLength(1)
+  name: string;
+
+  // Redirect URIs are matched exactly, so they must be absolute
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUrl(
+    {
+      require_tld: false,
+      require_protocol: true,
+      protocols: ['http', 'https'],
+    },
+    { each: true }
+  )
+  redirectUris: string[];
+
+  // Confidential clients run on a server and authenticate with a secret,
+  // public clients (SPAs, mobile apps) only with PKCE
+  @IsBoolean()
+  confidential: boolean;
+
+  // Registered API scopes the client may request, it can always request the
+  // OpenID Connect scopes
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedScopes?: string[];
+}
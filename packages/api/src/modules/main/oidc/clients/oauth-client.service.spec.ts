@@ -0,0 +1,178 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { OAuthClient } from 'generated/prisma';
+import { OrmService } from '@/modules/common/orm/orm.service';
+import { ScopeRegistryService } from '@/modules/common/scopes/scope-registry.service';
+import { OAuthClientService } from './oauth-client.service';
+
+describe('OAuthClientService', () => {
+  let service: OAuthClientService;
+  let mockOrmService: {
+    oAuthClient: {
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      findMany: jest.Mock;
+      delete: jest.Mock;
+    };
+  };
+
+  const secret = 'test-client-secret';
+
+  const mockClient: OAuthClient = {
+    id: 'test-client-id',
+    name: 'Test Client',
+    secretHash: createHash('sha256').update(secret).digest('hex'),
+    redirectUris: ['https://client.example.com/callback'],
+    allowedScopes: [],
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  beforeEach(async () => {
+    mockOrmService = {
+      oAuthClient: {
+        create: jest.fn((params: { data: Partial<OAuthClient> }) =>
+          Promise.resolve({ ...mockClient, ...params.data })
+        ),
+        findUnique: jest.fn().mockResolvedValue(mockClient),
+        findMany: jest.fn().mockResolvedValue([mockClient]),
+        delete: jest.fn().mockResolvedValue(mockClient),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthClientService,
+        {
+          provide: OrmService,
+          useValue: mockOrmService,
+        },
+        {
+          provide: ScopeRegistryService,
+          useValue: {
+            has: jest.fn((scope: string) =>
+              ['profile:read', 'profile:write'].includes(scope)
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OAuthClientService>(OAuthClientService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create confidential clients with a hashed secret', async () => {
+      const { client, clientSecret } = await service.create({
+        name: 'Test Client',
+        redirectUris: mockClient.redirectUris,
+        confidential: true,
+      });
+
+      expect(clientSecret).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(client.secretHash).toEqual(
+        createHash('sha256')
+          .update(clientSecret as string)
+          .digest('hex')
+      );
+      expect(service.verifySecret(client, clientSecret as string)).toBe(true);
+    });
+
+    it('should create public clients without a secret', async () => {
+      const { client, clientSecret } = await service.create({
+        name: 'Test Client',
+        redirectUris: mockClient.redirectUris,
+        confidential: false,
+      });
+
+      expect(clientSecret).toBeNull();
+      expect(mockOrmService.oAuthClient.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Test Client',
+          redirectUris: mockClient.redirectUris,
+          allowedScopes: [],
+          secretHash: null,
+        },
+      });
+      expect(client.secretHash).toBeNull();
+    });
+
+    it('should store the allowed scopes sorted and without duplicates', async () => {
+      const { client } = await service.create({
+        name: 'Test Client',
+        redirectUris: mockClient.redirectUris,
+        confidential: false,
+        allowedScopes: ['profile:write', 'profile:read', 'profile:write'],
+      });
+
+      expect(client.allowedScopes).toEqual(['profile:read', 'profile:write']);
+    });
+
+    it('should reject unknown allowed scopes', async () => {
+      await expect(
+        service.create({
+          name: 'Test Client',
+          redirectUris: mockClient.redirectUris,
+          confidential: false,
+          allowedScopes: ['admin:everything'],
+        })
+      ).rejects.toThrow(HttpException);
+      expect(mockOrmService.oAuthClient.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findMany', () => {
+    it('should list clients oldest first', async () => {
+      await expect(service.findMany()).resolves.toEqual([mockClient]);
+      expect(mockOrmService.oAuthClient.findMany).toHaveBeenCalledWith({
+        orderBy: { createdAt: 'asc' },
+      });
+    });
+  });
+
+  describe('toPublic', () => {
+    it('should strip the secret hash', () => {
+      const result = service.toPublic(mockClient);
+
+      expect(result).not.toHaveProperty('secretHash');
+      expect(result).toEqual({
+        id: mockClient.id,
+        name: mockClient.name,
+        redirectUris: mockClient.redirectUris,
+        allowedScopes: [],
+        confidential: true,
+        createdAt: mockClient.createdAt,
+        updatedAt: mockClient.updatedAt,
+      });
+    });
+
+    it('should mark clients without a secret as public', () => {
+      expect(
+        service.toPublic({ ...mockClient, secretHash: null }).confidential
+      ).toBe(false);
+    });
+  });
+
+  describe('verifySecret', () => {
+    it('should accept the secret of confidential clients', () => {
+      expect(service.verifySecret(mockClient, secret)).toBe(true);
+    });
+
+    it('should reject wrong or missing secrets of confidential clients', () => {
+      expect(service.verifySecret(mockClient, 'wrong-secret')).toBe(false);
+      expect(service.verifySecret(mockClient, undefined)).toBe(false);
+    });
+
+    it('should only accept public clients without a secret', () => {
+      const publicClient = { ...mockClient, secretHash: null };
+
+      expect(service.verifySecret(publicClient, undefined)).toBe(true);
+      expect(service.verifySecret(publicClient, secret)).toBe(false);
+    });
+  });
+});
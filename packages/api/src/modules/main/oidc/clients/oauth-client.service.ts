@@ -0,0 +1,122 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { OAuthClient } from 'generated/prisma';
+import { OrmService } from '@/modules/common/orm/orm.service';
+import { ScopeRegistryService } from '@/modules/common/scopes/scope-registry.service';
+
+/**
+ * The client as returned by the API, without its secret hash
+ */
+export type PublicOAuthClient = Omit<OAuthClient, 'secretHash'> & {
+  confidential: boolean;
+};
+
+@Injectable()
+export class OAuthClientService {
+  constructor(
+    private prisma: OrmService,
+    private readonly scopeRegistryService: ScopeRegistryService
+  ) {}
+
+  private hashSecret(secret: string): string {
+    // Secrets are random 256-bit values, so a fast hash is enough
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  /**
+   * Strip the secret hash of a client
+   * @param client - The client
+   * @returns The client without its secret hash
+   */
+  toPublic(client: OAuthClient): PublicOAuthClient {
+    const publicClient: Partial<OAuthClient> = { ...client };
+    delete publicClient.secretHash;
+
+    return {
+      ...(publicClient as Omit<OAuthClient, 'secretHash'>),
+      confidential: client.secretHash !== null,
+    };
+  }
+
+  /**
+   * Register a client
+   * @param params - The name, redirect URIs and allowed API scopes of the
+   * client, and whether it can keep a secret, i.e. runs on a server
+   * @returns The client and, for confidential clients, its secret, which is
+   * not stored and cannot be retrieved again
+   * @throws HttpException when an allowed scope is not registered
+   */
+  async create(params: {
+    name: string;
+    redirectUris: string[];
+    confidential: boolean;
+    allowedScopes?: string[];
+  }): Promise<{ client: OAuthClient; clientSecret: string | null }> {
+    const allowedScopes = [...new Set(params.allowedScopes ?? [])].sort();
+    const unknownScope = allowedScopes.find(
+      (scope) => !this.scopeRegistryService.has(scope)
+    );
+
+    if (unknownScope) {
+      throw new HttpException(
+        `Unknown scope ${unknownScope}`,
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    const clientSecret = params.confidential
+      ? randomBytes(32).toString('base64url')
+      : null;
+
+    const client = await this.prisma.oAuthClient.create({
+      data: {
+        name: params.name,
+        redirectUris: params.redirectUris,
+        allowedScopes,
+        secretHash: clientSecret ? this.hashSecret(clientSecret) : null,
+      },
+    });
+
+    return { client, clientSecret };
+  }
+
+  async findById(id: string): Promise<OAuthClient | null> {
+    return this.prisma.oAuthClient.findUnique({
+      where: { id },
+    });
+  }
+
+  async findMany(): Promise<OAuthClient[]> {
+    return this.prisma.oAuthClient.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async delete(id: string): Promise<OAuthClient> {
+    return this.prisma.oAuthClient.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Check the secret of a client
+   * @param client - The client
+   * @param secret - The presented secret
+   * @returns Whether the client is public and presented no secret, or is
+   * confidential and presented its secret
+   */
+  verifySecret(client: OAuthClient, secret: string | undefined): boolean {
+    if (!client.secretHash) {
+      return secret === undefined;
+    }
+
+    if (secret === undefined) {
+      return false;
+    }
+
+    return timingSafeEqual(
+      Buffer.from(this.hashSecret(secret), 'hex'),
+      Buffer.from(client.secretHash, 'hex')
+    );
+  }
+}
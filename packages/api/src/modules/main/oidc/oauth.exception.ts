@@ -0,0 +1,53 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+// RFC 6749 and OpenID Connect error codes
+export enum OAuthErrorCode {
+  INVALID_REQUEST = 'invalid_request',
+  INVALID_CLIENT = 'invalid_client',
+  INVALID_GRANT = 'invalid_grant',
+  INVALID_SCOPE = 'invalid_scope',
+  UNAUTHORIZED_CLIENT = 'unauthorized_client',
+  UNSUPPORTED_GRANT_TYPE = 'unsupported_grant_type',
+  UNSUPPORTED_RESPONSE_TYPE = 'unsupported_response_type',
+  ACCESS_DENIED = 'access_denied',
+  LOGIN_REQUIRED = 'login_required',
+  SERVER_ERROR = 'server_error',
+}
+
+/**
+ * OAuth error, rendered as `{ error, error_description }`. Authorization
+ * errors that happen after the redirect URI was validated are sent back to the
+ * client through the redirect URI instead
+ */
+export class OAuthException extends HttpException {
+  constructor(
+    public readonly error: OAuthErrorCode,
+    public readonly description: string,
+    status: HttpStatus = HttpStatus.BAD_REQUEST,
+    public readonly redirectUri?: string,
+    public readonly state?: string
+  ) {
+    super({ error, error_description: description }, status);
+  }
+
+  /**
+   * Get the redirect URI with the error attached
+   * @param issuer - The issuer, sent along as RFC 9207 `iss` parameter
+   * @returns The URL to redirect to, or null if the error is not redirected
+   */
+  getRedirectUrl(issuer: string): string | null {
+    if (!this.redirectUri) {
+      return null;
+    }
+
+    const url = new URL(this.redirectUri);
+    url.searchParams.set('error', this.error);
+    url.searchParams.set('error_description', this.description);
+    if (this.state) {
+      url.searchParams.set('state', this.state);
+    }
+    url.searchParams.set('iss', issuer);
+
+    return url.toString();
+  }
+}
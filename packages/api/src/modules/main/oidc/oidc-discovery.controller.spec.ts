@@ -0,0 +1,44 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { OidcDiscoveryController } from './oidc-discovery.controller';
+import { OidcService } from './oidc.service';
+
+describe('OidcDiscoveryController', () => {
+  let controller: OidcDiscoveryController;
+  let mockOidcService: jest.Mocked<OidcService>;
+
+  beforeEach(async () => {
+    mockOidcService = {
+      getDiscoveryDocument: jest.fn(),
+    } as unknown as jest.Mocked<OidcService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [OidcDiscoveryController],
+      providers: [
+        {
+          provide: OidcService,
+          useValue: mockOidcService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<OidcDiscoveryController>(OidcDiscoveryController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getConfiguration', () => {
+    it('should return the discovery document', () => {
+      const mockDocument = {
+        issuer: 'https://api.example.com',
+        jwks_uri: 'https://api.example.com/.well-known/jwks.json',
+      };
+      mockOidcService.getDiscoveryDocument.mockReturnValue(
+        mockDocument as ReturnType<OidcService['getDiscoveryDocument']>
+      );
+
+      expect(controller.getConfiguration()).toEqual(mockDocument);
+    });
+  });
+});
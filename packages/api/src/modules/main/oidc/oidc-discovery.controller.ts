@@ -0,0 +1,13 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { OidcService } from './oidc.service';
+
+@Controller('/.well-known')
+export class OidcDiscoveryController {
+  constructor(private readonly oidcService: OidcService) {}
+
+  @Get('/openid-configuration')
+  @Header('Cache-Control', 'public, max-age=300')
+  getConfiguration() {
+    return this.oidcService.getDiscoveryDocument();
+  }
+}
@@ -0,0 +1,306 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { OAuthClient, User } from 'generated/prisma';
+import { OptionalJwtAuthGuard } from '@/modules/common/guards/optional-jwt-auth.guard';
+import {
+  Session,
+  SessionService,
+} from '@/modules/main/auth/session/session.service';
+import { OidcController } from './oidc.controller';
+import { AuthorizationRequest, OidcService } from './oidc.service';
+import { OAuthErrorCode, OAuthException } from './oauth.exception';
+
+describe('OidcController', () => {
+  let controller: OidcController;
+  let mockOidcService: jest.Mocked<OidcService>;
+  let mockSessionService: jest.Mocked<SessionService>;
+  let mockResponse: jest.Mocked<Pick<Response, 'redirect'>>;
+
+  const issuer = 'https://auth.example.com';
+  const redirectUri = 'https://client.example.com/callback';
+
+  const mockClient: OAuthClient = {
+    id: 'test-client-id',
+    name: 'Test Client',
+    secretHash: null,
+    redirectUris: [redirectUri],
+    allowedScopes: ['profile:write'],
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockUser: User = {
+    id: 'test-user-id',
+    publicAddress: '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb',
+    username: 'test-user',
+    role: 'user',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockSession: Session = {
+    id: 'test-session-id',
+    userId: mockUser.id,
+    address: mockUser.publicAddress,
+    chainId: 'eip155:1',
+    scopes: [],
+    userAgent: null,
+    ip: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastRefreshedAt: null,
+  };
+
+  const authorizationRequest: AuthorizationRequest = {
+    client: mockClient,
+    redirectUri,
+    scopes: ['openid'],
+    codeChallenge: 'test-code-challenge',
+  };
+
+  const query = { client_id: mockClient.id };
+  const originalUrl = '/oauth/authorize?client_id=test-client-id';
+
+  const signedInRequest = {
+    user: mockUser,
+    auth: {
+      type: 'session',
+      sessionId: mockSession.id,
+      scopes: ['openid', 'profile'],
+      roles: [],
+    },
+    originalUrl,
+  } as unknown as Request;
+
+  beforeEach(async () => {
+    mockOidcService = {
+      parseAuthorizationRequest: jest
+        .fn()
+        .mockResolvedValue(authorizationRequest),
+      getLoginUrl: jest.fn().mockReturnValue('https://app.example.com/login'),
+      authorize: jest
+        .fn()
+        .mockResolvedValue(`${redirectUri}?code=test-code&iss=${issuer}`),
+      token: jest.fn(),
+      introspect: jest.fn(),
+      revoke: jest.fn(),
+      getUserInfo: jest.fn(),
+    } as unknown as jest.Mocked<OidcService>;
+
+    mockSessionService = {
+      get: jest.fn().mockResolvedValue(mockSession),
+    } as unknown as jest.Mocked<SessionService>;
+
+    mockResponse = {
+      redirect: jest.fn(),
+    } as unknown as jest.Mocked<Pick<Response, 'redirect'>>;
+
+    const mockConfigService = {
+      getOrThrow: jest.fn().mockReturnValue(issuer),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [OidcController],
+      providers: [
+        {
+          provide: OidcService,
+          useValue: mockOidcService,
+        },
+        {
+          provide: SessionService,
+          useValue: mockSessionService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    })
+      .overrideGuard(OptionalJwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<OidcController>(OidcController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('authorize', () => {
+    it('should redirect signed-in users to the client with a code', async () => {
+      await controller.authorize(
+        query,
+        signedInRequest,
+        mockResponse as unknown as Response
+      );
+
+      expect(mockSessionService.get).toHaveBeenCalledWith(mockSession.id);
+      expect(mockOidcService.authorize).toHaveBeenCalledWith(
+        authorizationRequest,
+        mockUser,
+        mockSession
+      );
+      expect(mockResponse.redirect).toHaveBeenCalledWith(
+        `${redirectUri}?code=test-code&iss=${issuer}`
+      );
+    });
+
+    it('should send users that are not signed in to the login page', async () => {
+      await controller.authorize(
+        query,
+        { originalUrl } as unknown as Request,
+        mockResponse as unknown as Response
+      );
+
+      expect(mockOidcService.getLoginUrl).toHaveBeenCalledWith(
+        authorizationRequest,
+        `${issuer}${originalUrl}`
+      );
+      expect(mockResponse.redirect).toHaveBeenCalledWith(
+        'https://app.example.com/login'
+      );
+      expect(mockOidcService.authorize).not.toHaveBeenCalled();
+    });
+
+    it('should send users with a revoked session to the login page', async () => {
+      mockSessionService.get.mockResolvedValue(null);
+
+      await controller.authorize(
+        query,
+        signedInRequest,
+        mockResponse as unknown as Response
+      );
+
+      expect(mockResponse.redirect).toHaveBeenCalledWith(
+        'https://app.example.com/login'
+      );
+      expect(mockOidcService.authorize).not.toHaveBeenCalled();
+    });
+
+    it('should redirect errors to the client', async () => {
+      mockOidcService.parseAuthorizationRequest.mockRejectedValue(
+        new OAuthException(
+          OAuthErrorCode.INVALID_SCOPE,
+          'The openid scope is required',
+          400,
+          redirectUri,
+          'test-state'
+        )
+      );
+
+      await controller.authorize(
+        query,
+        signedInRequest,
+        mockResponse as unknown as Response
+      );
+
+      const url = new URL(
+        mockResponse.redirect.mock.calls[0][0] as unknown as string
+      );
+      expect(url.origin + url.pathname).toEqual(redirectUri);
+      expect(url.searchParams.get('error')).toEqual('invalid_scope');
+      expect(url.searchParams.get('state')).toEqual('test-state');
+      expect(url.searchParams.get('iss')).toEqual(issuer);
+    });
+
+    it('should show errors about the client to the user', async () => {
+      const error = new OAuthException(
+        OAuthErrorCode.INVALID_REQUEST,
+        'Unknown client'
+      );
+      mockOidcService.parseAuthorizationRequest.mockRejectedValue(error);
+
+      await expect(
+        controller.authorize(
+          query,
+          signedInRequest,
+          mockResponse as unknown as Response
+        )
+      ).rejects.toBe(error);
+      expect(mockResponse.redirect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('token', () => {
+    it('should pass the body and the Authorization header on', async () => {
+      const tokens = { access_token: 'access-token', token_type: 'Bearer' };
+      mockOidcService.token.mockResolvedValue(
+        tokens as Awaited<ReturnType<OidcService['token']>>
+      );
+
+      await expect(
+        controller.token({ grant_type: 'refresh_token' }, 'Basic abc')
+      ).resolves.toBe(tokens);
+      expect(mockOidcService.token).toHaveBeenCalledWith(
+        { grant_type: 'refresh_token' },
+        'Basic abc'
+      );
+    });
+  });
+
+  describe('introspect', () => {
+    it('should pass the body and the Authorization header on', async () => {
+      mockOidcService.introspect.mockResolvedValue({ active: false });
+
+      await expect(
+        controller.introspect({ token: 'access-token' }, 'Basic abc')
+      ).resolves.toEqual({ active: false });
+      expect(mockOidcService.introspect).toHaveBeenCalledWith(
+        { token: 'access-token' },
+        'Basic abc'
+      );
+    });
+  });
+
+  describe('revoke', () => {
+    it('should pass the body and the Authorization header on', async () => {
+      await expect(
+        controller.revoke({ token: 'refresh-token' }, 'Basic abc')
+      ).resolves.toBeUndefined();
+      expect(mockOidcService.revoke).toHaveBeenCalledWith(
+        { token: 'refresh-token' },
+        'Basic abc'
+      );
+    });
+  });
+
+  describe('getUserInfo', () => {
+    it('should return the claims the token scopes grant', async () => {
+      const userInfo = {
+        sub: `eip155:1:${mockUser.publicAddress}`,
+        user_id: mockUser.id,
+      };
+      mockOidcService.getUserInfo.mockReturnValue(userInfo);
+
+      await expect(controller.getUserInfo(signedInRequest)).resolves.toBe(
+        userInfo
+      );
+      expect(mockSessionService.get).toHaveBeenCalledWith(mockSession.id);
+      expect(mockOidcService.getUserInfo).toHaveBeenCalledWith(
+        mockUser,
+        mockSession,
+        ['openid', 'profile']
+      );
+    });
+
+    it('should throw when the user is missing', async () => {
+      await expect(controller.getUserInfo({} as Request)).rejects.toThrow(
+        UnauthorizedException
+      );
+    });
+
+    it('should throw when the session is gone', async () => {
+      mockSessionService.get.mockResolvedValue(null);
+
+      await expect(controller.getUserInfo(signedInRequest)).rejects.toThrow(
+        UnauthorizedException
+      );
+      expect(mockOidcService.getUserInfo).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  Req,
+  Res,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request, Response } from 'express';
+import { AcceptClientTokens } from '@/modules/common/client-tokens/accept-client-tokens.decorator';
+import { JwtAuthGuard } from '@/modules/common/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '@/modules/common/guards/optional-jwt-auth.guard';
+import { ScopesGuard } from '@/modules/common/guards/scopes.guard';
+import { RequireScopes } from '@/modules/common/scopes/require-scopes.decorator';
+import { SessionService } from '@/modules/main/auth/session/session.service';
+import { OidcService } from './oidc.service';
+import { OAuthException } from './oauth.exception';
+
+@Controller('/oauth')
+export class OidcController {
+  private readonly issuer: string;
+
+  constructor(
+    private readonly oidcService: OidcService,
+    private readonly sessionService: SessionService,
+    private readonly configService: ConfigService
+  ) {
+    this.issuer = this.configService.getOrThrow<string>('jwt.issuer');
+  }
+
+  // Users sign in with SIWE through the login page, which sets the access
+  // token cookie this endpoint is authenticated with
+  @Get('/authorize')
+  @UseGuards(OptionalJwtAuthGuard)
+  async authorize(
+    @Query() query: Record<string, unknown>,
+    @Req() req: Request,
+    @Res() res: Response
+  ) {
+    try {
+      const request = await this.oidcService.parseAuthorizationRequest(query);
+      const session = req.auth?.sessionId
+        ? await this.sessionService.get(req.auth.sessionId)
+        : null;
+
+      if (!req.user || !session) {
+        return res.redirect(
+          this.oidcService.getLoginUrl(
+            request,
+            `${this.issuer}${req.originalUrl}`
+          )
+        );
+      }
+
+      return res.redirect(
+        await this.oidcService.authorize(request, req.user, session)
+      );
+    } catch (e) {
+      const redirectUrl =
+        e instanceof OAuthException ? e.getRedirectUrl(this.issuer) : null;
+
+      if (redirectUrl) {
+        return res.redirect(redirectUrl);
+      }
+      throw e;
+    }
+  }
+
+  @Post('/token')
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'no-store')
+  async token(
+    @Body() body: Record<string, unknown>,
+    @Headers('authorization') authorization?: string
+  ) {
+    return this.oidcService.token(body, authorization);
+  }
+
+  @Post('/introspect')
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'no-store')
+  async introspect(
+    @Body() body: Record<string, unknown>,
+    @Headers('authorization') authorization?: string
+  ) {
+    return this.oidcService.introspect(body, authorization);
+  }
+
+  @Post('/revoke')
+  @HttpCode(HttpStatus.OK)
+  async revoke(
+    @Body() body: Record<string, unknown>,
+    @Headers('authorization') authorization?: string
+  ) {
+    await this.oidcService.revoke(body, authorization);
+  }
+
+  // Clients call the userinfo endpoint with the access tokens they were issued
+  @Get('/userinfo')
+  @AcceptClientTokens()
+  @RequireScopes('openid')
+  @UseGuards(JwtAuthGuard, ScopesGuard)
+  async getUserInfo(@Req() req: Request) {
+    if (!req.user || !req.auth) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    // API keys have no session, and so no account the user signed in with
+    const session = req.auth.sessionId
+      ? await this.sessionService.get(req.auth.sessionId)
+      : null;
+
+    if (!session) {
+      throw new UnauthorizedException('Session not found');
+    }
+
+    return this.oidcService.getUserInfo(req.user, session, req.auth.scopes);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '@/modules/main/auth/auth.module';
+import { UserModule } from '@/modules/main/user/user.module';
+import { RedisModule } from '@/modules/common/redis/redis.module';
+import { CsrfModule } from '@/modules/common/csrf/csrf.module';
+import { ScopesModule } from '@/modules/common/scopes/scopes.module';
+import { OidcService } from './oidc.service';
+import { OidcController } from './oidc.controller';
+import { OidcDiscoveryController } from './oidc-discovery.controller';
+import { OAuthClientService } from './clients/oauth-client.service';
+import { AdminOAuthClientController } from './clients/admin-oauth-client.controller';
+
+@Module({
+  imports: [AuthModule, UserModule, RedisModule, CsrfModule, ScopesModule],
+  controllers: [
+    OidcController,
+    OidcDiscoveryController,
+    AdminOAuthClientController,
+  ],
+  providers: [OidcService, OAuthClientService],
+})
+export class OidcModule {}
@@ -0,0 +1,750 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { OAuthClient, User } from 'generated/prisma';
+import { RedisService } from '@/modules/common/redis/redis.service';
+import { ScopeRegistryService } from '@/modules/common/scopes/scope-registry.service';
+import { UserService } from '@/modules/main/user/user.service';
+import { AuthService } from '@/modules/main/auth/auth.service';
+import { JwtKeyService } from '@/modules/main/auth/keys/jwt-key.service';
+import {
+  Session,
+  SessionService,
+} from '@/modules/main/auth/session/session.service';
+import { OAuthClientService } from './clients/oauth-client.service';
+import { OAuthErrorCode, OAuthException } from './oauth.exception';
+import { AuthorizationRequest, OidcService } from './oidc.service';
+
+describe('OidcService', () => {
+  let service: OidcService;
+  let mockRedisService: jest.Mocked<RedisService>;
+  let mockScopeRegistryService: jest.Mocked<ScopeRegistryService>;
+  let mockUserService: jest.Mocked<UserService>;
+  let mockAuthService: jest.Mocked<AuthService>;
+  let mockSessionService: jest.Mocked<SessionService>;
+  let mockJwtKeyService: jest.Mocked<JwtKeyService>;
+  let mockOAuthClientService: jest.Mocked<OAuthClientService>;
+  let config: Record<string, unknown>;
+
+  const issuer = 'https://auth.example.com';
+  const redirectUri = 'https://client.example.com/callback';
+  const codeVerifier = 'a'.repeat(43);
+  const codeChallenge = createHash('sha256')
+    .update(codeVerifier)
+    .digest('base64url');
+
+  const mockClient: OAuthClient = {
+    id: 'test-client-id',
+    name: 'Test Client',
+    secretHash: null,
+    redirectUris: [redirectUri],
+    allowedScopes: ['profile:write'],
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockUser: User = {
+    id: 'test-user-id',
+    publicAddress: '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb',
+    username: 'test-user.eth',
+    role: 'user',
+    ensName: 'test-user.eth',
+    avatar: 'https://example.com/a.png',
+    ensResolvedAt: new Date('2024-01-01'),
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockSession: Session = {
+    id: 'test-session-id',
+    userId: mockUser.id,
+    address: mockUser.publicAddress,
+    chainId: 'eip155:1',
+    scopes: [],
+    userAgent: null,
+    ip: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastRefreshedAt: null,
+  };
+
+  const authorizeParams = {
+    client_id: mockClient.id,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: 'openid profile',
+    state: 'test-state',
+    nonce: 'test-nonce',
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  };
+
+  const authorizationRequest: AuthorizationRequest = {
+    client: mockClient,
+    redirectUri,
+    scopes: ['openid', 'profile'],
+    codeChallenge,
+    state: 'test-state',
+    nonce: 'test-nonce',
+  };
+
+  const storedCode = {
+    clientId: mockClient.id,
+    redirectUri,
+    scopes: ['openid', 'profile'],
+    codeChallenge,
+    nonce: 'test-nonce',
+    userId: mockUser.id,
+    address: mockUser.publicAddress,
+    chainId: 'eip155:1',
+    authTime: 1704067200,
+  };
+
+  const expectOAuthError = async (
+    promise: Promise<unknown>,
+    error: OAuthErrorCode
+  ) => {
+    await expect(promise).rejects.toBeInstanceOf(OAuthException);
+    await expect(promise).rejects.toHaveProperty('error', error);
+  };
+
+  const getRedirectUrl = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (e) {
+      return (e as OAuthException).getRedirectUrl(issuer);
+    }
+    throw new Error('Expected the promise to reject');
+  };
+
+  beforeEach(async () => {
+    config = {
+      'jwt.issuer': issuer,
+      'jwt.accessExpiresIn': 15 * 60 * 1000,
+      'oidc.loginUrl': 'https://app.example.com/login',
+      'oidc.codeTtl': 60 * 1000,
+      'oidc.idTokenExpiresIn': 60 * 60 * 1000,
+    };
+
+    const mockConfigService = {
+      get: jest.fn((key: string) => config[key]),
+      getOrThrow: jest.fn((key: string) => config[key]),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    mockRedisService = {
+      set: jest.fn(),
+      getDelete: jest.fn().mockResolvedValue(JSON.stringify(storedCode)),
+    } as unknown as jest.Mocked<RedisService>;
+
+    mockScopeRegistryService = {
+      has: jest.fn((scope: string) => scope === 'profile:write'),
+      list: jest
+        .fn()
+        .mockReturnValue([
+          { name: 'profile:write', description: 'Update the profile' },
+        ]),
+    } as unknown as jest.Mocked<ScopeRegistryService>;
+
+    mockUserService = {
+      findUnique: jest.fn().mockResolvedValue(mockUser),
+    } as unknown as jest.Mocked<UserService>;
+
+    mockAuthService = {
+      startSession: jest.fn().mockResolvedValue({
+        session: { ...mockSession, id: 'client-session-id' },
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+      }),
+      refresh: jest.fn().mockResolvedValue({
+        accessToken: 'new-access-token',
+        refreshToken: 'new-refresh-token',
+      }),
+      inspectToken: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<AuthService>;
+
+    mockSessionService = {
+      revoke: jest.fn(),
+    } as unknown as jest.Mocked<SessionService>;
+
+    mockJwtKeyService = {
+      getAlgorithm: jest.fn().mockReturnValue('ES256'),
+      signIdToken: jest.fn().mockResolvedValue('id-token'),
+    } as unknown as jest.Mocked<JwtKeyService>;
+
+    mockOAuthClientService = {
+      findById: jest.fn((id: string) =>
+        Promise.resolve(id === mockClient.id ? mockClient : null)
+      ),
+      verifySecret: jest.fn(
+        (client: OAuthClient, secret?: string) => secret === undefined
+      ),
+    } as unknown as jest.Mocked<OAuthClientService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: RedisService, useValue: mockRedisService },
+        { provide: ScopeRegistryService, useValue: mockScopeRegistryService },
+        { provide: UserService, useValue: mockUserService },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: SessionService, useValue: mockSessionService },
+        { provide: JwtKeyService, useValue: mockJwtKeyService },
+        { provide: OAuthClientService, useValue: mockOAuthClientService },
+      ],
+    }).compile();
+
+    service = module.get<OidcService>(OidcService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parseAuthorizationRequest', () => {
+    it('should parse valid requests', async () => {
+      await expect(
+        service.parseAuthorizationRequest({
+          ...authorizeParams,
+          scope: 'profile openid profile:write',
+        })
+      ).resolves.toEqual({
+        ...authorizationRequest,
+        scopes: ['openid', 'profile', 'profile:write'],
+        prompt: undefined,
+      });
+    });
+
+    it('should not redirect errors about the client', async () => {
+      const promise = service.parseAuthorizationRequest({
+        ...authorizeParams,
+        client_id: 'unknown-client-id',
+      });
+
+      await expectOAuthError(promise, OAuthErrorCode.INVALID_REQUEST);
+      await expect(getRedirectUrl(promise)).resolves.toBeNull();
+    });
+
+    it('should not redirect to unregistered redirect URIs', async () => {
+      const promise = service.parseAuthorizationRequest({
+        ...authorizeParams,
+        redirect_uri: 'https://attacker.example.com/callback',
+      });
+
+      await expectOAuthError(promise, OAuthErrorCode.INVALID_REQUEST);
+      await expect(getRedirectUrl(promise)).resolves.toBeNull();
+    });
+
+    it('should redirect errors about the request to the client', async () => {
+      const promise = service.parseAuthorizationRequest({
+        ...authorizeParams,
+        response_type: 'token',
+      });
+
+      await expectOAuthError(promise, OAuthErrorCode.UNSUPPORTED_RESPONSE_TYPE);
+
+      const url = new URL((await getRedirectUrl(promise)) as string);
+      expect(url.origin + url.pathname).toEqual(redirectUri);
+      expect(url.searchParams.get('error')).toEqual(
+        'unsupported_response_type'
+      );
+      expect(url.searchParams.get('state')).toEqual('test-state');
+      expect(url.searchParams.get('iss')).toEqual(issuer);
+    });
+
+    it('should require the openid scope', async () => {
+      await expectOAuthError(
+        service.parseAuthorizationRequest({
+          ...authorizeParams,
+          scope: 'profile',
+        }),
+        OAuthErrorCode.INVALID_SCOPE
+      );
+    });
+
+    it('should reject unknown scopes', async () => {
+      await expectOAuthError(
+        service.parseAuthorizationRequest({
+          ...authorizeParams,
+          scope: 'openid admin:everything',
+        }),
+        OAuthErrorCode.INVALID_SCOPE
+      );
+    });
+
+    it('should reject API scopes the client is not allowed to request', async () => {
+      mockOAuthClientService.findById.mockResolvedValueOnce({
+        ...mockClient,
+        allowedScopes: [],
+      });
+
+      await expectOAuthError(
+        service.parseAuthorizationRequest({
+          ...authorizeParams,
+          scope: 'openid profile:write',
+        }),
+        OAuthErrorCode.INVALID_SCOPE
+      );
+    });
+
+    it('should require PKCE with S256', async () => {
+      await expectOAuthError(
+        service.parseAuthorizationRequest({
+          ...authorizeParams,
+          code_challenge_method: 'plain',
+        }),
+        OAuthErrorCode.INVALID_REQUEST
+      );
+      await expectOAuthError(
+        service.parseAuthorizationRequest({
+          ...authorizeParams,
+          code_challenge: undefined,
+        }),
+        OAuthErrorCode.INVALID_REQUEST
+      );
+    });
+
+    it('should fail when access tokens are signed with HS256', async () => {
+      mockJwtKeyService.getAlgorithm.mockReturnValue('HS256');
+
+      await expectOAuthError(
+        service.parseAuthorizationRequest(authorizeParams),
+        OAuthErrorCode.SERVER_ERROR
+      );
+    });
+  });
+
+  describe('getLoginUrl', () => {
+    it('should send users to the login page', () => {
+      const returnTo = `${issuer}/oauth/authorize?client_id=${mockClient.id}`;
+
+      const url = new URL(service.getLoginUrl(authorizationRequest, returnTo));
+
+      expect(url.origin + url.pathname).toEqual(
+        'https://app.example.com/login'
+      );
+      expect(url.searchParams.get('return_to')).toEqual(returnTo);
+    });
+
+    it('should not prompt users when the client asked not to', () => {
+      const getLoginUrl = () =>
+        service.getLoginUrl(
+          { ...authorizationRequest, prompt: 'none' },
+          issuer
+        );
+
+      expect(getLoginUrl).toThrow(OAuthException);
+      try {
+        getLoginUrl();
+      } catch (e) {
+        expect((e as OAuthException).error).toEqual(
+          OAuthErrorCode.LOGIN_REQUIRED
+        );
+      }
+    });
+  });
+
+  describe('authorize', () => {
+    it('should store a code and redirect to the client with it', async () => {
+      const url = new URL(
+        await service.authorize(authorizationRequest, mockUser, mockSession)
+      );
+      const code = url.searchParams.get('code') as string;
+
+      expect(url.origin + url.pathname).toEqual(redirectUri);
+      expect(url.searchParams.get('state')).toEqual('test-state');
+      expect(url.searchParams.get('iss')).toEqual(issuer);
+      expect(mockRedisService.set).toHaveBeenCalledWith(
+        `oidc:code:${code}`,
+        JSON.stringify(storedCode),
+        60
+      );
+    });
+
+    it('should only grant the API scopes the session holds', async () => {
+      const request = {
+        ...authorizationRequest,
+        scopes: ['openid', 'profile', 'profile:write'],
+      };
+
+      await service.authorize(request, mockUser, mockSession);
+      await service.authorize(request, mockUser, {
+        ...mockSession,
+        scopes: ['profile:write'],
+      });
+
+      const [[, withoutScope], [, withScope]] = mockRedisService.set.mock
+        .calls as [string, string][];
+      expect((JSON.parse(withoutScope) as { scopes: string[] }).scopes).toEqual(
+        ['openid', 'profile']
+      );
+      expect((JSON.parse(withScope) as { scopes: string[] }).scopes).toEqual([
+        'openid',
+        'profile',
+        'profile:write',
+      ]);
+    });
+
+    it('should refuse sessions of clients', async () => {
+      const promise = service.authorize(authorizationRequest, mockUser, {
+        ...mockSession,
+        clientId: 'other-client-id',
+      });
+
+      await expectOAuthError(promise, OAuthErrorCode.ACCESS_DENIED);
+      await expect(getRedirectUrl(promise)).resolves.toContain(
+        'error=access_denied'
+      );
+      expect(mockRedisService.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticateClient', () => {
+    it('should authenticate public clients by their id', async () => {
+      await expect(
+        service.authenticateClient({ client_id: mockClient.id })
+      ).resolves.toBe(mockClient);
+    });
+
+    it('should accept HTTP Basic credentials', async () => {
+      mockOAuthClientService.verifySecret.mockReturnValue(true);
+      const credentials = Buffer.from(
+        `${mockClient.id}:${encodeURIComponent('secret:with/special')}`
+      ).toString('base64');
+
+      await service.authenticateClient({}, `Basic ${credentials}`);
+
+      expect(mockOAuthClientService.verifySecret).toHaveBeenCalledWith(
+        mockClient,
+        'secret:with/special'
+      );
+    });
+
+    it('should reject unknown clients and wrong secrets', async () => {
+      await expectOAuthError(
+        service.authenticateClient({ client_id: 'unknown-client-id' }),
+        OAuthErrorCode.INVALID_CLIENT
+      );
+      await expectOAuthError(
+        service.authenticateClient({
+          client_id: mockClient.id,
+          client_secret: 'wrong-secret',
+        }),
+        OAuthErrorCode.INVALID_CLIENT
+      );
+    });
+
+    it('should reject malformed HTTP Basic credentials', async () => {
+      const credentials = Buffer.from(`${mockClient.id}:%E0%A4%A`).toString(
+        'base64'
+      );
+
+      await expectOAuthError(
+        service.authenticateClient({}, `Basic ${credentials}`),
+        OAuthErrorCode.INVALID_CLIENT
+      );
+      expect(mockOAuthClientService.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('token', () => {
+    const tokenParams = {
+      grant_type: 'authorization_code',
+      client_id: mockClient.id,
+      code: 'test-code',
+      redirect_uri: redirectUri,
+      code_verifier: codeVerifier,
+    };
+
+    it('should exchange codes for tokens', async () => {
+      await expect(service.token(tokenParams)).resolves.toEqual({
+        access_token: 'access-token',
+        token_type: 'Bearer',
+        expires_in: 900,
+        refresh_token: 'refresh-token',
+        id_token: 'id-token',
+        scope: 'openid profile',
+      });
+
+      expect(mockRedisService.getDelete).toHaveBeenCalledWith(
+        'oidc:code:test-code'
+      );
+      expect(mockAuthService.startSession).toHaveBeenCalledWith(mockUser, {
+        address: mockUser.publicAddress,
+        chainId: 'eip155:1',
+        scopes: ['openid', 'profile'],
+        clientId: mockClient.id,
+      });
+      expect(mockJwtKeyService.signIdToken).toHaveBeenCalledWith(
+        {
+          sub: `eip155:1:${mockUser.publicAddress}`,
+          user_id: mockUser.id,
+          sid: 'client-session-id',
+          auth_time: 1704067200,
+          nonce: 'test-nonce',
+          preferred_username: 'test-user.eth',
+          picture: 'https://example.com/a.png',
+        },
+        { audience: mockClient.id, expiresIn: 60 * 60 * 1000 }
+      );
+    });
+
+    it('should reject expired or already used codes', async () => {
+      mockRedisService.getDelete.mockResolvedValue(null);
+
+      await expectOAuthError(
+        service.token(tokenParams),
+        OAuthErrorCode.INVALID_GRANT
+      );
+      expect(mockAuthService.startSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject codes of other redirect URIs', async () => {
+      await expectOAuthError(
+        service.token({
+          ...tokenParams,
+          redirect_uri: 'https://client.example.com/other',
+        }),
+        OAuthErrorCode.INVALID_GRANT
+      );
+    });
+
+    it('should reject wrong code verifiers', async () => {
+      await expectOAuthError(
+        service.token({ ...tokenParams, code_verifier: 'b'.repeat(43) }),
+        OAuthErrorCode.INVALID_GRANT
+      );
+      expect(mockAuthService.startSession).not.toHaveBeenCalled();
+    });
+
+    it('should refresh tokens of the client', async () => {
+      await expect(
+        service.token({
+          grant_type: 'refresh_token',
+          client_id: mockClient.id,
+          refresh_token: 'refresh-token',
+        })
+      ).resolves.toEqual({
+        access_token: 'new-access-token',
+        token_type: 'Bearer',
+        expires_in: 900,
+        refresh_token: 'new-refresh-token',
+      });
+      expect(mockAuthService.refresh).toHaveBeenCalledWith('refresh-token', {
+        clientId: mockClient.id,
+      });
+    });
+
+    it('should report rejected refresh tokens as invalid grants', async () => {
+      mockAuthService.refresh.mockRejectedValue(
+        new UnauthorizedException('Refresh token not found or expired')
+      );
+
+      await expectOAuthError(
+        service.token({
+          grant_type: 'refresh_token',
+          client_id: mockClient.id,
+          refresh_token: 'refresh-token',
+        }),
+        OAuthErrorCode.INVALID_GRANT
+      );
+    });
+
+    it('should reject other grant types', async () => {
+      await expectOAuthError(
+        service.token({
+          grant_type: 'client_credentials',
+          client_id: mockClient.id,
+        }),
+        OAuthErrorCode.UNSUPPORTED_GRANT_TYPE
+      );
+    });
+  });
+
+  describe('introspect', () => {
+    const confidentialClient = { ...mockClient, secretHash: 'secret-hash' };
+    const introspectParams = {
+      client_id: mockClient.id,
+      client_secret: 'test-client-secret',
+      token: 'access-token',
+    };
+    const accessPayload = {
+      sub: `eip155:1:${mockUser.publicAddress}`,
+      sid: mockSession.id,
+      jti: 'access-token-id',
+      exp: 1704070800,
+    };
+
+    beforeEach(() => {
+      mockOAuthClientService.findById.mockResolvedValue(confidentialClient);
+      mockOAuthClientService.verifySecret.mockReturnValue(true);
+    });
+
+    it('should return the claims of active access tokens', async () => {
+      mockAuthService.inspectToken.mockResolvedValue({
+        type: 'access',
+        payload: accessPayload,
+        session: {
+          ...mockSession,
+          scopes: ['openid', 'profile'],
+          clientId: mockClient.id,
+        },
+      });
+
+      await expect(service.introspect(introspectParams)).resolves.toEqual({
+        ...accessPayload,
+        active: true,
+        scope: 'openid profile',
+        client_id: mockClient.id,
+        token_type: 'Bearer',
+      });
+      expect(mockAuthService.inspectToken).toHaveBeenCalledWith(
+        'access-token',
+        'access'
+      );
+    });
+
+    it('should pass the refresh token hint on', async () => {
+      mockAuthService.inspectToken.mockResolvedValue({
+        type: 'refresh',
+        payload: { ...accessPayload, jti: 'refresh-token-id' },
+        session: mockSession,
+      });
+
+      const result = await service.introspect({
+        ...introspectParams,
+        token: 'refresh-token',
+        token_type_hint: 'refresh_token',
+      });
+
+      expect(mockAuthService.inspectToken).toHaveBeenCalledWith(
+        'refresh-token',
+        'refresh'
+      );
+      expect(result).not.toHaveProperty('token_type');
+      expect(result).not.toHaveProperty('client_id');
+    });
+
+    it('should report invalid or revoked tokens as inactive', async () => {
+      await expect(service.introspect(introspectParams)).resolves.toEqual({
+        active: false,
+      });
+    });
+
+    it('should only let confidential clients introspect tokens', async () => {
+      mockOAuthClientService.findById.mockResolvedValue(mockClient);
+
+      await expectOAuthError(
+        service.introspect(introspectParams),
+        OAuthErrorCode.INVALID_CLIENT
+      );
+      expect(mockAuthService.inspectToken).not.toHaveBeenCalled();
+    });
+
+    it('should require the token parameter', async () => {
+      await expectOAuthError(
+        service.introspect({ ...introspectParams, token: undefined }),
+        OAuthErrorCode.INVALID_REQUEST
+      );
+    });
+  });
+
+  describe('revoke', () => {
+    const revokeParams = { client_id: mockClient.id, token: 'refresh-token' };
+
+    it('should revoke the session of tokens issued to the client', async () => {
+      mockAuthService.inspectToken.mockResolvedValue({
+        type: 'refresh',
+        payload: { sid: mockSession.id, jti: 'refresh-token-id' },
+        session: { ...mockSession, clientId: mockClient.id },
+      });
+
+      await service.revoke(revokeParams);
+
+      expect(mockSessionService.revoke).toHaveBeenCalledWith(mockSession.id);
+    });
+
+    it('should ignore invalid tokens', async () => {
+      await expect(service.revoke(revokeParams)).resolves.toBeUndefined();
+      expect(mockSessionService.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to revoke tokens of other clients', async () => {
+      mockAuthService.inspectToken.mockResolvedValue({
+        type: 'access',
+        payload: { sid: mockSession.id, jti: 'access-token-id' },
+        session: mockSession,
+      });
+
+      await expectOAuthError(
+        service.revoke(revokeParams),
+        OAuthErrorCode.UNAUTHORIZED_CLIENT
+      );
+      expect(mockSessionService.revoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUserInfo', () => {
+    const subject = {
+      sub: `eip155:1:${mockUser.publicAddress}`,
+      user_id: mockUser.id,
+    };
+
+    it('should only return profile claims with the profile scope', () => {
+      expect(service.getUserInfo(mockUser, mockSession, ['openid'])).toEqual(
+        subject
+      );
+      expect(
+        service.getUserInfo(mockUser, mockSession, ['openid', 'profile'])
+      ).toEqual({
+        ...subject,
+        preferred_username: 'test-user.eth',
+        picture: 'https://example.com/a.png',
+      });
+    });
+
+    it('should name the account the session was signed in with', () => {
+      const linkedAddress = '0x1234567890123456789012345678901234567890';
+
+      expect(
+        service.getUserInfo(
+          mockUser,
+          { ...mockSession, address: linkedAddress, chainId: 'eip155:137' },
+          ['openid']
+        )
+      ).toEqual({
+        sub: `eip155:137:${linkedAddress}`,
+        user_id: mockUser.id,
+      });
+    });
+
+    it('should leave out avatars that are not HTTPS URLs', () => {
+      expect(
+        service.getUserInfo(
+          { ...mockUser, avatar: 'ipfs://avatar' },
+          mockSession,
+          ['profile']
+        )
+      ).toEqual({
+        ...subject,
+        preferred_username: 'test-user.eth',
+      });
+    });
+  });
+
+  describe('getDiscoveryDocument', () => {
+    it('should describe the provider', () => {
+      expect(service.getDiscoveryDocument()).toMatchObject({
+        issuer,
+        authorization_endpoint: `${issuer}/oauth/authorize`,
+        token_endpoint: `${issuer}/oauth/token`,
+        introspection_endpoint: `${issuer}/oauth/introspect`,
+        revocation_endpoint: `${issuer}/oauth/revoke`,
+        jwks_uri: `${issuer}/.well-known/jwks.json`,
+        scopes_supported: ['openid', 'profile', 'profile:write'],
+        id_token_signing_alg_values_supported: ['ES256'],
+        code_challenge_methods_supported: ['S256'],
+      });
+    });
+  });
+});
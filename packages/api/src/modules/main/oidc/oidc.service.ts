@@ -0,0 +1,656 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import { OAuthClient, User } from 'generated/prisma';
+import { RedisService } from '@/modules/common/redis/redis.service';
+import { ScopeRegistryService } from '@/modules/common/scopes/scope-registry.service';
+import { UserService } from '@/modules/main/user/user.service';
+import { AuthService } from '@/modules/main/auth/auth.service';
+import { JwtKeyService } from '@/modules/main/auth/keys/jwt-key.service';
+import { formatCaip10Account } from '@/utils';
+import {
+  Session,
+  SessionService,
+} from '@/modules/main/auth/session/session.service';
+import { OAuthClientService } from './clients/oauth-client.service';
+import { OAuthErrorCode, OAuthException } from './oauth.exception';
+
+/**
+ * Scopes defined by OpenID Connect, which clients may request next to the
+ * registered API scopes
+ */
+export const OIDC_SCOPES = ['openid', 'profile'];
+
+const CODE_CHALLENGE_REGEX = /^[A-Za-z0-9._~-]{43,128}$/;
+
+export interface AuthorizationRequest {
+  client: OAuthClient;
+  redirectUri: string;
+  scopes: string[];
+  codeChallenge: string;
+  state?: string;
+  nonce?: string;
+  prompt?: string;
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  scopes: string[];
+  codeChallenge: string;
+  nonce?: string;
+  userId: string;
+  address: string;
+  chainId: string;
+  // Sign-in time of the session the code was issued from, in seconds
+  authTime: number;
+}
+
+function getParam(
+  params: Record<string, unknown>,
+  name: string
+): string | undefined {
+  const value = params[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * OpenID Connect provider for the authorization code flow with PKCE. Users
+ * authenticate with the regular SIWE sign-in, clients get a session of their
+ * own, which users can revoke like any other session
+ */
+@Injectable()
+export class OidcService {
+  private readonly issuer: string;
+  private readonly loginUrl: string | null;
+  private readonly codeTtl: number;
+  private readonly idTokenExpiresIn: number;
+  private readonly accessExpiresIn: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly redisService: RedisService,
+    private readonly scopeRegistryService: ScopeRegistryService,
+    private readonly userService: UserService,
+    private readonly authService: AuthService,
+    private readonly sessionService: SessionService,
+    private readonly jwtKeyService: JwtKeyService,
+    private readonly oauthClientService: OAuthClientService
+  ) {
+    this.issuer = this.configService.getOrThrow<string>('jwt.issuer');
+    this.loginUrl =
+      this.configService.get<string | null>('oidc.loginUrl') ?? null;
+    this.codeTtl = this.configService.getOrThrow<number>('oidc.codeTtl');
+    this.idTokenExpiresIn = this.configService.getOrThrow<number>(
+      'oidc.idTokenExpiresIn'
+    );
+    this.accessExpiresIn = this.configService.getOrThrow<number>(
+      'jwt.accessExpiresIn'
+    );
+  }
+
+  private getCodeKey(code: string): string {
+    return `oidc:code:${code}`;
+  }
+
+  private assertIdTokensSupported() {
+    if (this.jwtKeyService.getAlgorithm() === 'HS256') {
+      throw new OAuthException(
+        OAuthErrorCode.SERVER_ERROR,
+        'OpenID Connect requires an asymmetric JWT_ACCESS_ALGORITHM',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  // The subject is the CAIP-10 account the session was signed in with, like
+  // the sub of its access tokens, the user is named by a claim of its own
+  private getSubjectClaims(
+    user: User,
+    session: Pick<Session, 'chainId' | 'address'>
+  ) {
+    return {
+      sub: formatCaip10Account(session.chainId, session.address),
+      user_id: user.id,
+    };
+  }
+
+  private getProfileClaims(user: User, scopes: string[]) {
+    if (!scopes.includes('profile')) {
+      return {};
+    }
+
+    return {
+      preferred_username: user.username,
+      // ENS avatars may also be NFT or IPFS URIs, which are not pictures
+      // clients can load
+      ...(user.avatar?.startsWith('https://') && { picture: user.avatar }),
+    };
+  }
+
+  /**
+   * Validate an authorization request. Errors about the client or the
+   * redirect URI are shown to the user, all others are sent to the client
+   * @param params - The query parameters of the request
+   * @returns The validated request
+   * @throws OAuthException when the request is invalid
+   */
+  async parseAuthorizationRequest(
+    params: Record<string, unknown>
+  ): Promise<AuthorizationRequest> {
+    this.assertIdTokensSupported();
+
+    const clientId = getParam(params, 'client_id');
+    const client = clientId
+      ? await this.oauthClientService.findById(clientId)
+      : null;
+
+    if (!client) {
+      throw new OAuthException(
+        OAuthErrorCode.INVALID_REQUEST,
+        'Unknown client'
+      );
+    }
+
+    const redirectUri = getParam(params, 'redirect_uri');
+
+    if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+      throw new OAuthException(
+        OAuthErrorCode.INVALID_REQUEST,
+        'Redirect URI is not registered for the client'
+      );
+    }
+
+    const state = getParam(params, 'state');
+    const fail = (error: OAuthErrorCode, description: string) =>
+      new OAuthException(
+        error,
+        description,
+        HttpStatus.BAD_REQUEST,
+        redirectUri,
+        state
+      );
+
+    if (getParam(params, 'response_type') !== 'code') {
+      throw fail(
+        OAuthErrorCode.UNSUPPORTED_RESPONSE_TYPE,
+        'Only the authorization code flow is supported'
+      );
+    }
+
+    const scopes = [
+      ...new Set((getParam(params, 'scope') ?? '').split(' ').filter(Boolean)),
+    ];
+
+    if (!scopes.includes('openid')) {
+      throw fail(OAuthErrorCode.INVALID_SCOPE, 'The openid scope is required');
+    }
+
+    const unknownScope = scopes.find(
+      (scope) =>
+        !OIDC_SCOPES.includes(scope) && !this.scopeRegistryService.has(scope)
+    );
+
+    if (unknownScope) {
+      throw fail(OAuthErrorCode.INVALID_SCOPE, `Unknown scope ${unknownScope}`);
+    }
+
+    const disallowedScope = scopes.find(
+      (scope) =>
+        !OIDC_SCOPES.includes(scope) && !client.allowedScopes.includes(scope)
+    );
+
+    if (disallowedScope) {
+      throw fail(
+        OAuthErrorCode.INVALID_SCOPE,
+        `Scope ${disallowedScope} is not allowed for the client`
+      );
+    }
+
+    const codeChallenge = getParam(params, 'code_challenge');
+
+    if (
+      !codeChallenge ||
+      !CODE_CHALLENGE_REGEX.test(codeChallenge) ||
+      getParam(params, 'code_challenge_method') !== 'S256'
+    ) {
+      throw fail(
+        OAuthErrorCode.INVALID_REQUEST,
+        'PKCE with the S256 method is required'
+      );
+    }
+
+    return {
+      client,
+      redirectUri,
+      scopes: scopes.sort(),
+      codeChallenge,
+      state,
+      nonce: getParam(params, 'nonce'),
+      prompt: getParam(params, 'prompt'),
+    };
+  }
+
+  /**
+   * Get where users that are not signed in are sent to
+   * @param request - The authorization request
+   * @param returnTo - The URL of the authorization request, which the login
+   * page sends the user back to after signing in
+   * @returns The URL of the login page
+   * @throws OAuthException when the client asked not to prompt the user, or no
+   * login page is configured
+   */
+  getLoginUrl(request: AuthorizationRequest, returnTo: string): string {
+    if (request.prompt === 'none' || !this.loginUrl) {
+      throw new OAuthException(
+        OAuthErrorCode.LOGIN_REQUIRED,
+        'The user is not signed in',
+        HttpStatus.BAD_REQUEST,
+        request.redirectUri,
+        request.state
+      );
+    }
+
+    const url = new URL(this.loginUrl);
+    url.searchParams.set('return_to', returnTo);
+
+    return url.toString();
+  }
+
+  /**
+   * Issue an authorization code to the client for a signed-in user. The code
+   * grants the requested API scopes the session holds, so a session cannot
+   * hand out more than it was granted itself
+   * @param request - The authorization request
+   * @param user - The signed-in user
+   * @param session - The session the user is signed in with
+   * @returns The redirect URI with the code attached
+   * @throws OAuthException when the session belongs to a client
+   */
+  async authorize(
+    request: AuthorizationRequest,
+    user: User,
+    session: Session
+  ): Promise<string> {
+    // Tokens issued to clients must not authorize other clients
+    if (session.clientId) {
+      throw new OAuthException(
+        OAuthErrorCode.ACCESS_DENIED,
+        'Sessions of clients cannot authorize clients',
+        HttpStatus.BAD_REQUEST,
+        request.redirectUri,
+        request.state
+      );
+    }
+
+    const code = randomBytes(32).toString('base64url');
+    const authorizationCode: AuthorizationCode = {
+      clientId: request.client.id,
+      redirectUri: request.redirectUri,
+      scopes: request.scopes.filter(
+        (scope) => OIDC_SCOPES.includes(scope) || session.scopes.includes(scope)
+      ),
+      codeChallenge: request.codeChallenge,
+      nonce: request.nonce,
+      userId: user.id,
+      address: session.address,
+      chainId: session.chainId,
+      authTime: Math.floor(new Date(session.createdAt).getTime() / 1000),
+    };
+
+    await this.redisService.set(
+      this.getCodeKey(code),
+      JSON.stringify(authorizationCode),
+      Math.floor(this.codeTtl / 1000)
+    );
+
+    const url = new URL(request.redirectUri);
+    url.searchParams.set('code', code);
+    if (request.state) {
+      url.searchParams.set('state', request.state);
+    }
+    url.searchParams.set('iss', this.issuer);
+
+    return url.toString();
+  }
+
+  /**
+   * Authenticate a client with HTTP Basic credentials or the `client_id` and
+   * `client_secret` parameters. Public clients only send their `client_id`
+   * @param params - The body parameters of the request
+   * @param authorization - The Authorization header
+   * @returns The client
+   * @throws OAuthException when the client is unknown, the secret is wrong or
+   * the credentials are malformed
+   */
+  async authenticateClient(
+    params: Record<string, unknown>,
+    authorization?: string
+  ): Promise<OAuthClient> {
+    let clientId = getParam(params, 'client_id');
+    let clientSecret = getParam(params, 'client_secret');
+
+    if (authorization?.startsWith('Basic ')) {
+      const credentials = Buffer.from(authorization.slice(6), 'base64')
+        .toString()
+        .split(':');
+      // Credentials are form-encoded before they are Base64-encoded
+      try {
+        clientId = decodeURIComponent(credentials[0]);
+        clientSecret = decodeURIComponent(credentials.slice(1).join(':'));
+      } catch {
+        throw new OAuthException(
+          OAuthErrorCode.INVALID_CLIENT,
+          'Malformed client credentials',
+          HttpStatus.UNAUTHORIZED
+        );
+      }
+    }
+
+    const client = clientId
+      ? await this.oauthClientService.findById(clientId)
+      : null;
+
+    if (
+      !client ||
+      !this.oauthClientService.verifySecret(client, clientSecret)
+    ) {
+      throw new OAuthException(
+        OAuthErrorCode.INVALID_CLIENT,
+        'Client authentication failed',
+        HttpStatus.UNAUTHORIZED
+      );
+    }
+
+    return client;
+  }
+
+  /**
+   * Handle a token request
+   * @param params - The body parameters of the request
+   * @param authorization - The Authorization header
+   * @returns The token response
+   * @throws OAuthException when the client or the grant is invalid
+   */
+  async token(params: Record<string, unknown>, authorization?: string) {
+    const client = await this.authenticateClient(params, authorization);
+
+    switch (getParam(params, 'grant_type')) {
+      case 'authorization_code':
+        return this.exchangeCode(client, params);
+      case 'refresh_token':
+        return this.refreshTokens(client, params);
+      default:
+        throw new OAuthException(
+          OAuthErrorCode.UNSUPPORTED_GRANT_TYPE,
+          'Only the authorization_code and refresh_token grants are supported'
+        );
+    }
+  }
+
+  private async exchangeCode(
+    client: OAuthClient,
+    params: Record<string, unknown>
+  ) {
+    this.assertIdTokensSupported();
+
+    const code = getParam(params, 'code');
+    // Codes can only be exchanged once
+    const value = code
+      ? await this.redisService.getDelete(this.getCodeKey(code))
+      : null;
+    const authorizationCode = value
+      ? (JSON.parse(value) as AuthorizationCode)
+      : null;
+
+    if (
+      !authorizationCode ||
+      authorizationCode.clientId !== client.id ||
+      authorizationCode.redirectUri !== getParam(params, 'redirect_uri')
+    ) {
+      throw new OAuthException(
+        OAuthErrorCode.INVALID_GRANT,
+        'Invalid or expired authorization code'
+      );
+    }
+
+    const codeVerifier = getParam(params, 'code_verifier') ?? '';
+    const codeChallenge = createHash('sha256')
+      .update(codeVerifier)
+      .digest('base64url');
+
+    if (codeChallenge !== authorizationCode.codeChallenge) {
+      throw new OAuthException(
+        OAuthErrorCode.INVALID_GRANT,
+        'Invalid code verifier'
+      );
+    }
+
+    const user = await this.userService.findUnique({
+      id: authorizationCode.userId,
+    });
+
+    if (!user) {
+      throw new OAuthException(OAuthErrorCode.INVALID_GRANT, 'User not found');
+    }
+
+    const { session, accessToken, refreshToken } =
+      await this.authService.startSession(user, {
+        address: authorizationCode.address,
+        chainId: authorizationCode.chainId,
+        scopes: authorizationCode.scopes,
+        clientId: client.id,
+      });
+
+    const idToken = await this.jwtKeyService.signIdToken(
+      {
+        ...this.getSubjectClaims(user, session),
+        sid: session.id,
+        auth_time: authorizationCode.authTime,
+        ...(authorizationCode.nonce && { nonce: authorizationCode.nonce }),
+        ...this.getProfileClaims(user, authorizationCode.scopes),
+      },
+      { audience: client.id, expiresIn: this.idTokenExpiresIn }
+    );
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: Math.floor(this.accessExpiresIn / 1000),
+      refresh_token: refreshToken,
+      id_token: idToken,
+      scope: authorizationCode.scopes.join(' '),
+    };
+  }
+
+  private async refreshTokens(
+    client: OAuthClient,
+    params: Record<string, unknown>
+  ) {
+    const refreshToken = getParam(params, 'refresh_token');
+
+    if (!refreshToken) {
+      throw new OAuthException(
+        OAuthErrorCode.INVALID_REQUEST,
+        'The refresh_token parameter is required'
+      );
+    }
+
+    try {
+      const tokens = await this.authService.refresh(refreshToken, {
+        clientId: client.id,
+      });
+
+      return {
+        access_token: tokens.accessToken,
+        token_type: 'Bearer',
+        expires_in: Math.floor(this.accessExpiresIn / 1000),
+        refresh_token: tokens.refreshToken,
+      };
+    } catch (e) {
+      if (e instanceof HttpException) {
+        throw new OAuthException(
+          OAuthErrorCode.INVALID_GRANT,
+          'Invalid refresh token'
+        );
+      }
+      throw e;
+    }
+  }
+
+  private getToken(params: Record<string, unknown>) {
+    const token = getParam(params, 'token');
+
+    if (!token) {
+      throw new OAuthException(
+        OAuthErrorCode.INVALID_REQUEST,
+        'The token parameter is required'
+      );
+    }
+
+    // Unknown hints are ignored, the token is then tried as access token first
+    const typeHint =
+      getParam(params, 'token_type_hint') === 'refresh_token'
+        ? ('refresh' as const)
+        : ('access' as const);
+
+    return { token, typeHint };
+  }
+
+  /**
+   * Handle an RFC 7662 introspection request. Only confidential clients, such
+   * as resource servers, may introspect tokens, but they may introspect the
+   * tokens of every session
+   * @param params - The body parameters of the request
+   * @param authorization - The Authorization header
+   * @returns Whether the token is active, with its claims if it is
+   * @throws OAuthException when the client is not authenticated or the token
+   * parameter is missing
+   */
+  async introspect(params: Record<string, unknown>, authorization?: string) {
+    const client = await this.authenticateClient(params, authorization);
+
+    if (!client.secretHash) {
+      throw new OAuthException(
+        OAuthErrorCode.INVALID_CLIENT,
+        'Only confidential clients can introspect tokens',
+        HttpStatus.UNAUTHORIZED
+      );
+    }
+
+    const { token, typeHint } = this.getToken(params);
+    const inspected = await this.authService.inspectToken(token, typeHint);
+
+    if (!inspected) {
+      return { active: false };
+    }
+
+    const { type, payload, session } = inspected;
+
+    return {
+      ...payload,
+      active: true,
+      // Refresh tokens do not carry the scopes, they are kept in the session
+      scope: session.scopes.join(' '),
+      ...(session.clientId && { client_id: session.clientId }),
+      ...(type === 'access' && { token_type: 'Bearer' }),
+    };
+  }
+
+  /**
+   * Handle an RFC 7009 revocation request. Revoking an access or a refresh
+   * token revokes its whole session, like signing out
+   * @param params - The body parameters of the request
+   * @param authorization - The Authorization header
+   * @throws OAuthException when the client is not authenticated, the token
+   * parameter is missing or the token was issued to another client
+   */
+  async revoke(params: Record<string, unknown>, authorization?: string) {
+    const client = await this.authenticateClient(params, authorization);
+    const { token, typeHint } = this.getToken(params);
+    const inspected = await this.authService.inspectToken(token, typeHint);
+
+    // Invalid tokens are ignored, there is nothing left to revoke
+    if (!inspected) {
+      return;
+    }
+
+    if (inspected.session.clientId !== client.id) {
+      throw new OAuthException(
+        OAuthErrorCode.UNAUTHORIZED_CLIENT,
+        'The token was not issued to the client'
+      );
+    }
+
+    await this.sessionService.revoke(inspected.session.id);
+  }
+
+  /**
+   * Get the claims about a user the access token grants access to
+   * @param user - The user of the access token
+   * @param session - The session of the access token
+   * @param scopes - The scopes of the access token
+   * @returns The UserInfo response
+   */
+  getUserInfo(user: User, session: Session, scopes: string[]) {
+    return {
+      ...this.getSubjectClaims(user, session),
+      ...this.getProfileClaims(user, scopes),
+    };
+  }
+
+  /**
+   * Get the OpenID Provider metadata
+   * @returns The discovery document
+   */
+  getDiscoveryDocument() {
+    return {
+      issuer: this.issuer,
+      authorization_endpoint: `${this.issuer}/oauth/authorize`,
+      token_endpoint: `${this.issuer}/oauth/token`,
+      userinfo_endpoint: `${this.issuer}/oauth/userinfo`,
+      introspection_endpoint: `${this.issuer}/oauth/introspect`,
+      revocation_endpoint: `${this.issuer}/oauth/revoke`,
+      jwks_uri: `${this.issuer}/.well-known/jwks.json`,
+      scopes_supported: [
+        ...OIDC_SCOPES,
+        ...this.scopeRegistryService.list().map((scope) => scope.name),
+      ],
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code', 'refresh_token'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: [
+        this.jwtKeyService.getAlgorithm(),
+      ],
+      token_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+        'none',
+      ],
+      introspection_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+      ],
+      revocation_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+        'none',
+      ],
+      code_challenge_methods_supported: ['S256'],
+      claims_supported: [
+        'sub',
+        'user_id',
+        'iss',
+        'aud',
+        'exp',
+        'iat',
+        'auth_time',
+        'nonce',
+        'sid',
+        'preferred_username',
+        'picture',
+      ],
+      authorization_response_iss_parameter_supported: true,
+    };
+  }
+}
@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { AuthorizedUserProfileService } from './authorized-user-profile.service';
 import { ConfigModule } from '@nestjs/config';
-import { UserService } from '@/modules/main/user/user.service';
+import { UserModule } from '@/modules/main/user/user.module';
+import { AuthEventsModule } from '@/modules/common/auth-events/auth-events.module';
 
 @Module({
-  providers: [AuthorizedUserProfileService, ConfigModule, UserService],
+  imports: [AuthEventsModule, UserModule],
+  providers: [AuthorizedUserProfileService, ConfigModule],
   exports: [AuthorizedUserProfileService],
 })
 export class AuthorizedUserProfileModule {}
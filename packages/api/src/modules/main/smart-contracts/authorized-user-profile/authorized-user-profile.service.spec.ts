@@ -45,17 +45,24 @@ jest.mock('ethers', () => {
 // Import the service AFTER mocking
 import { AuthorizedUserProfileService } from './authorized-user-profile.service';
 import { UserService } from '@/modules/main/user/user.service';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+import { AuthEventsService } from '@/modules/common/auth-events/auth-events.service';
 
 describe('AuthorizedUserProfileService', () => {
   let service: AuthorizedUserProfileService;
   let mockConfigService: jest.Mocked<ConfigService>;
   let mockUserService: jest.Mocked<UserService>;
+  let mockWalletService: jest.Mocked<WalletService>;
+  let mockAuthEventsService: jest.Mocked<AuthEventsService>;
 
   const mockUser: User = {
     id: 'test-user-id',
     publicAddress: '0x1234567890abcdef',
-    nonce: 'test-nonce',
     username: 'test-user',
+    role: 'user',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
   };
@@ -107,6 +114,14 @@ describe('AuthorizedUserProfileService', () => {
       update: jest.fn(),
     } as unknown as jest.Mocked<UserService>;
 
+    mockWalletService = {
+      findUser: jest.fn(),
+    } as unknown as jest.Mocked<WalletService>;
+
+    mockAuthEventsService = {
+      emit: jest.fn(),
+    } as unknown as jest.Mocked<AuthEventsService>;
+
     // Setup config mock responses for service initialization
     mockConfigService.getOrThrow
       .mockReturnValueOnce('http://localhost:8545') // rpcUrl
@@ -133,6 +148,14 @@ describe('AuthorizedUserProfileService', () => {
           provide: UserService,
           useValue: mockUserService,
         },
+        {
+          provide: WalletService,
+          useValue: mockWalletService,
+        },
+        {
+          provide: AuthEventsService,
+          useValue: mockAuthEventsService,
+        },
       ],
     }).compile();
 
@@ -257,9 +280,8 @@ describe('AuthorizedUserProfileService', () => {
       const newUsername = 'updated-username';
       const mockEvent = { log: mockEventLog };
 
-      mockUserService.findUnique
-        .mockResolvedValueOnce(null) // username check
-        .mockResolvedValueOnce(mockUser); // user lookup
+      mockUserService.findUnique.mockResolvedValueOnce(null); // username check
+      mockWalletService.findUser.mockResolvedValueOnce(mockUser);
       mockUserService.update.mockResolvedValue({
         ...mockUser,
         username: newUsername,
@@ -267,13 +289,11 @@ describe('AuthorizedUserProfileService', () => {
 
       await eventListener(userAddress, newUsername, mockEvent);
 
-      expect(mockUserService.findUnique).toHaveBeenCalledTimes(2);
-      expect(mockUserService.findUnique).toHaveBeenNthCalledWith(1, {
+      expect(mockUserService.findUnique).toHaveBeenCalledTimes(1);
+      expect(mockUserService.findUnique).toHaveBeenCalledWith({
         username: newUsername,
       });
-      expect(mockUserService.findUnique).toHaveBeenNthCalledWith(2, {
-        publicAddress: userAddress,
-      });
+      expect(mockWalletService.findUser).toHaveBeenCalledWith(userAddress);
 
       expect(mockUserService.update).toHaveBeenCalledTimes(1);
       expect(mockUserService.update).toHaveBeenCalledWith({
@@ -284,6 +304,45 @@ describe('AuthorizedUserProfileService', () => {
       expect(Logger.log).toHaveBeenCalledWith(
         expect.stringContaining('Username updated for user')
       );
+      expect(mockAuthEventsService.emit).toHaveBeenCalledWith({
+        type: 'username.updated',
+        userId: mockUser.id,
+        address: userAddress,
+        data: {
+          from: mockUser.username,
+          to: newUsername,
+          transactionHash: '0xtxhash',
+          blockNumber: 123,
+        },
+      });
+    });
+
+    it('should update the username for linked wallets other than the primary one', async () => {
+      const userAddress = '0xabcdef1234567890';
+      const newUsername = 'updated-username';
+      const mockEvent = { log: mockEventLog };
+
+      mockUserService.findUnique.mockResolvedValueOnce(null); // username check
+      mockWalletService.findUser.mockResolvedValueOnce(mockUser);
+      mockUserService.update.mockResolvedValue({
+        ...mockUser,
+        username: newUsername,
+      });
+
+      await eventListener(userAddress, newUsername, mockEvent);
+
+      expect(mockWalletService.findUser).toHaveBeenCalledWith(userAddress);
+      expect(mockUserService.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: { username: newUsername },
+      });
+      expect(mockAuthEventsService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'username.updated',
+          userId: mockUser.id,
+          address: userAddress,
+        })
+      );
     });
 
     it('should log error when username is already taken', async () => {
@@ -299,7 +358,9 @@ describe('AuthorizedUserProfileService', () => {
       expect(mockUserService.findUnique).toHaveBeenCalledWith({
         username: newUsername,
       });
+      expect(mockWalletService.findUser).not.toHaveBeenCalled();
       expect(mockUserService.update).not.toHaveBeenCalled();
+      expect(mockAuthEventsService.emit).not.toHaveBeenCalled();
       expect(Logger.error).toHaveBeenCalledWith(
         expect.stringContaining('Username "taken-username" is already taken')
       );
@@ -310,13 +371,12 @@ describe('AuthorizedUserProfileService', () => {
       const newUsername = 'new-username';
       const mockEvent = { log: mockEventLog };
 
-      mockUserService.findUnique
-        .mockResolvedValueOnce(null) // username check
-        .mockResolvedValueOnce(null); // user not found
+      mockUserService.findUnique.mockResolvedValueOnce(null); // username check
+      mockWalletService.findUser.mockResolvedValueOnce(null); // user not found
 
       await eventListener(userAddress, newUsername, mockEvent);
 
-      expect(mockUserService.findUnique).toHaveBeenCalledTimes(2);
+      expect(mockWalletService.findUser).toHaveBeenCalledWith(userAddress);
       expect(mockUserService.update).not.toHaveBeenCalled();
       expect(Logger.error).toHaveBeenCalledWith(
         expect.stringContaining('User not found: 0xnonexistent')
@@ -329,9 +389,8 @@ describe('AuthorizedUserProfileService', () => {
       const mockEvent = { log: mockEventLog };
       const mockError = new Error('Database error');
 
-      mockUserService.findUnique
-        .mockResolvedValueOnce(null) // username check
-        .mockResolvedValueOnce(mockUser); // user lookup
+      mockUserService.findUnique.mockResolvedValueOnce(null); // username check
+      mockWalletService.findUser.mockResolvedValueOnce(mockUser);
       mockUserService.update.mockRejectedValue(mockError);
 
       await eventListener(userAddress, newUsername, mockEvent);
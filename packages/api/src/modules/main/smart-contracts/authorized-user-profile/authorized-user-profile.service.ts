@@ -2,6 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { ethers } from 'ethers';
 import { UserService } from '@/modules/main/user/user.service';
+import { WalletService } from '@/modules/main/user/wallets/wallet.service';
+import { AuthEventsService } from '@/modules/common/auth-events/auth-events.service';
 
 @Injectable()
 export class AuthorizedUserProfileService {
@@ -11,7 +13,9 @@ export class AuthorizedUserProfileService {
 
   constructor(
     private readonly configService: ConfigService,
-    private readonly userService: UserService
+    private readonly userService: UserService,
+    private readonly walletService: WalletService,
+    private readonly authEventsService: AuthEventsService
   ) {
     this.rpcProvider = new ethers.JsonRpcProvider(
       this.configService.getOrThrow<string>(
@@ -55,9 +59,8 @@ export class AuthorizedUserProfileService {
             return;
           }
 
-          const user = await this.userService.findUnique({
-            publicAddress: userAddress,
-          });
+          // JWTs are set for every linked EVM wallet, not only the primary one
+          const user = await this.walletService.findUser(userAddress);
 
           if (!user) {
             Logger.error(`User not found: ${userAddress}`);
@@ -76,6 +79,17 @@ export class AuthorizedUserProfileService {
           Logger.log(
             `Transaction ${eventLog.transactionHash} (block ${eventLog.blockNumber}): Username updated for user "${userAddress}" from "${user.username}" to "${newUsername}"`
           );
+          this.authEventsService.emit({
+            type: 'username.updated',
+            userId: user.id,
+            address: userAddress,
+            data: {
+              from: user.username,
+              to: newUsername,
+              transactionHash: eventLog.transactionHash,
+              blockNumber: eventLog.blockNumber,
+            },
+          });
         } catch (error) {
           Logger.error(`Error processing UsernameUpdated event: ${error}`);
         }
@@ -83,7 +97,10 @@ export class AuthorizedUserProfileService {
     );
   }
 
-  addJwtToContract(address: string, jwt: string) {
+  addJwtToContract(
+    address: string,
+    jwt: string
+  ): Promise<ethers.ContractTransactionResponse> {
     return this.contract.setJwt(address, jwt);
   }
 
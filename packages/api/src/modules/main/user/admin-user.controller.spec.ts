@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Request } from 'express';
+import { User } from 'generated/prisma';
+import { CsrfGuard } from '@/modules/common/guards/csrf.guard';
+import { AdminUserController } from './admin-user.controller';
+import { UserService } from './user.service';
+
+describe('AdminUserController', () => {
+  let controller: AdminUserController;
+  let mockUserService: jest.Mocked<UserService>;
+
+  const mockAdmin: User = {
+    id: 'admin-user-id',
+    publicAddress: '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb',
+    username: 'admin',
+    role: 'admin',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockUser: User = {
+    id: 'test-user-id',
+    publicAddress: '0x1234567890123456789012345678901234567890',
+    username: 'test-user',
+    role: 'user',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockRequest = { user: mockAdmin } as unknown as Request;
+
+  beforeEach(async () => {
+    mockUserService = {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    } as unknown as jest.Mocked<UserService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AdminUserController],
+      providers: [
+        {
+          provide: UserService,
+          useValue: mockUserService,
+        },
+      ],
+    })
+      .overrideGuard(CsrfGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<AdminUserController>(AdminUserController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('updateRole', () => {
+    it('should update the role of the user', async () => {
+      const updatedUser = { ...mockUser, role: 'moderator' as const };
+      mockUserService.findUnique.mockResolvedValue(mockUser);
+      mockUserService.update.mockResolvedValue(updatedUser);
+
+      const result = await controller.updateRole(
+        mockRequest,
+        mockUser.publicAddress,
+        { role: 'moderator' }
+      );
+
+      expect(mockUserService.findUnique).toHaveBeenCalledWith({
+        publicAddress: mockUser.publicAddress,
+      });
+      expect(mockUserService.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: { role: 'moderator' },
+      });
+      expect(result).toEqual(updatedUser);
+    });
+
+    it('should look users up by their checksummed address', async () => {
+      const checksummedAddress = '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb';
+      mockUserService.findUnique.mockResolvedValue({
+        ...mockUser,
+        publicAddress: checksummedAddress,
+      });
+
+      await controller.updateRole(
+        mockRequest,
+        checksummedAddress.toLowerCase(),
+        { role: 'moderator' }
+      );
+
+      expect(mockUserService.findUnique).toHaveBeenCalledWith({
+        publicAddress: checksummedAddress,
+      });
+    });
+
+    it('should reject invalid addresses', async () => {
+      await expect(
+        controller.updateRole(mockRequest, 'invalid', { role: 'admin' })
+      ).rejects.toThrow(new BadRequestException('Invalid address'));
+
+      expect(mockUserService.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for unknown users', async () => {
+      mockUserService.findUnique.mockResolvedValue(null);
+
+      await expect(
+        controller.updateRole(mockRequest, mockUser.publicAddress, {
+          role: 'admin',
+        })
+      ).rejects.toThrow(NotFoundException);
+
+      expect(mockUserService.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let admins change their own role', async () => {
+      mockUserService.findUnique.mockResolvedValue(mockAdmin);
+
+      await expect(
+        controller.updateRole(mockRequest, mockAdmin.publicAddress, {
+          role: 'user',
+        })
+      ).rejects.toThrow(
+        new BadRequestException('Admins cannot change their own role')
+      );
+
+      expect(mockUserService.update).not.toHaveBeenCalled();
+    });
+  });
+});
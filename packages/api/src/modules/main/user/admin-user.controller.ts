@@ -0,0 +1,57 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  NotFoundException,
+  Param,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ethers } from 'ethers';
+import type { Request } from 'express';
+import { Role } from 'generated/prisma';
+import { SessionAuthGuard } from '@/modules/common/guards/session-auth.guard';
+import { RolesGuard } from '@/modules/common/guards/roles.guard';
+import { CsrfGuard } from '@/modules/common/guards/csrf.guard';
+import { Roles } from '@/modules/common/roles/roles.decorator';
+import { UserService } from './user.service';
+import { UpdateRoleDTO } from './dto/update-role.dto';
+
+@Controller('/admin/users')
+@UseGuards(SessionAuthGuard, RolesGuard)
+@Roles(Role.admin)
+export class AdminUserController {
+  constructor(private readonly userService: UserService) {}
+
+  @Put('/:address/role')
+  @UseGuards(CsrfGuard)
+  async updateRole(
+    @Req() req: Request,
+    @Param('address') address: string,
+    @Body() body: UpdateRoleDTO
+  ) {
+    if (!ethers.isAddress(address)) {
+      throw new BadRequestException('Invalid address');
+    }
+
+    // Addresses are stored checksummed, as they appear in SIWE messages
+    const user = await this.userService.findUnique({
+      publicAddress: ethers.getAddress(address),
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    // Keeps the last admin from locking everyone out of the admin routes
+    if (user.id === req.user?.id) {
+      throw new BadRequestException('Admins cannot change their own role');
+    }
+
+    return this.userService.update({
+      where: { id: user.id },
+      data: { role: body.role },
+    });
+  }
+}
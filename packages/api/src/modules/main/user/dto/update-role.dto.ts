@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { Role } from 'generated/prisma';
+
+export class UpdateRoleDTO {
+  @IsEnum(Role)
+  role: Role;
+}
@@ -0,0 +1,114 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { EnsResolverService } from './ens-resolver.service';
+
+describe('EnsResolverService', () => {
+  let service: EnsResolverService;
+
+  const address = '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb';
+
+  const createService = async (config: Record<string, unknown>) => {
+    const mockConfigService = {
+      get: jest.fn((key: string) => config[key]),
+      getOrThrow: jest.fn((key: string) => config[key]),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EnsResolverService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    return module.get<EnsResolverService>(EnsResolverService);
+  };
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.restoreAllMocks();
+  });
+
+  describe('without an RPC URL', () => {
+    beforeEach(async () => {
+      service = await createService({ 'ens.rpcUrl': null, 'ens.chainId': 1 });
+    });
+
+    it('should be disabled', () => {
+      expect(service.isEnabled()).toBe(false);
+    });
+
+    it('should not resolve names', async () => {
+      await expect(service.resolve(address)).resolves.toBeNull();
+    });
+  });
+
+  describe('with an RPC URL', () => {
+    let lookupAddress: jest.SpyInstance;
+    let getResolver: jest.SpyInstance;
+
+    beforeEach(async () => {
+      service = await createService({
+        'ens.rpcUrl': 'http://localhost:8545',
+        'ens.chainId': 31337,
+        'ens.registryAddress': '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+      });
+
+      lookupAddress = jest.spyOn(
+        ethers.JsonRpcProvider.prototype,
+        'lookupAddress'
+      );
+      getResolver = jest.spyOn(ethers.JsonRpcProvider.prototype, 'getResolver');
+    });
+
+    it('should be enabled', () => {
+      expect(service.isEnabled()).toBe(true);
+    });
+
+    it('should resolve the primary name and its avatar', async () => {
+      const getText = jest.fn().mockResolvedValue('https://example.com/a.png');
+      lookupAddress.mockResolvedValue('test-user.eth');
+      getResolver.mockResolvedValue({ getText });
+
+      await expect(service.resolve(address)).resolves.toEqual({
+        name: 'test-user.eth',
+        avatar: 'https://example.com/a.png',
+      });
+      expect(lookupAddress).toHaveBeenCalledWith(address);
+      expect(getResolver).toHaveBeenCalledWith('test-user.eth');
+      expect(getText).toHaveBeenCalledWith('avatar');
+    });
+
+    it('should resolve names without an avatar', async () => {
+      lookupAddress.mockResolvedValue('test-user.eth');
+      getResolver.mockResolvedValue({
+        getText: jest.fn().mockResolvedValue(null),
+      });
+
+      await expect(service.resolve(address)).resolves.toEqual({
+        name: 'test-user.eth',
+        avatar: null,
+      });
+    });
+
+    it('should resolve addresses without a primary name', async () => {
+      lookupAddress.mockResolvedValue(null);
+
+      await expect(service.resolve(address)).resolves.toEqual({
+        name: null,
+        avatar: null,
+      });
+      expect(getResolver).not.toHaveBeenCalled();
+    });
+
+    it('should not look up addresses of other chains', async () => {
+      await expect(
+        service.resolve('7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv')
+      ).resolves.toEqual({ name: null, avatar: null });
+      expect(lookupAddress).not.toHaveBeenCalled();
+    });
+  });
+});
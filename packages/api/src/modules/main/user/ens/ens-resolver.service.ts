@@ -0,0 +1,80 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+
+export interface EnsProfile {
+  name: string | null;
+  avatar: string | null;
+}
+
+@Injectable()
+export class EnsResolverService implements OnModuleDestroy {
+  private readonly provider: ethers.JsonRpcProvider | null;
+
+  constructor(private readonly configService: ConfigService) {
+    this.provider = this.createProvider();
+  }
+
+  private createProvider(): ethers.JsonRpcProvider | null {
+    const rpcUrl = this.configService.get<string | null>('ens.rpcUrl');
+
+    if (!rpcUrl) {
+      return null;
+    }
+
+    const chainId = this.configService.getOrThrow<number>('ens.chainId');
+    const registryAddress = this.configService.get<string | null>(
+      'ens.registryAddress'
+    );
+    // Chains known to ethers come with the official registry, local
+    // deployments, e.g. on Anvil, bring their own
+    const network = registryAddress
+      ? new ethers.Network('ens', chainId).attachPlugin(
+          new ethers.EnsPlugin(registryAddress, chainId)
+        )
+      : ethers.Network.from(chainId);
+
+    return new ethers.JsonRpcProvider(rpcUrl, network, {
+      staticNetwork: network,
+    });
+  }
+
+  /**
+   * Whether an ENS RPC URL is configured
+   */
+  isEnabled(): boolean {
+    return this.provider !== null;
+  }
+
+  /**
+   * Get the primary ENS name of an address and its avatar text record. The
+   * name is only returned if it resolves back to the address
+   * @param address - The wallet address
+   * @returns The name and avatar, or null if ENS is not configured
+   */
+  async resolve(address: string): Promise<EnsProfile | null> {
+    if (!this.provider) {
+      return null;
+    }
+
+    // Addresses of other chains, e.g. Solana, have no ENS names
+    if (!ethers.isAddress(address)) {
+      return { name: null, avatar: null };
+    }
+
+    const name = await this.provider.lookupAddress(address);
+
+    if (!name) {
+      return { name: null, avatar: null };
+    }
+
+    const resolver = await this.provider.getResolver(name);
+    const avatar = (await resolver?.getText('avatar')) ?? null;
+
+    return { name, avatar };
+  }
+
+  onModuleDestroy() {
+    this.provider?.destroy();
+  }
+}
@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Logger } from '@nestjs/common';
+import { User } from 'generated/prisma';
+import { RedisService } from '@/modules/common/redis/redis.service';
+import { UserService } from '../user.service';
+import { EnsResolverService } from './ens-resolver.service';
+import { EnsSyncService } from './ens-sync.service';
+
+describe('EnsSyncService', () => {
+  let service: EnsSyncService;
+  let mockUserService: jest.Mocked<UserService>;
+  let mockEnsResolverService: jest.Mocked<EnsResolverService>;
+  let mockRedisService: jest.Mocked<RedisService>;
+
+  const address = '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb';
+
+  const mockUser: User = {
+    id: 'test-user-id',
+    publicAddress: address,
+    username: `user-${address}`,
+    role: 'user',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const getUpdatedData = () => mockUserService.update.mock.calls[0][0].data;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-02T00:00:00.000Z') });
+    jest.spyOn(Logger, 'warn').mockImplementation();
+
+    mockUserService = {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      update: jest.fn((params: { data: Partial<User> }) =>
+        Promise.resolve({ ...mockUser, ...params.data })
+      ),
+    } as unknown as jest.Mocked<UserService>;
+
+    mockEnsResolverService = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      resolve: jest.fn().mockResolvedValue({
+        name: 'test-user.eth',
+        avatar: 'https://example.com/a.png',
+      }),
+    } as unknown as jest.Mocked<EnsResolverService>;
+
+    mockRedisService = {
+      setIfNotExists: jest.fn().mockResolvedValue(true),
+    } as unknown as jest.Mocked<RedisService>;
+
+    const mockConfigService = {
+      getOrThrow: jest.fn().mockReturnValue(24 * 60 * 60 * 1000),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EnsSyncService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+        {
+          provide: UserService,
+          useValue: mockUserService,
+        },
+        {
+          provide: EnsResolverService,
+          useValue: mockEnsResolverService,
+        },
+        {
+          provide: RedisService,
+          useValue: mockRedisService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<EnsSyncService>(EnsSyncService);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('refresh', () => {
+    it('should store the ENS name and avatar', async () => {
+      const result = await service.refresh(mockUser);
+
+      expect(mockEnsResolverService.resolve).toHaveBeenCalledWith(address);
+      expect(mockUserService.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          ensName: 'test-user.eth',
+          avatar: 'https://example.com/a.png',
+          ensResolvedAt: new Date('2024-01-02T00:00:00.000Z'),
+          username: 'test-user.eth',
+        },
+      });
+      expect(result.username).toEqual('test-user.eth');
+    });
+
+    it('should follow changes of the ENS name', async () => {
+      await service.refresh({
+        ...mockUser,
+        username: 'old-name.eth',
+        ensName: 'old-name.eth',
+      });
+
+      expect(getUpdatedData()).toMatchObject({ username: 'test-user.eth' });
+    });
+
+    it('should keep custom usernames', async () => {
+      await service.refresh({ ...mockUser, username: 'custom-name' });
+
+      expect(getUpdatedData()).toMatchObject({
+        ensName: 'test-user.eth',
+        username: 'custom-name',
+      });
+    });
+
+    it('should fall back to the placeholder when the ENS name is gone', async () => {
+      mockEnsResolverService.resolve.mockResolvedValue({
+        name: null,
+        avatar: null,
+      });
+
+      await service.refresh({
+        ...mockUser,
+        username: 'old-name.eth',
+        ensName: 'old-name.eth',
+      });
+
+      expect(getUpdatedData()).toMatchObject({
+        ensName: null,
+        username: `user-${address}`,
+      });
+    });
+
+    it('should not take ENS names other users picked as username', async () => {
+      mockUserService.findUnique.mockResolvedValue({
+        ...mockUser,
+        id: 'other-user-id',
+        username: 'test-user.eth',
+      });
+
+      await service.refresh(mockUser);
+
+      expect(mockUserService.findUnique).toHaveBeenCalledWith({
+        username: 'test-user.eth',
+      });
+      expect(getUpdatedData()).toMatchObject({ username: mockUser.username });
+    });
+
+    it('should leave users as is when ENS is not configured', async () => {
+      mockEnsResolverService.resolve.mockResolvedValue(null);
+
+      await expect(service.refresh(mockUser)).resolves.toBe(mockUser);
+      expect(mockUserService.update).not.toHaveBeenCalled();
+    });
+
+    it('should leave users as is when resolution fails', async () => {
+      mockEnsResolverService.resolve.mockRejectedValue(new Error('timeout'));
+
+      await expect(service.refresh(mockUser)).resolves.toBe(mockUser);
+      expect(mockUserService.update).not.toHaveBeenCalled();
+      expect(Logger.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('sweep', () => {
+    it('should refresh users that are due', async () => {
+      mockUserService.findMany.mockResolvedValue([mockUser]);
+
+      await service.sweep();
+
+      expect(mockUserService.findMany).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { ensResolvedAt: null },
+            { ensResolvedAt: { lt: new Date('2024-01-01T00:00:00.000Z') } },
+          ],
+        },
+        orderBy: { ensResolvedAt: { sort: 'asc', nulls: 'first' } },
+        take: 100,
+      });
+      expect(mockUserService.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip sweeps another instance already runs', async () => {
+      mockRedisService.setIfNotExists.mockResolvedValue(false);
+
+      await service.sweep();
+
+      expect(mockUserService.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should sweep periodically once ENS is configured', async () => {
+      service.onModuleInit();
+
+      await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+      expect(mockRedisService.setIfNotExists).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not sweep when ENS is not configured', async () => {
+      mockEnsResolverService.isEnabled.mockReturnValue(false);
+      service.onModuleInit();
+
+      await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+      expect(mockRedisService.setIfNotExists).not.toHaveBeenCalled();
+    });
+  });
+});
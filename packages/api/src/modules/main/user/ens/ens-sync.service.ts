@@ -0,0 +1,147 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User } from 'generated/prisma';
+import { RedisService } from '@/modules/common/redis/redis.service';
+import { UserService } from '../user.service';
+import { getPlaceholderUsername } from '../username';
+import { EnsProfile, EnsResolverService } from './ens-resolver.service';
+
+const ENS_SWEEP_KEY = 'ens:sweep';
+const ENS_SWEEP_INTERVAL = 60 * 60 * 1000;
+const ENS_SWEEP_BATCH_SIZE = 100;
+
+/**
+ * Keeps the ENS names and avatars of users up to date. Users whose username
+ * is still the placeholder or their previous ENS name get their current ENS
+ * name as username, custom usernames are never replaced
+ */
+@Injectable()
+export class EnsSyncService implements OnModuleInit, OnModuleDestroy {
+  private readonly refreshInterval: number;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly userService: UserService,
+    private readonly ensResolverService: EnsResolverService,
+    private readonly redisService: RedisService
+  ) {
+    this.refreshInterval = this.configService.getOrThrow<number>(
+      'ens.refreshInterval'
+    );
+  }
+
+  onModuleInit() {
+    if (!this.ensResolverService.isEnabled()) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(
+      () =>
+        void this.sweep().catch((error) =>
+          Logger.error('Failed to refresh ENS names', error)
+        ),
+      ENS_SWEEP_INTERVAL
+    );
+    // Sweeping must not keep the process alive on shutdown
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  /**
+   * Resolve the ENS name and avatar of a user and store them
+   * @param user - The user to refresh
+   * @returns The updated user, or the user as is if resolution failed or ENS
+   * is not configured
+   */
+  async refresh(user: User): Promise<User> {
+    try {
+      const profile = await this.ensResolverService.resolve(user.publicAddress);
+
+      if (!profile) {
+        return user;
+      }
+
+      return await this.userService.update({
+        where: { id: user.id },
+        data: {
+          ensName: profile.name,
+          avatar: profile.avatar,
+          ensResolvedAt: new Date(),
+          username: await this.getUsername(user, profile),
+        },
+      });
+    } catch (error) {
+      Logger.warn(
+        `Failed to resolve the ENS name of ${user.publicAddress}: ${(error as Error).message}`
+      );
+      return user;
+    }
+  }
+
+  private async getUsername(user: User, profile: EnsProfile): Promise<string> {
+    const placeholder = getPlaceholderUsername(user.publicAddress);
+    const isDefaultUsername =
+      user.username === placeholder || user.username === user.ensName;
+
+    if (!isDefaultUsername) {
+      return user.username;
+    }
+
+    if (!profile.name) {
+      return placeholder;
+    }
+
+    // Another user may have picked the name as custom username
+    const owner = await this.userService.findUnique({
+      username: profile.name,
+    });
+
+    return owner && owner.id !== user.id ? user.username : profile.name;
+  }
+
+  /**
+   * Refresh users whose ENS data is older than the refresh interval. Only one
+   * instance sweeps per interval
+   */
+  async sweep() {
+    const acquired = await this.redisService.setIfNotExists(
+      ENS_SWEEP_KEY,
+      new Date().toISOString(),
+      Math.floor(ENS_SWEEP_INTERVAL / 1000)
+    );
+
+    if (!acquired) {
+      return;
+    }
+
+    const users = await this.userService.findMany({
+      where: {
+        OR: [
+          { ensResolvedAt: null },
+          {
+            ensResolvedAt: {
+              lt: new Date(Date.now() - this.refreshInterval),
+            },
+          },
+        ],
+      },
+      orderBy: { ensResolvedAt: { sort: 'asc', nulls: 'first' } },
+      take: ENS_SWEEP_BATCH_SIZE,
+    });
+
+    for (const user of users) {
+      await this.refresh(user);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Logger } from '@nestjs/common';
+import { RoleBootstrapService } from './role-bootstrap.service';
+import { UserService } from './user.service';
+
+describe('RoleBootstrapService', () => {
+  let service: RoleBootstrapService;
+  let mockUserService: jest.Mocked<UserService>;
+
+  const adminAddress = '0xAb16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb';
+
+  const createService = async (bootstrapAdmins: string[]) => {
+    const mockConfigService = {
+      getOrThrow: jest.fn().mockReturnValue(bootstrapAdmins),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoleBootstrapService,
+        {
+          provide: UserService,
+          useValue: mockUserService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    return module.get<RoleBootstrapService>(RoleBootstrapService);
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger, 'log').mockImplementation();
+
+    mockUserService = {
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    } as unknown as jest.Mocked<UserService>;
+
+    service = await createService([adminAddress]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('onApplicationBootstrap', () => {
+    it('should make existing bootstrap admins admins', async () => {
+      await service.onApplicationBootstrap();
+
+      expect(mockUserService.updateMany).toHaveBeenCalledWith({
+        where: {
+          wallets: {
+            some: {
+              address: {
+                in: [adminAddress.toLowerCase()],
+                mode: 'insensitive',
+              },
+            },
+          },
+          role: { not: 'admin' },
+        },
+        data: { role: 'admin' },
+      });
+    });
+
+    it('should do nothing without bootstrap admins', async () => {
+      service = await createService([]);
+
+      await service.onApplicationBootstrap();
+
+      expect(mockUserService.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getInitialRole', () => {
+    it('should return the admin role for bootstrap admins', () => {
+      expect(service.getInitialRole(adminAddress.toLowerCase())).toBe('admin');
+    });
+
+    it('should return the user role for other addresses', () => {
+      expect(
+        service.getInitialRole('0x1234567890123456789012345678901234567890')
+      ).toBe('user');
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Role } from 'generated/prisma';
+import { UserService } from './user.service';
+
+/**
+ * Makes the wallets in ADMIN_ADDRESSES admins, both users that already exist
+ * on startup and users that sign in for the first time
+ */
+@Injectable()
+export class RoleBootstrapService implements OnApplicationBootstrap {
+  private readonly bootstrapAdmins: string[];
+
+  constructor(
+    private readonly userService: UserService,
+    private readonly configService: ConfigService
+  ) {
+    this.bootstrapAdmins = this.configService
+      .getOrThrow<string[]>('roles.bootstrapAdmins')
+      .map((address) => address.toLowerCase());
+  }
+
+  async onApplicationBootstrap() {
+    if (!this.bootstrapAdmins.length) {
+      return;
+    }
+
+    const { count } = await this.userService.updateMany({
+      where: {
+        // Bootstrap admins may also be linked wallets of a user
+        wallets: {
+          some: {
+            address: { in: this.bootstrapAdmins, mode: 'insensitive' },
+          },
+        },
+        role: { not: Role.admin },
+      },
+      data: { role: Role.admin },
+    });
+
+    if (count) {
+      Logger.log(`Granted the admin role to ${count} bootstrap admin(s)`);
+    }
+  }
+
+  /**
+   * Get the role of a user that signs in for the first time
+   * @param address - The wallet address of the user
+   * @returns The admin role for bootstrap admins, the user role otherwise
+   */
+  getInitialRole(address: string): Role {
+    return this.bootstrapAdmins.includes(address.toLowerCase())
+      ? Role.admin
+      : Role.user;
+  }
+}
@@ -5,6 +5,7 @@ import { UserService } from './user.service';
 import { UpdateUserDTO } from './dto/update-user.dto';
 import { Request } from 'express';
 import { User } from 'generated/prisma';
+import { CsrfGuard } from '@/modules/common/guards/csrf.guard';
 
 describe('UserController', () => {
   let controller: UserController;
@@ -14,8 +15,11 @@ describe('UserController', () => {
   const mockUser: User = {
     id: 'test-user-id',
     publicAddress: '0x1234567890abcdef',
-    nonce: 'test-nonce',
     username: 'test-user',
+    role: 'user',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
   };
@@ -33,7 +37,10 @@ describe('UserController', () => {
           useValue: mockUserService,
         },
       ],
-    }).compile();
+    })
+      .overrideGuard(CsrfGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
 
     controller = module.get<UserController>(UserController);
 
@@ -58,8 +65,11 @@ describe('UserController', () => {
       const customUser: User = {
         id: 'custom-user-id',
         publicAddress: '0xabcdef1234567890',
-        nonce: 'custom-nonce',
         username: 'custom-user',
+        role: 'user',
+        ensName: null,
+        avatar: null,
+        ensResolvedAt: null,
         createdAt: new Date('2024-02-01'),
         updatedAt: new Date('2024-02-01'),
       };
@@ -9,20 +9,31 @@ import {
 } from '@nestjs/common';
 import { UserService } from './user.service';
 import { JwtAuthGuard } from '@/modules/common/guards/jwt-auth.guard';
+import { CsrfGuard } from '@/modules/common/guards/csrf.guard';
+import { ScopesGuard } from '@/modules/common/guards/scopes.guard';
+import { FreshAuthGuard } from '@/modules/common/guards/fresh-auth.guard';
+import { RequireScopes } from '@/modules/common/scopes/require-scopes.decorator';
+import { RequireFreshAuth } from '@/modules/common/fresh-auth/require-fresh-auth.decorator';
 import type { Request } from 'express';
 import { UpdateUserDTO } from './dto/update-user.dto';
 
 @Controller('/user')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ScopesGuard)
 export class UserController {
   constructor(private readonly userService: UserService) {}
 
   @Get('/profile')
+  @RequireScopes('profile:read')
   async me(@Req() req: Request) {
     return req.user;
   }
 
+  // A stolen access token alone must not rename the account, changes need a
+  // wallet signature from the last 5 minutes, see POST /auth/re-authenticate
   @Put('/profile')
+  @RequireScopes('profile:write')
+  @RequireFreshAuth(5 * 60)
+  @UseGuards(CsrfGuard, FreshAuthGuard)
   async update(@Req() req: Request, @Body() body: UpdateUserDTO) {
     if (!req.user) {
       throw new UnauthorizedException('User not found');
@@ -1,10 +1,43 @@
-import { Module } from '@nestjs/common';
+import { Module, OnModuleInit } from '@nestjs/common';
 import { UserService } from './user.service';
 import { UserController } from './user.controller';
+import { AdminUserController } from './admin-user.controller';
+import { RoleBootstrapService } from './role-bootstrap.service';
+import { EnsResolverService } from './ens/ens-resolver.service';
+import { EnsSyncService } from './ens/ens-sync.service';
+import { WalletService } from './wallets/wallet.service';
+import { CsrfModule } from '@/modules/common/csrf/csrf.module';
+import { ScopesModule } from '@/modules/common/scopes/scopes.module';
+import { ScopeRegistryService } from '@/modules/common/scopes/scope-registry.service';
+import { RedisModule } from '@/modules/common/redis/redis.module';
 
 @Module({
-  controllers: [UserController],
-  providers: [UserService],
-  exports: [UserService],
+  imports: [CsrfModule, ScopesModule, RedisModule],
+  controllers: [UserController, AdminUserController],
+  providers: [
+    UserService,
+    RoleBootstrapService,
+    EnsResolverService,
+    EnsSyncService,
+    WalletService,
+  ],
+  exports: [UserService, RoleBootstrapService, EnsSyncService, WalletService],
 })
-export class UserModule {}
+export class UserModule implements OnModuleInit {
+  constructor(private readonly scopeRegistryService: ScopeRegistryService) {}
+
+  onModuleInit() {
+    this.scopeRegistryService.register(
+      {
+        name: 'profile:read',
+        description: 'Read your profile',
+        default: true,
+      },
+      {
+        name: 'profile:write',
+        description: 'Update your profile',
+        default: true,
+      }
+    );
+  }
+}
@@ -1,7 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { UserService } from './user.service';
 import { OrmService } from '@/modules/common/orm/orm.service';
-import { User, Prisma } from 'generated/prisma';
+import { User, Prisma, Role } from 'generated/prisma';
 import { AuthorizedUserProfileService } from '../smart-contracts/authorized-user-profile/authorized-user-profile.service';
 
 describe('UserService', () => {
@@ -11,7 +11,9 @@ describe('UserService', () => {
       findUnique: jest.Mock;
       findMany: jest.Mock;
       create: jest.Mock;
+      upsert: jest.Mock;
       update: jest.Mock;
+      updateMany: jest.Mock;
       delete: jest.Mock;
     };
   };
@@ -19,8 +21,11 @@ describe('UserService', () => {
   const mockUser: User = {
     id: 'test-user-id',
     publicAddress: '0x1234567890abcdef',
-    nonce: 'test-nonce',
     username: 'test-user',
+    role: 'user',
+    ensName: null,
+    avatar: null,
+    ensResolvedAt: null,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
   };
@@ -31,7 +36,9 @@ describe('UserService', () => {
         findUnique: jest.fn(),
         findMany: jest.fn(),
         create: jest.fn(),
+        upsert: jest.fn(),
         update: jest.fn(),
+        updateMany: jest.fn(),
         delete: jest.fn(),
       },
     };
@@ -145,7 +152,6 @@ describe('UserService', () => {
     it('should create and return a new user', async () => {
       const inputData: Prisma.UserCreateInput = {
         publicAddress: mockUser.publicAddress,
-        nonce: mockUser.nonce,
         username: mockUser.username,
       };
       const expectedUser = mockUser;
@@ -161,13 +167,38 @@ describe('UserService', () => {
     });
   });
 
+  describe('upsert', () => {
+    it('should upsert and return the user', async () => {
+      const inputParams = {
+        where: { publicAddress: mockUser.publicAddress },
+        create: {
+          publicAddress: mockUser.publicAddress,
+          username: mockUser.username,
+        },
+        update: {},
+      };
+      const expectedUser = mockUser;
+      mockOrmService.user.upsert.mockResolvedValue(expectedUser);
+
+      const actualUser = await service.upsert(inputParams);
+
+      expect(actualUser).toBe(expectedUser);
+      expect(mockOrmService.user.upsert).toHaveBeenCalledTimes(1);
+      expect(mockOrmService.user.upsert).toHaveBeenCalledWith({
+        where: inputParams.where,
+        create: inputParams.create,
+        update: inputParams.update,
+      });
+    });
+  });
+
   describe('update', () => {
     it('should update and return the user', async () => {
       const inputParams = {
         where: { publicAddress: mockUser.publicAddress },
-        data: { nonce: 'new-nonce' },
+        data: { username: 'new-username' },
       };
-      const expectedUser = { ...mockUser, nonce: 'new-nonce' };
+      const expectedUser = { ...mockUser, username: 'new-username' };
       mockOrmService.user.update.mockResolvedValue(expectedUser);
 
       const actualUser = await service.update(inputParams);
@@ -181,6 +212,24 @@ describe('UserService', () => {
     });
   });
 
+  describe('updateMany', () => {
+    it('should update the matching users and return the count', async () => {
+      const inputParams = {
+        where: { role: { not: Role.admin } },
+        data: { role: Role.admin },
+      };
+      mockOrmService.user.updateMany.mockResolvedValue({ count: 2 });
+
+      const result = await service.updateMany(inputParams);
+
+      expect(result).toEqual({ count: 2 });
+      expect(mockOrmService.user.updateMany).toHaveBeenCalledWith({
+        data: inputParams.data,
+        where: inputParams.where,
+      });
+    });
+  });
+
   describe('delete', () => {
     it('should delete and return the user', async () => {
       const inputWhere: Prisma.UserWhereUniqueInput = {
@@ -37,6 +37,19 @@ export class UserService {
     });
   }
 
+  async upsert(params: {
+    where: Prisma.UserWhereUniqueInput;
+    create: Prisma.UserCreateInput;
+    update: Prisma.UserUpdateInput;
+  }): Promise<User> {
+    const { where, create, update } = params;
+    return this.prisma.user.upsert({
+      where,
+      create,
+      update,
+    });
+  }
+
   async update(params: {
     where: Prisma.UserWhereUniqueInput;
     data: Prisma.UserUpdateInput;
@@ -48,6 +61,17 @@ export class UserService {
     });
   }
 
+  async updateMany(params: {
+    where: Prisma.UserWhereInput;
+    data: Prisma.UserUpdateManyMutationInput;
+  }): Promise<Prisma.BatchPayload> {
+    const { where, data } = params;
+    return this.prisma.user.updateMany({
+      data,
+      where,
+    });
+  }
+
   async delete(where: Prisma.UserWhereUniqueInput): Promise<User> {
     return this.prisma.user.delete({
       where,
@@ -0,0 +1,8 @@
+/**
+ * Get the username users start with until they pick one or have an ENS name
+ * @param address - The wallet address of the user
+ * @returns The placeholder username
+ */
+export function getPlaceholderUsername(address: string): string {
+  return `user-${address}`;
+}
@@ -0,0 +1,254 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Prisma, User, Wallet } from 'generated/prisma';
+import { OrmService } from '@/modules/common/orm/orm.service';
+import { EnsSyncService } from '../ens/ens-sync.service';
+import { WalletService } from './wallet.service';
+
+describe('WalletService', () => {
+  let service: WalletService;
+  let mockEnsSyncService: jest.Mocked<EnsSyncService>;
+  let mockTx: {
+    wallet: { findMany: jest.Mock; delete: jest.Mock };
+    user: { update: jest.Mock };
+  };
+  let mockOrmService: {
+    wallet: { findUnique: jest.Mock; findMany: jest.Mock; create: jest.Mock };
+    $transaction: jest.Mock;
+  };
+
+  const primaryAddress = '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb';
+  const secondAddress = '0x71C7656EC7ab88b098defB751B7401B5f6d8976F';
+
+  const mockUser: User = {
+    id: 'test-user-id',
+    publicAddress: primaryAddress,
+    username: `user-${primaryAddress}`,
+    role: 'user',
+    ensName: 'test-user.eth',
+    avatar: null,
+    ensResolvedAt: new Date('2024-01-01'),
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const primaryWallet: Wallet = {
+    id: 'primary-wallet-id',
+    namespace: 'eip155',
+    address: primaryAddress,
+    userId: mockUser.id,
+    createdAt: new Date('2024-01-01'),
+  };
+
+  const secondWallet: Wallet = {
+    id: 'second-wallet-id',
+    namespace: 'eip155',
+    address: secondAddress,
+    userId: mockUser.id,
+    createdAt: new Date('2024-01-02'),
+  };
+
+  beforeEach(async () => {
+    mockTx = {
+      wallet: {
+        findMany: jest.fn().mockResolvedValue([primaryWallet, secondWallet]),
+        delete: jest.fn(),
+      },
+      user: {
+        update: jest.fn((params: { data: Partial<User> }) =>
+          Promise.resolve({ ...mockUser, ...params.data })
+        ),
+      },
+    };
+
+    mockOrmService = {
+      wallet: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([primaryWallet, secondWallet]),
+        create: jest.fn().mockResolvedValue(secondWallet),
+      },
+      $transaction: jest.fn((callback: (tx: typeof mockTx) => unknown) =>
+        callback(mockTx)
+      ),
+    };
+
+    mockEnsSyncService = {
+      refresh: jest.fn((user: User) => Promise.resolve(user)),
+    } as unknown as jest.Mocked<EnsSyncService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WalletService,
+        {
+          provide: OrmService,
+          useValue: mockOrmService,
+        },
+        {
+          provide: EnsSyncService,
+          useValue: mockEnsSyncService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WalletService>(WalletService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findUser', () => {
+    it('should return the user a wallet is linked to', async () => {
+      mockOrmService.wallet.findUnique.mockResolvedValue({
+        ...secondWallet,
+        user: mockUser,
+      });
+
+      await expect(service.findUser(secondAddress)).resolves.toBe(mockUser);
+      expect(mockOrmService.wallet.findUnique).toHaveBeenCalledWith({
+        where: { address: secondAddress },
+        include: { user: true },
+      });
+    });
+
+    it('should return null for wallets that are not linked', async () => {
+      await expect(service.findUser(secondAddress)).resolves.toBeNull();
+    });
+  });
+
+  describe('list', () => {
+    it('should list wallets in the order they were linked', async () => {
+      await expect(service.list(mockUser.id)).resolves.toEqual([
+        primaryWallet,
+        secondWallet,
+      ]);
+      expect(mockOrmService.wallet.findMany).toHaveBeenCalledWith({
+        where: { userId: mockUser.id },
+        orderBy: { createdAt: 'asc' },
+      });
+    });
+  });
+
+  describe('link', () => {
+    it('should link new wallets', async () => {
+      await expect(
+        service.link(mockUser.id, {
+          namespace: 'eip155',
+          address: secondAddress,
+        })
+      ).resolves.toBe(secondWallet);
+      expect(mockOrmService.wallet.create).toHaveBeenCalledWith({
+        data: {
+          userId: mockUser.id,
+          namespace: 'eip155',
+          address: secondAddress,
+        },
+      });
+    });
+
+    it('should reject wallets linked to the same account', async () => {
+      mockOrmService.wallet.findUnique.mockResolvedValue(secondWallet);
+
+      await expect(
+        service.link(mockUser.id, {
+          namespace: 'eip155',
+          address: secondAddress,
+        })
+      ).rejects.toThrow(
+        new HttpException(
+          'Wallet is already linked to your account',
+          HttpStatus.CONFLICT
+        )
+      );
+      expect(mockOrmService.wallet.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject wallets linked to another account', async () => {
+      mockOrmService.wallet.findUnique.mockResolvedValue({
+        ...secondWallet,
+        userId: 'other-user-id',
+      });
+
+      await expect(
+        service.link(mockUser.id, {
+          namespace: 'eip155',
+          address: secondAddress,
+        })
+      ).rejects.toThrow(
+        new HttpException(
+          'Wallet is linked to another account',
+          HttpStatus.CONFLICT
+        )
+      );
+      expect(mockOrmService.wallet.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlink', () => {
+    it('should unlink wallets in a serializable transaction', async () => {
+      await expect(service.unlink(mockUser, secondAddress)).resolves.toBe(
+        mockUser
+      );
+
+      expect(mockOrmService.$transaction).toHaveBeenCalledWith(
+        expect.any(Function),
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+      expect(mockTx.wallet.delete).toHaveBeenCalledWith({
+        where: { id: secondWallet.id },
+      });
+      expect(mockTx.user.update).not.toHaveBeenCalled();
+      expect(mockEnsSyncService.refresh).not.toHaveBeenCalled();
+    });
+
+    it('should make the oldest remaining wallet the primary one', async () => {
+      const updatedUser = await service.unlink(mockUser, primaryAddress);
+
+      expect(mockTx.wallet.delete).toHaveBeenCalledWith({
+        where: { id: primaryWallet.id },
+      });
+      expect(mockTx.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          publicAddress: secondAddress,
+          username: `user-${secondAddress}`,
+        },
+      });
+      expect(mockEnsSyncService.refresh).toHaveBeenCalledWith(updatedUser);
+      expect(updatedUser.publicAddress).toEqual(secondAddress);
+    });
+
+    it('should keep usernames the user chose', async () => {
+      await service.unlink(
+        { ...mockUser, username: 'chosen-name' },
+        primaryAddress
+      );
+
+      expect(mockTx.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: { publicAddress: secondAddress },
+      });
+    });
+
+    it('should throw when the wallet is not linked to the user', async () => {
+      await expect(
+        service.unlink(mockUser, '0x0000000000000000000000000000000000000001')
+      ).rejects.toThrow(
+        new HttpException('Wallet not found', HttpStatus.NOT_FOUND)
+      );
+      expect(mockTx.wallet.delete).not.toHaveBeenCalled();
+    });
+
+    it('should keep the last wallet linked', async () => {
+      mockTx.wallet.findMany.mockResolvedValue([primaryWallet]);
+
+      await expect(service.unlink(mockUser, primaryAddress)).rejects.toThrow(
+        new HttpException(
+          'At least one wallet must remain linked',
+          HttpStatus.BAD_REQUEST
+        )
+      );
+      expect(mockTx.wallet.delete).not.toHaveBeenCalled();
+    });
+  });
+});
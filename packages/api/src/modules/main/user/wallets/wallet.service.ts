@@ -0,0 +1,130 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { Prisma, User, Wallet } from 'generated/prisma';
+import { OrmService } from '@/modules/common/orm/orm.service';
+import { EnsSyncService } from '../ens/ens-sync.service';
+import { getPlaceholderUsername } from '../username';
+
+@Injectable()
+export class WalletService {
+  constructor(
+    private prisma: OrmService,
+    private readonly ensSyncService: EnsSyncService
+  ) {}
+
+  /**
+   * Find the user a wallet is linked to
+   * @param address - The canonical wallet address
+   * @returns The user or null if the wallet is not linked
+   */
+  async findUser(address: string): Promise<User | null> {
+    const wallet = await this.prisma.wallet.findUnique({
+      where: { address },
+      include: { user: true },
+    });
+
+    return wallet?.user ?? null;
+  }
+
+  /**
+   * List the wallets of a user
+   * @param userId - The user ID
+   * @returns The wallets, in the order they were linked
+   */
+  async list(userId: string): Promise<Wallet[]> {
+    return this.prisma.wallet.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Link a wallet to a user
+   * @param userId - The user ID
+   * @param wallet - The CAIP-2 namespace and the canonical address of a wallet
+   * the user proved control of
+   * @returns The linked wallet
+   * @throws HttpException when the wallet is already linked to an account
+   */
+  async link(
+    userId: string,
+    { namespace, address }: { namespace: string; address: string }
+  ): Promise<Wallet> {
+    const existingWallet = await this.prisma.wallet.findUnique({
+      where: { address },
+    });
+
+    if (existingWallet) {
+      // Accounts are never merged, the other account has to unlink the
+      // wallet first
+      throw new HttpException(
+        existingWallet.userId === userId
+          ? 'Wallet is already linked to your account'
+          : 'Wallet is linked to another account',
+        HttpStatus.CONFLICT
+      );
+    }
+
+    return this.prisma.wallet.create({
+      data: { userId, namespace, address },
+    });
+  }
+
+  /**
+   * Unlink a wallet from a user. Unlinking the primary wallet makes the
+   * oldest remaining wallet the primary one
+   * @param user - The user
+   * @param address - The canonical wallet address
+   * @returns The updated user
+   * @throws HttpException when the wallet is not linked to the user or is the
+   * last wallet of the user
+   */
+  async unlink(user: User, address: string): Promise<User> {
+    // Serializable, so concurrent requests cannot unlink the last two wallets
+    const updatedUser = await this.prisma.$transaction(
+      async (tx) => {
+        const wallets = await tx.wallet.findMany({
+          where: { userId: user.id },
+          orderBy: { createdAt: 'asc' },
+        });
+        const wallet = wallets.find((wallet) => wallet.address === address);
+
+        if (!wallet) {
+          throw new HttpException('Wallet not found', HttpStatus.NOT_FOUND);
+        }
+
+        if (wallets.length === 1) {
+          throw new HttpException(
+            'At least one wallet must remain linked',
+            HttpStatus.BAD_REQUEST
+          );
+        }
+
+        await tx.wallet.delete({ where: { id: wallet.id } });
+
+        if (wallet.address !== user.publicAddress) {
+          return null;
+        }
+
+        const primaryAddress = wallets.find(
+          (remaining) => remaining.id !== wallet.id
+        )!.address;
+
+        return tx.user.update({
+          where: { id: user.id },
+          data: {
+            publicAddress: primaryAddress,
+            // Placeholder usernames follow the primary wallet
+            ...(user.username ===
+              getPlaceholderUsername(user.publicAddress) && {
+              username: getPlaceholderUsername(primaryAddress),
+            }),
+          },
+        });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    // The ENS name and avatar belong to the primary wallet
+    return updatedUser ? this.ensSyncService.refresh(updatedUser) : user;
+  }
+}
@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { WebhookDelivery, WebhookSubscription } from 'generated/prisma';
+import { CsrfGuard } from '@/modules/common/guards/csrf.guard';
+import { AdminWebhookController } from './admin-webhook.controller';
+import { WebhookService } from './webhook.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+
+describe('AdminWebhookController', () => {
+  let controller: AdminWebhookController;
+  let mockWebhookService: jest.Mocked<WebhookService>;
+  let mockWebhookDeliveryService: jest.Mocked<WebhookDeliveryService>;
+
+  const mockSubscription: WebhookSubscription = {
+    id: 'test-webhook-id',
+    url: 'https://example.com/webhooks',
+    eventTypes: ['user.created'],
+    secret: 'whsec_test-secret',
+    description: null,
+    active: true,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockDelivery = {
+    id: 'test-delivery-id',
+    subscriptionId: mockSubscription.id,
+    status: 'succeeded',
+  } as WebhookDelivery;
+
+  const mockPublicSubscription = {
+    id: mockSubscription.id,
+    url: mockSubscription.url,
+    eventTypes: mockSubscription.eventTypes,
+    description: mockSubscription.description,
+    active: mockSubscription.active,
+    createdAt: mockSubscription.createdAt,
+    updatedAt: mockSubscription.updatedAt,
+  };
+
+  beforeEach(async () => {
+    mockWebhookService = {
+      create: jest.fn(),
+      findById: jest.fn().mockResolvedValue(mockSubscription),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      toPublic: jest.fn().mockReturnValue(mockPublicSubscription),
+    } as unknown as jest.Mocked<WebhookService>;
+
+    mockWebhookDeliveryService = {
+      list: jest.fn(),
+      redeliver: jest.fn(),
+    } as unknown as jest.Mocked<WebhookDeliveryService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AdminWebhookController],
+      providers: [
+        {
+          provide: WebhookService,
+          useValue: mockWebhookService,
+        },
+        {
+          provide: WebhookDeliveryService,
+          useValue: mockWebhookDeliveryService,
+        },
+      ],
+    })
+      .overrideGuard(CsrfGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<AdminWebhookController>(AdminWebhookController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getWebhooks', () => {
+    it('should return the subscriptions without their secrets', async () => {
+      mockWebhookService.findMany.mockResolvedValue([mockSubscription]);
+
+      const result = await controller.getWebhooks();
+
+      expect(mockWebhookService.toPublic).toHaveBeenCalledWith(
+        mockSubscription
+      );
+      expect(result).toEqual([mockPublicSubscription]);
+    });
+  });
+
+  describe('createWebhook', () => {
+    it('should return the subscription with its secret', async () => {
+      mockWebhookService.create.mockResolvedValue(mockSubscription);
+      const body = {
+        url: 'https://example.com/webhooks',
+        eventTypes: ['user.created' as const],
+      };
+
+      const result = await controller.createWebhook(body);
+
+      expect(mockWebhookService.create).toHaveBeenCalledWith(body);
+      expect(result.secret).toEqual(mockSubscription.secret);
+    });
+  });
+
+  describe('updateWebhook', () => {
+    it('should update the subscription', async () => {
+      mockWebhookService.update.mockResolvedValue({
+        ...mockSubscription,
+        active: false,
+      });
+
+      await controller.updateWebhook(mockSubscription.id, { active: false });
+
+      expect(mockWebhookService.update).toHaveBeenCalledWith(
+        mockSubscription.id,
+        { active: false }
+      );
+    });
+
+    it('should throw NotFoundException for unknown subscriptions', async () => {
+      mockWebhookService.findById.mockResolvedValue(null);
+
+      await expect(
+        controller.updateWebhook('unknown-id', { active: false })
+      ).rejects.toThrow(NotFoundException);
+      expect(mockWebhookService.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteWebhook', () => {
+    it('should delete the subscription', async () => {
+      await controller.deleteWebhook(mockSubscription.id);
+
+      expect(mockWebhookService.delete).toHaveBeenCalledWith(
+        mockSubscription.id
+      );
+    });
+  });
+
+  describe('getDeliveries', () => {
+    it('should return a page of the delivery log', async () => {
+      mockWebhookDeliveryService.list.mockResolvedValue({
+        deliveries: [mockDelivery],
+        total: 1,
+      });
+
+      const result = await controller.getDeliveries(mockSubscription.id, {
+        limit: 20,
+        offset: 0,
+      });
+
+      expect(mockWebhookDeliveryService.list).toHaveBeenCalledWith(
+        mockSubscription.id,
+        { limit: 20, offset: 0 }
+      );
+      expect(result).toEqual({
+        deliveries: [mockDelivery],
+        total: 1,
+        limit: 20,
+        offset: 0,
+      });
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should return the new delivery', async () => {
+      mockWebhookDeliveryService.redeliver.mockResolvedValue(mockDelivery);
+
+      await expect(
+        controller.redeliver(mockSubscription.id, 'previous-delivery-id')
+      ).resolves.toEqual(mockDelivery);
+      expect(mockWebhookDeliveryService.redeliver).toHaveBeenCalledWith(
+        mockSubscription.id,
+        'previous-delivery-id'
+      );
+    });
+
+    it('should throw NotFoundException for deliveries of other subscriptions', async () => {
+      mockWebhookDeliveryService.redeliver.mockResolvedValue(null);
+
+      await expect(
+        controller.redeliver(mockSubscription.id, 'unknown-delivery-id')
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
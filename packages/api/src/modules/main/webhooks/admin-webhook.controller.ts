@@ -0,0 +1,116 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { Role } from 'generated/prisma';
+import { SessionAuthGuard } from '@/modules/common/guards/session-auth.guard';
+import { RolesGuard } from '@/modules/common/guards/roles.guard';
+import { CsrfGuard } from '@/modules/common/guards/csrf.guard';
+import { Roles } from '@/modules/common/roles/roles.decorator';
+import { WebhookService } from './webhook.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { CreateWebhookDTO } from './dto/create-webhook.dto';
+import { UpdateWebhookDTO } from './dto/update-webhook.dto';
+import { ListWebhookDeliveriesDTO } from './dto/list-webhook-deliveries.dto';
+
+@Controller('/admin/webhooks')
+@UseGuards(SessionAuthGuard, RolesGuard)
+@Roles(Role.admin)
+export class AdminWebhookController {
+  constructor(
+    private readonly webhookService: WebhookService,
+    private readonly webhookDeliveryService: WebhookDeliveryService
+  ) {}
+
+  private async getSubscription(id: string) {
+    const subscription = await this.webhookService.findById(id);
+
+    if (!subscription) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    return subscription;
+  }
+
+  @Get()
+  async getWebhooks() {
+    const subscriptions = await this.webhookService.findMany();
+    return subscriptions.map((subscription) =>
+      this.webhookService.toPublic(subscription)
+    );
+  }
+
+  @Post()
+  @UseGuards(CsrfGuard)
+  async createWebhook(@Body() body: CreateWebhookDTO) {
+    // The secret is only shown once
+    return this.webhookService.create(body);
+  }
+
+  @Get('/:id')
+  async getWebhook(@Param('id') id: string) {
+    return this.webhookService.toPublic(await this.getSubscription(id));
+  }
+
+  @Patch('/:id')
+  @UseGuards(CsrfGuard)
+  async updateWebhook(@Param('id') id: string, @Body() body: UpdateWebhookDTO) {
+    await this.getSubscription(id);
+
+    return this.webhookService.toPublic(
+      await this.webhookService.update(id, body)
+    );
+  }
+
+  @Delete('/:id')
+  @UseGuards(CsrfGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteWebhook(@Param('id') id: string) {
+    await this.getSubscription(id);
+    await this.webhookService.delete(id);
+  }
+
+  @Get('/:id/deliveries')
+  async getDeliveries(
+    @Param('id') id: string,
+    @Query() query: ListWebhookDeliveriesDTO
+  ) {
+    await this.getSubscription(id);
+
+    const { limit, offset } = query;
+    const { deliveries, total } = await this.webhookDeliveryService.list(id, {
+      limit,
+      offset,
+    });
+
+    return { deliveries, total, limit, offset };
+  }
+
+  @Post('/:id/deliveries/:deliveryId/redeliver')
+  @UseGuards(CsrfGuard)
+  async redeliver(
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string
+  ) {
+    const delivery = await this.webhookDeliveryService.redeliver(
+      id,
+      deliveryId
+    );
+
+    if (!delivery) {
+      throw new NotFoundException('Delivery not found');
+    }
+
+    return delivery;
+  }
+}
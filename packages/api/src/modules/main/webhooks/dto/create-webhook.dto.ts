@@ -0,0 +1,30 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { WEBHOOK_EVENT_TYPES } from '../webhook.service';
+import type { WebhookEventType } from '../webhook.service';
+
+export class CreateWebhookDTO {
+  @IsUrl({
+    require_tld: false,
+    require_protocol: true,
+    protocols: ['http', 'https'],
+  })
+  url: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  eventTypes: WebhookEventType[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+}
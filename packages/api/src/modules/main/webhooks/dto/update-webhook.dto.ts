@@ -0,0 +1,39 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { WEBHOOK_EVENT_TYPES } from '../webhook.service';
+import type { WebhookEventType } from '../webhook.service';
+
+export class UpdateWebhookDTO {
+  @IsOptional()
+  @IsUrl({
+    require_tld: false,
+    require_protocol: true,
+    protocols: ['http', 'https'],
+  })
+  url?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  eventTypes?: WebhookEventType[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  // Disabled subscriptions receive no new deliveries, and their pending
+  // deliveries fail
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
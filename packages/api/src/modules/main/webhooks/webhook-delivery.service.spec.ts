@@ -0,0 +1,381 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Logger } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { WebhookDelivery, WebhookSubscription } from 'generated/prisma';
+import { OrmService } from '@/modules/common/orm/orm.service';
+import { AuthEventsService } from '@/modules/common/auth-events/auth-events.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { WebhookService } from './webhook.service';
+
+describe('WebhookDeliveryService', () => {
+  let service: WebhookDeliveryService;
+  let mockWebhookService: jest.Mocked<WebhookService>;
+  let mockAuthEventsService: jest.Mocked<AuthEventsService>;
+  let mockFetch: jest.Mock;
+  let mockOrmService: {
+    webhookDelivery: {
+      create: jest.Mock;
+      updateMany: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      findFirst: jest.Mock;
+      findMany: jest.Mock;
+      update: jest.Mock;
+      count: jest.Mock;
+    };
+  };
+
+  const now = new Date('2024-01-01T00:00:00.000Z');
+
+  const mockSubscription: WebhookSubscription = {
+    id: 'test-webhook-id',
+    url: 'https://example.com/webhooks',
+    eventTypes: ['user.created'],
+    secret: 'whsec_test-secret',
+    description: null,
+    active: true,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const mockDelivery: WebhookDelivery = {
+    id: 'test-delivery-id',
+    subscriptionId: mockSubscription.id,
+    eventId: 'test-event-id',
+    eventType: 'user.created',
+    payload: {
+      id: 'test-event-id',
+      type: 'user.created',
+      createdAt: now.toISOString(),
+      data: { userId: 'test-user-id' },
+    },
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    lastAttemptAt: null,
+    responseStatus: null,
+    error: null,
+    createdAt: now,
+  };
+
+  const getUpdatedData = () =>
+    (
+      mockOrmService.webhookDelivery.update.mock.calls[0] as [
+        { data: Partial<WebhookDelivery> },
+      ]
+    )[0].data;
+
+  beforeEach(async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(now.getTime());
+    jest.spyOn(Logger, 'warn').mockImplementation();
+    // The test environment has no fetch of its own
+    mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 204 });
+    global.fetch = mockFetch;
+
+    mockOrmService = {
+      webhookDelivery: {
+        create: jest.fn().mockResolvedValue(mockDelivery),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUniqueOrThrow: jest.fn().mockResolvedValue({
+          ...mockDelivery,
+          subscription: mockSubscription,
+        }),
+        findFirst: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn((params: { data: object }) =>
+          Promise.resolve({ ...mockDelivery, ...params.data })
+        ),
+        count: jest.fn(),
+      },
+    };
+
+    mockWebhookService = {
+      findActive: jest.fn().mockResolvedValue([mockSubscription]),
+    } as unknown as jest.Mocked<WebhookService>;
+
+    mockAuthEventsService = {
+      subscribe: jest.fn(),
+    } as unknown as jest.Mocked<AuthEventsService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookDeliveryService,
+        {
+          provide: OrmService,
+          useValue: mockOrmService,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            getOrThrow: jest.fn((key: string) => {
+              const configMap: Record<string, number> = {
+                'webhooks.timeout': 10000,
+                'webhooks.maxAttempts': 3,
+                'webhooks.retryBaseDelay': 30000,
+                'webhooks.retryMaxDelay': 60000,
+              };
+              return configMap[key];
+            }),
+          },
+        },
+        {
+          provide: AuthEventsService,
+          useValue: mockAuthEventsService,
+        },
+        {
+          provide: WebhookService,
+          useValue: mockWebhookService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebhookDeliveryService>(WebhookDeliveryService);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should subscribe to auth events', () => {
+    service.onModuleInit();
+
+    expect(mockAuthEventsService.subscribe).toHaveBeenCalledWith(service);
+  });
+
+  describe('handle', () => {
+    it('should log and attempt a delivery for every subscription', async () => {
+      await service.handle({
+        type: 'user.created',
+        userId: 'test-user-id',
+        address: '0x1234567890abcdef',
+        ip: '127.0.0.1',
+        data: { chainId: 'eip155:1' },
+        createdAt: now,
+      });
+
+      expect(mockWebhookService.findActive).toHaveBeenCalledWith(
+        'user.created'
+      );
+      expect(mockOrmService.webhookDelivery.create).toHaveBeenCalledWith({
+        data: {
+          subscriptionId: mockSubscription.id,
+          eventId: expect.any(String),
+          eventType: 'user.created',
+          payload: {
+            id: expect.any(String),
+            type: 'user.created',
+            createdAt: now.toISOString(),
+            data: {
+              userId: 'test-user-id',
+              address: '0x1234567890abcdef',
+              chainId: 'eip155:1',
+            },
+          },
+          nextAttemptAt: expect.any(Date),
+        },
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore events other services cannot subscribe to', async () => {
+      await service.handle({
+        type: 'sign_in.failed',
+        address: '0x1234567890abcdef',
+        createdAt: now,
+      });
+
+      expect(mockWebhookService.findActive).not.toHaveBeenCalled();
+      expect(mockOrmService.webhookDelivery.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('attempt', () => {
+    it('should send the payload signed with the secret of the subscription', async () => {
+      const result = await service.attempt(mockDelivery.id);
+
+      const body = JSON.stringify(mockDelivery.payload);
+      const timestamp = now.getTime() / 1000;
+      const signature = createHmac('sha256', mockSubscription.secret)
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+      expect(mockFetch).toHaveBeenCalledWith(mockSubscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': mockDelivery.id,
+          'X-Webhook-Event': 'user.created',
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signature}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: expect.any(AbortSignal),
+      });
+      expect(getUpdatedData()).toEqual({
+        status: 'succeeded',
+        attempts: 1,
+        nextAttemptAt: null,
+        lastAttemptAt: expect.any(Date),
+        responseStatus: 204,
+        error: null,
+      });
+      expect(result?.status).toEqual('succeeded');
+    });
+
+    it('should claim the delivery before sending it', async () => {
+      await service.attempt(mockDelivery.id);
+
+      expect(mockOrmService.webhookDelivery.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: mockDelivery.id,
+          status: 'pending',
+          nextAttemptAt: { lte: now },
+        },
+        data: { nextAttemptAt: new Date(now.getTime() + 20000) },
+      });
+    });
+
+    it('should skip deliveries claimed by another attempt', async () => {
+      mockOrmService.webhookDelivery.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(service.attempt(mockDelivery.id)).resolves.toBeNull();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should retry failed deliveries with exponential backoff', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+      mockOrmService.webhookDelivery.findUniqueOrThrow.mockResolvedValue({
+        ...mockDelivery,
+        attempts: 1,
+        subscription: mockSubscription,
+      });
+
+      await service.attempt(mockDelivery.id);
+
+      expect(getUpdatedData()).toEqual({
+        status: 'pending',
+        attempts: 2,
+        nextAttemptAt: new Date(now.getTime() + 60000),
+        lastAttemptAt: expect.any(Date),
+        responseStatus: 500,
+        error: 'Endpoint responded with status 500',
+      });
+    });
+
+    it('should give up once the deliveries ran out of attempts', async () => {
+      mockFetch.mockRejectedValue(new Error('fetch failed'));
+      mockOrmService.webhookDelivery.findUniqueOrThrow.mockResolvedValue({
+        ...mockDelivery,
+        attempts: 2,
+        subscription: mockSubscription,
+      });
+
+      await service.attempt(mockDelivery.id);
+
+      expect(getUpdatedData()).toEqual({
+        status: 'failed',
+        attempts: 3,
+        nextAttemptAt: null,
+        lastAttemptAt: expect.any(Date),
+        responseStatus: null,
+        error: 'fetch failed',
+      });
+    });
+
+    it('should fail deliveries of disabled subscriptions', async () => {
+      mockOrmService.webhookDelivery.findUniqueOrThrow.mockResolvedValue({
+        ...mockDelivery,
+        subscription: { ...mockSubscription, active: false },
+      });
+
+      await service.attempt(mockDelivery.id);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(getUpdatedData()).toEqual(
+        expect.objectContaining({
+          status: 'failed',
+          error: 'Subscription is disabled',
+        })
+      );
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay up to the max delay', () => {
+      expect(service.getRetryDelay(1)).toEqual(30000);
+      expect(service.getRetryDelay(2)).toEqual(60000);
+      expect(service.getRetryDelay(3)).toEqual(60000);
+    });
+  });
+
+  describe('sweep', () => {
+    it('should attempt the pending deliveries that are due', async () => {
+      mockOrmService.webhookDelivery.findMany.mockResolvedValue([
+        { id: 'first-delivery-id' },
+        { id: 'second-delivery-id' },
+      ]);
+
+      await service.sweep();
+
+      expect(mockOrmService.webhookDelivery.findMany).toHaveBeenCalledWith({
+        where: { status: 'pending', nextAttemptAt: { lte: expect.any(Date) } },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: 100,
+        select: { id: true },
+      });
+      expect(mockOrmService.webhookDelivery.updateMany).toHaveBeenCalledTimes(
+        2
+      );
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should deliver the event again as a new delivery', async () => {
+      mockOrmService.webhookDelivery.findFirst.mockResolvedValue({
+        ...mockDelivery,
+        status: 'failed',
+      });
+      mockOrmService.webhookDelivery.create.mockResolvedValue({
+        ...mockDelivery,
+        id: 'redelivery-id',
+      });
+
+      const result = await service.redeliver(
+        mockSubscription.id,
+        mockDelivery.id
+      );
+
+      expect(mockOrmService.webhookDelivery.findFirst).toHaveBeenCalledWith({
+        where: { id: mockDelivery.id, subscriptionId: mockSubscription.id },
+      });
+      expect(mockOrmService.webhookDelivery.create).toHaveBeenCalledWith({
+        data: {
+          subscriptionId: mockSubscription.id,
+          eventId: mockDelivery.eventId,
+          eventType: mockDelivery.eventType,
+          payload: mockDelivery.payload,
+          nextAttemptAt: expect.any(Date),
+        },
+      });
+      expect(mockOrmService.webhookDelivery.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: 'redelivery-id' }),
+        })
+      );
+      expect(result?.status).toEqual('succeeded');
+    });
+
+    it('should return null for deliveries of other subscriptions', async () => {
+      mockOrmService.webhookDelivery.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.redeliver(mockSubscription.id, 'unknown-delivery-id')
+      ).resolves.toBeNull();
+      expect(mockOrmService.webhookDelivery.create).not.toHaveBeenCalled();
+    });
+  });
+});
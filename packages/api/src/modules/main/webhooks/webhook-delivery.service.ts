@@ -0,0 +1,328 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Prisma, WebhookDelivery, WebhookSubscription } from 'generated/prisma';
+import { OrmService } from '@/modules/common/orm/orm.service';
+import {
+  AuthEvent,
+  AuthEventListener,
+  AuthEventsService,
+} from '@/modules/common/auth-events/auth-events.service';
+import {
+  WEBHOOK_EVENT_TYPES,
+  WebhookEventType,
+  WebhookService,
+} from './webhook.service';
+import { signWebhookPayload } from './webhook-signature';
+
+const WEBHOOK_SWEEP_INTERVAL = 30 * 1000;
+const WEBHOOK_SWEEP_BATCH_SIZE = 100;
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * The body of a delivery
+ */
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Delivers auth events to the subscribed endpoints. Every delivery is logged,
+ * failed deliveries are retried with exponential backoff until they succeed
+ * or run out of attempts
+ */
+@Injectable()
+export class WebhookDeliveryService
+  implements AuthEventListener, OnModuleInit, OnModuleDestroy
+{
+  private readonly timeout: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseDelay: number;
+  private readonly retryMaxDelay: number;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private prisma: OrmService,
+    private readonly configService: ConfigService,
+    private readonly authEventsService: AuthEventsService,
+    private readonly webhookService: WebhookService
+  ) {
+    this.timeout = this.configService.getOrThrow<number>('webhooks.timeout');
+    this.maxAttempts = this.configService.getOrThrow<number>(
+      'webhooks.maxAttempts'
+    );
+    this.retryBaseDelay = this.configService.getOrThrow<number>(
+      'webhooks.retryBaseDelay'
+    );
+    this.retryMaxDelay = this.configService.getOrThrow<number>(
+      'webhooks.retryMaxDelay'
+    );
+  }
+
+  onModuleInit() {
+    this.authEventsService.subscribe(this);
+
+    this.sweepTimer = setInterval(
+      () =>
+        void this.sweep().catch((error) =>
+          Logger.error('Failed to retry webhook deliveries', error)
+        ),
+      WEBHOOK_SWEEP_INTERVAL
+    );
+    // Sweeping must not keep the process alive on shutdown
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  private isWebhookEventType(type: string): type is WebhookEventType {
+    return WEBHOOK_EVENT_TYPES.includes(type as WebhookEventType);
+  }
+
+  async handle(event: AuthEvent): Promise<void> {
+    if (!this.isWebhookEventType(event.type)) {
+      return;
+    }
+
+    const subscriptions = await this.webhookService.findActive(event.type);
+
+    if (!subscriptions.length) {
+      return;
+    }
+
+    // IPs and user agents stay in the audit log
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      type: event.type,
+      createdAt: event.createdAt.toISOString(),
+      data: {
+        userId: event.userId,
+        address: event.address,
+        sessionId: event.sessionId,
+        ...event.data,
+      },
+    };
+
+    const deliveries = await Promise.all(
+      subscriptions.map((subscription) =>
+        this.prisma.webhookDelivery.create({
+          data: {
+            subscriptionId: subscription.id,
+            eventId: payload.id,
+            eventType: payload.type,
+            // Round-trip through JSON, which drops undefined fields
+            payload: JSON.parse(
+              JSON.stringify(payload)
+            ) as Prisma.InputJsonObject,
+            nextAttemptAt: new Date(),
+          },
+        })
+      )
+    );
+
+    await Promise.all(deliveries.map((delivery) => this.attempt(delivery.id)));
+  }
+
+  /**
+   * Delay before the next attempt of a delivery
+   * @param attempts - The number of failed attempts so far
+   * @returns The delay in milliseconds
+   */
+  getRetryDelay(attempts: number): number {
+    return Math.min(
+      this.retryBaseDelay * 2 ** (attempts - 1),
+      this.retryMaxDelay
+    );
+  }
+
+  private async send(
+    subscription: WebhookSubscription,
+    delivery: WebhookDelivery
+  ): Promise<{ responseStatus: number | null; error: string | null }> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhookPayload(
+            subscription.secret,
+            timestamp,
+            body
+          ),
+        },
+        body,
+        // Redirects could send the signed body to another host
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeout),
+      });
+
+      return {
+        responseStatus: response.status,
+        error: response.ok
+          ? null
+          : `Endpoint responded with status ${response.status}`,
+      };
+    } catch (error) {
+      return { responseStatus: null, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Attempt a pending delivery that is due. Deliveries are claimed first, so
+   * concurrent sweeps of other instances skip them
+   * @param deliveryId - The delivery ID
+   * @returns The updated delivery, or null if it was not due or claimed by
+   * another attempt
+   */
+  async attempt(deliveryId: string): Promise<WebhookDelivery | null> {
+    const now = Date.now();
+    const { count } = await this.prisma.webhookDelivery.updateMany({
+      where: {
+        id: deliveryId,
+        status: 'pending',
+        nextAttemptAt: { lte: new Date(now) },
+      },
+      // Attempts that never finish, e.g. on a crash, are retried once the
+      // claim has expired
+      data: { nextAttemptAt: new Date(now + 2 * this.timeout) },
+    });
+
+    if (!count) {
+      return null;
+    }
+
+    const delivery = await this.prisma.webhookDelivery.findUniqueOrThrow({
+      where: { id: deliveryId },
+      include: { subscription: true },
+    });
+    const { subscription } = delivery;
+
+    const { responseStatus, error } = subscription.active
+      ? await this.send(subscription, delivery)
+      : { responseStatus: null, error: 'Subscription is disabled' };
+    const attempts = delivery.attempts + 1;
+
+    let status: WebhookDeliveryStatus = 'succeeded';
+    let nextAttemptAt: Date | null = null;
+
+    if (error) {
+      status =
+        subscription.active && attempts < this.maxAttempts
+          ? 'pending'
+          : 'failed';
+      nextAttemptAt =
+        status === 'pending'
+          ? new Date(Date.now() + this.getRetryDelay(attempts))
+          : null;
+
+      Logger.warn(
+        `Webhook delivery ${delivery.id} of ${delivery.eventType} to ${subscription.url} failed (attempt ${attempts}): ${error}`
+      );
+    }
+
+    return this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status,
+        attempts,
+        nextAttemptAt,
+        lastAttemptAt: new Date(),
+        responseStatus,
+        error,
+      },
+    });
+  }
+
+  /**
+   * Retry the pending deliveries that are due
+   */
+  async sweep() {
+    const deliveries = await this.prisma.webhookDelivery.findMany({
+      where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: WEBHOOK_SWEEP_BATCH_SIZE,
+      select: { id: true },
+    });
+
+    for (const { id } of deliveries) {
+      await this.attempt(id);
+    }
+  }
+
+  /**
+   * List the deliveries of a subscription, newest first
+   * @param subscriptionId - The subscription ID
+   * @param page - The number of deliveries to skip and return
+   * @returns The deliveries of the page and the total number of deliveries
+   */
+  async list(
+    subscriptionId: string,
+    page: { limit: number; offset: number }
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const where = { subscriptionId };
+
+    const [deliveries, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: page.offset,
+        take: page.limit,
+      }),
+      this.prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return { deliveries, total };
+  }
+
+  /**
+   * Deliver the event of a delivery again, as a new delivery with the same
+   * event ID and payload, e.g. once a failed endpoint is fixed
+   * @param subscriptionId - The subscription ID
+   * @param deliveryId - The ID of the delivery to repeat
+   * @returns The new delivery after its first attempt, or null if the
+   * delivery does not belong to the subscription
+   */
+  async redeliver(
+    subscriptionId: string,
+    deliveryId: string
+  ): Promise<WebhookDelivery | null> {
+    const delivery = await this.prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, subscriptionId },
+    });
+
+    if (!delivery) {
+      return null;
+    }
+
+    const redelivery = await this.prisma.webhookDelivery.create({
+      data: {
+        subscriptionId,
+        eventId: delivery.eventId,
+        eventType: delivery.eventType,
+        payload: delivery.payload as Prisma.InputJsonValue,
+        nextAttemptAt: new Date(),
+      },
+    });
+
+    return (await this.attempt(redelivery.id)) ?? redelivery;
+  }
+}
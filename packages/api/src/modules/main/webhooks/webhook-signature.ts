@@ -0,0 +1,21 @@
+import { createHmac } from 'crypto';
+
+/**
+ * Sign the body of a webhook delivery. The timestamp is part of the signed
+ * content, so endpoints can reject replayed deliveries
+ * @param secret - The secret of the subscription
+ * @param timestamp - The UNIX timestamp of the delivery attempt in seconds
+ * @param body - The JSON body of the delivery
+ * @returns The signature as sent in the X-Webhook-Signature header
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  return `sha256=${digest}`;
+}
@@ -0,0 +1,109 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WebhookSubscription } from 'generated/prisma';
+import { OrmService } from '@/modules/common/orm/orm.service';
+import { WebhookService } from './webhook.service';
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+  let mockOrmService: {
+    webhookSubscription: {
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      findMany: jest.Mock;
+      update: jest.Mock;
+      delete: jest.Mock;
+    };
+  };
+
+  const mockSubscription: WebhookSubscription = {
+    id: 'test-webhook-id',
+    url: 'https://example.com/webhooks',
+    eventTypes: ['user.created'],
+    secret: 'whsec_test-secret',
+    description: null,
+    active: true,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  beforeEach(async () => {
+    mockOrmService = {
+      webhookSubscription: {
+        create: jest.fn(),
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn(),
+        delete: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookService,
+        {
+          provide: OrmService,
+          useValue: mockOrmService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebhookService>(WebhookService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('toPublic', () => {
+    it('should strip the secret', () => {
+      const publicSubscription = service.toPublic(mockSubscription);
+
+      expect(publicSubscription).not.toHaveProperty('secret');
+      expect(publicSubscription.url).toEqual(mockSubscription.url);
+    });
+  });
+
+  describe('create', () => {
+    it('should store the subscription with a random secret', async () => {
+      mockOrmService.webhookSubscription.create.mockResolvedValue(
+        mockSubscription
+      );
+
+      await service.create({
+        url: 'https://example.com/webhooks',
+        eventTypes: ['user.created', 'username.updated'],
+      });
+      await service.create({
+        url: 'https://example.com/webhooks',
+        eventTypes: ['user.created'],
+      });
+
+      const [[first], [second]] = mockOrmService.webhookSubscription.create.mock
+        .calls as [{ data: { secret: string } }][];
+      expect(first).toEqual({
+        data: {
+          url: 'https://example.com/webhooks',
+          eventTypes: ['user.created', 'username.updated'],
+          secret: expect.stringMatching(/^whsec_[\w-]{43}$/),
+          description: undefined,
+        },
+      });
+      expect(first.data.secret).not.toEqual(second.data.secret);
+    });
+  });
+
+  describe('findActive', () => {
+    it('should find the active subscriptions of the event type', async () => {
+      mockOrmService.webhookSubscription.findMany.mockResolvedValue([
+        mockSubscription,
+      ]);
+
+      const result = await service.findActive('user.created');
+
+      expect(mockOrmService.webhookSubscription.findMany).toHaveBeenCalledWith({
+        where: { active: true, eventTypes: { has: 'user.created' } },
+      });
+      expect(result).toEqual([mockSubscription]);
+    });
+  });
+});
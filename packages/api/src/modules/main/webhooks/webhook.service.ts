@@ -0,0 +1,115 @@
+import { Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { WebhookSubscription } from 'generated/prisma';
+import { OrmService } from '@/modules/common/orm/orm.service';
+import { AuthEventType } from '@/modules/common/auth-events/auth-events.service';
+
+/**
+ * Auth event types other services can subscribe to
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  'user.created',
+  'session.signed_out',
+  'username.updated',
+] as const satisfies readonly AuthEventType[];
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+// Marks webhook secrets, so they can be told apart from other credentials
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+/**
+ * The subscription as returned by the API, without its secret
+ */
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'>;
+
+@Injectable()
+export class WebhookService {
+  constructor(private prisma: OrmService) {}
+
+  /**
+   * Strip the secret of a subscription
+   * @param subscription - The subscription
+   * @returns The subscription without its secret
+   */
+  toPublic(subscription: WebhookSubscription): PublicWebhookSubscription {
+    const publicSubscription: Partial<WebhookSubscription> = {
+      ...subscription,
+    };
+    delete publicSubscription.secret;
+
+    return publicSubscription as PublicWebhookSubscription;
+  }
+
+  /**
+   * Subscribe an endpoint to auth events
+   * @param params - The URL of the endpoint, the event types it receives and
+   * an optional description
+   * @returns The subscription with its secret, which endpoints verify the
+   * signature of deliveries with
+   */
+  async create(params: {
+    url: string;
+    eventTypes: WebhookEventType[];
+    description?: string;
+  }): Promise<WebhookSubscription> {
+    // Deliveries are signed with the secret itself, so unlike API keys it is
+    // stored as is
+    const secret = `${WEBHOOK_SECRET_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    return this.prisma.webhookSubscription.create({
+      data: {
+        url: params.url,
+        eventTypes: params.eventTypes,
+        secret,
+        description: params.description,
+      },
+    });
+  }
+
+  async findById(id: string): Promise<WebhookSubscription | null> {
+    return this.prisma.webhookSubscription.findUnique({
+      where: { id },
+    });
+  }
+
+  async findMany(): Promise<WebhookSubscription[]> {
+    return this.prisma.webhookSubscription.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Find the active subscriptions of an event type
+   * @param eventType - The auth event type
+   * @returns The subscriptions that receive the event
+   */
+  async findActive(
+    eventType: WebhookEventType
+  ): Promise<WebhookSubscription[]> {
+    return this.prisma.webhookSubscription.findMany({
+      where: { active: true, eventTypes: { has: eventType } },
+    });
+  }
+
+  async update(
+    id: string,
+    data: {
+      url?: string;
+      eventTypes?: WebhookEventType[];
+      description?: string;
+      active?: boolean;
+    }
+  ): Promise<WebhookSubscription> {
+    return this.prisma.webhookSubscription.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async delete(id: string): Promise<WebhookSubscription> {
+    return this.prisma.webhookSubscription.delete({
+      where: { id },
+    });
+  }
+}
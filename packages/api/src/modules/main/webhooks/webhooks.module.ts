@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AuthEventsModule } from '@/modules/common/auth-events/auth-events.module';
+import { CsrfModule } from '@/modules/common/csrf/csrf.module';
+import { WebhookService } from './webhook.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { AdminWebhookController } from './admin-webhook.controller';
+
+@Module({
+  imports: [AuthEventsModule, CsrfModule],
+  controllers: [AdminWebhookController],
+  providers: [WebhookService, WebhookDeliveryService],
+})
+export class WebhooksModule {}
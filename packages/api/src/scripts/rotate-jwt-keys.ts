@@ -0,0 +1,24 @@
+import { Logger } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../modules/app.module';
+import { JwtKeyService } from '../modules/main/auth/keys/jwt-key.service';
+
+// Rotates the JWT signing keys right away, e.g. when a key may have leaked.
+// Running instances pick up the new active key on their next keyring sync
+async function rotateJwtKeys() {
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn', 'log'],
+  });
+
+  try {
+    const activeKey = await app.get(JwtKeyService).rotate();
+    Logger.log(`Rotated JWT signing keys, active key is now ${activeKey.kid}`);
+  } finally {
+    await app.close();
+  }
+}
+
+rotateJwtKeys().catch((e) => {
+  Logger.error(e);
+  process.exit(1);
+});
@@ -3,5 +3,24 @@ import type { User as PrismaUser } from 'generated/prisma';
 declare global {
   namespace Express {
     interface User extends PrismaUser {}
+
+    interface Request {
+      /** Session and token or API key the request was authenticated with */
+      auth?: {
+        type: 'session' | 'api-key';
+        // Null for API keys, which are not bound to a session
+        sessionId: string | null;
+        // ID of the access token or the API key
+        tokenId: string;
+        scopes: string[];
+        roles: string[];
+        // Time of the sign-in or re-authentication (auth_time) in seconds,
+        // null for API keys, which never authenticate with a wallet
+        authTime: number | null;
+        // OAuth client the access token was issued to, null for the tokens of
+        // first-party sessions and for API keys
+        clientId: string | null;
+      };
+    }
   }
 }
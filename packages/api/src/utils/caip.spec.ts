@@ -0,0 +1,65 @@
+import { formatCaip10Account, parseCaip10Account } from './caip';
+
+describe('formatCaip10Account', () => {
+  it('should format an EVM account', () => {
+    const actualResult = formatCaip10Account(
+      'eip155:1',
+      '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb'
+    );
+
+    expect(actualResult).toBe(
+      'eip155:1:0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb'
+    );
+  });
+
+  it('should format a Solana account', () => {
+    const actualResult = formatCaip10Account(
+      'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+      '7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv'
+    );
+
+    expect(actualResult).toBe(
+      'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp:7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv'
+    );
+  });
+});
+
+describe('parseCaip10Account', () => {
+  it('should split an account into its parts', () => {
+    const actualResult = parseCaip10Account(
+      'eip155:31337:0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb'
+    );
+
+    expect(actualResult).toEqual({
+      namespace: 'eip155',
+      reference: '31337',
+      address: '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb',
+    });
+  });
+
+  it('should split a Solana account into its parts', () => {
+    const actualResult = parseCaip10Account(
+      'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp:7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv'
+    );
+
+    expect(actualResult).toEqual({
+      namespace: 'solana',
+      reference: '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+      address: '7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv',
+    });
+  });
+
+  it('should return null for a bare address', () => {
+    const actualResult = parseCaip10Account(
+      '0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb'
+    );
+
+    expect(actualResult).toBeNull();
+  });
+
+  it('should return null for an empty string', () => {
+    const actualResult = parseCaip10Account('');
+
+    expect(actualResult).toBeNull();
+  });
+});
@@ -0,0 +1,29 @@
+// CAIP-10 account IDs: <namespace>:<chain reference>:<address>
+const CAIP10_ACCOUNT_REGEX =
+  /^([-a-z0-9]{3,8}):([-_a-zA-Z0-9]{1,32}):([-.%a-zA-Z0-9]{1,128})$/;
+
+// CAIP-2 references of the Solana clusters, the start of their genesis hash
+const SOLANA_CHAIN_REFERENCES: Record<string, string> = {
+  mainnet: '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+  devnet: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+  testnet: '4uhcVJyU9pJkvQyS88uRDiswHXSCkY3z',
+};
+
+// Chain IDs are CAIP-2 chain IDs, e.g. eip155:1
+function formatCaip10Account(chainId: string, address: string) {
+  return `${chainId}:${address}`;
+}
+
+function parseCaip10Account(account: string) {
+  const match = CAIP10_ACCOUNT_REGEX.exec(account);
+
+  if (!match) {
+    return null;
+  }
+
+  const [, namespace, reference, address] = match;
+
+  return { namespace, reference, address };
+}
+
+export { SOLANA_CHAIN_REFERENCES, formatCaip10Account, parseCaip10Account };
@@ -0,0 +1,71 @@
+import { parseCaip122Header, parseCaip122Message } from './caip122';
+
+const siwsMessage = [
+  'localhost:3000 wants you to sign in with your Solana account:',
+  '7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv',
+  '',
+  'Sign in to the app',
+  '',
+  'URI: http://localhost:3000',
+  'Version: 1',
+  'Chain ID: mainnet',
+  'Nonce: test-nonce',
+  'Issued At: 2024-01-01T00:00:00.000Z',
+  'Resources:',
+  '- https://example.com/terms',
+].join('\n');
+
+describe('parseCaip122Header', () => {
+  it('should parse the domain, blockchain and address', () => {
+    expect(parseCaip122Header(siwsMessage)).toEqual({
+      domain: 'localhost:3000',
+      blockchain: 'Solana',
+      address: '7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv',
+    });
+  });
+
+  it('should return null for other messages', () => {
+    expect(parseCaip122Header('Sign in to the app')).toBeNull();
+  });
+});
+
+describe('parseCaip122Message', () => {
+  it('should parse the statement, fields and resources', () => {
+    expect(parseCaip122Message(siwsMessage)).toEqual({
+      domain: 'localhost:3000',
+      blockchain: 'Solana',
+      address: '7S3P4HxJpyyigGzodYwHtCxZyUQe9JiBMHyRWXArAaKv',
+      statement: 'Sign in to the app',
+      uri: 'http://localhost:3000',
+      version: '1',
+      chainId: 'mainnet',
+      nonce: 'test-nonce',
+      issuedAt: '2024-01-01T00:00:00.000Z',
+      resources: ['https://example.com/terms'],
+    });
+  });
+
+  it('should parse messages without a statement in both layouts', () => {
+    const fields = siwsMessage.split('\n').slice(5, 10);
+    const [header, address] = siwsMessage.split('\n');
+
+    for (const message of [
+      [header, address, '', ...fields],
+      [header, address, '', '', ...fields],
+    ]) {
+      expect(parseCaip122Message(message.join('\n'))).toEqual(
+        expect.objectContaining({ statement: undefined, nonce: 'test-nonce' })
+      );
+    }
+  });
+
+  it('should return null when a required field is missing', () => {
+    expect(
+      parseCaip122Message(siwsMessage.replace('Nonce: test-nonce\n', ''))
+    ).toBeNull();
+  });
+
+  it('should return null for unknown lines', () => {
+    expect(parseCaip122Message(`${siwsMessage}\nUnknown: value`)).toBeNull();
+  });
+});
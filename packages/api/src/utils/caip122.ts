@@ -0,0 +1,115 @@
+// CAIP-122 sign-in messages start with
+// <domain> wants you to sign in with your <blockchain> account:\n<address>
+const CAIP122_HEADER_REGEX =
+  /^(\S+) wants you to sign in with your (.+) account:$/;
+
+const CAIP122_FIELDS = [
+  ['uri', 'URI'],
+  ['version', 'Version'],
+  ['chainId', 'Chain ID'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before'],
+  ['requestId', 'Request ID'],
+] as const;
+
+const CAIP122_REQUIRED_FIELDS = [
+  'uri',
+  'version',
+  'chainId',
+  'nonce',
+  'issuedAt',
+] as const;
+
+type Caip122Field = (typeof CAIP122_FIELDS)[number][0];
+
+/**
+ * Fields of a CAIP-122 message. The chain ID is the CAIP-2 reference as
+ * written in the message, its namespace is implied by the blockchain
+ */
+interface Caip122Message extends Partial<Record<Caip122Field, string>> {
+  domain: string;
+  blockchain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: string;
+  nonce: string;
+  issuedAt: string;
+  resources?: string[];
+}
+
+function parseCaip122Header(message: string) {
+  const [header, address] = message.split('\n', 2);
+  const match = CAIP122_HEADER_REGEX.exec(header);
+
+  if (!match || !address) {
+    return null;
+  }
+
+  const [, domain, blockchain] = match;
+
+  return { domain, blockchain, address };
+}
+
+// Accepts the EIP-4361 layout, which keeps the empty lines around a missing
+// statement, and the Sign-In With Solana layout, which drops them
+function parseCaip122Message(message: string): Caip122Message | null {
+  const header = parseCaip122Header(message);
+
+  if (!header) {
+    return null;
+  }
+
+  const lines = message.split('\n');
+  let index = 2;
+
+  if (lines[index++] !== '') {
+    return null;
+  }
+
+  let statement: string | undefined;
+  if (lines[index] === '') {
+    index++;
+  } else if (!lines[index]?.startsWith('URI: ')) {
+    statement = lines[index++];
+
+    if (lines[index++] !== '') {
+      return null;
+    }
+  }
+
+  const fields: Partial<Record<Caip122Field, string>> = {};
+
+  for (const [field, label] of CAIP122_FIELDS) {
+    const prefix = `${label}: `;
+
+    if (lines[index]?.startsWith(prefix)) {
+      fields[field] = lines[index++].slice(prefix.length);
+    }
+  }
+
+  let resources: string[] | undefined;
+  if (lines[index] === 'Resources:') {
+    index++;
+    resources = [];
+
+    while (lines[index]?.startsWith('- ')) {
+      resources.push(lines[index++].slice(2));
+    }
+  }
+
+  if (
+    index !== lines.length ||
+    CAIP122_REQUIRED_FIELDS.some((field) => !fields[field])
+  ) {
+    return null;
+  }
+
+  return { ...header, statement, ...fields, resources } as Caip122Message;
+}
+
+export { parseCaip122Header, parseCaip122Message };
+export type { Caip122Message };
@@ -0,0 +1,49 @@
+import { parseBoolean, parseList } from './env';
+
+describe('parseList', () => {
+  it('should split a comma separated string', () => {
+    const inputList = 'localhost:3000,example.com';
+
+    const actualResult = parseList(inputList);
+
+    expect(actualResult).toEqual(['localhost:3000', 'example.com']);
+  });
+
+  it('should trim whitespace and drop empty items', () => {
+    const inputList = ' 1 , 31337,, ';
+
+    const actualResult = parseList(inputList);
+
+    expect(actualResult).toEqual(['1', '31337']);
+  });
+
+  it('should return an empty array for undefined', () => {
+    const actualResult = parseList(undefined);
+
+    expect(actualResult).toEqual([]);
+  });
+
+  it('should return an empty array for empty string', () => {
+    const actualResult = parseList('');
+
+    expect(actualResult).toEqual([]);
+  });
+});
+
+describe('parseBoolean', () => {
+  it('should parse truthy values', () => {
+    expect(parseBoolean('true', false)).toBe(true);
+    expect(parseBoolean(' TRUE ', false)).toBe(true);
+    expect(parseBoolean('1', false)).toBe(true);
+  });
+
+  it('should parse any other value as false', () => {
+    expect(parseBoolean('false', true)).toBe(false);
+    expect(parseBoolean('0', true)).toBe(false);
+  });
+
+  it('should return the default value for undefined or empty string', () => {
+    expect(parseBoolean(undefined, true)).toBe(true);
+    expect(parseBoolean('', false)).toBe(false);
+  });
+});
@@ -0,0 +1,20 @@
+function parseList(str?: string) {
+  if (!str) {
+    return [];
+  }
+
+  return str
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function parseBoolean(str: string | undefined, defaultValue: boolean) {
+  if (!str) {
+    return defaultValue;
+  }
+
+  return ['true', '1', 'yes'].includes(str.trim().toLowerCase());
+}
+
+export { parseBoolean, parseList };
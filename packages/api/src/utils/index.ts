@@ -1 +1,5 @@
+export * from './caip';
+export * from './caip122';
 export * from './datetime';
+export * from './env';
+export * from './recap';
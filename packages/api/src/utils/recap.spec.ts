@@ -0,0 +1,94 @@
+import {
+  decodeRecap,
+  encodeRecap,
+  getRecapStatement,
+  isRecapUri,
+  parseRecapAbility,
+  Recap,
+} from './recap';
+
+const recap: Recap = {
+  att: {
+    'https://api.example.com': {
+      'sessions/read': [],
+      'profile/write': [],
+      'profile/read': [{ fields: ['username'] }],
+    },
+  },
+  prf: [],
+};
+
+describe('isRecapUri', () => {
+  it('should detect ReCap URIs', () => {
+    expect(isRecapUri(encodeRecap(recap))).toBe(true);
+    expect(isRecapUri('https://example.com/terms')).toBe(false);
+  });
+});
+
+describe('parseRecapAbility', () => {
+  it('should split an ability into namespace and name', () => {
+    expect(parseRecapAbility('profile/read')).toEqual({
+      namespace: 'profile',
+      name: 'read',
+    });
+  });
+
+  it('should return null for an ability without namespace', () => {
+    expect(parseRecapAbility('read')).toBeNull();
+  });
+});
+
+describe('decodeRecap', () => {
+  it('should decode an encoded ReCap', () => {
+    expect(decodeRecap(encodeRecap(recap))).toEqual(recap);
+  });
+
+  it('should default to no proofs', () => {
+    const uri = `urn:recap:${Buffer.from(JSON.stringify({ att: recap.att })).toString('base64url')}`;
+
+    expect(decodeRecap(uri)?.prf).toEqual([]);
+  });
+
+  it('should return null for invalid encodings', () => {
+    expect(decodeRecap('urn:recap:not base64')).toBeNull();
+    expect(
+      decodeRecap(`urn:recap:${Buffer.from('{').toString('base64url')}`)
+    ).toBeNull();
+    expect(decodeRecap('https://example.com')).toBeNull();
+  });
+
+  it('should return null for malformed capabilities', () => {
+    const malformedRecaps = [
+      { prf: [] },
+      { att: { 'https://api.example.com': {} }, prf: [] },
+      { att: { 'https://api.example.com': { read: [] } }, prf: [] },
+      { att: { 'https://api.example.com': { 'profile/read': {} } }, prf: [] },
+      { att: recap.att, prf: [1] },
+    ];
+
+    for (const malformedRecap of malformedRecaps) {
+      expect(
+        decodeRecap(encodeRecap(malformedRecap as unknown as Recap))
+      ).toBeNull();
+    }
+  });
+});
+
+describe('getRecapStatement', () => {
+  it('should list the abilities by resource and namespace', () => {
+    const actualResult = getRecapStatement({
+      att: {
+        ...recap.att,
+        'https://other.example.com': { 'files/read': [] },
+      },
+      prf: [],
+    });
+
+    expect(actualResult).toBe(
+      'I further authorize the stated URI to perform the following actions on my behalf: ' +
+        "(1) 'profile': 'read', 'write' for 'https://api.example.com'. " +
+        "(2) 'sessions': 'read' for 'https://api.example.com'. " +
+        "(3) 'files': 'read' for 'https://other.example.com'."
+    );
+  });
+});
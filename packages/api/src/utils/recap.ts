@@ -0,0 +1,124 @@
+// EIP-5573 ReCap URIs: urn:recap:<base64url encoded JSON>
+const RECAP_URI_PREFIX = 'urn:recap:';
+const BASE64URL_REGEX = /^[A-Za-z0-9_-]+$/;
+
+// Abilities are written as <namespace>/<name>
+const RECAP_ABILITY_REGEX = /^([^/\s]+)\/([^/\s]+)$/;
+
+const RECAP_STATEMENT_PREFIX =
+  'I further authorize the stated URI to perform the following actions on my behalf:';
+
+/**
+ * Capabilities of a ReCap: `att` maps resource URIs to abilities, which map
+ * to their caveats. `prf` lists the CIDs of delegated proofs
+ */
+interface Recap {
+  att: Record<string, Record<string, Record<string, unknown>[]>>;
+  prf: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRecapUri(uri: string) {
+  return uri.startsWith(RECAP_URI_PREFIX);
+}
+
+function parseRecapAbility(ability: string) {
+  const match = RECAP_ABILITY_REGEX.exec(ability);
+
+  if (!match) {
+    return null;
+  }
+
+  const [, namespace, name] = match;
+
+  return { namespace, name };
+}
+
+function decodeRecap(uri: string): Recap | null {
+  const encoded = uri.slice(RECAP_URI_PREFIX.length);
+
+  if (!isRecapUri(uri) || !BASE64URL_REGEX.test(encoded)) {
+    return null;
+  }
+
+  let recap: unknown;
+  try {
+    recap = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (!isPlainObject(recap) || !isPlainObject(recap.att)) {
+    return null;
+  }
+
+  const prf = recap.prf ?? [];
+  if (!Array.isArray(prf) || prf.some((cid) => typeof cid !== 'string')) {
+    return null;
+  }
+
+  for (const abilities of Object.values(recap.att)) {
+    if (!isPlainObject(abilities) || !Object.keys(abilities).length) {
+      return null;
+    }
+
+    for (const [ability, caveats] of Object.entries(abilities)) {
+      if (
+        !parseRecapAbility(ability) ||
+        !Array.isArray(caveats) ||
+        !caveats.every(isPlainObject)
+      ) {
+        return null;
+      }
+    }
+  }
+
+  return { att: recap.att as Recap['att'], prf: prf as string[] };
+}
+
+// The statement wallets show for a ReCap, which the SIWE statement has to end
+// with, e.g. "(1) 'profile': 'read', 'write' for 'https://api.example.com'."
+function getRecapStatement(recap: Recap) {
+  const actions: string[] = [];
+
+  for (const resource of Object.keys(recap.att).sort()) {
+    const abilitiesByNamespace = new Map<string, string[]>();
+
+    for (const ability of Object.keys(recap.att[resource]).sort()) {
+      const { namespace, name } = parseRecapAbility(ability)!;
+      abilitiesByNamespace.set(namespace, [
+        ...(abilitiesByNamespace.get(namespace) ?? []),
+        name,
+      ]);
+    }
+
+    for (const namespace of [...abilitiesByNamespace.keys()].sort()) {
+      const names = abilitiesByNamespace
+        .get(namespace)!
+        .map((name) => `'${name}'`)
+        .join(', ');
+
+      actions.push(
+        `(${actions.length + 1}) '${namespace}': ${names} for '${resource}'.`
+      );
+    }
+  }
+
+  return [RECAP_STATEMENT_PREFIX, ...actions].join(' ');
+}
+
+function encodeRecap(recap: Recap) {
+  return `${RECAP_URI_PREFIX}${Buffer.from(JSON.stringify(recap)).toString('base64url')}`;
+}
+
+export {
+  decodeRecap,
+  encodeRecap,
+  getRecapStatement,
+  isRecapUri,
+  parseRecapAbility,
+};
+export type { Recap };
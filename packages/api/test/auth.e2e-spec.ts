@@ -12,6 +12,7 @@ import { TEST_NONCE } from './helpers/test-wallet';
 import {
   createTestWallet,
   extractCookieValue,
+  generateRecapSiweMessage,
   generateSiweMessage,
   signSiweMessage,
 } from './helpers/siwe-test-helper';
@@ -19,6 +20,7 @@ import { UserService } from '@/modules/main/user/user.service';
 import { AuthorizedUserProfileService } from '@/modules/main/smart-contracts/authorized-user-profile/authorized-user-profile.service';
 import { RedisService } from '@/modules/common/redis/redis.service';
 import cookieParser from 'cookie-parser';
+import { ConfigService } from '@nestjs/config';
 
 describe('AuthController (e2e)', () => {
   let app: INestApplication<App>;
@@ -33,6 +35,9 @@ describe('AuthController (e2e)', () => {
   const wallet = createTestWallet();
   const address = wallet.address;
 
+  // Any matching cookie and header pass the double-submit check
+  const csrfToken = 'e2e-csrf-token';
+
   // Mock the smart contract service to avoid real blockchain calls in e2e tests
   const mockAuthorizedUserProfileService = {
     addJwtToContract: jest.fn().mockResolvedValue(undefined),
@@ -41,6 +46,8 @@ describe('AuthController (e2e)', () => {
 
   // Mock Redis service for e2e tests with in-memory storage
   const redisStorage = new Map<string, string>();
+  const redisSetStorage = new Map<string, Set<string>>();
+  const redisWindowStorage = new Map<string, number[]>();
   const mockRedisService = {
     set: jest.fn((key: string, value: string) => {
       redisStorage.set(key, value);
@@ -49,11 +56,60 @@ describe('AuthController (e2e)', () => {
     get: jest.fn((key: string) => {
       return Promise.resolve(redisStorage.get(key) || null);
     }),
+    setIfNotExists: jest.fn((key: string, value: string) => {
+      if (redisStorage.has(key)) {
+        return Promise.resolve(false);
+      }
+      redisStorage.set(key, value);
+      return Promise.resolve(true);
+    }),
+    getDelete: jest.fn((key: string) => {
+      const value = redisStorage.get(key) || null;
+      redisStorage.delete(key);
+      return Promise.resolve(value);
+    }),
     delete: jest.fn((...keys: string[]) => {
       keys.forEach((key) => redisStorage.delete(key));
       return Promise.resolve(undefined);
     }),
     keys: jest.fn().mockResolvedValue([]),
+    expire: jest.fn().mockResolvedValue(undefined),
+    increment: jest.fn((key: string) => {
+      const count = Number(redisStorage.get(key) ?? 0) + 1;
+      redisStorage.set(key, String(count));
+      return Promise.resolve(count);
+    }),
+    addToSet: jest.fn((key: string, ...members: string[]) => {
+      const set = redisSetStorage.get(key) ?? new Set<string>();
+      members.forEach((member) => set.add(member));
+      redisSetStorage.set(key, set);
+      return Promise.resolve(undefined);
+    }),
+    getSetMembers: jest.fn((key: string) => {
+      return Promise.resolve([...(redisSetStorage.get(key) ?? [])]);
+    }),
+    removeFromSet: jest.fn((key: string, ...members: string[]) => {
+      members.forEach((member) => redisSetStorage.get(key)?.delete(member));
+      return Promise.resolve(undefined);
+    }),
+    hitSlidingWindow: jest.fn(
+      (key: string, limit: number, windowMs: number) => {
+        const now = Date.now();
+        const hits = (redisWindowStorage.get(key) ?? []).filter(
+          (hit) => hit > now - windowMs
+        );
+        const allowed = hits.length < limit;
+        if (allowed) {
+          hits.push(now);
+        }
+        redisWindowStorage.set(key, hits);
+        return Promise.resolve({
+          allowed,
+          count: hits.length,
+          resetAt: hits[0] + windowMs,
+        });
+      }
+    ),
   };
 
   beforeAll(async () => {
@@ -104,6 +160,10 @@ describe('AuthController (e2e)', () => {
   beforeEach(async () => {
     // Clear mock calls before each test
     jest.clearAllMocks();
+    redisWindowStorage.clear();
+    [...redisStorage.keys()]
+      .filter((key) => key.startsWith('lockout:'))
+      .forEach((key) => redisStorage.delete(key));
 
     try {
       await userService.delete({
@@ -112,6 +172,32 @@ describe('AuthController (e2e)', () => {
     } catch (error) {}
   });
 
+  const signIn = async () => {
+    const nonceResponse = await request(app.getHttpServer())
+      .get('/auth/nonce')
+      .query({ address });
+
+    const { nonce } = nonceResponse.body;
+
+    const message = generateSiweMessage(wallet, nonce);
+    const signature = await signSiweMessage(wallet, message);
+
+    const signInResponse = await request(app.getHttpServer())
+      .post('/auth/sign-in')
+      .set('User-Agent', 'e2e-test-agent')
+      .send({
+        message,
+        signature,
+        nonce,
+      });
+
+    const cookies = signInResponse.headers['set-cookie'] as unknown as string[];
+    return {
+      accessToken: extractCookieValue(cookies, 'accessToken'),
+      refreshToken: extractCookieValue(cookies, 'refreshToken'),
+    };
+  };
+
   describe('/auth/nonce', () => {
     it('should get nonce for valid address', async () => {
       const response = await request(app.getHttpServer())
@@ -127,6 +213,30 @@ describe('AuthController (e2e)', () => {
         .expect(HttpStatus.BAD_REQUEST);
     });
 
+    it('should rate limit nonce requests per address', async () => {
+      for (let i = 0; i < 10; i++) {
+        await request(app.getHttpServer())
+          .get('/auth/nonce')
+          .query({ address })
+          .expect(HttpStatus.OK);
+      }
+
+      const response = await request(app.getHttpServer())
+        .get('/auth/nonce')
+        .query({ address })
+        .expect(HttpStatus.TOO_MANY_REQUESTS);
+
+      expect(response.headers['ratelimit-limit']).toBe('10');
+      expect(response.headers['ratelimit-remaining']).toBe('0');
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+
+      // Other addresses from the same IP are not affected
+      await request(app.getHttpServer())
+        .get('/auth/nonce')
+        .query({ address: createTestWallet().address })
+        .expect(HttpStatus.OK);
+    });
+
     it('should throw an error for missing address', () => {
       return request(app.getHttpServer())
         .get('/auth/nonce')
@@ -162,6 +272,72 @@ describe('AuthController (e2e)', () => {
       expect(accessToken).toBeDefined();
       expect(refreshToken).toBeDefined();
       expect(signInResponse.body.address).toBe(address);
+      expect(signInResponse.body.scope).toBe(
+        'profile:read profile:write sessions:read sessions:write'
+      );
+      expect(extractCookieValue(cookies, 'csrfToken')).toBe(
+        signInResponse.body.csrfToken
+      );
+    });
+
+    it('should only grant the scopes of the signed ReCap', async () => {
+      const resourceUri = app
+        .get(ConfigService)
+        .getOrThrow<string>('siwe.recapResourceUri');
+      const nonceResponse = await request(app.getHttpServer())
+        .get('/auth/nonce')
+        .query({ address });
+
+      const { nonce } = nonceResponse.body;
+
+      const message = generateRecapSiweMessage(wallet, nonce, {
+        att: { [resourceUri]: { 'sessions/read': [] } },
+        prf: [],
+      });
+      const signature = await signSiweMessage(wallet, message);
+
+      const signInResponse = await request(app.getHttpServer())
+        .post('/auth/sign-in')
+        .send({ message, signature, nonce })
+        .expect(HttpStatus.CREATED);
+
+      expect(signInResponse.body.scope).toBe('sessions:read');
+
+      const authorization = `Bearer ${signInResponse.body.accessToken}`;
+
+      await request(app.getHttpServer())
+        .get('/auth/sessions')
+        .set({ authorization })
+        .expect(HttpStatus.OK);
+
+      await request(app.getHttpServer())
+        .get('/user/profile')
+        .set({ authorization })
+        .expect(HttpStatus.FORBIDDEN);
+    });
+
+    it('should reject ReCaps with unknown capabilities', async () => {
+      const resourceUri = app
+        .get(ConfigService)
+        .getOrThrow<string>('siwe.recapResourceUri');
+      const nonceResponse = await request(app.getHttpServer())
+        .get('/auth/nonce')
+        .query({ address });
+
+      const { nonce } = nonceResponse.body;
+
+      const message = generateRecapSiweMessage(wallet, nonce, {
+        att: { [resourceUri]: { 'wallet/drain': [] } },
+        prf: [],
+      });
+      const signature = await signSiweMessage(wallet, message);
+
+      const signInResponse = await request(app.getHttpServer())
+        .post('/auth/sign-in')
+        .send({ message, signature, nonce })
+        .expect(HttpStatus.UNAUTHORIZED);
+
+      expect(signInResponse.body.code).toBe('SIWE_CAPABILITY_NOT_ALLOWED');
     });
 
     it('should create a new user if do not exist', async () => {
@@ -195,10 +371,43 @@ describe('AuthController (e2e)', () => {
 
       expect(userBeforeSignIn).toBeNull();
       expect(newUser).toBeDefined();
-      expect(newUser?.nonce).not.toBe(nonce); // nonce is changed once user is logged in
       expect(newUser?.publicAddress).toBe(signInResponse.body.address);
     });
 
+    it('should not accept the same nonce twice', async () => {
+      const nonceResponse = await request(app.getHttpServer())
+        .get('/auth/nonce')
+        .query({ address });
+
+      const { nonce } = nonceResponse.body;
+
+      const message = generateSiweMessage(wallet, nonce);
+      const signature = await signSiweMessage(wallet, message);
+
+      await request(app.getHttpServer())
+        .post('/auth/sign-in')
+        .send({ message, signature, nonce })
+        .expect(HttpStatus.CREATED);
+
+      await request(app.getHttpServer())
+        .post('/auth/sign-in')
+        .send({ message, signature, nonce })
+        .expect(HttpStatus.UNAUTHORIZED);
+    });
+
+    it('should not create a user when requesting a nonce', async () => {
+      await request(app.getHttpServer())
+        .get('/auth/nonce')
+        .query({ address })
+        .expect(HttpStatus.OK);
+
+      const user = await userService.findUnique({
+        publicAddress: address,
+      });
+
+      expect(user).toBeNull();
+    });
+
     it('should not authorize because of invalid signature', async () => {
       const nonceResponse = await request(app.getHttpServer())
         .get('/auth/nonce')
@@ -220,6 +429,35 @@ describe('AuthController (e2e)', () => {
       expect(signInResponse.status).toBe(HttpStatus.UNAUTHORIZED);
     });
 
+    it('should lock the address out after repeated failed sign-ins', async () => {
+      const signInWithBadSignature = async () => {
+        const nonceResponse = await request(app.getHttpServer())
+          .get('/auth/nonce')
+          .query({ address });
+
+        const { nonce } = nonceResponse.body;
+
+        return request(app.getHttpServer())
+          .post('/auth/sign-in')
+          .send({
+            message: generateSiweMessage(wallet, nonce),
+            signature: 'fake-signature',
+            nonce,
+          });
+      };
+
+      for (let i = 0; i < 5; i++) {
+        const response = await signInWithBadSignature();
+        expect(response.status).toBe(HttpStatus.UNAUTHORIZED);
+      }
+
+      const lockedResponse = await signInWithBadSignature();
+
+      expect(lockedResponse.status).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(lockedResponse.body.code).toBe('SIGN_IN_LOCKED');
+      expect(lockedResponse.headers['retry-after']).toBe('60');
+    });
+
     it('should throw an error for invalid SIWE message', () => {
       return request(app.getHttpServer())
         .post('/auth/sign-in')
@@ -260,19 +498,109 @@ describe('AuthController (e2e)', () => {
 
       const refreshResponse = await request(app.getHttpServer())
         .post('/auth/refresh')
-        .set('Cookie', [`refreshToken=${refreshToken}`])
+        .set('Cookie', [
+          `refreshToken=${refreshToken}`,
+          `csrfToken=${csrfToken}`,
+        ])
+        .set('X-CSRF-Token', csrfToken)
         .send()
         .expect(HttpStatus.CREATED);
 
       expect(refreshResponse.body.accessToken).not.toBe(
         signInResponse.body.accessToken
       );
+
+      const rotatedCookies = refreshResponse.headers[
+        'set-cookie'
+      ] as unknown as string[];
+      const rotatedRefreshToken = extractCookieValue(
+        rotatedCookies,
+        'refreshToken'
+      );
+
+      expect(rotatedRefreshToken).toBeDefined();
+      expect(rotatedRefreshToken).not.toBe(refreshToken);
+
+      // The previous access token is revoked at rotation time
+      await request(app.getHttpServer())
+        .get('/user/profile')
+        .set('Authorization', `Bearer ${signInResponse.body.accessToken}`)
+        .expect(HttpStatus.UNAUTHORIZED);
+    });
+
+    it('should revoke the session when a rotated refresh token is reused', async () => {
+      const nonceResponse = await request(app.getHttpServer())
+        .get('/auth/nonce')
+        .query({ address });
+
+      const { nonce } = nonceResponse.body;
+
+      const message = generateSiweMessage(wallet, nonce);
+      const signature = await signSiweMessage(wallet, message);
+
+      const signInResponse = await request(app.getHttpServer())
+        .post('/auth/sign-in')
+        .send({
+          message,
+          signature,
+          nonce,
+        });
+
+      const cookies = signInResponse.headers[
+        'set-cookie'
+      ] as unknown as string[];
+      const refreshToken = extractCookieValue(cookies, 'refreshToken');
+
+      const refreshResponse = await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .set('Cookie', [
+          `refreshToken=${refreshToken}`,
+          `csrfToken=${csrfToken}`,
+        ])
+        .set('X-CSRF-Token', csrfToken)
+        .send()
+        .expect(HttpStatus.CREATED);
+
+      const rotatedCookies = refreshResponse.headers[
+        'set-cookie'
+      ] as unknown as string[];
+      const rotatedRefreshToken = extractCookieValue(
+        rotatedCookies,
+        'refreshToken'
+      );
+
+      // Presenting the rotated refresh token again revokes the whole family
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .set('Cookie', [
+          `refreshToken=${refreshToken}`,
+          `csrfToken=${csrfToken}`,
+        ])
+        .set('X-CSRF-Token', csrfToken)
+        .send()
+        .expect(HttpStatus.UNAUTHORIZED);
+
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .set('Cookie', [
+          `refreshToken=${rotatedRefreshToken}`,
+          `csrfToken=${csrfToken}`,
+        ])
+        .set('X-CSRF-Token', csrfToken)
+        .send()
+        .expect(HttpStatus.UNAUTHORIZED);
+
+      await request(app.getHttpServer())
+        .get('/user/profile')
+        .set('Authorization', `Bearer ${refreshResponse.body.accessToken}`)
+        .expect(HttpStatus.UNAUTHORIZED);
     });
 
     it('should throw error for invalid refresh token', async () => {
       await request(app.getHttpServer())
         .post('/auth/refresh')
-        .set('Cookie', [`refreshToken=invalid-token`])
+        .set('Cookie', [`refreshToken=invalid-token`, `csrfToken=${csrfToken}`])
+        .set('X-CSRF-Token', csrfToken)
         .send()
         .expect(HttpStatus.UNAUTHORIZED);
     });
@@ -280,16 +608,178 @@ describe('AuthController (e2e)', () => {
     it('should throw error for missing refresh token', async () => {
       await request(app.getHttpServer())
         .post('/auth/refresh')
+        .set('Cookie', [`csrfToken=${csrfToken}`])
+        .set('X-CSRF-Token', csrfToken)
         .send()
         .expect(HttpStatus.BAD_REQUEST);
     });
+
+    it('should reject a refresh without CSRF token', async () => {
+      const { refreshToken } = await signIn();
+
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .set('Cookie', [`refreshToken=${refreshToken}`])
+        .send()
+        .expect(HttpStatus.FORBIDDEN);
+
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .set('Cookie', [
+          `refreshToken=${refreshToken}`,
+          `csrfToken=${csrfToken}`,
+        ])
+        .set('X-CSRF-Token', 'forged-csrf-token')
+        .send()
+        .expect(HttpStatus.FORBIDDEN);
+    });
+
+    it('should reject a refresh from another origin', async () => {
+      const { refreshToken } = await signIn();
+
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .set('Origin', 'https://evil.example')
+        .set('Cookie', [
+          `refreshToken=${refreshToken}`,
+          `csrfToken=${csrfToken}`,
+        ])
+        .set('X-CSRF-Token', csrfToken)
+        .send()
+        .expect(HttpStatus.FORBIDDEN);
+    });
   });
 
   describe('/auth/sign-out', () => {
     it('should sign out successfully', async () => {
       await request(app.getHttpServer())
         .post('/auth/sign-out')
+        .set('Cookie', [`csrfToken=${csrfToken}`])
+        .set('X-CSRF-Token', csrfToken)
+        .expect(HttpStatus.NO_CONTENT);
+    });
+
+    it('should only sign out the current session', async () => {
+      const { accessToken: laptopAccessToken } = await signIn();
+      const { accessToken: phoneAccessToken } = await signIn();
+
+      await request(app.getHttpServer())
+        .post('/auth/sign-out')
+        .set('Cookie', [
+          `accessToken=${laptopAccessToken}`,
+          `csrfToken=${csrfToken}`,
+        ])
+        .set('X-CSRF-Token', csrfToken)
         .expect(HttpStatus.NO_CONTENT);
+
+      await request(app.getHttpServer())
+        .get('/user/profile')
+        .set('Authorization', `Bearer ${laptopAccessToken}`)
+        .expect(HttpStatus.UNAUTHORIZED);
+
+      await request(app.getHttpServer())
+        .get('/user/profile')
+        .set('Authorization', `Bearer ${phoneAccessToken}`)
+        .expect(HttpStatus.OK);
+    });
+  });
+
+  describe('/auth/sessions', () => {
+    it('should list the active sessions of the user', async () => {
+      const { accessToken } = await signIn();
+      await signIn();
+
+      const response = await request(app.getHttpServer())
+        .get('/auth/sessions')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(HttpStatus.OK);
+
+      expect(response.body).toHaveLength(2);
+      expect(response.body.filter((session) => session.current)).toHaveLength(
+        1
+      );
+      expect(response.body[0]).toEqual(
+        expect.objectContaining({
+          address,
+          userAgent: 'e2e-test-agent',
+          createdAt: expect.any(String),
+          lastRefreshedAt: null,
+        })
+      );
+    });
+
+    it('should revoke another session', async () => {
+      const { accessToken } = await signIn();
+      const { accessToken: lostDeviceAccessToken } = await signIn();
+
+      const response = await request(app.getHttpServer())
+        .get('/auth/sessions')
+        .set('Authorization', `Bearer ${lostDeviceAccessToken}`)
+        .expect(HttpStatus.OK);
+      const lostDeviceSession = response.body.find(
+        (session) => session.current
+      );
+
+      await request(app.getHttpServer())
+        .delete(`/auth/sessions/${lostDeviceSession.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(HttpStatus.NO_CONTENT);
+
+      await request(app.getHttpServer())
+        .get('/user/profile')
+        .set('Authorization', `Bearer ${lostDeviceAccessToken}`)
+        .expect(HttpStatus.UNAUTHORIZED);
+
+      await request(app.getHttpServer())
+        .get('/user/profile')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(HttpStatus.OK);
+    });
+
+    it('should return 404 for an unknown session', async () => {
+      const { accessToken } = await signIn();
+
+      await request(app.getHttpServer())
+        .delete('/auth/sessions/unknown-session-id')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(HttpStatus.NOT_FOUND);
+    });
+
+    it('should sign out everywhere', async () => {
+      const { accessToken } = await signIn();
+      const { accessToken: otherAccessToken } = await signIn();
+
+      await request(app.getHttpServer())
+        .delete('/auth/sessions')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(HttpStatus.NO_CONTENT);
+
+      await request(app.getHttpServer())
+        .get('/user/profile')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(HttpStatus.UNAUTHORIZED);
+
+      await request(app.getHttpServer())
+        .get('/user/profile')
+        .set('Authorization', `Bearer ${otherAccessToken}`)
+        .expect(HttpStatus.UNAUTHORIZED);
+    });
+
+    it('should require authentication', async () => {
+      await request(app.getHttpServer())
+        .get('/auth/sessions')
+        .expect(HttpStatus.UNAUTHORIZED);
+    });
+  });
+
+  describe('/.well-known/jwks.json', () => {
+    it('should publish the access token verification keys', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/.well-known/jwks.json')
+        .expect(HttpStatus.OK);
+
+      expect(response.body.keys).toEqual(expect.any(Array));
+      expect(response.headers['cache-control']).toBe('public, max-age=300');
     });
   });
 });
@@ -1,5 +1,6 @@
 import { Wallet } from 'ethers';
 import { SiweMessage } from 'siwe';
+import { encodeRecap, getRecapStatement, Recap } from '@/utils';
 
 const TEST_PRIVATE_KEY =
   '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
@@ -29,6 +30,27 @@ export function generateSiweMessage(
   return siweMessage.prepareMessage();
 }
 
+export function generateRecapSiweMessage(
+  wallet: Wallet,
+  nonce: string,
+  recap: Recap,
+  domain: string = 'localhost:3000'
+): string {
+  const siweMessage = new SiweMessage({
+    domain,
+    address: wallet.address,
+    statement: `Sign in with Ethereum. ${getRecapStatement(recap)}`,
+    uri: `http://${domain}`,
+    version: '1',
+    chainId: 1,
+    nonce,
+    issuedAt: new Date().toISOString(),
+    resources: [encodeRecap(recap)],
+  });
+
+  return siweMessage.prepareMessage();
+}
+
 export async function signSiweMessage(
   wallet: Wallet,
   message: string
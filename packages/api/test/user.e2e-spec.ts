@@ -11,6 +11,7 @@ import { Test } from '@nestjs/testing';
 import { AppModule } from '../src/modules/app.module';
 import { AuthorizedUserProfileService } from '@/modules/main/smart-contracts/authorized-user-profile/authorized-user-profile.service';
 import { RedisService } from '@/modules/common/redis/redis.service';
+import { EnsResolverService } from '@/modules/main/user/ens/ens-resolver.service';
 import cookieParser from 'cookie-parser';
 import {
   createTestWallet,
@@ -43,8 +44,19 @@ describe('UserController (e2e)', () => {
     updateUsername: jest.fn().mockResolvedValue(undefined),
   };
 
+  // Stub ENS instead of resolving names on mainnet
+  const mockEnsResolverService = {
+    isEnabled: jest.fn().mockReturnValue(true),
+    resolve: jest.fn().mockResolvedValue({
+      name: 'e2e-user.eth',
+      avatar: 'https://example.com/e2e-user.png',
+    }),
+  };
+
   // Mock Redis service for e2e tests with in-memory storage
   const redisStorage = new Map<string, string>();
+  const redisSetStorage = new Map<string, Set<string>>();
+  const redisWindowStorage = new Map<string, number[]>();
   const mockRedisService = {
     set: jest.fn((key: string, value: string) => {
       redisStorage.set(key, value);
@@ -53,11 +65,60 @@ describe('UserController (e2e)', () => {
     get: jest.fn((key: string) => {
       return Promise.resolve(redisStorage.get(key) || null);
     }),
+    setIfNotExists: jest.fn((key: string, value: string) => {
+      if (redisStorage.has(key)) {
+        return Promise.resolve(false);
+      }
+      redisStorage.set(key, value);
+      return Promise.resolve(true);
+    }),
+    getDelete: jest.fn((key: string) => {
+      const value = redisStorage.get(key) || null;
+      redisStorage.delete(key);
+      return Promise.resolve(value);
+    }),
     delete: jest.fn((...keys: string[]) => {
       keys.forEach((key) => redisStorage.delete(key));
       return Promise.resolve(undefined);
     }),
     keys: jest.fn().mockResolvedValue([]),
+    expire: jest.fn().mockResolvedValue(undefined),
+    increment: jest.fn((key: string) => {
+      const count = Number(redisStorage.get(key) ?? 0) + 1;
+      redisStorage.set(key, String(count));
+      return Promise.resolve(count);
+    }),
+    addToSet: jest.fn((key: string, ...members: string[]) => {
+      const set = redisSetStorage.get(key) ?? new Set<string>();
+      members.forEach((member) => set.add(member));
+      redisSetStorage.set(key, set);
+      return Promise.resolve(undefined);
+    }),
+    getSetMembers: jest.fn((key: string) => {
+      return Promise.resolve([...(redisSetStorage.get(key) ?? [])]);
+    }),
+    removeFromSet: jest.fn((key: string, ...members: string[]) => {
+      members.forEach((member) => redisSetStorage.get(key)?.delete(member));
+      return Promise.resolve(undefined);
+    }),
+    hitSlidingWindow: jest.fn(
+      (key: string, limit: number, windowMs: number) => {
+        const now = Date.now();
+        const hits = (redisWindowStorage.get(key) ?? []).filter(
+          (hit) => hit > now - windowMs
+        );
+        const allowed = hits.length < limit;
+        if (allowed) {
+          hits.push(now);
+        }
+        redisWindowStorage.set(key, hits);
+        return Promise.resolve({
+          allowed,
+          count: hits.length,
+          resetAt: hits[0] + windowMs,
+        });
+      }
+    ),
   };
 
   beforeAll(async () => {
@@ -68,6 +129,8 @@ describe('UserController (e2e)', () => {
       .useValue(mockAuthorizedUserProfileService)
       .overrideProvider(RedisService)
       .useValue(mockRedisService)
+      .overrideProvider(EnsResolverService)
+      .useValue(mockEnsResolverService)
       .compile();
 
     consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
@@ -129,10 +192,22 @@ describe('UserController (e2e)', () => {
 
       expect(response.body.id).toEqual(user?.id);
       expect(response.body.publicAddress).toEqual(user?.publicAddress);
-      expect(response.body.nonce).toEqual(user?.nonce);
       expect(response.body.username).toEqual(user?.username);
     });
 
+    it('should default the username and avatar to the ENS profile', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/user/profile')
+        .set({ authorization: `Bearer ${authTokens.accessToken}` })
+        .expect(HttpStatus.OK);
+
+      expect(mockEnsResolverService.resolve).toHaveBeenCalledWith(address);
+      expect(response.body.username).toEqual('e2e-user.eth');
+      expect(response.body.ensName).toEqual('e2e-user.eth');
+      expect(response.body.avatar).toEqual('https://example.com/e2e-user.png');
+      expect(response.body.ensResolvedAt).toBeDefined();
+    });
+
     it('should return 401 if no access token is provided', async () => {
       await request(app.getHttpServer())
         .get('/user/profile')
@@ -174,6 +249,24 @@ describe('UserController (e2e)', () => {
         .expect(HttpStatus.UNAUTHORIZED);
     });
 
+    it('should require a CSRF token for cookie-authenticated requests', async () => {
+      await request(app.getHttpServer())
+        .put('/user/profile')
+        .set('Cookie', [`accessToken=${authTokens.accessToken}`])
+        .send({ username: 'csrf-username' })
+        .expect(HttpStatus.FORBIDDEN);
+
+      await request(app.getHttpServer())
+        .put('/user/profile')
+        .set('Cookie', [
+          `accessToken=${authTokens.accessToken}`,
+          'csrfToken=e2e-csrf-token',
+        ])
+        .set('X-CSRF-Token', 'e2e-csrf-token')
+        .send({ username: 'csrf-username' })
+        .expect(HttpStatus.OK);
+    });
+
     it('should return 401 if access token is invalid', async () => {
       await request(app.getHttpServer())
         .put('/user/profile')
@@ -204,6 +297,51 @@ describe('UserController (e2e)', () => {
     });
   });
 
+  describe('/admin/users/:address/role (PUT)', () => {
+    const otherAddress = '0x1234567890123456789012345678901234567890';
+
+    afterEach(async () => {
+      await userService.update({
+        where: { publicAddress: address },
+        data: { role: 'user' },
+      });
+    });
+
+    it('should return 403 for users without the admin role', async () => {
+      await request(app.getHttpServer())
+        .put(`/admin/users/${otherAddress}/role`)
+        .set({ authorization: `Bearer ${authTokens.accessToken}` })
+        .send({ role: 'moderator' })
+        .expect(HttpStatus.FORBIDDEN);
+    });
+
+    it('should apply role changes to the next request', async () => {
+      await userService.update({
+        where: { publicAddress: address },
+        data: { role: 'admin' },
+      });
+
+      await request(app.getHttpServer())
+        .put(`/admin/users/${otherAddress}/role`)
+        .set({ authorization: `Bearer ${authTokens.accessToken}` })
+        .send({ role: 'moderator' })
+        .expect(HttpStatus.NOT_FOUND);
+    });
+
+    it('should reject unknown roles', async () => {
+      await userService.update({
+        where: { publicAddress: address },
+        data: { role: 'admin' },
+      });
+
+      await request(app.getHttpServer())
+        .put(`/admin/users/${otherAddress}/role`)
+        .set({ authorization: `Bearer ${authTokens.accessToken}` })
+        .send({ role: 'owner' })
+        .expect(HttpStatus.BAD_REQUEST);
+    });
+  });
+
   afterAll(async () => {
     await app.close();
     consoleLogSpy.mockRestore();